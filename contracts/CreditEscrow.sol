@@ -0,0 +1,212 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./GreenHydrogenCredit.sol";
+
+interface IERC20 {
+    function transfer(address to, uint256 value) external returns (bool);
+    function transferFrom(address from, address to, uint256 value) external returns (bool);
+}
+
+// Delivery-versus-payment for credit trades. The buyer's payment waits here until the seller settles:
+// one transaction moves the seller's credit to the buyer and the payment to the seller, and if either leg
+// fails neither happens. Sellers must first approve this contract as an operator on the credit contract.
+// A basket escrows several trades with one payment; they settle together once every seller has accepted.
+contract CreditEscrow {
+    enum TradeStatus { Escrowed, Settled, Refunded }
+
+    // One trade of a basket, as the buyer escrows it
+    struct Leg {
+        address seller;
+        uint256 creditId;
+        uint256 amount;
+        uint256 payment;
+        string ref;
+    }
+
+    struct Basket {
+        uint256 id;
+        address buyer;
+        uint256[] tradeIds;
+        uint256 accepted;                 // Legs whose seller has accepted
+    }
+
+    struct Trade {
+        uint256 id;
+        address buyer;
+        address seller;
+        uint256 creditId;                 // Credit the seller delivers from, re-pointed as it gets split
+        uint256 amount;                   // kg of H2 to deliver
+        uint256 payment;                  // In payment token units
+        string ref;                       // Off-chain reference, e.g. the marketplace delivery id
+        TradeStatus status;
+        uint256 deliveredCreditId;        // The buyer's credit once settled
+        uint256 createdAt;
+    }
+
+    GreenHydrogenCredit public immutable creditContract;
+    IERC20 public immutable paymentToken;
+    uint256 public nextTradeId = 1;
+    mapping(uint256 => Trade) public trades;
+    uint256 public nextBasketId = 1;
+    mapping(uint256 => Basket) private baskets;
+    mapping(uint256 => uint256) public basketOf;     // Trade id => basket id, 0 for a trade escrowed on its own
+    mapping(uint256 => bool) public accepted;        // Basket trades whose seller has accepted
+
+    event PaymentEscrowed(uint256 indexed tradeId, address indexed buyer, address indexed seller, uint256 creditId, uint256 amount, uint256 payment, string ref);
+    event TradeSettled(uint256 indexed tradeId, uint256 indexed deliveredCreditId, address indexed buyer);
+    event TradeRefunded(uint256 indexed tradeId, address indexed buyer, uint256 payment);
+    event BasketEscrowed(uint256 indexed basketId, address indexed buyer, uint256[] tradeIds, uint256 payment);
+    event TradeAccepted(uint256 indexed tradeId, uint256 indexed basketId, address indexed seller);
+
+    constructor(address credit, address token) {
+        require(credit != address(0) && token != address(0), "Invalid contract address");
+        creditContract = GreenHydrogenCredit(credit);
+        paymentToken = IERC20(token);
+    }
+
+    // Pulls the payment from the buyer, who must have approved this contract for at least `payment`.
+    function escrow(address seller, uint256 creditId, uint256 amount, uint256 payment, string calldata ref) external returns (uint256 tradeId) {
+        tradeId = _open(seller, creditId, amount, payment, ref);
+        require(paymentToken.transferFrom(msg.sender, address(this), payment), "Payment transfer failed");
+    }
+
+    // Escrows every leg with one payment of their total. No leg settles until all have been accepted by
+    // their sellers, and refunding any leg refunds the whole basket.
+    function escrowBasket(Leg[] calldata legs) external returns (uint256 basketId) {
+        require(legs.length > 0, "Basket has no legs");
+        basketId = nextBasketId++;
+        Basket storage basket = baskets[basketId];
+        basket.id = basketId;
+        basket.buyer = msg.sender;
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < legs.length; i++) {
+            uint256 tradeId = _open(legs[i].seller, legs[i].creditId, legs[i].amount, legs[i].payment, legs[i].ref);
+            basketOf[tradeId] = basketId;
+            basket.tradeIds.push(tradeId);
+            total += legs[i].payment;
+        }
+
+        require(paymentToken.transferFrom(msg.sender, address(this), total), "Payment transfer failed");
+        emit BasketEscrowed(basketId, msg.sender, basket.tradeIds, total);
+    }
+
+    // Only the seller settles, which accepts the escrowed payment. Delivers the whole credit, or splits off `amount` kg for the buyer.
+    // A basket trade is only accepted; the last of its sellers to accept delivers every leg, all or none.
+    function settle(uint256 tradeId) external returns (uint256 deliveredCreditId) {
+        Trade storage trade = trades[tradeId];
+        require(trade.status == TradeStatus.Escrowed, "Trade is not escrowed");
+        require(msg.sender == trade.seller, "Only the seller can settle");
+        uint256 basketId = basketOf[tradeId];
+        if (basketId == 0) return _deliver(tradeId);
+
+        require(!accepted[tradeId], "Trade already accepted");
+        require(_liveCredit(trade.creditId, trade.seller, trade.amount) != 0, "Seller no longer holds the credit");
+        require(creditContract.isOperator(trade.seller, address(this)), "Escrow is not an operator for the seller");
+        accepted[tradeId] = true;
+        Basket storage basket = baskets[basketId];
+        basket.accepted++;
+        emit TradeAccepted(tradeId, basketId, msg.sender);
+
+        if (basket.accepted == basket.tradeIds.length) {
+            for (uint256 i = 0; i < basket.tradeIds.length; i++) {
+                uint256 delivered = _deliver(basket.tradeIds[i]);
+                if (basket.tradeIds[i] == tradeId) deliveredCreditId = delivered;
+            }
+        }
+    }
+
+    // Returns an unsettled payment: the buyer withdraws it, or the seller declines the trade. Either unwinds a whole basket.
+    function refund(uint256 tradeId) external {
+        Trade storage trade = trades[tradeId];
+        require(trade.status == TradeStatus.Escrowed, "Trade is not escrowed");
+        require(msg.sender == trade.buyer || msg.sender == trade.seller, "Not a party to the trade");
+
+        uint256 basketId = basketOf[tradeId];
+        if (basketId == 0) return _refund(tradeId);
+        uint256[] storage tradeIds = baskets[basketId].tradeIds;
+        for (uint256 i = 0; i < tradeIds.length; i++) {
+            _refund(tradeIds[i]);
+        }
+    }
+
+    function getTrade(uint256 tradeId) external view returns (Trade memory) {
+        require(trades[tradeId].id != 0, "Trade does not exist");
+        return trades[tradeId];
+    }
+
+    function getBasket(uint256 basketId) external view returns (Basket memory) {
+        require(baskets[basketId].id != 0, "Basket does not exist");
+        return baskets[basketId];
+    }
+
+    function _open(address seller, uint256 creditId, uint256 amount, uint256 payment, string calldata ref) internal returns (uint256 tradeId) {
+        require(seller != address(0) && seller != msg.sender, "Invalid seller");
+        require(amount > 0, "Amount must be greater than 0");
+        GreenHydrogenCredit.Credit memory credit = creditContract.getCredit(creditId);
+        require(credit.owner == seller, "Seller does not hold the credit");
+        require(amount <= credit.amount, "Amount exceeds the credit");
+        uint256 source = _liveCredit(creditId, seller, amount);
+        require(source != 0, "Seller holds too little of the credit");
+
+        tradeId = nextTradeId++;
+        trades[tradeId] = Trade({
+            id: tradeId,
+            buyer: msg.sender,
+            seller: seller,
+            creditId: source,
+            amount: amount,
+            payment: payment,
+            ref: ref,
+            status: TradeStatus.Escrowed,
+            deliveredCreditId: 0,
+            createdAt: block.timestamp
+        });
+        emit PaymentEscrowed(tradeId, msg.sender, seller, source, amount, payment, ref);
+    }
+
+    // Swaps the credit for the payment; reverts, undoing both, if the credit can't be moved.
+    function _deliver(uint256 tradeId) internal returns (uint256 deliveredCreditId) {
+        Trade storage trade = trades[tradeId];
+        // Another trade settled from the same credit supersedes it; deliver from what the seller kept.
+        uint256 source = _liveCredit(trade.creditId, trade.seller, trade.amount);
+        require(source != 0, "Seller no longer holds the credit");
+        trade.creditId = source;
+        GreenHydrogenCredit.Credit memory credit = creditContract.getCredit(source);
+
+        trade.status = TradeStatus.Settled;
+        if (trade.amount == credit.amount) {
+            creditContract.transferCredit(trade.creditId, trade.buyer);
+            deliveredCreditId = trade.creditId;
+        } else {
+            deliveredCreditId = creditContract.transferPartial(trade.creditId, trade.buyer, trade.amount);
+        }
+        trade.deliveredCreditId = deliveredCreditId;
+
+        require(paymentToken.transfer(trade.seller, trade.payment), "Payment release failed");
+        emit TradeSettled(tradeId, deliveredCreditId, trade.buyer);
+    }
+
+    function _refund(uint256 tradeId) internal {
+        Trade storage trade = trades[tradeId];
+        trade.status = TradeStatus.Refunded;
+        require(paymentToken.transfer(trade.buyer, trade.payment), "Refund failed");
+        emit TradeRefunded(tradeId, trade.buyer, trade.payment);
+    }
+
+    // The credit itself, or once it has been split or merged, the first live descendant the seller holds
+    // with at least `amount` kg. Zero if there is none.
+    function _liveCredit(uint256 creditId, address seller, uint256 amount) internal view returns (uint256) {
+        GreenHydrogenCredit.Credit memory credit = creditContract.getCredit(creditId);
+        if (credit.status != GreenHydrogenCredit.CreditStatus.Superseded) {
+            return credit.owner == seller && credit.amount >= amount ? creditId : 0;
+        }
+        uint256[] memory children = creditContract.getCreditChildren(creditId);
+        for (uint256 i = 0; i < children.length; i++) {
+            uint256 live = _liveCredit(children[i], seller, amount);
+            if (live != 0) return live;
+        }
+        return 0;
+    }
+}
@@ -2,7 +2,7 @@
 pragma solidity ^0.8.20;
 
 contract GreenHydrogenCredit {
-    enum CreditStatus { Active, Retired, Suspended }
+    enum CreditStatus { Active, Retired, Suspended, Superseded }
     enum VerificationStatus { Pending, Verified, Rejected }
     
     struct Credit {
@@ -53,6 +53,14 @@ contract GreenHydrogenCredit {
     mapping(address => uint256[]) public producerCredits;
     mapping(address => uint256[]) public ownerCredits;
     
+    // Lineage of split and merged credits. Issued credits have no parents and are their own origin.
+    mapping(uint256 => uint256[]) public creditParents;
+    mapping(uint256 => uint256[]) public creditChildren;
+    mapping(uint256 => uint256) public creditOrigin;
+    
+    // Addresses an owner lets transfer their credits, e.g. a settlement escrow: owner => operator => approved
+    mapping(address => mapping(address => bool)) public isOperator;
+    
     // Constants and thresholds
     uint256 public constant MAX_CARBON_INTENSITY = 50; // gCO2/kWh threshold
     uint256 public constant MIN_VERIFICATION_COUNT = 2; // Minimum auditors needed
@@ -67,6 +75,9 @@ contract GreenHydrogenCredit {
     event CreditRetired(uint256 indexed id, address indexed owner, string reason);
     event CreditTransferred(uint256 indexed id, address indexed from, address indexed to);
     event CreditSuspended(uint256 indexed id, address indexed regulator, string reason);
+    event CreditSplit(uint256 indexed id, uint256 indexed parentId, address indexed owner, uint256 amount);
+    event CreditMerged(uint256 indexed id, uint256 indexed parentId, address indexed owner, uint256 amount);
+    event OperatorSet(address indexed owner, address indexed operator, bool approved);
     event AuditorRegistered(address indexed auditor, string name);
     event AuditorDeactivated(address indexed auditor);
     event ProductionBatchCreated(uint256 indexed batchId, address indexed producer, uint256 totalAmount);
@@ -94,6 +105,12 @@ contract GreenHydrogenCredit {
         _;
     }
     
+    modifier onlyOwnerOrOperator(uint256 id) {
+        require(credits[id].id != 0, "Credit does not exist");
+        require(msg.sender == credits[id].owner || isOperator[credits[id].owner][msg.sender], "Not credit owner");
+        _;
+    }
+    
     modifier creditExists(uint256 id) {
         require(credits[id].id != 0, "Credit does not exist");
         _;
@@ -104,6 +121,11 @@ contract GreenHydrogenCredit {
         _;
     }
     
+    modifier notExpired(uint256 id) {
+        require(!_isExpired(id), "Credit has expired");
+        _;
+    }
+    
     constructor() {
         regulator = msg.sender;
         certifier = msg.sender;
@@ -140,6 +162,8 @@ contract GreenHydrogenCredit {
     }
     
     function suspendCredit(uint256 id, string memory reason) external onlyRegulator creditExists(id) {
+        // Suspend the live descendants instead; the parent is kept only as lineage
+        require(credits[id].status != CreditStatus.Superseded, "Credit has been split or merged");
         credits[id].status = CreditStatus.Suspended;
         emit CreditSuspended(id, msg.sender, reason);
     }
@@ -184,6 +208,7 @@ contract GreenHydrogenCredit {
         
         producerCredits[producer].push(nextId);
         ownerCredits[to].push(nextId);
+        creditOrigin[nextId] = nextId;
         
         emit CreditIssued(nextId, to, producer, amount, productionDate);
         nextId++;
@@ -240,24 +265,84 @@ contract GreenHydrogenCredit {
     }
     
     // User functions
-    function transferCredit(uint256 id, address to) external onlyOwner(id) notRetired(id) {
+    function setOperator(address operator, bool approved) external {
+        require(operator != address(0) && operator != msg.sender, "Invalid operator");
+        isOperator[msg.sender][operator] = approved;
+        emit OperatorSet(msg.sender, operator, approved);
+    }
+    
+    // Operators may transfer on the owner's behalf, whole credits here and parts of one through transferPartial
+    // (the escrow delivers partial trades that way); splitting, merging and retiring stay with the owner.
+    function transferCredit(uint256 id, address to) external onlyOwnerOrOperator(id) notRetired(id) notExpired(id) {
         require(to != address(0), "Invalid recipient address");
-        require(credits[id].status == CreditStatus.Active, "Credit is not active");
-        require(credits[id].verificationStatus == VerificationStatus.Verified, "Credit not verified");
+        _requireActiveAndVerified(id);
         
-        address from = credits[id].owner;
-        credits[id].owner = to;
+        _transfer(id, to);
+    }
+    
+    // Splits off `amount` kg into a new credit for `to`; the rest stays with the sender as a second child.
+    function transferPartial(uint256 id, address to, uint256 amount) external onlyOwnerOrOperator(id) notRetired(id) notExpired(id) returns (uint256 childId) {
+        require(to != address(0), "Invalid recipient address");
+        require(amount > 0 && amount < credits[id].amount, "Partial amount must be between 0 and the credit amount");
+        _requireActiveAndVerified(id);
         
-        // Update credit arrays
-        _removeFromArray(ownerCredits[from], id);
-        ownerCredits[to].push(id);
+        uint256 remainder = credits[id].amount - amount;
+        childId = _split(id, amount);
+        _split(id, remainder);
+        _supersede(id);
+        _transfer(childId, to);
+    }
+    
+    // Replaces a credit with children of the given amounts, which must add up to the whole credit.
+    function splitCredit(uint256 id, uint256[] memory amounts) external onlyOwner(id) notRetired(id) notExpired(id) returns (uint256[] memory childIds) {
+        require(amounts.length >= 2, "Split needs at least two amounts");
+        _requireActiveAndVerified(id);
         
-        emit CreditTransferred(id, from, to);
+        uint256 total = 0;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            require(amounts[i] > 0, "Amount must be greater than 0");
+            total += amounts[i];
+        }
+        require(total == credits[id].amount, "Amounts must add up to the credit amount");
+        
+        childIds = new uint256[](amounts.length);
+        for (uint256 i = 0; i < amounts.length; i++) {
+            childIds[i] = _split(id, amounts[i]);
+        }
+        _supersede(id);
     }
     
-    function retireCredit(uint256 id, string memory reason) external onlyOwner(id) notRetired(id) {
-        require(credits[id].status == CreditStatus.Active, "Credit is not active");
-        require(credits[id].verificationStatus == VerificationStatus.Verified, "Credit not verified");
+    // Recombines credits of the same origin, e.g. parts bought separately from one issued credit.
+    function mergeCredits(uint256[] memory ids) external returns (uint256 mergedId) {
+        require(ids.length >= 2, "Merge needs at least two credits");
+        
+        uint256 origin = creditOrigin[ids[0]];
+        uint256 total = 0;
+        for (uint256 i = 0; i < ids.length; i++) {
+            uint256 id = ids[i];
+            require(credits[id].id != 0, "Credit does not exist");
+            require(msg.sender == credits[id].owner, "Not credit owner");
+            require(!credits[id].isRetired, "Credit has been retired");
+            require(!_isExpired(id), "Credit has expired");
+            _requireActiveAndVerified(id);
+            require(creditOrigin[id] == origin, "Credits must share the same origin");
+            for (uint256 j = 0; j < i; j++) {
+                require(ids[j] != id, "Duplicate credit");
+            }
+            total += credits[id].amount;
+        }
+        
+        mergedId = _deriveCredit(ids[0], total);
+        for (uint256 i = 0; i < ids.length; i++) {
+            creditParents[mergedId].push(ids[i]);
+            creditChildren[ids[i]].push(mergedId);
+            emit CreditMerged(mergedId, ids[i], msg.sender, credits[ids[i]].amount);
+            _supersede(ids[i]);
+        }
+    }
+    
+    function retireCredit(uint256 id, string memory reason) external onlyOwner(id) notRetired(id) notExpired(id) {
+        _requireActiveAndVerified(id);
         
         credits[id].isRetired = true;
         credits[id].retirementDate = block.timestamp;
@@ -291,9 +376,19 @@ contract GreenHydrogenCredit {
         return productionBatches[batchId];
     }
     
+    function getCreditParents(uint256 id) external view returns (uint256[] memory) {
+        require(credits[id].id != 0, "Credit does not exist");
+        return creditParents[id];
+    }
+    
+    function getCreditChildren(uint256 id) external view returns (uint256[] memory) {
+        require(credits[id].id != 0, "Credit does not exist");
+        return creditChildren[id];
+    }
+    
     function isCreditExpired(uint256 id) external view returns (bool) {
         require(credits[id].id != 0, "Credit does not exist");
-        return (block.timestamp - credits[id].productionDate) > (CREDIT_EXPIRY_DAYS * 1 days);
+        return _isExpired(id);
     }
     
     function getTotalCreditsByProducer(address producer) external view returns (uint256 total) {
@@ -308,6 +403,51 @@ contract GreenHydrogenCredit {
     }
     
     // Internal helper functions
+    function _requireActiveAndVerified(uint256 id) internal view {
+        require(credits[id].status == CreditStatus.Active, "Credit is not active");
+        require(credits[id].verificationStatus == VerificationStatus.Verified, "Credit not verified");
+    }
+    
+    function _transfer(uint256 id, address to) internal {
+        address from = credits[id].owner;
+        credits[id].owner = to;
+        
+        // Update credit arrays
+        _removeFromArray(ownerCredits[from], id);
+        ownerCredits[to].push(id);
+        
+        emit CreditTransferred(id, from, to);
+    }
+    
+    // A new credit for the parent's owner carrying its provenance, certification and metadata.
+    function _deriveCredit(uint256 parentId, uint256 amount) internal returns (uint256 id) {
+        id = nextId++;
+        credits[id] = credits[parentId];
+        credits[id].id = id;
+        credits[id].amount = amount;
+        creditOrigin[id] = creditOrigin[parentId];
+        
+        producerCredits[credits[id].producer].push(id);
+        ownerCredits[credits[id].owner].push(id);
+    }
+    
+    function _split(uint256 parentId, uint256 amount) internal returns (uint256 childId) {
+        childId = _deriveCredit(parentId, amount);
+        creditParents[childId].push(parentId);
+        creditChildren[parentId].push(childId);
+        emit CreditSplit(childId, parentId, credits[parentId].owner, amount);
+    }
+    
+    // The parent stays on record for lineage but leaves its owner's holdings.
+    function _supersede(uint256 id) internal {
+        credits[id].status = CreditStatus.Superseded;
+        _removeFromArray(ownerCredits[credits[id].owner], id);
+    }
+    
+    function _isExpired(uint256 id) internal view returns (bool) {
+        return (block.timestamp - credits[id].productionDate) > (CREDIT_EXPIRY_DAYS * 1 days);
+    }
+    
     function _removeFromArray(uint256[] storage array, uint256 value) internal {
         for (uint256 i = 0; i < array.length; i++) {
             if (array[i] == value) {
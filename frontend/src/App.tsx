@@ -12,6 +12,11 @@ import Login from "./pages/Login";
 import ProducerDashboard from "./pages/ProducerDashboard";
 import RegulatorDashboard from "./pages/RegulatorDashboard";
 import BuyerDashboard from "./pages/BuyerDashboard";
+import Portfolio from "./pages/Portfolio";
+import CertifierDashboard from "./pages/CertifierDashboard";
+import AuditorDashboard from "./pages/AuditorDashboard";
+import ProductionBatches from "./pages/ProductionBatches";
+import Facilities from "./pages/Facilities";
 import PublicLedger from "./pages/PublicLedger";
 import NotFound from "./pages/NotFound";
 import ProtectedRoute from "./components/ProtectedRoute";
@@ -49,6 +54,27 @@ const App = () => (
                         <BuyerDashboard />
                       </ProtectedRoute>
                     } />
+                    <Route path="/portfolio" element={
+                      <ProtectedRoute requiredRole="buyer">
+                        <Portfolio />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/certifier" element={
+                      <ProtectedRoute requiredRole={["certifier", "regulator"]}>
+                        <CertifierDashboard />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/auditor" element={
+                      <ProtectedRoute requiredRole="auditor">
+                        <AuditorDashboard />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/facilities" element={
+                      <ProtectedRoute requiredRole={["producer", "regulator", "certifier", "auditor"]}>
+                        <Facilities />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/batches" element={<ProductionBatches />} />
                     <Route path="/public" element={<PublicLedger />} />
                     {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                     <Route path="*" element={<NotFound />} />
@@ -4,7 +4,7 @@ import { useAuth } from '@/contexts/AuthContext';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: string;
+  requiredRole?: string | string[];
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole }) => {
@@ -24,12 +24,18 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  if (requiredRole && user.role !== requiredRole) {
+  const allowedRoles = requiredRole === undefined ? [] : ([] as string[]).concat(requiredRole);
+
+  // user.role is verified by the server against contract state, not picked by the user
+  if (allowedRoles.length > 0 && !allowedRoles.includes(user.role)) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
           <h2 className="text-2xl font-bold text-destructive mb-2">Access Denied</h2>
           <p className="text-muted-foreground">You don't have permission to access this page.</p>
+          <p className="text-sm text-muted-foreground mt-2">
+            Wallet <span className="font-mono">{user.address}</span> holds the <span className="font-medium">{user.role}</span> role on-chain; this page requires <span className="font-medium">{allowedRoles.join(' or ')}</span>.
+          </p>
         </div>
       </div>
     );
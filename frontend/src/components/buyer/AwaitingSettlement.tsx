@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Lock } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { describeContractError, getWalletSigner } from '@/services/contract';
+import { isHeld, paymentFor, unpaidKg, type Delivery, type EscrowPayment } from '@/services/deliveries';
+import { createSettlementClient, payForDelivery } from '@/services/settlement';
+import { formatKg } from '@shared/quantity';
+
+interface AwaitingSettlementProps {
+  deliveries: Delivery[];
+  // Payment token symbol
+  symbol: string;
+  // Called after a payment or refund, successful or not, to re-read deliveries and balance
+  onChange: () => void;
+}
+
+// The buyer's side of the escrow: pay for what is still unpaid, or refund what the producer has not settled.
+export const AwaitingSettlement: React.FC<AwaitingSettlementProps> = ({ deliveries, symbol, onChange }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [payingId, setPayingId] = useState<string | null>(null);
+
+  // Pays into escrow for what is still unpaid, e.g. after a bid fill or a partly paid purchase
+  const payDelivery = async (delivery: Delivery) => {
+    if (!user) return;
+    setPayingId(delivery.deliveryId);
+    try {
+      const client = createSettlementClient(await getWalletSigner(user.address));
+      const result = await payForDelivery(client, delivery);
+      toast({
+        title: "Payment Escrowed",
+        description: `${result.payment.toFixed(2)} ${symbol} is held in escrow until ${delivery.producerName} settles ${formatKg(result.kg)}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Payment Failed",
+        description: describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setPayingId(null);
+      onChange();
+    }
+  };
+
+  // Either party can unwind an escrow the producer has not settled yet; for a basket, that refunds every leg
+  const refundEscrow = async (escrow: EscrowPayment) => {
+    if (!user) return;
+    setPayingId(`trade-${escrow.tradeId}`);
+    try {
+      const client = createSettlementClient(await getWalletSigner(user.address));
+      await client.refund(escrow.tradeId);
+      toast({
+        title: "Payment Refunded",
+        description: escrow.basketId
+          ? `The basket's payment was returned to your wallet`
+          : `${escrow.payment.toFixed(2)} ${symbol} returned to your wallet`,
+      });
+    } catch (error) {
+      toast({
+        title: "Refund Failed",
+        description: describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setPayingId(null);
+      onChange();
+    }
+  };
+
+  if (deliveries.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Lock className="h-5 w-5 mr-2 text-buyer" />
+          Awaiting Settlement
+        </CardTitle>
+        <CardDescription>
+          Purchases and bid fills the producer has yet to settle. Pay into escrow for what is unpaid before the
+          payment window closes, or the purchase lapses; an escrowed payment can be refunded until the producer
+          settles it. Refunding part of a basket refunds all of it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Trade</TableHead>
+              <TableHead>Producer</TableHead>
+              <TableHead>Owed</TableHead>
+              <TableHead>Escrowed</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.map((delivery) => {
+              const unpaid = unpaidKg(delivery);
+              return (
+                <TableRow key={delivery.deliveryId}>
+                  <TableCell>
+                    <div className="font-mono">{delivery.txId}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(delivery.createdAt), 'MMM dd, yyyy')}
+                    </div>
+                  </TableCell>
+                  <TableCell>{delivery.producerName}</TableCell>
+                  <TableCell>
+                    {formatKg(delivery.kg - delivery.deliveredKg)}
+                    {unpaid > 0 && (
+                      <span className="block text-xs text-muted-foreground">
+                        {formatKg(unpaid)} unpaid ({paymentFor(delivery, unpaid).toFixed(2)} {symbol})
+                      </span>
+                    )}
+                    {delivery.paymentDueAt && (
+                      <span className="block text-xs text-warning">
+                        Pay by {format(new Date(delivery.paymentDueAt), 'MMM dd, HH:mm')} or the purchase lapses
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    {delivery.escrows.filter(isHeld).map((escrow) => (
+                      <div key={escrow.tradeId} className="flex items-center gap-2 text-sm">
+                        <span>
+                          {formatKg(escrow.kg)} for {escrow.payment.toFixed(2)} {symbol}
+                          {escrow.status === 'accepted' && (
+                            <span className="block text-xs text-muted-foreground">Accepted; settles with the rest of the basket</span>
+                          )}
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => refundEscrow(escrow)}
+                          disabled={payingId !== null}
+                        >
+                          Refund
+                        </Button>
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    {unpaid > 0 && (
+                      <Button
+                        size="sm"
+                        onClick={() => payDelivery(delivery)}
+                        disabled={payingId !== null}
+                        className="bg-buyer hover:bg-buyer/90 text-buyer-foreground"
+                      >
+                        {payingId === delivery.deliveryId ? 'Paying...' : 'Pay into Escrow'}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Briefcase } from 'lucide-react';
+import { format } from 'date-fns';
+import { describeLineage, CreditStatus, VerificationStatus } from '@/services/contract';
+import {
+  formatMoney,
+  groupHoldings,
+  portfolioTotals,
+  type HoldingGrouping,
+  type PortfolioHolding,
+  type PortfolioPricing,
+  type PortfolioTotals,
+} from '@/services/portfolio';
+import { ExpiryBadge } from '@/components/shared/ExpiryBadge';
+import { formatKg } from '@shared/quantity';
+
+interface HoldingsTableProps {
+  holdings: PortfolioHolding[];
+  pricing: PortfolioPricing | null;
+  isLoading: boolean;
+}
+
+const statusBadge = ({ credit }: PortfolioHolding) => {
+  if (credit.isRetired) return <Badge variant="outline">Retired</Badge>;
+  if (credit.status === CreditStatus.Suspended) return <Badge variant="destructive">Suspended</Badge>;
+  if (credit.verificationStatus === VerificationStatus.Verified) {
+    return <Badge className="bg-producer/10 text-producer">Verified</Badge>;
+  }
+  return <Badge variant="secondary">{VerificationStatus[credit.verificationStatus]}</Badge>;
+};
+
+// Columns after the kg column: acquisition, cost basis, mark value
+const TotalsCells: React.FC<{ totals: PortfolioTotals }> = ({ totals }) => (
+  <>
+    <TableCell>
+      <div>{formatKg(totals.heldKg)} held</div>
+      <div className="text-xs text-muted-foreground">
+        {formatKg(totals.retiredKg)} retired · {formatKg(totals.expiringKg)} expiring
+      </div>
+    </TableCell>
+    <TableCell />
+    <TableCell className="font-mono">{formatMoney(totals.costBasis)}</TableCell>
+    <TableCell className="font-mono">{formatMoney(totals.markValue)}</TableCell>
+  </>
+);
+
+// Every credit held, with its price and value, optionally grouped with subtotals.
+export const HoldingsTable: React.FC<HoldingsTableProps> = ({ holdings, pricing, isLoading }) => {
+  const [grouping, setGrouping] = useState<HoldingGrouping>('none');
+  const groups = groupHoldings(holdings, grouping);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Holdings</CardTitle>
+          <CardDescription>
+            {pricing?.markPrice != null
+              ? `Marked at $${pricing.markPrice.toFixed(2)} per credit, the volume-weighted price of trades over the last ${pricing.markWindowDays} days (or the latest trade's when there were none).`
+              : 'No marketplace trades yet to mark holdings against.'}
+            {' '}Credits bought on the marketplace show what you paid; parts you split or merged keep that price.
+          </CardDescription>
+        </div>
+        <div className="w-48">
+          <Label htmlFor="grouping">Group By</Label>
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as HoldingGrouping)}>
+            <SelectTrigger id="grouping">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No grouping</SelectItem>
+              <SelectItem value="source">Source</SelectItem>
+              <SelectItem value="vintage">Vintage</SelectItem>
+              <SelectItem value="producer">Producer</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {holdings.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Briefcase className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>{isLoading ? 'Loading holdings...' : 'Your wallet holds no credits yet'}</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Credit</TableHead>
+                <TableHead>Producer</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Carbon Intensity</TableHead>
+                <TableHead>Vintage</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Acquired</TableHead>
+                <TableHead>Cost</TableHead>
+                <TableHead>Market Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map(group => (
+                <React.Fragment key={group.label}>
+                  {grouping !== 'none' && (
+                    <TableRow className="bg-muted/50 font-medium">
+                      <TableCell colSpan={7}>
+                        {group.label}
+                        <span className="ml-2 text-sm text-muted-foreground">
+                          {group.holdings.length} credit{group.holdings.length === 1 ? '' : 's'}
+                        </span>
+                      </TableCell>
+                      <TotalsCells totals={portfolioTotals(group.holdings)} />
+                    </TableRow>
+                  )}
+                  {group.holdings.map(holding => {
+                    const { credit, acquisition } = holding;
+                    return (
+                      <TableRow key={credit.id}>
+                        <TableCell>
+                          <div className="font-mono">#{credit.id}</div>
+                          <div className="text-xs text-muted-foreground">{describeLineage(credit)}</div>
+                        </TableCell>
+                        <TableCell>{credit.producerName}</TableCell>
+                        <TableCell>
+                          <div>{credit.renewableSource || '—'}</div>
+                          <div className="text-xs text-muted-foreground">{credit.location}</div>
+                        </TableCell>
+                        <TableCell>{credit.carbonIntensity} gCO2/kWh</TableCell>
+                        <TableCell>{format(credit.productionDate, 'MMM dd, yyyy')}</TableCell>
+                        <TableCell>{statusBadge(holding)}</TableCell>
+                        <TableCell>
+                          {credit.isRetired && credit.retirementDate
+                            ? <span className="text-sm text-muted-foreground">Retired {format(credit.retirementDate, 'MMM dd, yyyy')}</span>
+                            : <ExpiryBadge expiresAt={holding.expiresAt} />}
+                        </TableCell>
+                        <TableCell>{formatKg(credit.amount)}</TableCell>
+                        <TableCell>
+                          {acquisition ? (
+                            <>
+                              <div className="font-mono">${acquisition.pricePerCredit.toFixed(2)}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {format(new Date(acquisition.acquiredAt), 'MMM dd, yyyy')}
+                                {acquisition.txId && ` · ${acquisition.txId}`}
+                              </div>
+                            </>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Not bought on the marketplace</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono">{formatMoney(holding.costBasis)}</TableCell>
+                        <TableCell className="font-mono">{formatMoney(holding.markValue)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={7}>Total</TableCell>
+                <TotalsCells totals={portfolioTotals(holdings)} />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Briefcase, Award, Clock, TrendingUp } from 'lucide-react';
+import { formatMoney, type PortfolioTotals } from '@/services/portfolio';
+import { formatKg } from '@shared/quantity';
+
+interface PortfolioSummaryProps {
+  totals: PortfolioTotals;
+  // Market value less purchase price, over the holdings that have both
+  gain: number;
+}
+
+// Headline figures for the whole portfolio.
+export const PortfolioSummary: React.FC<PortfolioSummaryProps> = ({ totals, gain }) => (
+  <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Held</p>
+            <p className="text-3xl font-bold text-buyer">{formatKg(totals.heldKg)}</p>
+          </div>
+          <Briefcase className="h-8 w-8 text-buyer" />
+        </div>
+      </CardContent>
+    </Card>
+
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Retired</p>
+            <p className="text-3xl font-bold text-foreground">{formatKg(totals.retiredKg)}</p>
+          </div>
+          <Award className="h-8 w-8 text-producer" />
+        </div>
+      </CardContent>
+    </Card>
+
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Expiring within 30 days</p>
+            <p className="text-3xl font-bold text-warning">{formatKg(totals.expiringKg)}</p>
+          </div>
+          <Clock className="h-8 w-8 text-warning" />
+        </div>
+      </CardContent>
+    </Card>
+
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Market Value</p>
+            <p className="text-3xl font-bold text-foreground">{formatMoney(totals.markValue)}</p>
+            <p className={`text-xs ${gain < 0 ? 'text-destructive' : 'text-producer'}`}>
+              {gain < 0 ? '-' : '+'}{formatMoney(Math.abs(gain))} on purchase price
+            </p>
+          </div>
+          <TrendingUp className="h-8 w-8 text-buyer" />
+        </div>
+      </CardContent>
+    </Card>
+  </div>
+);
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Calculator, ShoppingCart } from 'lucide-react';
+import { useProcurementPlanner } from '@/hooks/use-procurement-planner';
+import { useToast } from '@/hooks/use-toast';
+import { RENEWABLE_SOURCES, type RenewableSource } from '@/services/facilities';
+import { isExecutable, type ProcurementTrade } from '@/services/procurement';
+import { formatCredits } from '@shared/quantity';
+
+interface ProcurementPlannerProps {
+  // Payment token balance, null while unknown
+  balance: number | null;
+  // Payment token symbol
+  symbol: string;
+  // Called with the basket's trades once it is paid into escrow
+  onBought: (trades: ProcurementTrade[]) => void;
+  // Called after a purchase attempt, successful or not, to re-read offers, deliveries and balance
+  onChange: () => void;
+}
+
+// Plans the cheapest basket of offers for a quantity, budget and constraints, and buys it as a whole.
+export const ProcurementPlanner: React.FC<ProcurementPlannerProps> = ({ balance, symbol, onBought, onChange }) => {
+  const { toast } = useToast();
+  const { plan, isPlanning, basketStep, planBasket, buyBasket } = useProcurementPlanner({ balance, symbol, onBought, onChange });
+  const [planCredits, setPlanCredits] = useState('');
+  const [planBudget, setPlanBudget] = useState('');
+  const [planSources, setPlanSources] = useState<RenewableSource[]>([]);
+  const [planMaxIntensity, setPlanMaxIntensity] = useState('');
+  const [planVintageFrom, setPlanVintageFrom] = useState('');
+  const [planVintageTo, setPlanVintageTo] = useState('');
+  // Percent of the basket
+  const [planMaxShare, setPlanMaxShare] = useState('');
+
+  const planProcurement = () => {
+    const credits = Number(planCredits);
+    const budget = Number(planBudget);
+    const share = planMaxShare ? Number(planMaxShare) : undefined;
+    if (!Number.isInteger(credits) || credits <= 0 || !(budget > 0) || (share !== undefined && !(share > 0 && share <= 100))) {
+      toast({
+        title: "Error",
+        description: "Enter a whole number of credits, a budget, and a producer share between 1 and 100%",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    planBasket({
+      credits,
+      budget,
+      renewableSources: planSources.length > 0 ? planSources : undefined,
+      maxCarbonIntensity: planMaxIntensity ? Number(planMaxIntensity) : undefined,
+      vintageFrom: planVintageFrom || undefined,
+      vintageTo: planVintageTo || undefined,
+      maxProducerShare: share === undefined ? undefined : share / 100,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Calculator className="h-5 w-5 mr-2 text-buyer" />
+          Procurement Planner
+        </CardTitle>
+        <CardDescription>
+          Finds the cheapest combination of offers for a quantity within your budget. Every credit behind a chosen
+          offer meets the constraints. The basket is bought as a whole: if any offer has changed since planning,
+          nothing is bought.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="planCredits">Credits (1 credit = 1 kg H2)</Label>
+            <Input
+              id="planCredits"
+              type="number"
+              min="1"
+              step="1"
+              value={planCredits}
+              onChange={(e) => setPlanCredits(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="planBudget">Budget ($)</Label>
+            <Input
+              id="planBudget"
+              type="number"
+              min="0"
+              step="0.01"
+              value={planBudget}
+              onChange={(e) => setPlanBudget(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="planMaxIntensity">Max Carbon Intensity (gCO2/kWh)</Label>
+            <Input
+              id="planMaxIntensity"
+              type="number"
+              min="0"
+              step="0.1"
+              placeholder="Any"
+              value={planMaxIntensity}
+              onChange={(e) => setPlanMaxIntensity(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="planMaxShare">Max Share per Producer (%)</Label>
+            <Input
+              id="planMaxShare"
+              type="number"
+              min="1"
+              max="100"
+              placeholder="100"
+              value={planMaxShare}
+              onChange={(e) => setPlanMaxShare(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="planVintageFrom">Produced From</Label>
+            <Input
+              id="planVintageFrom"
+              type="date"
+              value={planVintageFrom}
+              onChange={(e) => setPlanVintageFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="planVintageTo">Produced To</Label>
+            <Input
+              id="planVintageTo"
+              type="date"
+              value={planVintageTo}
+              onChange={(e) => setPlanVintageTo(e.target.value)}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Label>Renewable Sources</Label>
+            <div className="flex flex-wrap gap-4 pt-2">
+              {RENEWABLE_SOURCES.map(source => (
+                <label key={source} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={planSources.includes(source)}
+                    onCheckedChange={(checked) => setPlanSources(prev =>
+                      checked ? [...prev, source] : prev.filter(s => s !== source)
+                    )}
+                  />
+                  {source}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <Button onClick={planProcurement} disabled={isPlanning || basketStep !== null} variant="outline">
+          {isPlanning ? 'Planning...' : 'Find Cheapest Basket'}
+        </Button>
+
+        {plan && (
+          <div className="space-y-4">
+            {plan.legs.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Offer</TableHead>
+                    <TableHead>Producer</TableHead>
+                    <TableHead>Credits</TableHead>
+                    <TableHead>Price per Credit</TableHead>
+                    <TableHead>Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.legs.map((leg) => (
+                    <TableRow key={leg.offerId}>
+                      <TableCell className="font-mono">{leg.offerId}</TableCell>
+                      <TableCell>{leg.producerName}</TableCell>
+                      <TableCell>{formatCredits(leg.credits)}</TableCell>
+                      <TableCell className="font-mono">${leg.pricePerCredit.toFixed(2)}</TableCell>
+                      <TableCell className="font-mono">${leg.cost.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <div className="flex flex-wrap items-center justify-between gap-4 rounded-lg bg-muted p-4">
+              <div className="space-y-1 text-sm">
+                <div>
+                  {formatCredits(plan.credits)} for <span className="font-mono font-semibold">${plan.cost.toFixed(2)}</span>
+                  {plan.credits > 0 && (
+                    <span className="text-muted-foreground"> (avg ${(plan.cost / plan.credits).toFixed(2)} per credit)</span>
+                  )}
+                </div>
+                {plan.shortfall > 0 && (
+                  <div className="text-destructive">
+                    Suitable offers are {formatCredits(plan.shortfall)} short of {formatCredits(plan.request.credits)}
+                  </div>
+                )}
+                {!plan.withinBudget && (
+                  <div className="text-destructive">
+                    The cheapest basket is ${(plan.cost - plan.request.budget).toFixed(2)} over your budget
+                  </div>
+                )}
+                {basketStep !== null && (
+                  <div className="text-muted-foreground">
+                    {basketStep === 'reserve' ? 'Reserving every leg...' : basketStep === 'approve' ? 'Approving the payment...' : 'Paying the basket into escrow...'}
+                  </div>
+                )}
+              </div>
+              <Button
+                onClick={buyBasket}
+                disabled={!isExecutable(plan) || basketStep !== null}
+                className="bg-buyer hover:bg-buyer/90 text-buyer-foreground"
+              >
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                {basketStep !== null ? 'Buying...' : 'Buy Basket'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Send } from 'lucide-react';
+import { isAxiosError } from 'axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { api } from '@/services/api';
+import { createCreditClient, describeContractError, getWalletSigner } from '@/services/contract';
+import { isHeld, paymentFor, unpaidKg, type Delivery, type EscrowPayment } from '@/services/deliveries';
+import { createSettlementClient, ESCROW_ADDRESS } from '@/services/settlement';
+import { formatKg } from '@shared/quantity';
+
+interface PendingDeliveriesProps {
+  deliveries: Delivery[];
+  // Called after an escrow is settled or declined
+  onResolved: () => void;
+}
+
+// The producer's side of the escrow: settle paid trades, or decline them to refund the buyer.
+export const PendingDeliveries: React.FC<PendingDeliveriesProps> = ({ deliveries, onResolved }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [settlingTradeId, setSettlingTradeId] = useState<number | null>(null);
+  const [escrowApproved, setEscrowApproved] = useState<boolean | null>(null);
+  const [isAuthorizingEscrow, setIsAuthorizingEscrow] = useState(false);
+  const [releasingId, setReleasingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    createCreditClient().isOperator(user.address, ESCROW_ADDRESS)
+      .then(setEscrowApproved)
+      .catch(error => console.error('Failed to read escrow approval:', error));
+  }, [user]);
+
+  // One-time approval letting the escrow move credits when a trade settles
+  const authorizeEscrow = async () => {
+    if (!user) return;
+    setIsAuthorizingEscrow(true);
+    try {
+      const client = createCreditClient(await getWalletSigner(user.address));
+      await client.setOperator(ESCROW_ADDRESS, true);
+      setEscrowApproved(true);
+      toast({
+        title: "Escrow Authorized",
+        description: "You can now settle escrowed payments for your marketplace sales",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsAuthorizingEscrow(false);
+    }
+  };
+
+  // Settling swaps the credit for the escrowed payment in one transaction; declining refunds the buyer.
+  // A basket trade is only accepted until every producer in the basket has settled, then all settle at once.
+  const resolveEscrow = async (delivery: Delivery, escrow: EscrowPayment, action: 'settle' | 'refund') => {
+    if (!user) return;
+    setSettlingTradeId(escrow.tradeId);
+    try {
+      const client = createSettlementClient(await getWalletSigner(user.address));
+      if (action === 'settle') {
+        const result = await client.settle(escrow.tradeId);
+        toast(result.deliveredCreditId === undefined ? {
+          title: "Trade Accepted",
+          description: `${formatKg(escrow.kg)} for ${delivery.buyerName} settles once the basket's other producers accept`,
+        } : {
+          title: "Trade Settled",
+          description: `Credit #${result.deliveredCreditId} (${formatKg(escrow.kg)}) went to ${delivery.buyerName} for ${escrow.payment.toFixed(2)} mUSD in block ${result.blockNumber}`,
+        });
+      } else {
+        await client.refund(escrow.tradeId);
+        toast({
+          title: "Payment Refunded",
+          description: `Returned ${escrow.payment.toFixed(2)} mUSD to ${delivery.buyerName}`,
+        });
+      }
+      onResolved();
+    } catch (error) {
+      toast({
+        title: action === 'settle' ? "Settlement Failed" : "Refund Failed",
+        description: describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSettlingTradeId(null);
+    }
+  };
+
+  // A buyer who let the payment window pass no longer holds the credits
+  const releaseDelivery = async (delivery: Delivery) => {
+    setReleasingId(delivery.deliveryId);
+    try {
+      await api.releaseDelivery(delivery.deliveryId);
+      toast({
+        title: "Reservation Released",
+        description: `${formatKg(delivery.kg)} went back on offer ${delivery.offerId}`,
+      });
+      onResolved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (isAxiosError(error) ? error.response?.data?.error : undefined) ?? "Failed to release the reservation",
+        variant: "destructive",
+      });
+    } finally {
+      setReleasingId(null);
+    }
+  };
+
+  if (deliveries.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Send className="h-5 w-5 mr-2 text-producer" />
+          Pending Deliveries
+        </CardTitle>
+        <CardDescription>
+          Marketplace sales awaiting settlement. Buyers pay into escrow; settling swaps your credit for the
+          payment in one transaction, splitting credits larger than what was paid for. Trades bought in a basket
+          settle together once every producer in it has accepted; declining one refunds the whole basket. Sales
+          left unpaid past the payment window can be released back onto their offer.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {escrowApproved === false && (
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-warning/30 bg-warning/10 p-3">
+            <p className="text-sm">
+              Authorize the settlement escrow to move your credits before settling any payment.
+            </p>
+            <Button
+              size="sm"
+              onClick={authorizeEscrow}
+              disabled={isAuthorizingEscrow}
+              className="bg-producer hover:bg-producer/90"
+            >
+              {isAuthorizingEscrow ? 'Authorizing...' : 'Authorize Escrow'}
+            </Button>
+          </div>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Trade</TableHead>
+              <TableHead>Buyer</TableHead>
+              <TableHead>Owed</TableHead>
+              <TableHead>Escrowed Payments</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.map((delivery) => {
+              const owedKg = delivery.kg - delivery.deliveredKg;
+              const escrowed = delivery.escrows.filter(isHeld);
+              return (
+                <TableRow key={delivery.deliveryId}>
+                  <TableCell>
+                    <div className="font-mono">{delivery.txId}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(delivery.createdAt), 'MMM dd, yyyy')} • {delivery.offerId}
+                    </div>
+                  </TableCell>
+                  <TableCell>{delivery.buyerName}</TableCell>
+                  <TableCell>
+                    {formatKg(owedKg)}
+                    {delivery.deliveredKg > 0 && (
+                      <span className="block text-xs text-muted-foreground">of {formatKg(delivery.kg)}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="space-y-2">
+                    {escrowed.map((escrow) => {
+                      const expected = paymentFor(delivery, escrow.kg);
+                      const underpaid = escrow.payment + 0.005 < expected;
+                      return (
+                        <div key={escrow.tradeId} className="flex items-center justify-between gap-3">
+                          <div className="text-sm">
+                            <span className="font-mono">#{escrow.creditId}</span> • {formatKg(escrow.kg)} for{' '}
+                            <span className={underpaid ? 'text-destructive' : ''}>{escrow.payment.toFixed(2)} mUSD</span>
+                            {underpaid && (
+                              <span className="block text-xs text-destructive">
+                                Expected {expected.toFixed(2)} mUSD
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex gap-2">
+                            {escrow.status === 'accepted' ? (
+                              <span className="text-xs text-muted-foreground">Accepted; waiting for the basket</span>
+                            ) : (
+                              <Button
+                                size="sm"
+                                onClick={() => resolveEscrow(delivery, escrow, 'settle')}
+                                disabled={!escrowApproved || settlingTradeId !== null}
+                                className="bg-producer hover:bg-producer/90"
+                              >
+                                {settlingTradeId === escrow.tradeId ? 'Settling...' : escrow.basketId ? 'Accept' : 'Settle'}
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => resolveEscrow(delivery, escrow, 'refund')}
+                              disabled={settlingTradeId !== null}
+                            >
+                              Decline
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {unpaidKg(delivery) > 0 && (
+                      <span className="block text-sm text-muted-foreground">
+                        Awaiting payment for {formatKg(unpaidKg(delivery))}
+                      </span>
+                    )}
+                    {delivery.paymentDueAt && (
+                      new Date(delivery.paymentDueAt) <= new Date() ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => releaseDelivery(delivery)}
+                          disabled={releasingId !== null}
+                        >
+                          {releasingId === delivery.deliveryId ? 'Releasing...' : 'Release Unpaid Reservation'}
+                        </Button>
+                      ) : (
+                        <span className="block text-xs text-muted-foreground">
+                          Lapses {format(new Date(delivery.paymentDueAt), 'MMM dd, HH:mm')} unless paid
+                        </span>
+                      )
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { UserPlus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { isAddress } from 'ethers';
+import { isAxiosError } from 'axios';
+import { useToast } from '@/hooks/use-toast';
+import { api } from '@/services/api';
+import type { ProducerRegistration } from '@/services/producers';
+
+// Wallets hold no credits before their first approved report, so the regulator admits new producers here.
+export const ProducerRegistrations: React.FC = () => {
+  const { toast } = useToast();
+  const [registrations, setRegistrations] = useState<ProducerRegistration[]>([]);
+  const [address, setAddress] = useState('');
+  const [name, setName] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    loadRegistrations();
+  }, []);
+
+  const loadRegistrations = async () => {
+    try {
+      const response = await api.getProducerRegistrations();
+      setRegistrations(response.data);
+    } catch (error) {
+      console.error('Failed to load producer registrations:', error);
+    }
+  };
+
+  const register = async () => {
+    setIsProcessing(true);
+    try {
+      const response = await api.registerProducer({ address: address.trim(), name: name.trim() });
+      setRegistrations(prev => [response.data, ...prev]);
+      setAddress('');
+      setName('');
+      toast({
+        title: "Success",
+        description: `${response.data.name} can now sign in as a producer`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (isAxiosError(error) ? error.response?.data?.error : undefined) ?? "Failed to register producer",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const revoke = async (registration: ProducerRegistration) => {
+    setIsProcessing(true);
+    try {
+      await api.revokeProducerRegistration(registration.address);
+      setRegistrations(prev => prev.filter(r => r.address !== registration.address));
+      toast({
+        title: "Success",
+        description: `Revoked ${registration.name}'s producer registration`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (isAxiosError(error) ? error.response?.data?.error : undefined) ?? "Failed to revoke registration",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-regulator">
+          <UserPlus className="h-5 w-5 mr-2" />
+          Producer Registrations
+        </CardTitle>
+        <CardDescription>
+          Registered wallets sign in as producers before they hold any credits; wallets holding credits are producers regardless
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-4 items-end">
+          <div>
+            <Label htmlFor="producer-address">Wallet Address</Label>
+            <Input
+              id="producer-address"
+              placeholder="0x…"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              className="font-mono"
+            />
+          </div>
+          <div>
+            <Label htmlFor="producer-name">Producer Name</Label>
+            <Input id="producer-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <Button
+            className="bg-regulator hover:bg-regulator/90"
+            onClick={register}
+            disabled={isProcessing || !isAddress(address.trim()) || !name.trim()}
+          >
+            Register
+          </Button>
+        </div>
+
+        {registrations.length === 0 ? (
+          <p className="text-center py-4 text-sm text-muted-foreground">No registered producers</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Producer</TableHead>
+                <TableHead>Registered</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {registrations.map((registration) => (
+                <TableRow key={registration.address}>
+                  <TableCell>
+                    <div className="font-medium">{registration.name}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{registration.address}</div>
+                  </TableCell>
+                  <TableCell>{format(new Date(registration.registeredAt), 'MMM dd, yyyy')}</TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="outline" onClick={() => revoke(registration)} disabled={isProcessing}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
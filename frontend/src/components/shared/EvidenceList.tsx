@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronUp, FileText, Image as ImageIcon, X } from 'lucide-react';
+import { api } from '@/services/api';
+import { formatFileSize, type EvidenceFile, type EvidenceRef } from '@/services/evidence';
+
+interface EvidenceListProps {
+  files: (EvidenceRef | EvidenceFile)[];
+  // Show an expandable inline preview for each file
+  preview?: boolean;
+  onRemove?: (sha256: string) => void;
+}
+
+const EvidencePreview: React.FC<{ file: EvidenceRef }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [type, setType] = useState('');
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    api.getEvidence(file.sha256)
+      .then((response) => {
+        objectUrl = URL.createObjectURL(response.data);
+        setType(response.data.type);
+        setUrl(objectUrl);
+      })
+      .catch((error) => {
+        console.error('Failed to load evidence:', error);
+        setFailed(true);
+      });
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file.sha256]);
+
+  if (failed) return <p className="text-sm text-destructive">Could not load this file.</p>;
+  if (!url) return <p className="text-sm text-muted-foreground">Loading preview...</p>;
+
+  return type === 'application/pdf' ? (
+    <iframe src={url} title={file.name} className="w-full h-96 rounded border" />
+  ) : (
+    <img src={url} alt={file.name} className="max-h-96 mx-auto rounded border" />
+  );
+};
+
+export const EvidenceList: React.FC<EvidenceListProps> = ({ files, preview, onRemove }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-2">
+      {files.map((file) => (
+        <div key={file.sha256} className="border rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center min-w-0">
+              {'type' in file && file.type !== 'application/pdf'
+                ? <ImageIcon className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+                : <FileText className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />}
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {file.name}
+                  {'size' in file && (
+                    <span className="text-muted-foreground font-normal"> • {formatFileSize(file.size)}</span>
+                  )}
+                </p>
+                <p className="text-xs font-mono text-muted-foreground truncate" title={file.sha256}>
+                  SHA-256 {file.sha256}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center shrink-0">
+              {preview && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setExpanded(expanded === file.sha256 ? null : file.sha256)}
+                >
+                  {expanded === file.sha256 ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </Button>
+              )}
+              {onRemove && (
+                <Button variant="ghost" size="sm" onClick={() => onRemove(file.sha256)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          {preview && expanded === file.sha256 && <EvidencePreview file={file} />}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { daysUntilExpiry, describeExpiry, EXPIRY_WARNING_DAYS, hasExpired } from '@shared/expiry';
+
+interface ExpiryBadgeProps {
+  expiresAt: Date | string;
+}
+
+// Red once expired, amber inside the widest warning window, otherwise just the date.
+export const ExpiryBadge: React.FC<ExpiryBadgeProps> = ({ expiresAt }) => {
+  const date = format(new Date(expiresAt), 'MMM dd, yyyy');
+
+  if (hasExpired(expiresAt)) {
+    return <Badge variant="destructive" title={`Expired ${date}`}>{describeExpiry(expiresAt)}</Badge>;
+  }
+  if (daysUntilExpiry(expiresAt) <= Math.max(...EXPIRY_WARNING_DAYS)) {
+    return <Badge className="bg-warning text-warning-foreground" title={`Expires ${date}`}>{describeExpiry(expiresAt)}</Badge>;
+  }
+  return <Badge variant="outline" title={describeExpiry(expiresAt)}>{date}</Badge>;
+};
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Clock } from 'lucide-react';
+import { api } from '@/services/api';
+import type { CreditExpiryNotification } from '@/services/expiry';
+import { formatKg } from '@shared/quantity';
+import { ExpiryBadge } from './ExpiryBadge';
+
+// Unread expiry warnings from the server's sweep; renders nothing when there are none.
+export const ExpiryNotices: React.FC = () => {
+  const [notifications, setNotifications] = useState<CreditExpiryNotification[]>([]);
+
+  useEffect(() => {
+    api.getNotifications({ unread: true })
+      .then(response => setNotifications(response.data))
+      .catch(error => console.error('Failed to load notifications:', error));
+  }, []);
+
+  const dismiss = async (notificationId: string) => {
+    try {
+      await api.markNotificationRead(notificationId);
+      setNotifications(prev => prev.filter(n => n.notificationId !== notificationId));
+    } catch (error) {
+      console.error('Failed to mark notification read:', error);
+    }
+  };
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <Card className="border-warning">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Clock className="h-5 w-5 mr-2 text-warning" />
+          Expiring Credits
+        </CardTitle>
+        <CardDescription>
+          Credits expire 365 days after production and can no longer be transferred or retired.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {notifications.map(n => (
+          <div key={n.notificationId} className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-mono font-medium">Credit #{n.creditId}</span>
+                <span className="text-sm text-muted-foreground">{formatKg(n.amount)}</span>
+                <ExpiryBadge expiresAt={n.expiresAt} />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Within {n.windowDays} day{n.windowDays === 1 ? '' : 's'} of expiry on {format(new Date(n.expiresAt), 'MMM dd, yyyy')}
+              </p>
+            </div>
+            <Button size="sm" variant="ghost" onClick={() => dismiss(n.notificationId)}>
+              Dismiss
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
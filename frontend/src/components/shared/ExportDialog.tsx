@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download } from 'lucide-react';
+import { exportFormats, type ExportColumn, type ExportFormat } from '@/services/export';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  columns: ExportColumn[];
+  onExport: (format: ExportFormat, columns: string[]) => Promise<void> | void;
+  buttonClassName?: string;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  columns,
+  onExport,
+  buttonClassName,
+}) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [selected, setSelected] = useState<string[]>(() => columns.map(c => c.key));
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, key] : prev.filter(k => k !== key));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // Keep the table's column order regardless of the order they were ticked in
+      await onExport(exportFormat, columns.map(c => c.key).filter(key => selected.includes(key)));
+      onOpenChange(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Format</Label>
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exportFormats.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Columns</Label>
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setSelected(selected.length === columns.length ? [] : columns.map(c => c.key))}
+              >
+                {selected.length === columns.length ? 'Clear all' : 'Select all'}
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {columns.map(column => (
+                <label key={column.key} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={selected.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <span>{column.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            The export uses the filters currently applied. Timestamps are written in ISO 8601 (UTC).
+          </p>
+
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || selected.length === 0}
+            className={buttonClassName ?? 'w-full'}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,23 +1,8 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { 
-  Dialog, 
-  DialogContent, 
-  DialogHeader, 
-  DialogTitle, 
-  DialogTrigger 
-} from '@/components/ui/dialog';
-import { 
-  Select, 
-  SelectContent, 
-  SelectItem, 
-  SelectTrigger, 
-  SelectValue 
-} from '@/components/ui/select';
 import { Search, User, Moon, Sun, Atom } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useToast } from '@/hooks/use-toast';
 import { motion } from 'framer-motion';
 
 interface HeaderProps {
@@ -25,12 +10,8 @@ interface HeaderProps {
 }
 
 export const Header: React.FC<HeaderProps> = ({ onSearch }) => {
-  const { user, login, logout } = useAuth();
-  const { toast } = useToast();
+  const { user, logout } = useAuth();
   const [isDarkMode, setIsDarkMode] = useState(false);
-  const [loginOpen, setLoginOpen] = useState(false);
-  const [username, setUsername] = useState('');
-  const [selectedRole, setSelectedRole] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
 
   const toggleDarkMode = () => {
@@ -39,34 +20,6 @@ export const Header: React.FC<HeaderProps> = ({ onSearch }) => {
     localStorage.setItem('darkMode', (!isDarkMode).toString());
   };
 
-  const handleLogin = async () => {
-    if (!username || !selectedRole) {
-      toast({
-        title: "Error",
-        description: "Please enter username and select a role",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      await login(username, selectedRole);
-      setLoginOpen(false);
-      setUsername('');
-      setSelectedRole('');
-      toast({
-        title: "Success",
-        description: `Logged in as ${selectedRole}`,
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Login failed. Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (onSearch) {
@@ -79,6 +32,8 @@ export const Header: React.FC<HeaderProps> = ({ onSearch }) => {
       case 'producer': return 'text-producer';
       case 'buyer': return 'text-buyer';
       case 'regulator': return 'text-regulator';
+      case 'certifier': return 'text-certifier';
+      case 'auditor': return 'text-auditor';
       case 'public': return 'text-public';
       default: return 'text-foreground';
     }
@@ -132,7 +87,7 @@ export const Header: React.FC<HeaderProps> = ({ onSearch }) => {
           {/* User Actions */}
           {user ? (
             <div className="flex items-center space-x-2">
-              <span className={`font-medium ${getRoleColor(user.role)}`}>
+              <span className={`font-medium ${getRoleColor(user.role)}`} title={user.address}>
                 {user.name}
               </span>
               <span className="text-sm text-muted-foreground">
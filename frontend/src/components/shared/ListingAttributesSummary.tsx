@@ -0,0 +1,39 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import type { ListingAttributes } from '@/services/listings';
+
+const formatVintage = ({ from, to }: NonNullable<ListingAttributes['vintage']>) =>
+  from === to ? from : `${from} – ${to}`;
+
+// Source, region, intensity and vintage of the credits behind a listing, for a table cell.
+export const ListingAttributesSummary: React.FC<{ attributes: ListingAttributes }> = ({ attributes }) => {
+  const { renewableSources, locations, carbonIntensity, vintage, incomplete } = attributes;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-1">
+        {renewableSources.map(source => (
+          <Badge key={source} variant="outline">{source}</Badge>
+        ))}
+        {incomplete && (
+          <Badge variant="outline" className="text-muted-foreground" title="Some credits have no recorded source or intensity">
+            Unrecorded
+          </Badge>
+        )}
+      </div>
+      {locations.length > 0 && (
+        <div className="text-xs text-muted-foreground">{locations.join(', ')}</div>
+      )}
+      {carbonIntensity && (
+        <div className="text-xs text-muted-foreground">
+          {carbonIntensity.min === carbonIntensity.max
+            ? `${carbonIntensity.min} gCO2/kWh`
+            : `${carbonIntensity.min}–${carbonIntensity.max} gCO2/kWh (avg ${carbonIntensity.average.toFixed(1)})`}
+        </div>
+      )}
+      {vintage && (
+        <div className="text-xs text-muted-foreground">Vintage {formatVintage(vintage)}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RENEWABLE_SOURCES, type RenewableSource } from '@/services/facilities';
+import type { ListingFilters } from '@/services/listings';
+
+interface ListingFilterFieldsProps {
+  filters: ListingFilters;
+  onChange: (filters: ListingFilters) => void;
+  regions: string[];
+}
+
+// Source, region, intensity and vintage filters over the credits behind marketplace listings.
+export const ListingFilterFields: React.FC<ListingFilterFieldsProps> = ({ filters, onChange, regions }) => {
+  const set = <K extends keyof ListingFilters>(key: K, value: ListingFilters[K]) =>
+    onChange({ ...filters, [key]: value });
+
+  return (
+    <>
+      <div>
+        <Label htmlFor="listingSource">Renewable Source</Label>
+        <Select value={filters.source} onValueChange={(value) => set('source', value as RenewableSource | 'any')}>
+          <SelectTrigger id="listingSource">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any source</SelectItem>
+            {RENEWABLE_SOURCES.map(source => (
+              <SelectItem key={source} value={source}>{source}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor="listingRegion">Region</Label>
+        <Select value={filters.region} onValueChange={(value) => set('region', value)}>
+          <SelectTrigger id="listingRegion">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any region</SelectItem>
+            {regions.map(region => (
+              <SelectItem key={region} value={region}>{region}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label>Carbon Intensity (gCO2/kWh)</Label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min="0"
+            step="0.1"
+            placeholder="Min"
+            value={filters.minIntensity}
+            onChange={(e) => set('minIntensity', e.target.value)}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.1"
+            placeholder="Max"
+            value={filters.maxIntensity}
+            onChange={(e) => set('maxIntensity', e.target.value)}
+          />
+        </div>
+      </div>
+      <div>
+        <Label>Vintage</Label>
+        <div className="flex gap-2">
+          <Input
+            type="date"
+            aria-label="Produced from"
+            value={filters.vintageFrom}
+            onChange={(e) => set('vintageFrom', e.target.value)}
+          />
+          <Input
+            type="date"
+            aria-label="Produced to"
+            value={filters.vintageTo}
+            onChange={(e) => set('vintageTo', e.target.value)}
+          />
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Gauge } from 'lucide-react';
+import { MAX_CARBON_INTENSITY } from '@/services/contract';
+import type { MeterSummary as Summary } from '@/services/evidence';
+import { formatKg } from '@shared/quantity';
+import { cn } from '@/lib/utils';
+
+interface MeterSummaryProps {
+  summary: Summary;
+  name?: string;
+}
+
+const number = (value: number, digits = 1) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+// Production volume and carbon intensity derived from a meter data upload
+export const MeterSummary: React.FC<MeterSummaryProps> = ({ summary, name }) => {
+  const stats = [
+    { label: 'H2 produced', value: formatKg(summary.h2Kg) },
+    { label: 'Energy used', value: `${number(summary.energyKwh)} kWh` },
+    { label: 'Renewable', value: `${number(summary.renewableKwh)} kWh` },
+    { label: 'Grid share', value: `${number(summary.gridShare * 100)}%` },
+    { label: 'Specific consumption', value: `${number(summary.specificConsumption)} kWh/kg` },
+    { label: 'Carbon intensity', value: `${summary.carbonIntensity} gCO2/kWh` },
+  ];
+
+  return (
+    <div
+      className={cn(
+        'border rounded-lg p-3 space-y-3',
+        summary.exceedsThreshold && 'border-destructive/50 bg-destructive/5',
+      )}
+    >
+      <div className="flex items-center text-sm">
+        <Gauge className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+        <span className="font-medium truncate">{name ?? 'Meter data'}</span>
+        <span className="text-muted-foreground ml-auto shrink-0 pl-2">
+          {summary.intervals} intervals • {format(new Date(summary.periodStart), 'MMM dd, yyyy HH:mm')} –{' '}
+          {format(new Date(summary.periodEnd), 'MMM dd, yyyy HH:mm')}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {stats.map(({ label, value }) => (
+          <div key={label}>
+            <p className="text-xs text-muted-foreground">{label}</p>
+            <p className="text-sm font-medium">{value}</p>
+          </div>
+        ))}
+      </div>
+      {summary.exceedsThreshold && (
+        <p className="flex items-center text-sm text-destructive">
+          <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+          Carbon intensity is above the {MAX_CARBON_INTENSITY} gCO2/kWh limit; this report cannot be approved.
+        </p>
+      )}
+    </div>
+  );
+};
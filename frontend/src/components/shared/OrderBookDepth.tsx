@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BookOpen } from 'lucide-react';
+import { api } from '@/services/api';
+import type { DepthLevel, OrderBook } from '@/services/orders';
+import { formatAmount } from '@shared/quantity';
+
+interface OrderBookDepthProps {
+  // Bump to reload, e.g. after placing a bid
+  refreshKey?: number;
+  // Price levels shown per side
+  levels?: number;
+}
+
+const DepthSide: React.FC<{ title: string; rows: DepthLevel[]; barClass: string; priceClass: string }> = ({ title, rows, barClass, priceClass }) => {
+  const max = Math.max(...rows.map(r => r.credits), 1);
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-2">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Price</TableHead>
+            <TableHead className="text-right">Credits</TableHead>
+            <TableHead className="text-right">Orders</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={3} className="text-center text-muted-foreground">No orders</TableCell>
+            </TableRow>
+          ) : rows.map(level => (
+            <TableRow key={level.price}>
+              <TableCell className={`relative font-medium ${priceClass}`}>
+                <div
+                  className={`absolute inset-y-1 left-0 rounded-r ${barClass}`}
+                  style={{ width: `${(level.credits / max) * 100}%` }}
+                />
+                <span className="relative">${level.price}</span>
+              </TableCell>
+              <TableCell className="text-right">{formatAmount(level.credits, 'credit')}</TableCell>
+              <TableCell className="text-right text-muted-foreground">{level.orders}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+// Aggregated bids and asks per price level, best prices first.
+export const OrderBookDepth: React.FC<OrderBookDepthProps> = ({ refreshKey = 0, levels = 8 }) => {
+  const [book, setBook] = useState<OrderBook>({ bids: [], asks: [] });
+
+  useEffect(() => {
+    api.getOrderBook()
+      .then(response => setBook(response.data))
+      .catch(error => console.error('Failed to load order book:', error));
+  }, [refreshKey]);
+
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <BookOpen className="h-5 w-5 mr-2 text-public" />
+          Order Book
+        </CardTitle>
+        <CardDescription>
+          {bestBid !== undefined && bestAsk !== undefined
+            ? `Best bid $${bestBid}/credit, best ask $${bestAsk}/credit`
+            : 'Buyer bids and producer offers by price level'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <DepthSide title="Bids" rows={book.bids.slice(0, levels)} barClass="bg-buyer/10" priceClass="text-buyer" />
+        <DepthSide title="Asks" rows={book.asks.slice(0, levels)} barClass="bg-producer/10" priceClass="text-producer" />
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { CheckCircle2, Circle, Clock, Loader2, XCircle } from 'lucide-react';
+import type { SettlementStep } from '@/services/settlement';
+
+const steps: { step: SettlementStep; label: string; detail: string }[] = [
+  { step: 'reserve', label: 'Reserve', detail: 'Record the trade and reserve the credits' },
+  { step: 'approve', label: 'Approve', detail: 'Allow the escrow to take the payment' },
+  { step: 'escrow', label: 'Escrow', detail: 'Move the payment into escrow' },
+  { step: 'settle', label: 'Settlement', detail: 'The producer swaps the credits for the payment in one transaction' },
+];
+
+interface SettlementStepsProps {
+  // The step in progress; earlier ones are done
+  current: SettlementStep;
+  failed?: boolean;
+}
+
+// Progress through a delivery-versus-payment purchase. Settlement is the producer's, so it shows as waiting.
+export const SettlementSteps: React.FC<SettlementStepsProps> = ({ current, failed = false }) => {
+  const currentIndex = steps.findIndex(s => s.step === current);
+
+  return (
+    <ol className="space-y-2">
+      {steps.map(({ step, label, detail }, index) => {
+        const icon =
+          index < currentIndex ? <CheckCircle2 className="h-4 w-4 text-producer" /> :
+          index > currentIndex ? <Circle className="h-4 w-4 text-muted-foreground" /> :
+          failed ? <XCircle className="h-4 w-4 text-destructive" /> :
+          step === 'settle' ? <Clock className="h-4 w-4 text-warning" /> :
+          <Loader2 className="h-4 w-4 animate-spin text-buyer" />;
+        return (
+          <li key={step} className="flex items-start gap-2">
+            <span className="mt-0.5">{icon}</span>
+            <div>
+              <div className={`text-sm font-medium ${index > currentIndex ? 'text-muted-foreground' : ''}`}>{label}</div>
+              <div className="text-xs text-muted-foreground">{detail}</div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -17,9 +17,15 @@ import {
   Shield,
   ShoppingCart,
   FileText,
-  BarChart3
+  BarChart3,
+  BadgeCheck,
+  ClipboardCheck,
+  Layers,
+  MapPin,
+  Briefcase
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePaymentBalance } from '@/hooks/use-payment-balance';
 import { motion } from 'framer-motion';
 
 const navigationItems = [
@@ -27,7 +33,7 @@ const navigationItems = [
     title: 'Marketplace',
     url: '/',
     icon: Store,
-    roles: ['public', 'producer', 'buyer', 'regulator'],
+    roles: ['public', 'producer', 'buyer', 'regulator', 'certifier', 'auditor'],
     color: 'text-public'
   },
   {
@@ -44,6 +50,21 @@ const navigationItems = [
     roles: ['regulator'],
     color: 'text-regulator'
   },
+  {
+    title: 'Certifier Dashboard',
+    url: '/certifier',
+    icon: BadgeCheck,
+    // The contract's onlyCertifier modifier also admits the regulator
+    roles: ['certifier', 'regulator'],
+    color: 'text-certifier'
+  },
+  {
+    title: 'Auditor Dashboard',
+    url: '/auditor',
+    icon: ClipboardCheck,
+    roles: ['auditor'],
+    color: 'text-auditor'
+  },
   {
     title: 'Buyer Dashboard',
     url: '/buyer',
@@ -51,11 +72,32 @@ const navigationItems = [
     roles: ['buyer'],
     color: 'text-buyer'
   },
+  {
+    title: 'Portfolio',
+    url: '/portfolio',
+    icon: Briefcase,
+    roles: ['buyer'],
+    color: 'text-buyer'
+  },
+  {
+    title: 'Facilities',
+    url: '/facilities',
+    icon: MapPin,
+    roles: ['producer', 'regulator', 'certifier', 'auditor'],
+    color: 'text-producer'
+  },
+  {
+    title: 'Production Batches',
+    url: '/batches',
+    icon: Layers,
+    roles: ['public', 'producer', 'buyer', 'regulator', 'certifier', 'auditor'],
+    color: 'text-auditor'
+  },
   {
     title: 'Public Ledger',
     url: '/public',
     icon: FileText,
-    roles: ['public', 'producer', 'buyer', 'regulator'],
+    roles: ['public', 'producer', 'buyer', 'regulator', 'certifier', 'auditor'],
     color: 'text-muted-foreground'
   }
 ];
@@ -64,6 +106,7 @@ export const AppSidebar: React.FC = () => {
   const { state } = useSidebar();
   const collapsed = state === "collapsed";
   const { user } = useAuth();
+  const { balance, symbol } = usePaymentBalance(user?.role === 'buyer' ? user.address : undefined);
   const location = useLocation();
   const currentPath = location.pathname;
 
@@ -132,10 +175,10 @@ export const AppSidebar: React.FC = () => {
                   <span className="text-muted-foreground">Credits:</span>
                   <span className="font-medium">{user.credits || 0}</span>
                 </div>
-                {user.budget && (
+                {user.role === 'buyer' && balance !== null && (
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Budget:</span>
-                    <span className="font-medium">${user.budget}</span>
+                    <span className="text-muted-foreground">Balance:</span>
+                    <span className="font-medium">{balance.toFixed(2)} {symbol}</span>
                   </div>
                 )}
                 <div className="flex justify-between text-sm">
@@ -144,6 +187,8 @@ export const AppSidebar: React.FC = () => {
                     user.role === 'producer' ? 'text-producer' :
                     user.role === 'buyer' ? 'text-buyer' :
                     user.role === 'regulator' ? 'text-regulator' :
+                    user.role === 'certifier' ? 'text-certifier' :
+                    user.role === 'auditor' ? 'text-auditor' :
                     'text-public'
                   }`}>
                     {user.role}
@@ -1,20 +1,30 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import axios from 'axios';
+import { api } from '@/services/api';
+import { getWalletSigner } from '@/services/contract';
 
 export interface User {
   id: string;
-  role: 'producer' | 'buyer' | 'regulator' | 'public';
+  address: string;
+  role: 'producer' | 'buyer' | 'regulator' | 'certifier' | 'auditor' | 'public';
   name: string;
   email?: string;
   company?: string;
   credits?: number;
-  budget?: number;
+}
+
+export interface SignInOptions {
+  name?: string;
+  email?: string;
+  company?: string;
+  // Hardhat node account used when no browser wallet is injected.
+  localAccount?: number;
 }
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (username: string, role: string, email?: string, company?: string) => Promise<void>;
+  login: (options?: SignInOptions) => Promise<User>;
   logout: () => void;
   loading: boolean;
 }
@@ -34,54 +44,71 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const clearSession = () => {
+    setUser(null);
+    setToken(null);
+    localStorage.removeItem('token');
+    localStorage.removeItem('user');
+    delete axios.defaults.headers.common['Authorization'];
+  };
+
+  // Restore the session from the server so the role always reflects current chain state
   useEffect(() => {
     const storedToken = localStorage.getItem('token');
-    const storedUser = localStorage.getItem('user');
-    
-    if (storedToken && storedUser) {
-      setToken(storedToken);
-      setUser(JSON.parse(storedUser));
-      axios.defaults.headers.common['Authorization'] = `Bearer ${storedToken}`;
+    if (!storedToken) {
+      setLoading(false);
+      return;
     }
-    setLoading(false);
+
+    axios.defaults.headers.common['Authorization'] = `Bearer ${storedToken}`;
+    api.getSession()
+      .then((response) => {
+        setToken(storedToken);
+        setUser(response.data);
+        localStorage.setItem('user', JSON.stringify(response.data));
+      })
+      .catch((error) => {
+        console.error('Session restore failed:', error);
+        clearSession();
+      })
+      .finally(() => setLoading(false));
   }, []);
 
-  const login = async (username: string, role: string, email?: string, company?: string) => {
+  const login = async ({ name, email, company, localAccount }: SignInOptions = {}) => {
     try {
-      // Mock login - pure JavaScript implementation
-      await new Promise(resolve => setTimeout(resolve, 500)); // Simulate API delay
-      
-      const mockToken = `mock-jwt-token-${Date.now()}`;
-      const mockUser: User = {
-        id: `${role}-${Date.now()}`,
-        role: role as User['role'],
-        name: username,
-        email: email || `${username}@example.com`,
-        company: company || `${username} Company`,
-        credits: role === 'producer' ? Math.floor(Math.random() * 200) + 50 : 
-                 role === 'buyer' ? Math.floor(Math.random() * 100) + 10 : 0,
-        budget: role === 'buyer' ? Math.floor(Math.random() * 10000) + 1000 : undefined
-      };
-      
-      setToken(mockToken);
-      setUser(mockUser);
-      
-      localStorage.setItem('token', mockToken);
-      localStorage.setItem('user', JSON.stringify(mockUser));
-      
-      axios.defaults.headers.common['Authorization'] = `Bearer ${mockToken}`;
+      const signer = await getWalletSigner(localAccount);
+      const address = await signer.getAddress();
+
+      const challenge = await api.getSignInChallenge(address);
+      const signature = await signer.signMessage(challenge.data.message);
+
+      const response = await api.login({
+        address,
+        signature,
+        name: name || undefined,
+        email: email || undefined,
+        company: company || undefined,
+      });
+      const { token: newToken, user: newUser } = response.data as { token: string; user: User };
+
+      setToken(newToken);
+      setUser(newUser);
+
+      localStorage.setItem('token', newToken);
+      localStorage.setItem('user', JSON.stringify(newUser));
+
+      axios.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
+      return newUser;
     } catch (error) {
       console.error('Login failed:', error);
       throw error;
     }
   };
 
+  // Signed out locally even if the server can't be reached; the session then lapses on its own
   const logout = () => {
-    setUser(null);
-    setToken(null);
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    delete axios.defaults.headers.common['Authorization'];
+    if (token) api.logout(token).catch(error => console.error('Failed to end the session on the server:', error));
+    clearSession();
   };
 
   return (
@@ -89,4 +116,4 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       {children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,633 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace CreditEscrow {
+  export type LegStruct = {
+    seller: AddressLike;
+    creditId: BigNumberish;
+    amount: BigNumberish;
+    payment: BigNumberish;
+    ref: string;
+  };
+
+  export type LegStructOutput = [
+    seller: string,
+    creditId: bigint,
+    amount: bigint,
+    payment: bigint,
+    ref: string
+  ] & {
+    seller: string;
+    creditId: bigint;
+    amount: bigint;
+    payment: bigint;
+    ref: string;
+  };
+
+  export type BasketStruct = {
+    id: BigNumberish;
+    buyer: AddressLike;
+    tradeIds: BigNumberish[];
+    accepted: BigNumberish;
+  };
+
+  export type BasketStructOutput = [
+    id: bigint,
+    buyer: string,
+    tradeIds: bigint[],
+    accepted: bigint
+  ] & { id: bigint; buyer: string; tradeIds: bigint[]; accepted: bigint };
+
+  export type TradeStruct = {
+    id: BigNumberish;
+    buyer: AddressLike;
+    seller: AddressLike;
+    creditId: BigNumberish;
+    amount: BigNumberish;
+    payment: BigNumberish;
+    ref: string;
+    status: BigNumberish;
+    deliveredCreditId: BigNumberish;
+    createdAt: BigNumberish;
+  };
+
+  export type TradeStructOutput = [
+    id: bigint,
+    buyer: string,
+    seller: string,
+    creditId: bigint,
+    amount: bigint,
+    payment: bigint,
+    ref: string,
+    status: bigint,
+    deliveredCreditId: bigint,
+    createdAt: bigint
+  ] & {
+    id: bigint;
+    buyer: string;
+    seller: string;
+    creditId: bigint;
+    amount: bigint;
+    payment: bigint;
+    ref: string;
+    status: bigint;
+    deliveredCreditId: bigint;
+    createdAt: bigint;
+  };
+}
+
+export interface CreditEscrowInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "accepted"
+      | "basketOf"
+      | "creditContract"
+      | "escrow"
+      | "escrowBasket"
+      | "getBasket"
+      | "getTrade"
+      | "nextBasketId"
+      | "nextTradeId"
+      | "paymentToken"
+      | "refund"
+      | "settle"
+      | "trades"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BasketEscrowed"
+      | "PaymentEscrowed"
+      | "TradeAccepted"
+      | "TradeRefunded"
+      | "TradeSettled"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "accepted",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "basketOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "creditContract",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "escrow",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "escrowBasket",
+    values: [CreditEscrow.LegStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBasket",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTrade",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextBasketId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextTradeId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "paymentToken",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settle",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trades",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "accepted", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "basketOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "creditContract",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "escrow", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "escrowBasket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getBasket", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getTrade", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "nextBasketId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "nextTradeId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "paymentToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "refund", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "settle", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "trades", data: BytesLike): Result;
+}
+
+export namespace BasketEscrowedEvent {
+  export type InputTuple = [
+    basketId: BigNumberish,
+    buyer: AddressLike,
+    tradeIds: BigNumberish[],
+    payment: BigNumberish
+  ];
+  export type OutputTuple = [
+    basketId: bigint,
+    buyer: string,
+    tradeIds: bigint[],
+    payment: bigint
+  ];
+  export interface OutputObject {
+    basketId: bigint;
+    buyer: string;
+    tradeIds: bigint[];
+    payment: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentEscrowedEvent {
+  export type InputTuple = [
+    tradeId: BigNumberish,
+    buyer: AddressLike,
+    seller: AddressLike,
+    creditId: BigNumberish,
+    amount: BigNumberish,
+    payment: BigNumberish,
+    ref: string
+  ];
+  export type OutputTuple = [
+    tradeId: bigint,
+    buyer: string,
+    seller: string,
+    creditId: bigint,
+    amount: bigint,
+    payment: bigint,
+    ref: string
+  ];
+  export interface OutputObject {
+    tradeId: bigint;
+    buyer: string;
+    seller: string;
+    creditId: bigint;
+    amount: bigint;
+    payment: bigint;
+    ref: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TradeAcceptedEvent {
+  export type InputTuple = [
+    tradeId: BigNumberish,
+    basketId: BigNumberish,
+    seller: AddressLike
+  ];
+  export type OutputTuple = [tradeId: bigint, basketId: bigint, seller: string];
+  export interface OutputObject {
+    tradeId: bigint;
+    basketId: bigint;
+    seller: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TradeRefundedEvent {
+  export type InputTuple = [
+    tradeId: BigNumberish,
+    buyer: AddressLike,
+    payment: BigNumberish
+  ];
+  export type OutputTuple = [tradeId: bigint, buyer: string, payment: bigint];
+  export interface OutputObject {
+    tradeId: bigint;
+    buyer: string;
+    payment: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TradeSettledEvent {
+  export type InputTuple = [
+    tradeId: BigNumberish,
+    deliveredCreditId: BigNumberish,
+    buyer: AddressLike
+  ];
+  export type OutputTuple = [
+    tradeId: bigint,
+    deliveredCreditId: bigint,
+    buyer: string
+  ];
+  export interface OutputObject {
+    tradeId: bigint;
+    deliveredCreditId: bigint;
+    buyer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CreditEscrow extends BaseContract {
+  connect(runner?: ContractRunner | null): CreditEscrow;
+  waitForDeployment(): Promise<this>;
+
+  interface: CreditEscrowInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  accepted: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  basketOf: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  creditContract: TypedContractMethod<[], [string], "view">;
+
+  escrow: TypedContractMethod<
+    [
+      seller: AddressLike,
+      creditId: BigNumberish,
+      amount: BigNumberish,
+      payment: BigNumberish,
+      ref: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  escrowBasket: TypedContractMethod<
+    [legs: CreditEscrow.LegStruct[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getBasket: TypedContractMethod<
+    [basketId: BigNumberish],
+    [CreditEscrow.BasketStructOutput],
+    "view"
+  >;
+
+  getTrade: TypedContractMethod<
+    [tradeId: BigNumberish],
+    [CreditEscrow.TradeStructOutput],
+    "view"
+  >;
+
+  nextBasketId: TypedContractMethod<[], [bigint], "view">;
+
+  nextTradeId: TypedContractMethod<[], [bigint], "view">;
+
+  paymentToken: TypedContractMethod<[], [string], "view">;
+
+  refund: TypedContractMethod<[tradeId: BigNumberish], [void], "nonpayable">;
+
+  settle: TypedContractMethod<[tradeId: BigNumberish], [bigint], "nonpayable">;
+
+  trades: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        id: bigint;
+        buyer: string;
+        seller: string;
+        creditId: bigint;
+        amount: bigint;
+        payment: bigint;
+        ref: string;
+        status: bigint;
+        deliveredCreditId: bigint;
+        createdAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "accepted"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "basketOf"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "creditContract"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "escrow"
+  ): TypedContractMethod<
+    [
+      seller: AddressLike,
+      creditId: BigNumberish,
+      amount: BigNumberish,
+      payment: BigNumberish,
+      ref: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "escrowBasket"
+  ): TypedContractMethod<
+    [legs: CreditEscrow.LegStruct[]],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getBasket"
+  ): TypedContractMethod<
+    [basketId: BigNumberish],
+    [CreditEscrow.BasketStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTrade"
+  ): TypedContractMethod<
+    [tradeId: BigNumberish],
+    [CreditEscrow.TradeStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "nextBasketId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "nextTradeId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "paymentToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "refund"
+  ): TypedContractMethod<[tradeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "settle"
+  ): TypedContractMethod<[tradeId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "trades"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        id: bigint;
+        buyer: string;
+        seller: string;
+        creditId: bigint;
+        amount: bigint;
+        payment: bigint;
+        ref: string;
+        status: bigint;
+        deliveredCreditId: bigint;
+        createdAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "BasketEscrowed"
+  ): TypedContractEvent<
+    BasketEscrowedEvent.InputTuple,
+    BasketEscrowedEvent.OutputTuple,
+    BasketEscrowedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentEscrowed"
+  ): TypedContractEvent<
+    PaymentEscrowedEvent.InputTuple,
+    PaymentEscrowedEvent.OutputTuple,
+    PaymentEscrowedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TradeAccepted"
+  ): TypedContractEvent<
+    TradeAcceptedEvent.InputTuple,
+    TradeAcceptedEvent.OutputTuple,
+    TradeAcceptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TradeRefunded"
+  ): TypedContractEvent<
+    TradeRefundedEvent.InputTuple,
+    TradeRefundedEvent.OutputTuple,
+    TradeRefundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TradeSettled"
+  ): TypedContractEvent<
+    TradeSettledEvent.InputTuple,
+    TradeSettledEvent.OutputTuple,
+    TradeSettledEvent.OutputObject
+  >;
+
+  filters: {
+    "BasketEscrowed(uint256,address,uint256[],uint256)": TypedContractEvent<
+      BasketEscrowedEvent.InputTuple,
+      BasketEscrowedEvent.OutputTuple,
+      BasketEscrowedEvent.OutputObject
+    >;
+    BasketEscrowed: TypedContractEvent<
+      BasketEscrowedEvent.InputTuple,
+      BasketEscrowedEvent.OutputTuple,
+      BasketEscrowedEvent.OutputObject
+    >;
+
+    "PaymentEscrowed(uint256,address,address,uint256,uint256,uint256,string)": TypedContractEvent<
+      PaymentEscrowedEvent.InputTuple,
+      PaymentEscrowedEvent.OutputTuple,
+      PaymentEscrowedEvent.OutputObject
+    >;
+    PaymentEscrowed: TypedContractEvent<
+      PaymentEscrowedEvent.InputTuple,
+      PaymentEscrowedEvent.OutputTuple,
+      PaymentEscrowedEvent.OutputObject
+    >;
+
+    "TradeAccepted(uint256,uint256,address)": TypedContractEvent<
+      TradeAcceptedEvent.InputTuple,
+      TradeAcceptedEvent.OutputTuple,
+      TradeAcceptedEvent.OutputObject
+    >;
+    TradeAccepted: TypedContractEvent<
+      TradeAcceptedEvent.InputTuple,
+      TradeAcceptedEvent.OutputTuple,
+      TradeAcceptedEvent.OutputObject
+    >;
+
+    "TradeRefunded(uint256,address,uint256)": TypedContractEvent<
+      TradeRefundedEvent.InputTuple,
+      TradeRefundedEvent.OutputTuple,
+      TradeRefundedEvent.OutputObject
+    >;
+    TradeRefunded: TypedContractEvent<
+      TradeRefundedEvent.InputTuple,
+      TradeRefundedEvent.OutputTuple,
+      TradeRefundedEvent.OutputObject
+    >;
+
+    "TradeSettled(uint256,uint256,address)": TypedContractEvent<
+      TradeSettledEvent.InputTuple,
+      TradeSettledEvent.OutputTuple,
+      TradeSettledEvent.OutputObject
+    >;
+    TradeSettled: TypedContractEvent<
+      TradeSettledEvent.InputTuple,
+      TradeSettledEvent.OutputTuple,
+      TradeSettledEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { CreditEscrow } from "./CreditEscrow";
+export type { IERC20 } from "./IERC20";
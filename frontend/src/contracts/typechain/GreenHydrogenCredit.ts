@@ -0,0 +1,1522 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace GreenHydrogenCredit {
+  export type AuditorStruct = {
+    auditorAddress: AddressLike;
+    name: string;
+    accreditation: string;
+    isActive: boolean;
+    verificationCount: BigNumberish;
+    lastVerification: BigNumberish;
+  };
+
+  export type AuditorStructOutput = [
+    auditorAddress: string,
+    name: string,
+    accreditation: string,
+    isActive: boolean,
+    verificationCount: bigint,
+    lastVerification: bigint
+  ] & {
+    auditorAddress: string;
+    name: string;
+    accreditation: string;
+    isActive: boolean;
+    verificationCount: bigint;
+    lastVerification: bigint;
+  };
+
+  export type CreditStruct = {
+    id: BigNumberish;
+    owner: AddressLike;
+    producer: AddressLike;
+    producerName: string;
+    amount: BigNumberish;
+    productionDate: BigNumberish;
+    renewableSource: string;
+    location: string;
+    carbonIntensity: BigNumberish;
+    verificationStatus: BigNumberish;
+    status: BigNumberish;
+    certifier: AddressLike;
+    certificationDate: BigNumberish;
+    metadata: string;
+    isRetired: boolean;
+    retirementDate: BigNumberish;
+    retirementReason: string;
+  };
+
+  export type CreditStructOutput = [
+    id: bigint,
+    owner: string,
+    producer: string,
+    producerName: string,
+    amount: bigint,
+    productionDate: bigint,
+    renewableSource: string,
+    location: string,
+    carbonIntensity: bigint,
+    verificationStatus: bigint,
+    status: bigint,
+    certifier: string,
+    certificationDate: bigint,
+    metadata: string,
+    isRetired: boolean,
+    retirementDate: bigint,
+    retirementReason: string
+  ] & {
+    id: bigint;
+    owner: string;
+    producer: string;
+    producerName: string;
+    amount: bigint;
+    productionDate: bigint;
+    renewableSource: string;
+    location: string;
+    carbonIntensity: bigint;
+    verificationStatus: bigint;
+    status: bigint;
+    certifier: string;
+    certificationDate: bigint;
+    metadata: string;
+    isRetired: boolean;
+    retirementDate: bigint;
+    retirementReason: string;
+  };
+
+  export type ProductionBatchStruct = {
+    batchId: BigNumberish;
+    producer: AddressLike;
+    totalAmount: BigNumberish;
+    verificationCount: BigNumberish;
+    isVerified: boolean;
+    creditIds: BigNumberish[];
+  };
+
+  export type ProductionBatchStructOutput = [
+    batchId: bigint,
+    producer: string,
+    totalAmount: bigint,
+    verificationCount: bigint,
+    isVerified: boolean,
+    creditIds: bigint[]
+  ] & {
+    batchId: bigint;
+    producer: string;
+    totalAmount: bigint;
+    verificationCount: bigint;
+    isVerified: boolean;
+    creditIds: bigint[];
+  };
+}
+
+export interface GreenHydrogenCreditInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "CREDIT_EXPIRY_DAYS"
+      | "MAX_CARBON_INTENSITY"
+      | "MIN_VERIFICATION_COUNT"
+      | "auditors"
+      | "certifier"
+      | "createProductionBatch"
+      | "creditChildren"
+      | "creditOrigin"
+      | "creditParents"
+      | "credits"
+      | "deactivateAuditor"
+      | "getAuditor"
+      | "getCredit"
+      | "getCreditChildren"
+      | "getCreditParents"
+      | "getOwnerCredits"
+      | "getProducerCredits"
+      | "getProductionBatch"
+      | "getTotalCreditsByProducer"
+      | "isAuditor"
+      | "isCreditExpired"
+      | "isOperator"
+      | "issueCredit"
+      | "mergeCredits"
+      | "nextBatchId"
+      | "nextId"
+      | "ownerCredits"
+      | "producerCredits"
+      | "productionBatches"
+      | "registerAuditor"
+      | "regulator"
+      | "retireCredit"
+      | "setCertifier"
+      | "setOperator"
+      | "splitCredit"
+      | "suspendCredit"
+      | "transferCredit"
+      | "transferPartial"
+      | "verifyCredit"
+      | "verifyProductionBatch"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AuditorDeactivated"
+      | "AuditorRegistered"
+      | "CreditIssued"
+      | "CreditMerged"
+      | "CreditRetired"
+      | "CreditSplit"
+      | "CreditSuspended"
+      | "CreditTransferred"
+      | "CreditVerified"
+      | "OperatorSet"
+      | "ProductionBatchCreated"
+      | "ProductionBatchVerified"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "CREDIT_EXPIRY_DAYS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_CARBON_INTENSITY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_VERIFICATION_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "auditors",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "certifier", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "createProductionBatch",
+    values: [AddressLike, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "creditChildren",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "creditOrigin",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "creditParents",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "credits",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deactivateAuditor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuditor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCredit",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCreditChildren",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCreditParents",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOwnerCredits",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProducerCredits",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProductionBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTotalCreditsByProducer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAuditor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isCreditExpired",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isOperator",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "issueCredit",
+    values: [
+      AddressLike,
+      AddressLike,
+      string,
+      BigNumberish,
+      BigNumberish,
+      string,
+      string,
+      BigNumberish,
+      string
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mergeCredits",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "nextId", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "ownerCredits",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "producerCredits",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "productionBatches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerAuditor",
+    values: [AddressLike, string, string]
+  ): string;
+  encodeFunctionData(functionFragment: "regulator", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "retireCredit",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCertifier",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setOperator",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "splitCredit",
+    values: [BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "suspendCredit",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferCredit",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferPartial",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyCredit",
+    values: [BigNumberish, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyProductionBatch",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "CREDIT_EXPIRY_DAYS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_CARBON_INTENSITY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_VERIFICATION_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "auditors", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "certifier", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "createProductionBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "creditChildren",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "creditOrigin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "creditParents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "credits", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "deactivateAuditor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getAuditor", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getCredit", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getCreditChildren",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCreditParents",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOwnerCredits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getProducerCredits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getProductionBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTotalCreditsByProducer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isAuditor", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isCreditExpired",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isOperator", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "issueCredit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mergeCredits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "nextBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "nextId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ownerCredits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "producerCredits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "productionBatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerAuditor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "regulator", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "retireCredit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCertifier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setOperator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "splitCredit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "suspendCredit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferCredit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferPartial",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyCredit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyProductionBatch",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AuditorDeactivatedEvent {
+  export type InputTuple = [auditor: AddressLike];
+  export type OutputTuple = [auditor: string];
+  export interface OutputObject {
+    auditor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuditorRegisteredEvent {
+  export type InputTuple = [auditor: AddressLike, name: string];
+  export type OutputTuple = [auditor: string, name: string];
+  export interface OutputObject {
+    auditor: string;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditIssuedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    owner: AddressLike,
+    producer: AddressLike,
+    amount: BigNumberish,
+    productionDate: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    owner: string,
+    producer: string,
+    amount: bigint,
+    productionDate: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    owner: string;
+    producer: string;
+    amount: bigint;
+    productionDate: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditMergedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    parentId: BigNumberish,
+    owner: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    parentId: bigint,
+    owner: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    parentId: bigint;
+    owner: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditRetiredEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    owner: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [id: bigint, owner: string, reason: string];
+  export interface OutputObject {
+    id: bigint;
+    owner: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditSplitEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    parentId: BigNumberish,
+    owner: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    parentId: bigint,
+    owner: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    parentId: bigint;
+    owner: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditSuspendedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    regulator: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [id: bigint, regulator: string, reason: string];
+  export interface OutputObject {
+    id: bigint;
+    regulator: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditTransferredEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    from: AddressLike,
+    to: AddressLike
+  ];
+  export type OutputTuple = [id: bigint, from: string, to: string];
+  export interface OutputObject {
+    id: bigint;
+    from: string;
+    to: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CreditVerifiedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    auditor: AddressLike,
+    status: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, auditor: string, status: bigint];
+  export interface OutputObject {
+    id: bigint;
+    auditor: string;
+    status: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperatorSetEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    operator: AddressLike,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    owner: string,
+    operator: string,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProductionBatchCreatedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    producer: AddressLike,
+    totalAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    producer: string,
+    totalAmount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    producer: string;
+    totalAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProductionBatchVerifiedEvent {
+  export type InputTuple = [batchId: BigNumberish, auditor: AddressLike];
+  export type OutputTuple = [batchId: bigint, auditor: string];
+  export interface OutputObject {
+    batchId: bigint;
+    auditor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface GreenHydrogenCredit extends BaseContract {
+  connect(runner?: ContractRunner | null): GreenHydrogenCredit;
+  waitForDeployment(): Promise<this>;
+
+  interface: GreenHydrogenCreditInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  CREDIT_EXPIRY_DAYS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_CARBON_INTENSITY: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_VERIFICATION_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  auditors: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, string, string, boolean, bigint, bigint] & {
+        auditorAddress: string;
+        name: string;
+        accreditation: string;
+        isActive: boolean;
+        verificationCount: bigint;
+        lastVerification: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  certifier: TypedContractMethod<[], [string], "view">;
+
+  createProductionBatch: TypedContractMethod<
+    [producer: AddressLike, creditIds: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  creditChildren: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  creditOrigin: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  creditParents: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  credits: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        string,
+        boolean,
+        bigint,
+        string
+      ] & {
+        id: bigint;
+        owner: string;
+        producer: string;
+        producerName: string;
+        amount: bigint;
+        productionDate: bigint;
+        renewableSource: string;
+        location: string;
+        carbonIntensity: bigint;
+        verificationStatus: bigint;
+        status: bigint;
+        certifier: string;
+        certificationDate: bigint;
+        metadata: string;
+        isRetired: boolean;
+        retirementDate: bigint;
+        retirementReason: string;
+      }
+    ],
+    "view"
+  >;
+
+  deactivateAuditor: TypedContractMethod<
+    [auditorAddress: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getAuditor: TypedContractMethod<
+    [auditorAddress: AddressLike],
+    [GreenHydrogenCredit.AuditorStructOutput],
+    "view"
+  >;
+
+  getCredit: TypedContractMethod<
+    [id: BigNumberish],
+    [GreenHydrogenCredit.CreditStructOutput],
+    "view"
+  >;
+
+  getCreditChildren: TypedContractMethod<
+    [id: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getCreditParents: TypedContractMethod<[id: BigNumberish], [bigint[]], "view">;
+
+  getOwnerCredits: TypedContractMethod<
+    [owner: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getProducerCredits: TypedContractMethod<
+    [producer: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getProductionBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [GreenHydrogenCredit.ProductionBatchStructOutput],
+    "view"
+  >;
+
+  getTotalCreditsByProducer: TypedContractMethod<
+    [producer: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  isAuditor: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isCreditExpired: TypedContractMethod<[id: BigNumberish], [boolean], "view">;
+
+  isOperator: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  issueCredit: TypedContractMethod<
+    [
+      to: AddressLike,
+      producer: AddressLike,
+      producerName: string,
+      amount: BigNumberish,
+      productionDate: BigNumberish,
+      renewableSource: string,
+      location: string,
+      carbonIntensity: BigNumberish,
+      metadata: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  mergeCredits: TypedContractMethod<
+    [ids: BigNumberish[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  nextBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  nextId: TypedContractMethod<[], [bigint], "view">;
+
+  ownerCredits: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  producerCredits: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  productionBatches: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint, boolean] & {
+        batchId: bigint;
+        producer: string;
+        totalAmount: bigint;
+        verificationCount: bigint;
+        isVerified: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  registerAuditor: TypedContractMethod<
+    [auditorAddress: AddressLike, name: string, accreditation: string],
+    [void],
+    "nonpayable"
+  >;
+
+  regulator: TypedContractMethod<[], [string], "view">;
+
+  retireCredit: TypedContractMethod<
+    [id: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  setCertifier: TypedContractMethod<
+    [newCertifier: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setOperator: TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  splitCredit: TypedContractMethod<
+    [id: BigNumberish, amounts: BigNumberish[]],
+    [bigint[]],
+    "nonpayable"
+  >;
+
+  suspendCredit: TypedContractMethod<
+    [id: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  transferCredit: TypedContractMethod<
+    [id: BigNumberish, to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferPartial: TypedContractMethod<
+    [id: BigNumberish, to: AddressLike, amount: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  verifyCredit: TypedContractMethod<
+    [id: BigNumberish, status: BigNumberish, verificationNotes: string],
+    [void],
+    "nonpayable"
+  >;
+
+  verifyProductionBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "CREDIT_EXPIRY_DAYS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_CARBON_INTENSITY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_VERIFICATION_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "auditors"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, string, string, boolean, bigint, bigint] & {
+        auditorAddress: string;
+        name: string;
+        accreditation: string;
+        isActive: boolean;
+        verificationCount: bigint;
+        lastVerification: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "certifier"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "createProductionBatch"
+  ): TypedContractMethod<
+    [producer: AddressLike, creditIds: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "creditChildren"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "creditOrigin"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "creditParents"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "credits"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        string,
+        boolean,
+        bigint,
+        string
+      ] & {
+        id: bigint;
+        owner: string;
+        producer: string;
+        producerName: string;
+        amount: bigint;
+        productionDate: bigint;
+        renewableSource: string;
+        location: string;
+        carbonIntensity: bigint;
+        verificationStatus: bigint;
+        status: bigint;
+        certifier: string;
+        certificationDate: bigint;
+        metadata: string;
+        isRetired: boolean;
+        retirementDate: bigint;
+        retirementReason: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "deactivateAuditor"
+  ): TypedContractMethod<[auditorAddress: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getAuditor"
+  ): TypedContractMethod<
+    [auditorAddress: AddressLike],
+    [GreenHydrogenCredit.AuditorStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCredit"
+  ): TypedContractMethod<
+    [id: BigNumberish],
+    [GreenHydrogenCredit.CreditStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCreditChildren"
+  ): TypedContractMethod<[id: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getCreditParents"
+  ): TypedContractMethod<[id: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getOwnerCredits"
+  ): TypedContractMethod<[owner: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getProducerCredits"
+  ): TypedContractMethod<[producer: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getProductionBatch"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [GreenHydrogenCredit.ProductionBatchStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTotalCreditsByProducer"
+  ): TypedContractMethod<[producer: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "isAuditor"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isCreditExpired"
+  ): TypedContractMethod<[id: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isOperator"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "issueCredit"
+  ): TypedContractMethod<
+    [
+      to: AddressLike,
+      producer: AddressLike,
+      producerName: string,
+      amount: BigNumberish,
+      productionDate: BigNumberish,
+      renewableSource: string,
+      location: string,
+      carbonIntensity: BigNumberish,
+      metadata: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "mergeCredits"
+  ): TypedContractMethod<[ids: BigNumberish[]], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "nextBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "nextId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ownerCredits"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "producerCredits"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "productionBatches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint, boolean] & {
+        batchId: bigint;
+        producer: string;
+        totalAmount: bigint;
+        verificationCount: bigint;
+        isVerified: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "registerAuditor"
+  ): TypedContractMethod<
+    [auditorAddress: AddressLike, name: string, accreditation: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "regulator"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "retireCredit"
+  ): TypedContractMethod<
+    [id: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCertifier"
+  ): TypedContractMethod<[newCertifier: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setOperator"
+  ): TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "splitCredit"
+  ): TypedContractMethod<
+    [id: BigNumberish, amounts: BigNumberish[]],
+    [bigint[]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "suspendCredit"
+  ): TypedContractMethod<
+    [id: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferCredit"
+  ): TypedContractMethod<
+    [id: BigNumberish, to: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferPartial"
+  ): TypedContractMethod<
+    [id: BigNumberish, to: AddressLike, amount: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "verifyCredit"
+  ): TypedContractMethod<
+    [id: BigNumberish, status: BigNumberish, verificationNotes: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "verifyProductionBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "AuditorDeactivated"
+  ): TypedContractEvent<
+    AuditorDeactivatedEvent.InputTuple,
+    AuditorDeactivatedEvent.OutputTuple,
+    AuditorDeactivatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuditorRegistered"
+  ): TypedContractEvent<
+    AuditorRegisteredEvent.InputTuple,
+    AuditorRegisteredEvent.OutputTuple,
+    AuditorRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditIssued"
+  ): TypedContractEvent<
+    CreditIssuedEvent.InputTuple,
+    CreditIssuedEvent.OutputTuple,
+    CreditIssuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditMerged"
+  ): TypedContractEvent<
+    CreditMergedEvent.InputTuple,
+    CreditMergedEvent.OutputTuple,
+    CreditMergedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditRetired"
+  ): TypedContractEvent<
+    CreditRetiredEvent.InputTuple,
+    CreditRetiredEvent.OutputTuple,
+    CreditRetiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditSplit"
+  ): TypedContractEvent<
+    CreditSplitEvent.InputTuple,
+    CreditSplitEvent.OutputTuple,
+    CreditSplitEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditSuspended"
+  ): TypedContractEvent<
+    CreditSuspendedEvent.InputTuple,
+    CreditSuspendedEvent.OutputTuple,
+    CreditSuspendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditTransferred"
+  ): TypedContractEvent<
+    CreditTransferredEvent.InputTuple,
+    CreditTransferredEvent.OutputTuple,
+    CreditTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "CreditVerified"
+  ): TypedContractEvent<
+    CreditVerifiedEvent.InputTuple,
+    CreditVerifiedEvent.OutputTuple,
+    CreditVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperatorSet"
+  ): TypedContractEvent<
+    OperatorSetEvent.InputTuple,
+    OperatorSetEvent.OutputTuple,
+    OperatorSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProductionBatchCreated"
+  ): TypedContractEvent<
+    ProductionBatchCreatedEvent.InputTuple,
+    ProductionBatchCreatedEvent.OutputTuple,
+    ProductionBatchCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProductionBatchVerified"
+  ): TypedContractEvent<
+    ProductionBatchVerifiedEvent.InputTuple,
+    ProductionBatchVerifiedEvent.OutputTuple,
+    ProductionBatchVerifiedEvent.OutputObject
+  >;
+
+  filters: {
+    "AuditorDeactivated(address)": TypedContractEvent<
+      AuditorDeactivatedEvent.InputTuple,
+      AuditorDeactivatedEvent.OutputTuple,
+      AuditorDeactivatedEvent.OutputObject
+    >;
+    AuditorDeactivated: TypedContractEvent<
+      AuditorDeactivatedEvent.InputTuple,
+      AuditorDeactivatedEvent.OutputTuple,
+      AuditorDeactivatedEvent.OutputObject
+    >;
+
+    "AuditorRegistered(address,string)": TypedContractEvent<
+      AuditorRegisteredEvent.InputTuple,
+      AuditorRegisteredEvent.OutputTuple,
+      AuditorRegisteredEvent.OutputObject
+    >;
+    AuditorRegistered: TypedContractEvent<
+      AuditorRegisteredEvent.InputTuple,
+      AuditorRegisteredEvent.OutputTuple,
+      AuditorRegisteredEvent.OutputObject
+    >;
+
+    "CreditIssued(uint256,address,address,uint256,uint256)": TypedContractEvent<
+      CreditIssuedEvent.InputTuple,
+      CreditIssuedEvent.OutputTuple,
+      CreditIssuedEvent.OutputObject
+    >;
+    CreditIssued: TypedContractEvent<
+      CreditIssuedEvent.InputTuple,
+      CreditIssuedEvent.OutputTuple,
+      CreditIssuedEvent.OutputObject
+    >;
+
+    "CreditMerged(uint256,uint256,address,uint256)": TypedContractEvent<
+      CreditMergedEvent.InputTuple,
+      CreditMergedEvent.OutputTuple,
+      CreditMergedEvent.OutputObject
+    >;
+    CreditMerged: TypedContractEvent<
+      CreditMergedEvent.InputTuple,
+      CreditMergedEvent.OutputTuple,
+      CreditMergedEvent.OutputObject
+    >;
+
+    "CreditRetired(uint256,address,string)": TypedContractEvent<
+      CreditRetiredEvent.InputTuple,
+      CreditRetiredEvent.OutputTuple,
+      CreditRetiredEvent.OutputObject
+    >;
+    CreditRetired: TypedContractEvent<
+      CreditRetiredEvent.InputTuple,
+      CreditRetiredEvent.OutputTuple,
+      CreditRetiredEvent.OutputObject
+    >;
+
+    "CreditSplit(uint256,uint256,address,uint256)": TypedContractEvent<
+      CreditSplitEvent.InputTuple,
+      CreditSplitEvent.OutputTuple,
+      CreditSplitEvent.OutputObject
+    >;
+    CreditSplit: TypedContractEvent<
+      CreditSplitEvent.InputTuple,
+      CreditSplitEvent.OutputTuple,
+      CreditSplitEvent.OutputObject
+    >;
+
+    "CreditSuspended(uint256,address,string)": TypedContractEvent<
+      CreditSuspendedEvent.InputTuple,
+      CreditSuspendedEvent.OutputTuple,
+      CreditSuspendedEvent.OutputObject
+    >;
+    CreditSuspended: TypedContractEvent<
+      CreditSuspendedEvent.InputTuple,
+      CreditSuspendedEvent.OutputTuple,
+      CreditSuspendedEvent.OutputObject
+    >;
+
+    "CreditTransferred(uint256,address,address)": TypedContractEvent<
+      CreditTransferredEvent.InputTuple,
+      CreditTransferredEvent.OutputTuple,
+      CreditTransferredEvent.OutputObject
+    >;
+    CreditTransferred: TypedContractEvent<
+      CreditTransferredEvent.InputTuple,
+      CreditTransferredEvent.OutputTuple,
+      CreditTransferredEvent.OutputObject
+    >;
+
+    "CreditVerified(uint256,address,uint8)": TypedContractEvent<
+      CreditVerifiedEvent.InputTuple,
+      CreditVerifiedEvent.OutputTuple,
+      CreditVerifiedEvent.OutputObject
+    >;
+    CreditVerified: TypedContractEvent<
+      CreditVerifiedEvent.InputTuple,
+      CreditVerifiedEvent.OutputTuple,
+      CreditVerifiedEvent.OutputObject
+    >;
+
+    "OperatorSet(address,address,bool)": TypedContractEvent<
+      OperatorSetEvent.InputTuple,
+      OperatorSetEvent.OutputTuple,
+      OperatorSetEvent.OutputObject
+    >;
+    OperatorSet: TypedContractEvent<
+      OperatorSetEvent.InputTuple,
+      OperatorSetEvent.OutputTuple,
+      OperatorSetEvent.OutputObject
+    >;
+
+    "ProductionBatchCreated(uint256,address,uint256)": TypedContractEvent<
+      ProductionBatchCreatedEvent.InputTuple,
+      ProductionBatchCreatedEvent.OutputTuple,
+      ProductionBatchCreatedEvent.OutputObject
+    >;
+    ProductionBatchCreated: TypedContractEvent<
+      ProductionBatchCreatedEvent.InputTuple,
+      ProductionBatchCreatedEvent.OutputTuple,
+      ProductionBatchCreatedEvent.OutputObject
+    >;
+
+    "ProductionBatchVerified(uint256,address)": TypedContractEvent<
+      ProductionBatchVerifiedEvent.InputTuple,
+      ProductionBatchVerifiedEvent.OutputTuple,
+      ProductionBatchVerifiedEvent.OutputObject
+    >;
+    ProductionBatchVerified: TypedContractEvent<
+      ProductionBatchVerifiedEvent.InputTuple,
+      ProductionBatchVerifiedEvent.OutputTuple,
+      ProductionBatchVerifiedEvent.OutputObject
+    >;
+  };
+}
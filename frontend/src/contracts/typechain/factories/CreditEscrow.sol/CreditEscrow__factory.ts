@@ -0,0 +1,632 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CreditEscrow,
+  CreditEscrowInterface,
+} from "../../CreditEscrow.sol/CreditEscrow";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "credit",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "basketId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "tradeIds",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+    ],
+    name: "BasketEscrowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tradeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "creditId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "ref",
+        type: "string",
+      },
+    ],
+    name: "PaymentEscrowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tradeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "basketId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+    ],
+    name: "TradeAccepted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tradeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+    ],
+    name: "TradeRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tradeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "deliveredCreditId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+    ],
+    name: "TradeSettled",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "accepted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "basketOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "creditContract",
+    outputs: [
+      {
+        internalType: "contract GreenHydrogenCredit",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "creditId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "ref",
+        type: "string",
+      },
+    ],
+    name: "escrow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tradeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "seller",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "creditId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "payment",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "ref",
+            type: "string",
+          },
+        ],
+        internalType: "struct CreditEscrow.Leg[]",
+        name: "legs",
+        type: "tuple[]",
+      },
+    ],
+    name: "escrowBasket",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "basketId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "basketId",
+        type: "uint256",
+      },
+    ],
+    name: "getBasket",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "buyer",
+            type: "address",
+          },
+          {
+            internalType: "uint256[]",
+            name: "tradeIds",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256",
+            name: "accepted",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct CreditEscrow.Basket",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tradeId",
+        type: "uint256",
+      },
+    ],
+    name: "getTrade",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "buyer",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "seller",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "creditId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "payment",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "ref",
+            type: "string",
+          },
+          {
+            internalType: "enum CreditEscrow.TradeStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "deliveredCreditId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct CreditEscrow.Trade",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextBasketId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextTradeId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paymentToken",
+    outputs: [
+      {
+        internalType: "contract IERC20",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tradeId",
+        type: "uint256",
+      },
+    ],
+    name: "refund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tradeId",
+        type: "uint256",
+      },
+    ],
+    name: "settle",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "deliveredCreditId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "trades",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "creditId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "payment",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "ref",
+        type: "string",
+      },
+      {
+        internalType: "enum CreditEscrow.TradeStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "deliveredCreditId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c0346200013157601f620020d338819003918201601f19168301916001600160401b038311848410176200013657808492604094855283398101031262000131576200005a602062000052836200014c565b92016200014c565b600160008190556002556001600160a01b039182168015158062000125575b15620000e0576080521660a052604051611f7190816200016282396080518181816105ab01528181610e860152818161140d0152818161192e0152611de8015260a051818181610184015281816105110152818161078901528181611a220152611c440152f35b60405162461bcd60e51b815260206004820152601860248201527f496e76616c696420636f6e7472616374206164647265737300000000000000006044820152606490fd5b50828216151562000079565b600080fd5b634e487b7160e01b600052604160045260246000fd5b51906001600160a01b0382168203620001315756fe608080604052600436101561001357600080fd5b60003560e01c908163120df8b914610a89575080631e6c598e146109cc578063278ecde1146109ae5780632db25e05146107b85780633013ce291461077357806377977d5014610634578063813ad083146106165780638df82800146105f8578063a7600528146105da578063c24375cf14610595578063c564101b1461045c578063f19b82731461042b5763fb884c86146100ae57600080fd5b3461026d57602036600319011261026d5760043567ffffffffffffffff811161026d573660238201121561026d5767ffffffffffffffff81600401351161026d57366024826004013560051b8301011161026d578060040135156103f15760025461011881610c9a565b60025560008181526003602052604081208281556001810180546001600160a01b031916331790559281905b806004013582106102865750506040516323b872dd60e01b8152336004820152306024820152604481018290529260208460648160006001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000165af193841561027a5760009461020f575b507f03c5af2573eef14f84f126863b20e19938ed5c1f78b6e313748017685ab7d7c183916101e4602096610c4e565b6101fc60405191604083526002604084019101610cf9565b93868201528033940390a3604051908152f35b93506020843d602011610272575b8161022a60209383610b24565b8101031261026d577f03c5af2573eef14f84f126863b20e19938ed5c1f78b6e313748017685ab7d7c183916101e4610263602097610c41565b96505091506101b5565b600080fd5b3d915061021d565b6040513d6000823e3d90fd5b909161029a83836004013560248501610ca9565b356001600160a01b038116810361026d5760206102bf85856004013560248701610ca9565b01359060406102d686866004013560248801610ca9565b01359060606102ed87876004013560248901610ca9565b013561030187876004013560248901610ca9565b608081013590601e198136030182121561026d57019267ffffffffffffffff84351161026d5783353603602085011361026d5761034494602085359501936113ce565b806000526004602052846040600020556002860154680100000000000000008110156103db578060016103809201600289015560028801610ce1565b819291549060031b91821b91600019901b191617905560606103aa84846004013560248601610ca9565b013581018091116103c5576103bf9092610c9a565b90610144565b634e487b7160e01b600052601160045260246000fd5b634e487b7160e01b600052604160045260246000fd5b60405162461bcd60e51b81526020600482015260126024820152714261736b657420686173206e6f206c65677360701b6044820152606490fd5b3461026d57602036600319011261026d576004356000526005602052602060ff604060002054166040519015158152f35b3461026d5760a036600319011261026d576004356001600160a01b03808216820361026d57606435906084359267ffffffffffffffff9182851161026d573660238601121561026d57846004013592831161026d57366024848701011161026d576104dc60209361050d93866024600099019160443590602435906113ce565b6040516323b872dd60e01b815233600482015230602482015260448101959095529394859283919082906064820190565b03927f0000000000000000000000000000000000000000000000000000000000000000165af191821561027a57600092610556575b5061054e602092610c4e565b604051908152f35b91506020823d821161058d575b8161057060209383610b24565b8101031261026d5761054e610586602093610c41565b9250610542565b3d9150610563565b3461026d57600036600319011261026d576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b3461026d57600036600319011261026d576020600254604051908152f35b3461026d57602036600319011261026d57602061054e600435610dd0565b3461026d57600036600319011261026d576020600054604051908152f35b3461026d5760208060031936011261026d576004356000606060405161065981610b08565b828152828582015281604082015201528060005260038252604060002054156107365760005260038152604060002060405161069481610b08565b8154815260018060a01b03600193818585015416938184019485526003604051916106cd836106c68160028501610cf9565b0384610b24565b60408601928352015492606085019384526040519583875260a087019551848801525116604086015251926080606086015283518091528160c0860194019160005b828110610723578451608088015286860387f35b835186529481019492810192870161070f565b60405162461bcd60e51b815260048101839052601560248201527410985cdad95d08191bd95cc81b9bdd08195e1a5cdd605a1b6044820152606490fd5b3461026d57600036600319011261026d576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b3461026d57602036600319011261026d5760043560006101206040516107dd81610aeb565b8281528260208201528260408201528260608201528260808201528260a0820152606060c08201528260e08201528261010082015201528060005260016020526040600020541561097257600052600160205260406000206040519061084282610aeb565b8054825260018101546001600160a01b03908116602084015260028201541660408301526003810154606083015260048101546080830152600581015460a083015261089060068201610b46565b60c083015260ff60078201541690600382101561095c5760099160e0840152600881015461010084015201546101208201526040518091602082528051602083015260018060a01b03602082015116604083015260018060a01b03604082015116606083015260608101516080830152608081015160a083015260a081015160c083015260c0810151610120610934610140928360e0870152610160860190610c0f565b9261094860e0820151610100870190610c34565b610100810151828601520151908301520390f35b634e487b7160e01b600052602160045260246000fd5b60405162461bcd60e51b8152602060048201526014602482015273151c98591948191bd95cc81b9bdd08195e1a5cdd60621b6044820152606490fd5b3461026d57602036600319011261026d576109ca6004356110c8565b005b3461026d57602036600319011261026d5760043560005260016020526040600020805460018060a01b03918260018201541692600282015416600382015491610a79610a6e60048301546005840154610a2760068601610b46565b9160ff6007870154169760096008880154970154976040519b8c9b8c5260208c015260408b015260608a0152608089015260a08801526101408060c0890152870190610c0f565b9360e0860190610c34565b6101008401526101208301520390f35b3461026d57602036600319011261026d57602090600435600052600482526040600020548152f35b90600182811c92168015610ae1575b6020831014610acb57565b634e487b7160e01b600052602260045260246000fd5b91607f1691610ac0565b610140810190811067ffffffffffffffff8211176103db57604052565b6080810190811067ffffffffffffffff8211176103db57604052565b90601f8019910116810190811067ffffffffffffffff8211176103db57604052565b9060405191826000825492610b5a84610ab1565b908184526001948581169081600014610bc95750600114610b86575b5050610b8492500383610b24565b565b9093915060005260209081600020936000915b818310610bb1575050610b8493508201013880610b76565b85548884018501529485019487945091830191610b99565b915050610b8494506020925060ff191682840152151560051b8201013880610b76565b60005b838110610bff5750506000910152565b8181015183820152602001610bef565b90602091610c2881518092818552858086019101610bec565b601f01601f1916010190565b90600382101561095c5752565b5190811515820361026d57565b15610c5557565b60405162461bcd60e51b815260206004820152601760248201527f5061796d656e74207472616e73666572206661696c65640000000000000000006044820152606490fd5b60001981146103c55760010190565b9190811015610ccb5760051b81013590609e198136030182121561026d570190565b634e487b7160e01b600052603260045260246000fd5b8054821015610ccb5760005260206000200190600090565b90815480825260208092019260005281600020916000905b828210610d1f575050505090565b835485529384019360019384019390910190610d11565b15610d3d57565b60405162461bcd60e51b8152602060048201526015602482015274151c985919481a5cc81b9bdd08195cd8dc9bddd959605a1b6044820152606490fd5b15610d8157565b60405162461bcd60e51b815260206004820152602160248201527f53656c6c6572206e6f206c6f6e67657220686f6c6473207468652063726564696044820152601d60fa1b6064820152608490fd5b90600091600081815260019160208381526040928381209360ff60078601541692600393848110156110b457610e069015610d36565b6002860180546001600160a01b03919082163303611070578685526004835283852054978815611058578786526005845260ff858720541661101b57610e67610e60859383868b6004960154925416948591015491611dc3565b1515610d7a565b6044855180948193635b1b1e7960e11b835260048301523060248301527f0000000000000000000000000000000000000000000000000000000000000000165afa90811561100e578491610fd5575b5015610f82579083600292868552600581528285208960ff1982541617905587855252822083810195610ee98754610c9a565b8097553390867f2c35b8802a66cfc53aa51a050e86c6e258e1ddcaad0834691d12c2a2b74088ee8680a40193845414610f24575b5050505050565b845b15610f1d578354811015610f7d57610f4c610f418286610ce1565b905490841b1c6118de565b83610f578387610ce1565b905490851b1c14610f73575b50610f6d90610c9a565b84610f26565b9650610f6d610f63565b610f1d565b608491519062461bcd60e51b82526004820152602860248201527f457363726f77206973206e6f7420616e206f70657261746f7220666f72207468604482015267329039b2b63632b960c11b6064820152fd5b90508181813d8311611007575b610fec8183610b24565b8101031261100357610ffd90610c41565b38610eb6565b8380fd5b503d610fe2565b50505051903d90823e3d90fd5b845162461bcd60e51b8152600481018590526016602482015275151c98591948185b1c9958591e481858d8d95c1d195960521b6044820152606490fd5b5050505050505091505061106d9192506118de565b90565b835162461bcd60e51b815260048101849052601a60248201527f4f6e6c79207468652073656c6c65722063616e20736574746c650000000000006044820152606490fd5b634e487b7160e01b84526021600452602484fd5b600081815260019081602052604081209260ff60078501541693600394858110156110b4576110f79015610d36565b80840154336001600160a01b03918216149182156111d0575b50501561118b578082526004602052604082205490811561117d5750815282602052816002604083200191905b611148575b50505050565b8154811015611178578061116d6111626111729385610ce1565b905490871b1c611be5565b610c9a565b8261113d565b611142565b92505050610b849150611be5565b60405162461bcd60e51b815260206004820152601860248201527f4e6f74206120706172747920746f2074686520747261646500000000000000006044820152606490fd5b600291925001541633143880611110565b51906001600160a01b038216820361026d57565b67ffffffffffffffff81116103db57601f01601f191660200190565b81601f8201121561026d578051611227816111f5565b926112356040519485610b24565b8184526020828401011161026d5761106d9160208085019101610bec565b60208183031261026d57805167ffffffffffffffff9182821161026d570161022092838282031261026d57604051938401848110848211176103db57604052815184526112a2602083016111e1565b60208501526112b3604083016111e1565b6040850152606082015183811161026d57816112d0918401611211565b60608501526080820151608085015260a082015160a085015260c082015183811161026d5781611301918401611211565b60c085015260e082015183811161026d578161131e918401611211565b60e085015261010080830151908501526101208083015190600382101561026d578501526101408083015190600482101561026d578501526101606113648184016111e1565b9085015261018080830151908501526101a08083015184811161026d578261138d918501611211565b908501526101c061139f818401610c41565b908501526101e08083015190850152610200928383015190811161026d576113c79201611211565b9082015290565b9395949291906001600160a01b0385161515806118cb575b156118955781156118505760405163da304e4d60e01b8152600481018290526000816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa90811561027a5760009161182d575b5060208101516001600160a01b038781169116036117e8576080015182116117a357818561147392611dc3565b938415611750576000549261148784610c9a565b60005583976040519161149983610aeb565b8583523360208401526001600160a01b0384166040840152606083018890526080830185905260a083018190526114cf876111f5565b946114dd6040519687610b24565b878652368884011161026d578783602088013760006020898801015260c08401958652600060e0850152600061010085015242610120850152866000526001602052604060002095845187556001870160018060a01b03602087015116906bffffffffffffffffffffffff60a01b9182825416179055600288019060018060a01b0360408801511690825416179055606085015160038801556080850151600488015560a085015160058801555180519067ffffffffffffffff82116103db5781906115ac60068a0154610ab1565b601f81116116fd575b50602090601f831160011461169057600092611685575b50508160011b916000199060031b1c19161760068701555b60e08401519560078101600388101561095c576101208a966009927fc4d79464b0af778c2ec536a8e3080f89dffbfe26947d11e78da214729d3e1f909a60ff8019835416911617905561010081015160088501550151910155604051988952602089015260408801526080606088015281608088015260a0870137600060a0858701015260018060a01b03169360a0813395601f80199101168101030190a4565b0151905038806115cc565b60068a016000908152602081209350601f198516905b8181106116e557509084600195949392106116cc575b505050811b0160068701556115e4565b015160001960f88460031b161c191690553880806116bc565b929360206001819287860151815501950193016116a6565b909150600689016000526020600020601f840160051c810160208510611749575b90849392915b601f830160051c8201811061173a5750506115b5565b60008155859450600101611724565b508061171e565b60405162461bcd60e51b815260206004820152602560248201527f53656c6c657220686f6c647320746f6f206c6974746c65206f662074686520636044820152641c99591a5d60da1b6064820152608490fd5b60405162461bcd60e51b815260206004820152601960248201527f416d6f756e7420657863656564732074686520637265646974000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601f60248201527f53656c6c657220646f6573206e6f7420686f6c642074686520637265646974006044820152606490fd5b61184a91503d806000833e6118428183610b24565b810190611253565b38611446565b60405162461bcd60e51b815260206004820152601d60248201527f416d6f756e74206d7573742062652067726561746572207468616e20300000006044820152606490fd5b60405162461bcd60e51b815260206004820152600e60248201526d24b73b30b634b21039b2b63632b960911b6044820152606490fd5b506001600160a01b0385163314156113e6565b906000828152602092600184526040938483206003810191825490600283019760018060a01b0394858a541661191c60049586880154928391611dc3565b90611928821515610d7a565b818355877f00000000000000000000000000000000000000000000000000000000000000001691845163da304e4d60e01b815281888201528b81602481875afa908115611bdb578792916080918e8092611bc0575b505060078b01805460ff1916600117905501518303611b435750505081548760018801541690823b15611b3f579060448b928387519586948593626f9d0f60e51b85528c85015260248401525af18015611b3557611b07575b508286611a1c92549b5b8c600889015554166005870154908451938492839263a9059cbb60e01b845289840160209093929193604081019460018060a01b031681520152565b03818b8a7f0000000000000000000000000000000000000000000000000000000000000000165af1908115611afd578891611ac4575b5015611a8a5750505085929160017f3cc857b1b391e2ea8a9b283b265c18d875d880a20b37493e37add75347d7fe20920154169380a4565b5162461bcd60e51b815291820152601660248201527514185e5b595b9d081c995b19585cd94819985a5b195960521b604482015260649150fd5b90508281813d8311611af6575b611adb8183610b24565b81010312611af257611aec90610c41565b38611a52565b8780fd5b503d611ad1565b82513d8a823e3d90fd5b67ffffffffffffffff8199929911611b2257825296826119d6565b634e487b7160e01b825260418552602482fd5b83513d8b823e3d90fd5b8a80fd5b606491939294508b8a60018b0154169387519687958694630dad95ff60e11b86528c860152602485015260448401525af18015611afd578684918a90611b8f575b611a1c93509b6119e0565b505081813d8311611bb9575b611ba58183610b24565b81010312611af2578286611a1c9251611b84565b503d611b9b565b611bd492503d8091833e6118428183610b24565b388e61197d565b86513d8e823e3d90fd5b600081815260016020818152604080842060078101805460ff19166002179055928301805460059094018054925163a9059cbb60e01b81526001600160a01b0395861660048201526024810193909352959492939290918481604481857f000000000000000000000000000000000000000000000000000000000000000089165af1918215611d1d578092611ce2575b505015611cad57907f598cf7b1037a2cbb27645d4ef91a50ab4b13db45cc85ebd8edeea26233ea9288929154169354604051908152a3565b60405162461bcd60e51b815260048101849052600d60248201526c1499599d5b990819985a5b1959609a1b6044820152606490fd5b9091508482813d8311611d16575b611cfa8183610b24565b81010312611d135750611d0c90610c41565b3880611c75565b80fd5b503d611cf0565b604051903d90823e3d90fd5b6004111561095c57565b90602090818382031261026d57825167ffffffffffffffff9384821161026d570181601f8201121561026d5780519384116103db578360051b9060405194611d7d85840187610b24565b8552838086019282010192831161026d578301905b828210611da0575050505090565b81518152908301908301611d92565b8051821015610ccb5760209160051b010190565b60405163da304e4d60e01b815260048101829052909260009290916001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000811691908582602481865afa918215611edb578692611f1f575b506003610140830151611e3381611d29565b611e3c81611d29565b03611ee05750506040516304c3693f60e21b815260048101959095528390859060249082905afa938415611edb578394611eb7575b50825b8451811015611eaf57611e928383611e8c8489611daf565b51611dc3565b80611ea65750611ea190610c9a565b611e74565b94505050505090565b505050905090565b611ed49194503d8085833e611ecc8183610b24565b810190611d33565b9238611e71565b61027a565b602082015181166001600160a01b03169316929092149291905082611f10575b505015611f0b575090565b905090565b60800151101590503880611f00565b611f349192503d8088833e6118428183610b24565b9038611e2156fea2646970667358221220a3cd9b0d0940c7d9723b2f068d348beafcf718ec33a668884ef366d2876d0c0764736f6c63430008140033";
+
+type CreditEscrowConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CreditEscrowConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CreditEscrow__factory extends ContractFactory {
+  constructor(...args: CreditEscrowConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    credit: AddressLike,
+    token: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(credit, token, overrides || {});
+  }
+  override deploy(
+    credit: AddressLike,
+    token: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(credit, token, overrides || {}) as Promise<
+      CreditEscrow & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CreditEscrow__factory {
+    return super.connect(runner) as CreditEscrow__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CreditEscrowInterface {
+    return new Interface(_abi) as CreditEscrowInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CreditEscrow {
+    return new Contract(address, _abi, runner) as unknown as CreditEscrow;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { CreditEscrow__factory } from "./CreditEscrow__factory";
+export { IERC20__factory } from "./IERC20__factory";
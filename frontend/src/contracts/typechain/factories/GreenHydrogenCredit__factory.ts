@@ -0,0 +1,1431 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../common";
+import type {
+  GreenHydrogenCredit,
+  GreenHydrogenCreditInterface,
+} from "../GreenHydrogenCredit";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+    ],
+    name: "AuditorDeactivated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "AuditorRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "producer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "productionDate",
+        type: "uint256",
+      },
+    ],
+    name: "CreditIssued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "parentId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "CreditMerged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "CreditRetired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "parentId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "CreditSplit",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "regulator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "CreditSuspended",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "CreditTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum GreenHydrogenCredit.VerificationStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "CreditVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "OperatorSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "producer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalAmount",
+        type: "uint256",
+      },
+    ],
+    name: "ProductionBatchCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+    ],
+    name: "ProductionBatchVerified",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "CREDIT_EXPIRY_DAYS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_CARBON_INTENSITY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_VERIFICATION_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "auditors",
+    outputs: [
+      {
+        internalType: "address",
+        name: "auditorAddress",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "accreditation",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "verificationCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastVerification",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "certifier",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "producer",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "creditIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "createProductionBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "creditChildren",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "creditOrigin",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "creditParents",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "credits",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "producer",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "producerName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "productionDate",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "renewableSource",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "location",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "carbonIntensity",
+        type: "uint256",
+      },
+      {
+        internalType: "enum GreenHydrogenCredit.VerificationStatus",
+        name: "verificationStatus",
+        type: "uint8",
+      },
+      {
+        internalType: "enum GreenHydrogenCredit.CreditStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "certifier",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "certificationDate",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "metadata",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "isRetired",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "retirementDate",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "retirementReason",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "auditorAddress",
+        type: "address",
+      },
+    ],
+    name: "deactivateAuditor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "auditorAddress",
+        type: "address",
+      },
+    ],
+    name: "getAuditor",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "auditorAddress",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "accreditation",
+            type: "string",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "verificationCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "lastVerification",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct GreenHydrogenCredit.Auditor",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "getCredit",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "owner",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "producer",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "producerName",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "productionDate",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "renewableSource",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "location",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "carbonIntensity",
+            type: "uint256",
+          },
+          {
+            internalType: "enum GreenHydrogenCredit.VerificationStatus",
+            name: "verificationStatus",
+            type: "uint8",
+          },
+          {
+            internalType: "enum GreenHydrogenCredit.CreditStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "certifier",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "certificationDate",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "metadata",
+            type: "string",
+          },
+          {
+            internalType: "bool",
+            name: "isRetired",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "retirementDate",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "retirementReason",
+            type: "string",
+          },
+        ],
+        internalType: "struct GreenHydrogenCredit.Credit",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "getCreditChildren",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "getCreditParents",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "getOwnerCredits",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "producer",
+        type: "address",
+      },
+    ],
+    name: "getProducerCredits",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getProductionBatch",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "producer",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "totalAmount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "verificationCount",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isVerified",
+            type: "bool",
+          },
+          {
+            internalType: "uint256[]",
+            name: "creditIds",
+            type: "uint256[]",
+          },
+        ],
+        internalType: "struct GreenHydrogenCredit.ProductionBatch",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "producer",
+        type: "address",
+      },
+    ],
+    name: "getTotalCreditsByProducer",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isAuditor",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "isCreditExpired",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isOperator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "producer",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "producerName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "productionDate",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "renewableSource",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "location",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "carbonIntensity",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "metadata",
+        type: "string",
+      },
+    ],
+    name: "issueCredit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    name: "mergeCredits",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "mergedId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "ownerCredits",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "producerCredits",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "productionBatches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "producer",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "totalAmount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "verificationCount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isVerified",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "auditorAddress",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "accreditation",
+        type: "string",
+      },
+    ],
+    name: "registerAuditor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "regulator",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "retireCredit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newCertifier",
+        type: "address",
+      },
+    ],
+    name: "setCertifier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "amounts",
+        type: "uint256[]",
+      },
+    ],
+    name: "splitCredit",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "childIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "suspendCredit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "transferCredit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "transferPartial",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "childId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "enum GreenHydrogenCredit.VerificationStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "string",
+        name: "verificationNotes",
+        type: "string",
+      },
+    ],
+    name: "verifyCredit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "verifyProductionBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461003b5760016000556001805560018060a01b03193381600c541617600c553390600d541617600d55613b5690816100418239f35b600080fdfe6080604052600436101561001257600080fd5b60003560e01c8063036a1c2214612c125780630df3a1e014612b50578063120c7efd14612b27578063130da4fc14612ae25780631b5b2bfe1461293f57806325f2eefd146128a857806328f3eeb8146125ba5780632b2badb31461248b5780633ef34fc91461245157806347f9aa9f146123ad57806349b905571461236e578063558a72971461228f5780635916d4ae146122635780635cb6fdee1461221e57806361b8ce8c1461220057806377cca688146121c05780638462a7f8146121a2578063846bfd9d146121025780638a1fedfb146120d15780638f2fe0ad1461182557806391d86cf01461180857806394c12eae146117085780639a84961f146116ec578063a48893fa146115c7578063b1fec29f14611579578063b6363cf214611523578063c309388214611418578063ccbd7ab514611104578063cd74ef76146110ba578063cfa5375314610cf2578063d3965ea614610ca8578063d8d508ce14610bbd578063da304e4d146108b3578063dd7caa7b14610664578063dd8fee141461063b578063e1ac6560146105d7578063e61eef5014610434578063e7066bc414610418578063fcc7fd9b146103d95763fd45515e146101d457600080fd5b346103d4576101e236613092565b9080600052602091600283526101fe60406000205415156131ba565b8160005260028352600161022260018060a01b0382604060002001541633146134d8565b826000526002845261023f60ff600c6040600020015416156133d9565b61025161024b84613a57565b15613517565b61025a836135b4565b8260005260028452600e6040600020600c81018360ff1982541617905542600d82015501908251906001600160401b0382116103be576102a48261029e8554612d91565b85613135565b85601f83116001146103345791808061032495937f4956dab9501739de8582ee001757ca93145e23e9c79eaa43be758eaa07e3c4bb9795600093610329575b501b916000199060031b1c19161790555b8360005260028552600960406000200161010061ff00198254161790556040519182918683523396830190612ec9565b0390a3005b8601519250386102e3565b601f9291921982169084600052876000209160005b898282106103aa57505091839161032496947f4956dab9501739de8582ee001757ca93145e23e9c79eaa43be758eaa07e3c4bb98969410610391575b5050811b0190556102f4565b85015160001960f88460031b161c191690553880610385565b888401518555938601939283019201610349565b634e487b7160e01b600052604160045260246000fd5b600080fd5b346103d4576103e736612ff8565b906000526008602052604060002080548210156103d45760209161040a9161300e565b90546040519160031b1c8152f35b346103d45760003660031901126103d457602060405160028152f35b346103d45760603660031901126103d45760243560043560038210156103d4576044356001600160401b0381116103d45761047390369060040161303c565b503360005260206005815260ff60406000205416806105c1575b6104969061337a565b81600052600281526104ae60406000205415156131ba565b81600052600281526104cb60ff600c6040600020015416156133d9565b816000526002815260ff6009604060002001541660038110156105ab57610567577f7951c5abbf365cc57b8bc8e305f443fff319a69222704ef950855cc61bc9fd73908260005260028152610527846009604060002001613301565b336000526004815260046040600020016105418154613355565b90553360005260048152426005604060002001556105626040518095612f09565b3393a3005b6064906040519062461bcd60e51b82526004820152601760248201527f43726564697420616c72656164792076657269666965640000000000000000006044820152fd5b634e487b7160e01b600052602160045260246000fd5b506004815260406000206003015460ff1661048d565b346103d45760203660031901126103d457600435600052600360205260a06040600020805490600180841b0360018201541690600281015460ff60046003840154930154169260405194855260208501526040840152606083015215156080820152f35b346103d45760003660031901126103d457600c546040516001600160a01b039091168152602090f35b346103d45760403660031901126103d4576004356024356001600160401b0381116103d457610697903690600401612f9a565b9080600052602090600282526106b360406000205415156131ba565b806000526002825260016106d760018060a01b0382604060002001541633146134d8565b81600052600283526106f460ff600c6040600020015416156133d9565b61070061024b83613a57565b600284511061087057610712826135b4565b60008082805b610823575b50508260005260028452600460406000200154036107cd5783519361074185612f83565b9461074f6040519687612e02565b80865261075e601f1991612f83565b0136858701376000825b610791575b50505061077990613a15565b61078d604051928284938452830190612f4f565b0390f35b81518110156107c857806107b26107ab6107c29385613432565b5186613997565b6107bc8289613432565b52613355565b82610768565b61076d565b60405162461bcd60e51b815260048101849052602860248201527f416d6f756e7473206d7573742061646420757020746f207468652063726564696044820152671d08185b5bdd5b9d60c21b6064820152608490fd5b909186518310156108685761085b6108619161084a610842868b613432565b5115156132b5565b610854858a613432565b5190613488565b92613355565b9080610718565b91508061071d565b6064836040519062461bcd60e51b825280600483015260248201527f53706c6974206e65656473206174206c656173742074776f20616d6f756e74736044820152fd5b346103d45760203660031901126103d45760606102006040516108d581612de6565b600081526000602082015260006040820152828082015260006080820152600060a08201528260c08201528260e082015260006101008201526000610120820152600061014082015260006101608201526000610180820152826101a082015260006101c082015260006101e0820152015260043580600052600260205261096360406000205415156131ba565b6000526002602052604060002060405161097c81612de6565b8154815260018201546001600160a01b03908116602083015260028301541660408201526109ac60038301612e23565b606082015260048201546080820152600582015460a08201526109d160068301612e23565b60c08201526109e260078301612e23565b60e0820152600882015461010082015260098201549160ff831660038110156105ab57610120830152600460ff8460081c1610156105ab57600e610a81918460ff61078d9660081c1661014086015260018060a01b039060101c16610160850152600a810154610180850152610a5a600b8201612e23565b6101a085015260ff600c8201541615156101c0850152600d8101546101e085015201612e23565b610200820152604051918291602083528051602084015260018060a01b03602082015116604084015260018060a01b036040820151166060840152610200610b90610b24610b0d610ae3606086015161022060808a0152610240890190612ec9565b608086015160a089015260a086015160c089015260c0860151601f198983030160e08a0152612ec9565b60e0850151878203601f1901610100890152612ec9565b610100840151610120870152610b44610120850151610140880190612f09565b610b58610140850151610160880190612f16565b60018060a01b03610160850151166101808701526101808401516101a08701526101a0840151601f19878303016101c0880152612ec9565b916101c081015115156101e08601526101e0810151828601520151601f1984830301610220850152612ec9565b346103d4576020806003193601126103d457610bd7612f39565b6001600160a01b031660009081526006825260408120610bf690613565565b60005b8151811015610c9e57610c0c8183613432565b51600052600280855260ff8060096040600020015460081c1660048110156105ab57159081610c7a575b50610c4b575b50610c4690613355565b610bf9565b8193610c7391610c5e610c469486613432565b51600052865260046040600020015490613488565b9290610c3c565b9050610c868385613432565b51600052818652600c60406000200154161586610c36565b5050604051908152f35b346103d45760403660031901126103d457610cc1612f39565b6001600160a01b03166000908152600760205260409020805460243591908210156103d45760209161040a9161300e565b346103d45760603660031901126103d457610d0b612f39565b6024356001600160401b0381116103d457610d2a90369060040161303c565b6044356001600160401b0381116103d457610d4990369060040161303c565b9160018060a01b038091610d6282600c541633146130c4565b169283156110755783600052600560205260ff604060002054166110305760405190610d8d82612dcb565b848252602082019084825260408301526001606083015260006080830152600060a08301528460005260046020526040600020928251166001600160601b0360a01b845416178355518051906001600160401b0382116103be578190610e0382610dfa6001880154612d91565b60018801613135565b602090601f8311600114610fbe57600092610fb3575b50508160011b916000199060031b1c19161760018301555b6002820160408201518051906001600160401b0382116103be57610e598261029e8554612d91565b602090601f8311600114610f1f5793610f0f95938360059460a0947f794609d413476b685b75d8a637d2c555244a49707fcafad41bdbcd85ce3e84fd9a98600092610f14575b50508160011b916000199060031b1c19161790555b610ed360608201511515600386019060ff801983541691151516179055565b6080810151600485015501519101558360005260056020526040600020600160ff19825416179055604051918291602083526020830190612ec9565b0390a2005b015190508b80610e9f565b90601f198316918460005260206000209260005b818110610f9b57508460a0947f794609d413476b685b75d8a637d2c555244a49707fcafad41bdbcd85ce3e84fd9a9894610f0f9a989460059860019510610f82575b505050811b019055610eb4565b015160001960f88460031b161c191690558b8080610f75565b92936020600181928786015181550195019301610f33565b015190508680610e19565b9250600185016000526020600020906000935b601f1984168510611015576001945083601f19811610610ffc575b505050811b016001830155610e31565b015160001960f88460031b161c19169055868080610fec565b81810151835560209485019460019093019290910190610fd1565b60405162461bcd60e51b815260206004820152601a60248201527f41756469746f7220616c726561647920726567697374657265640000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601760248201527f496e76616c69642061756469746f7220616464726573730000000000000000006044820152606490fd5b346103d45760403660031901126103d4576110d3612f39565b6001600160a01b03166000908152600660205260409020805460243591908210156103d45760209161040a9161300e565b346103d45760403660031901126103d45761111d612f39565b6024906001600160401b039082358281116103d457611140903690600401612f9a565b336000526020906005825260ff94856040600020541680611403575b6111659061337a565b6001600160a01b039384169561117c871515613269565b8251156113c157600096875b84518910156112715761119b8986613432565b51600052600280875282888260406000200154160361122d576111be8a87613432565b5160005280875283600960406000200154166003811015611218579161120c916111ed60016112129514613446565b6111f78c89613432565b51600052885260046040600020015490613488565b98613355565b97611188565b85634e487b7160e01b60005260216004526000fd5b60405162461bcd60e51b8152600481018890526018818701527f4372656469742070726f6475636572206d69736d6174636800000000000000006044820152606490fd5b9150919286949360056001976113048954888b6040519461129186612dcb565b838652828601908b825260408701928b84526003606089019582875260808a01976000895260a08b019d8e526000525260406000209751885587019151166001600160601b0360a01b825416179055516002850155516003840155511515600483019060ff801983541691151516179055565b0191519081519687116113ad57600160401b87116113ad575084908254878455808810611390575b500190600052836000208660005b87811061137e575061137a8686867f56cf48563e7f0943a6ac6b71ab3af3196142fee0426af6550753b9dfc36061d78554938492604051908152a3613355565b9055005b8684519401938184015501879061133a565b6113a790846000528884600020918201910161311e565b8861132c565b634e487b7160e01b60009081526041600452fd5b606482856040519162461bcd60e51b83528160048401528201527f4d75737420696e636c756465206174206c65617374206f6e65206372656469746044820152fd5b5060048352604060002060030154861661115c565b346103d4576020806003193601126103d457600435606060a060405161143d81612dcb565b600081526000858201526000604082015260008382015260006080820152015280600052600382526114756040600020541515613495565b60005260038152604060002061078d6040519161149183612dcb565b8054835260018060a01b03908160018201541691858501928352600282015460408601908152600383015491606087019283526114e1600560ff6004870154169560808a01961515875201613565565b9460a08801958652604051988998818a5251908901525116604087015251606086015251608085015251151560a08401525160c08084015260e0830190612f4f565b346103d45760403660031901126103d45761153c612f39565b611544612f23565b9060018060a01b03809116600052600b60205260406000209116600052602052602060ff604060002054166040519015158152f35b346103d45760203660031901126103d4576001600160a01b0361159a612f39565b16600052600660205261078d6115b36040600020613565565b604051918291602083526020830190612f4f565b346103d4576020806003193601126103d45760043590336000526005815260ff60406000205416806116d6575b6115fd9061337a565b816000526003908181526116176040600020541515613495565b8260005281815260ff6004604060002001541661169957819083600052818152816040600020016116488154613355565b905583600052526002604060002091820154101561166257005b600401805460ff1916600117905533907f638492ce2b0bdeb947af4beacab7121474faccd346b1ac6244840b79292745b5600080a3005b6064906040519062461bcd60e51b82526004820152601660248201527510985d18da08185b1c9958591e481d995c9a599a595960521b6044820152fd5b506004815260406000206003015460ff166115f4565b346103d45760003660031901126103d457602060405160328152f35b346103d45761171636613092565b9061172c60018060a01b03600c541633146130c4565b806000526020916002835261174760406000205415156131ba565b816000526002835260ff60096040600020015460081c1660048110156105ab576003146117c3576103247fbb6eab40ac7ef88c4fa5124848760b336ce41456a6efd5f40647d3e308481aa6918360005260028552600960406000200161020061ff00198254161790556040519182918683523396830190612ec9565b60405162461bcd60e51b815260048101849052601f60248201527f43726564697420686173206265656e2073706c6974206f72206d6572676564006044820152606490fd5b346103d45760003660031901126103d457602060405161016d8152f35b346103d4576101203660031901126103d45761183f612f39565b611847612f23565b6044356001600160401b0381116103d45761186690369060040161303c565b9160a4356001600160401b0381116103d45761188690369060040161303c565b60c4356001600160401b0381116103d4576118a590369060040161303c565b610104356001600160401b0381116103d4576118c590369060040161303c565b9060018060a01b03600d5416331480156120bd575b1561206a576118f36001600160a01b038516151561321d565b6119076001600160a01b0386161515613269565b61191460643515156132b5565b603260e43511612025574260843511611fd057600054926040519661193888612de6565b84885260018060a01b038616602089015260018060a01b03871660408901526060880152606435608088015260843560a088015260c087015260e086015260e4356101008601526000610120860152600061014086015233610160860152426101808601526101a085015260006101c085015260006101e08501526040518060208101106001600160401b036020830111176103be57602081016040526000815261020085015260005260026020526040600020835181556001810160018060a01b03602086015116906001600160601b0360a01b9182825416179055600282019060018060a01b036040870151169082541617905560608401518051906001600160401b0382116103be578190611a6082611a576003870154612d91565b60038701613135565b602090601f8311600114611f5e57600092611f53575b50508160011b916000199060031b1c19161760038201555b6080840151600482015560a0840151600582015560c08401518051906001600160401b0382116103be578190611ad482611acb6006870154612d91565b60068701613135565b602090601f8311600114611ee157600092611ed6575b50508160011b916000199060031b1c19161760068201555b60e08401518051906001600160401b0382116103be578190611b3482611b2b6007870154612d91565b60078701613135565b602090601f8311600114611e6457600092611e59575b50508160011b916000199060031b1c19161760078201555b61010084015160088201556009810161012085015160038110156105ab57611b8a9082613301565b6101408501519060048210156105ab57611ba7611bd192826131fe565b610160860151815462010000600160b01b03191660109190911b62010000600160b01b0316179055565b610180840151600a8201556101a084015180516001600160401b0381116103be57600b830191611c058261029e8554612d91565b602090601f8311600114611dea579180600e94926102009694600092611ddf575b50508160011b916000199060031b1c19161790555b611c5b6101c08701511515600c83019060ff801983541691151516179055565b6101e0860151600d820155019301519283516001600160401b0381116103be57611c8f81611c898454612d91565b84613135565b6020601f8211600114611d75578190611d6596600092611d6a575b50508160011b916000199060031b1c19161790555b6001600160a01b03821660009081526006602052604081209054611ce291613319565b6001600160a01b03811660009081526007602052604081209054611d0591613319565b6000549182600052600a60205282604060002055827f9b18cc23b8fd086d46a6000d48a1b17b456ff07fcea34b8c578a2335931d71db60408051936064358552608435602086015260018060a01b03169460018060a01b031693a4613355565b600055005b015190508680611caa565b601f198216958360005260206000209660005b818110611dc7575091611d659791846001959410611dae575b505050811b019055611cbf565b015160001960f88460031b161c19169055868080611da1565b83830151895560019098019760209384019301611d88565b015190508980611c26565b90601f198316918460005260206000209260005b818110611e4157509260019285926102009896600e989610611e28575b505050811b019055611c3b565b015160001960f88460031b161c19169055898080611e1b565b92936020600181928786015181550195019301611dfe565b015190508680611b4a565b9250600784016000526020600020906000935b601f1984168510611ebb576001945083601f19811610611ea2575b505050811b016007820155611b62565b015160001960f88460031b161c19169055868080611e92565b81810151835560209485019460019093019290910190611e77565b015190508680611aea565b9250600684016000526020600020906000935b601f1984168510611f38576001945083601f19811610611f1f575b505050811b016006820155611b02565b015160001960f88460031b161c19169055868080611f0f565b81810151835560209485019460019093019290910190611ef4565b015190508680611a76565b9250600384016000526020600020906000935b601f1984168510611fb5576001945083601f19811610611f9c575b505050811b016003820155611a8e565b015160001960f88460031b161c19169055868080611f8c565b81810151835560209485019460019093019290910190611f71565b60405162461bcd60e51b815260206004820152602760248201527f50726f64756374696f6e20646174652063616e6e6f7420626520696e207468656044820152662066757475726560c81b6064820152608490fd5b60405162461bcd60e51b815260206004820152601960248201527f436172626f6e20696e74656e7369747920746f6f2068696768000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152602560248201527f4f6e6c79206365727469666965722063616e2063616c6c20746869732066756e60448201526431ba34b7b760d91b6064820152608490fd5b50600c546001600160a01b031633146118da565b346103d4576120df36612ff8565b906000526009602052604060002080548210156103d45760209161040a9161300e565b346103d45760203660031901126103d45761211b612f39565b600c546001600160a01b03919061213590831633146130c4565b1680600052600560205261215060ff6040600020541661317a565b806000526004602052600360406000200160ff1990818154169055600560205260406000209081541690557fa9bc4f928186e52b6fb1b4cd8af67146f978de8d833f2aab7055cbaa2a1010d8600080a2005b346103d45760003660031901126103d4576020600154604051908152f35b346103d45760203660031901126103d45760206121f660043580600052600283526121f160406000205415156131ba565b613a57565b6040519015158152f35b346103d45760003660031901126103d4576020600054604051908152f35b346103d45760203660031901126103d45760043580600052600260205261224b60406000205415156131ba565b600052600860205261078d6115b36040600020613565565b346103d45760203660031901126103d457600435600052600a6020526020604060002054604051908152f35b346103d45760403660031901126103d4576122a8612f39565b60243590811515908183036103d4576001600160a01b03169182151580612364575b1561232c576122fe9033600052600b60205260406000208460005260205260406000209060ff801983541691151516179055565b6040519081527fceb576d9f15e4e200fdb5096d64d5dfd667e16def20c1eefd14256d8e3faa26760203392a3005b60405162461bcd60e51b815260206004820152601060248201526f24b73b30b634b21037b832b930ba37b960811b6044820152606490fd5b50338314156122ca565b346103d45760203660031901126103d4576001600160a01b0361238f612f39565b166000526005602052602060ff604060002054166040519015158152f35b346103d45760203660031901126103d4576001600160a01b03806123cf612f39565b1660005260046020526040600020908154166123ed60018301612e23565b916123fa60028201612e23565b60ff6003830154169161243b600560048301549201549261242d604051978897885260c0602089015260c0880190612ec9565b908682036040880152612ec9565b9215156060850152608084015260a08301520390f35b346103d45760203660031901126103d4576001600160a01b03612472612f39565b16600052600760205261078d6115b36040600020613565565b346103d4576020806003193601126103d4576124a5612f39565b90600060a06040516124b681612dcb565b82815260608482015260606040820152826060820152826080820152015260018060a01b0380921680600052600582526124f760ff6040600020541661317a565b6000526004815260406000206040519161251083612dcb565b83825416835261252260018301612e23565b918184019283526125a161253860028301612e23565b6040860190815261258e60ff60038501541695606088019615158752600560048601549560808a0196875201549560a08901968752604051998a99828b525116908901525160c0604089015260e0880190612ec9565b9051868203601f19016060880152612ec9565b9251151560808501525160a08401525160c08301520390f35b346103d4576020806003193601126103d4576004356001600160401b0381116103d4576125eb903690600401612f9a565b90600280835110612865576125ff83613425565b51600052600a91828152604060002054926000946000955b81518710156127835761262a8783613432565b518060005285855261264260406000205415156131ba565b8060005285855261266460018060a01b036001604060002001541633146134d8565b8060005285855261268060ff600c6040600020015416156133d9565b61268c61024b82613a57565b612695816135b4565b8060005283855286604060002054036127335760005b8881106126dc57506126d6916126d09160005286865260046040600020015490613488565b96613355565b95612617565b816126e78286613432565b51146126fb576126f690613355565b6126ab565b60405162461bcd60e51b815260048101879052601060248201526f111d5c1b1a58d85d194818dc99591a5d60821b6044820152606490fd5b60405162461bcd60e51b815260048101869052602260248201527f43726564697473206d757374207368617265207468652073616d65206f72696760448201526134b760f11b6064820152608490fd5b8492506127999061279383613425565b516137c8565b9160005b825181101561285a576128559084600052600886526127cb60406000206127c48387613432565b5190613319565b6127d58185613432565b51600052600986526127eb856040600020613319565b6127f58185613432565b516128008286613432565b5160005283875260046040600020015490604051918252867fd9ef4c4857fe5804aedb3cc907f1e2f6bf65417477b1acd3787906b6db97c531893394a461285061284a8286613432565b51613a15565b613355565b61279d565b505050604051908152f35b6064826040519062461bcd60e51b825280600483015260248201527f4d65726765206e65656473206174206c656173742074776f20637265646974736044820152fd5b346103d45760203660031901126103d4576128c1612f39565b600c546001600160a01b0391906128db90831633146130c4565b1680156128fa576001600160601b0360a01b600d541617600d55600080f35b60405162461bcd60e51b815260206004820152601960248201527f496e76616c6964206365727469666965722061646472657373000000000000006044820152606490fd5b346103d45760603660031901126103d45760043561295b612f23565b60443590826000526020926002845261297a60406000205415156131ba565b60008181526002855260409020600101546129e0906001600160a01b039081163381148015612abe575b6129ae91506134d8565b82600052600286526129cb60ff600c6040600020015416156133d9565b6129d761024b84613a57565b8316151561321d565b82151580612aa5575b15612a415790612a33826129ff612a39946135b4565b8060005260028652612a2d612a26612a1f87600460406000200154613558565b9683613997565b9582613997565b50613a15565b82613667565b604051908152f35b60405162461bcd60e51b815260048101859052603660248201527f5061727469616c20616d6f756e74206d757374206265206265747765656e203060448201527508185b99081d1a194818dc99591a5d08185b5bdd5b9d60521b6064820152608490fd5b50806000526002845260046040600020015483106129e9565b50600052600b865260406000203360005286526129ae60ff604060002054166129a4565b346103d45760203660031901126103d457600435806000526002602052612b0f60406000205415156131ba565b600052600960205261078d6115b36040600020613565565b346103d45760003660031901126103d457600d546040516001600160a01b039091168152602090f35b346103d45760403660031901126103d457612bea600435612b6f612f23565b90806000526002602052612b8960406000205415156131ba565b600081815260026020526040902060010154612bdc906001600160a01b039081163381148015612bec575b612bbe91506134d8565b8260005260026020526129cb60ff600c6040600020015416156133d9565b612be5816135b4565b613667565b005b50600052600b602052604060002033600052602052612bbe60ff60406000205416612bb4565b346103d45760203660031901126103d4576004356000908152600260208190526040909120805460018201549282015490926001600160a01b0390811692911690612c5f60038201612e23565b90600481015460058201549060068301612c7890612e23565b90612c8560078501612e23565b91600885015492600986015491600a87015493600b8801612ca590612e23565b96600c89015460ff1699600d8a015499600e01612cc190612e23565b9b6040519e8f9e8f9182526020820152604001528c6102206060819201528d01612cea91612ec9565b9160808d015260a08c01528a810360c08c0152612d0691612ec9565b89810360e08b0152612d1791612ec9565b92610100890152610120880160ff821690612d3191612f09565b612d46610140890160ff600884901c16612f16565b60101c6001600160a01b03166101608801526101808701528581036101a0870152612d7091612ec9565b9115156101c08501526101e084015282810361020084015261078d91612ec9565b90600182811c92168015612dc1575b6020831014612dab57565b634e487b7160e01b600052602260045260246000fd5b91607f1691612da0565b60c081019081106001600160401b038211176103be57604052565b61022081019081106001600160401b038211176103be57604052565b90601f801991011681019081106001600160401b038211176103be57604052565b9060405191826000825492612e3784612d91565b908184526001948581169081600014612ea65750600114612e63575b5050612e6192500383612e02565b565b9093915060005260209081600020936000915b818310612e8e575050612e6193508201013880612e53565b85548884018501529485019487945091830191612e76565b915050612e6194506020925060ff191682840152151560051b8201013880612e53565b919082519283825260005b848110612ef5575050826000602080949584010152601f8019910116010190565b602081830181015184830182015201612ed4565b9060038210156105ab5752565b9060048210156105ab5752565b602435906001600160a01b03821682036103d457565b600435906001600160a01b03821682036103d457565b90815180825260208080930193019160005b828110612f6f575050505090565b835185529381019392810192600101612f61565b6001600160401b0381116103be5760051b60200190565b81601f820112156103d457803591612fb183612f83565b92612fbf6040519485612e02565b808452602092838086019260051b8201019283116103d4578301905b828210612fe9575050505090565b81358152908301908301612fdb565b60409060031901126103d4576004359060243590565b80548210156130265760005260206000200190600090565b634e487b7160e01b600052603260045260246000fd5b81601f820112156103d4578035906001600160401b0382116103be5760405192613070601f8401601f191660200185612e02565b828452602083830101116103d457816000926020809301838601378301015290565b9060406003198301126103d45760043591602435906001600160401b0382116103d4576130c19160040161303c565b90565b156130cb57565b60405162461bcd60e51b815260206004820152602560248201527f4f6e6c7920726567756c61746f722063616e2063616c6c20746869732066756e60448201526431ba34b7b760d91b6064820152608490fd5b818110613129575050565b6000815560010161311e565b9190601f811161314457505050565b612e61926000526020600020906020601f840160051c83019310613170575b601f0160051c019061311e565b9091508190613163565b1561318157565b60405162461bcd60e51b8152602060048201526011602482015270105d591a5d1bdc881b9bdd08199bdd5b99607a1b6044820152606490fd5b156131c157565b60405162461bcd60e51b815260206004820152601560248201527410dc99591a5d08191bd95cc81b9bdd08195e1a5cdd605a1b6044820152606490fd5b9060048110156105ab5761ff0082549160081b169061ff001916179055565b1561322457565b60405162461bcd60e51b815260206004820152601960248201527f496e76616c696420726563697069656e742061646472657373000000000000006044820152606490fd5b1561327057565b60405162461bcd60e51b815260206004820152601860248201527f496e76616c69642070726f6475636572206164647265737300000000000000006044820152606490fd5b156132bc57565b60405162461bcd60e51b815260206004820152601d60248201527f416d6f756e74206d7573742062652067726561746572207468616e20300000006044820152606490fd5b9060038110156105ab5760ff80198354169116179055565b90815491600160401b8310156103be578261333c916001612e619501815561300e565b90919082549060031b91821b91600019901b1916179055565b60001981146133645760010190565b634e487b7160e01b600052601160045260246000fd5b1561338157565b60405162461bcd60e51b815260206004820152602a60248201527f4f6e6c79206163746976652061756469746f722063616e2063616c6c207468696044820152693990333ab731ba34b7b760b11b6064820152608490fd5b156133e057565b60405162461bcd60e51b815260206004820152601760248201527f43726564697420686173206265656e20726574697265640000000000000000006044820152606490fd5b8051156130265760200190565b80518210156130265760209160051b010190565b1561344d57565b60405162461bcd60e51b815260206004820152601360248201527210dc99591a5d081b9bdd081d995c9a599a5959606a1b6044820152606490fd5b9190820180921161336457565b1561349c57565b60405162461bcd60e51b815260206004820152601460248201527310985d18da08191bd95cc81b9bdd08195e1a5cdd60621b6044820152606490fd5b156134df57565b60405162461bcd60e51b815260206004820152601060248201526f2737ba1031b932b234ba1037bbb732b960811b6044820152606490fd5b1561351e57565b60405162461bcd60e51b815260206004820152601260248201527110dc99591a5d081a185cc8195e1c1a5c995960721b6044820152606490fd5b9190820391821161336457565b9060405191828154918282526020928383019160005283600020936000905b82821061359a57505050612e6192500383612e02565b855484526001958601958895509381019390910190613584565b600090808252600260205260ff600960408420015460081c16600481101561365357613617578152600260205260ff60096040832001541690600382101561360357506001612e619114613446565b634e487b7160e01b81526021600452602490fd5b60405162461bcd60e51b8152602060048201526014602482015273437265646974206973206e6f742061637469766560601b6044820152606490fd5b634e487b7160e01b83526021600452602483fd5b9060009180835260026020527f7498bf43d4148a03a165d093fcadc813f1a344a5f983812a2777c01f4dc2f0d6600160408520019384549460018060a01b03808716951680966001600160601b0360a01b1617905583815260076020526136d18360408320613a7a565b84815260076020526136e68360408320613319565b80a4565b908082146137c4576136fc8154612d91565b906001600160401b0382116103be5781906137218261371b8654612d91565b86613135565b600090601f83116001146137585760009261374d575b50508160011b916000199060031b1c1916179055565b015490503880613737565b81526020808220858352818320935090601f1985169083905b8282106137ab575050908460019594939210613792575b505050811b019055565b015460001960f88460031b161c19169055388080613788565b8495819295850154815560018091019601940190613771565b5050565b9190612e61906000908154916137dd83613355565b8155600783968083526002602091818352604095868620888752878720818103613860575b5050878652828452600487872089815501558452600a8252848420548685528585205580825260018060a01b0390818187872001541685526006835261384a87878720613319565b8685528252600185852001541683525220613319565b600e8083613990945484556139446001850160018060a01b039081600185015416906001600160601b0360a01b91828254161790558a870190828c86015416908254161790556138b660038401600388016136ea565b60048301546004870155600583015460058701556138da60068401600688016136ea565b6138e88c84018d88016136ea565b6008830154600887015560098601906009840161390960ff82541684613301565b61391a60ff825460081c16846131fe565b54825462010000600160b01b031916601091821c92909216901b62010000600160b01b0316179055565b600a810154600a85015561395e600b8201600b86016136ea565b61397e60ff600c83015416600c86019060ff801983541691151516179055565b600d810154600d8501550191016136ea565b3880613802565b91906139a381846137c8565b92837fc669df1df4247a98f9ef2be88da864199039a2e62e1f7cb9c837dec3185dc06060206000838152600882526139de8560408320613319565b848152600982526139f28460408320613319565b848152600282526040908190206001015490519586526001600160a01b031694a4565b600081815260026020908152604080832060098101805461ff001916610300179055600101546001600160a01b0316835260079091529020612e619190613a7a565b60005260026020526301e13380613a7660056040600020015442613558565b1190565b9060005b825480821015613b1a578290613a94838661300e565b929054600393841b1c14613ab2575050613aad90613355565b613a7e565b90939250600019918282019182116133645761333c613ad4613ae1938661300e565b905490871b1c918561300e565b81548015613b0457810192613af6848461300e565b81939154921b1b1916905555565b634e487b7160e01b600052603160045260246000fd5b5050505056fea2646970667358221220cc16daf10468229d83a095633b84f58b3213a12bf1cf018e971251902758368164736f6c63430008140033";
+
+type GreenHydrogenCreditConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: GreenHydrogenCreditConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class GreenHydrogenCredit__factory extends ContractFactory {
+  constructor(...args: GreenHydrogenCreditConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      GreenHydrogenCredit & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): GreenHydrogenCredit__factory {
+    return super.connect(runner) as GreenHydrogenCredit__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): GreenHydrogenCreditInterface {
+    return new Interface(_abi) as GreenHydrogenCreditInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): GreenHydrogenCredit {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as GreenHydrogenCredit;
+  }
+}
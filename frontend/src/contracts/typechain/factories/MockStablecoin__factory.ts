@@ -0,0 +1,325 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../common";
+import type {
+  MockStablecoin,
+  MockStablecoinInterface,
+} from "../MockStablecoin";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minter",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461002857600180546001600160a01b03191633179055610654908161002e8239f35b600080fdfe608060408181526004918236101561001657600080fd5b600092833560e01c91826306fdde031461040d5750816307546172146103e4578163095ea7b31461037357816318160ddd1461035657816323b872dd146102a3578163313ce5671461028757816340c10f19146101b557816370a082311461017d57816395d89b411461011957508063a9059cbb146100e95763dd62ed3e1461009e57600080fd5b346100e557806003193601126100e557806020926100ba6104a9565b6100c26104c4565b6001600160a01b0391821683526003865283832091168252845220549051908152f35b5080fd5b50346100e557806003193601126100e5576020906101126101086104a9565b6024359033610556565b5160018152f35b8383346100e557816003193601126100e5578051918183019083821067ffffffffffffffff83111761016a5750926101669382528252631b5554d160e21b60208301525191829182610460565b0390f35b634e487b7160e01b815260418552602490fd5b5050346100e55760203660031901126100e55760209181906001600160a01b036101a56104a9565b1681526002845220549051908152f35b9050346102835781600319360112610283576101cf6104a9565b600154602435926001600160a01b03929183163303610249575084927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef92602092169461021d8615156104da565b610228828654610526565b85558585526002835280852061023f838254610526565b905551908152a380f35b606490602086519162461bcd60e51b8352820152601460248201527313db9b1e481b5a5b9d195c8818d85b881b5a5b9d60621b6044820152fd5b8280fd5b5050346100e557816003193601126100e5576020905160068152f35b91905034610283576060366003190112610283576102bf6104a9565b6102c76104c4565b6044359160018060a01b03811680875260209560038752858820338952875284868920541061031a57509386610112958297985260038852818120338252885220610313848254610549565b9055610556565b855162461bcd60e51b81529081018790526016602482015275496e73756666696369656e7420616c6c6f77616e636560501b6044820152606490fd5b5050346100e557816003193601126100e557602091549051908152f35b5050346100e557806003193601126100e557602091816103916104a9565b91602435918291338152600387528181209460018060a01b0316948582528752205582519081527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925843392a35160018152f35b5050346100e557816003193601126100e55760015490516001600160a01b039091168152602090f35b83853461045d578060031936011261045d578183019083821067ffffffffffffffff83111761016a5750610166935081526008825267135bd8dac81554d160c21b60208301525191829182610460565b80fd5b6020808252825181830181905290939260005b82811061049557505060409293506000838284010152601f8019910116010190565b818101860151848201604001528501610473565b600435906001600160a01b03821682036104bf57565b600080fd5b602435906001600160a01b03821682036104bf57565b156104e157565b60405162461bcd60e51b815260206004820152601960248201527f496e76616c696420726563697069656e742061646472657373000000000000006044820152606490fd5b9190820180921161053357565b634e487b7160e01b600052601160045260246000fd5b9190820391821161053357565b6001600160a01b0391821692919061056f8415156104da565b169060008281526002602052816040822054106105e2577fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef916040828560209452600284528181206105c2848254610549565b905586815260028452206105d7828254610526565b9055604051908152a3565b60405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b6044820152606490fdfea2646970667358221220647ec69cf68c31bbddd29fc55084ccad00d319dd15026d083f224c4b0ea80e2764736f6c63430008140033";
+
+type MockStablecoinConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockStablecoinConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockStablecoin__factory extends ContractFactory {
+  constructor(...args: MockStablecoinConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockStablecoin & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockStablecoin__factory {
+    return super.connect(runner) as MockStablecoin__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockStablecoinInterface {
+    return new Interface(_abi) as MockStablecoinInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockStablecoin {
+    return new Contract(address, _abi, runner) as unknown as MockStablecoin;
+  }
+}
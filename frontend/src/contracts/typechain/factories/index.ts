@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as creditEscrowSol from "./CreditEscrow.sol";
+export { GreenHydrogenCredit__factory } from "./GreenHydrogenCredit__factory";
+export { MockStablecoin__factory } from "./MockStablecoin__factory";
@@ -0,0 +1,14 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as creditEscrowSol from "./CreditEscrow.sol";
+export type { creditEscrowSol };
+export type { GreenHydrogenCredit } from "./GreenHydrogenCredit";
+export type { MockStablecoin } from "./MockStablecoin";
+export * as factories from "./factories";
+export type { CreditEscrow } from "./CreditEscrow.sol/CreditEscrow";
+export { CreditEscrow__factory } from "./factories/CreditEscrow.sol/CreditEscrow__factory";
+export type { IERC20 } from "./CreditEscrow.sol/IERC20";
+export { IERC20__factory } from "./factories/CreditEscrow.sol/IERC20__factory";
+export { GreenHydrogenCredit__factory } from "./factories/GreenHydrogenCredit__factory";
+export { MockStablecoin__factory } from "./factories/MockStablecoin__factory";
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api } from '@/services/api';
+import type { Delivery } from '@/services/deliveries';
+
+// The signed-in user's marketplace deliveries still awaiting settlement; `reload` re-reads them after a
+// trade, payment or settlement.
+export function usePendingDeliveries(enabled: boolean) {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+    try {
+      const response = await api.getDeliveries({ status: 'pending' });
+      setDeliveries(response.data);
+    } catch (error) {
+      console.error('Failed to load deliveries:', error);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { deliveries, reload };
+}
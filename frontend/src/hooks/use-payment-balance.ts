@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from 'react';
+import { createSettlementClient } from '@/services/settlement';
+
+// The wallet's payment token balance, read from the chain; `refresh` re-reads it after a payment.
+export function usePaymentBalance(address?: string) {
+  const [balance, setBalance] = useState<number | null>(null);
+  const [symbol, setSymbol] = useState('mUSD');
+
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    try {
+      const client = createSettlementClient();
+      const [value, tokenSymbol] = await Promise.all([client.getBalance(address), client.symbol()]);
+      setBalance(value);
+      setSymbol(tokenSymbol);
+    } catch (error) {
+      console.error('Failed to load payment balance:', error);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { balance, symbol, refresh };
+}
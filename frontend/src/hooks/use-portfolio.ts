@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { api } from '@/services/api';
+import { createCreditClient } from '@/services/contract';
+import { toHolding, type PortfolioHolding, type PortfolioPricing } from '@/services/portfolio';
+
+// The signed-in user's credits, priced from the marketplace; `reload` re-reads both.
+export function usePortfolio() {
+  const { user } = useAuth();
+  const [holdings, setHoldings] = useState<PortfolioHolding[]>([]);
+  const [pricing, setPricing] = useState<PortfolioPricing | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Holdings come from the contract; prices from the marketplace
+  const reload = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      const client = createCreditClient();
+      const [ids, pricingResponse] = await Promise.all([
+        client.getOwnerCredits(user.address),
+        api.getPortfolioPricing().catch(() => undefined),
+      ]);
+      const credits = await Promise.all(ids.map(id => client.getCredit(id)));
+      setPricing(pricingResponse?.data ?? null);
+      setHoldings(credits.map(credit => toHolding(credit, pricingResponse?.data)));
+    } catch (error) {
+      console.error('Failed to load portfolio:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { holdings, pricing, isLoading, reload };
+}
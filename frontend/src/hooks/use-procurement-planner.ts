@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { isAxiosError } from 'axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { api } from '@/services/api';
+import { describeContractError, getWalletSigner } from '@/services/contract';
+import { isExecutable, type ProcurementPlan, type ProcurementRequest, type ProcurementTrade } from '@/services/procurement';
+import { createSettlementClient, payForBasket, type SettlementStep } from '@/services/settlement';
+import { formatCredits } from '@shared/quantity';
+
+interface ProcurementPlannerOptions {
+  // Payment token balance, null while unknown
+  balance: number | null;
+  // Payment token symbol
+  symbol: string;
+  // Called with the basket's trades once it is paid into escrow
+  onBought: (trades: ProcurementTrade[]) => void;
+  // Called after a purchase attempt, successful or not, to re-read offers, deliveries and balance
+  onChange: () => void;
+}
+
+// Plans the cheapest basket for a request and buys it as a whole.
+export function useProcurementPlanner({ balance, symbol, onBought, onChange }: ProcurementPlannerOptions) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [plan, setPlan] = useState<ProcurementPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  // The settlement step under way while a basket is bought
+  const [basketStep, setBasketStep] = useState<SettlementStep | null>(null);
+
+  const planBasket = async (request: ProcurementRequest) => {
+    setIsPlanning(true);
+    try {
+      const { data } = await api.planProcurement(request);
+      setPlan(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (isAxiosError(error) ? error.response?.data?.error : undefined) ?? "Failed to plan procurement",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  // All or nothing: reserves every leg, then pays for all of them with one basket escrow. If the payment
+  // doesn't go through, the reservations are released again.
+  const buyBasket = async () => {
+    if (!user || !plan || !isExecutable(plan)) return;
+    if (balance !== null && balance < plan.cost) {
+      toast({
+        title: "Error",
+        description: `Insufficient ${symbol} balance for this basket`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBasketStep('reserve');
+    let txIds: string[] = [];
+    try {
+      const { data: trades } = await api.executeProcurement(plan.request, plan.legs);
+      txIds = trades.map(t => t.txId);
+
+      const { data: pending } = await api.getDeliveries({ status: 'pending' });
+      const deliveries = pending.filter(d => txIds.includes(d.txId));
+      if (deliveries.length !== txIds.length) throw new Error('Not every leg of the basket recorded a delivery');
+      const client = createSettlementClient(await getWalletSigner(user.address));
+      await payForBasket(client, deliveries, setBasketStep);
+
+      onBought(trades.map(t => ({ ...t, status: 'escrowed' as const })));
+      toast({
+        title: "Success",
+        description: `Bought ${formatCredits(plan.credits)} from ${plan.legs.length} offers for $${plan.cost.toFixed(2)}. The payment is in escrow until every producer settles.`,
+      });
+      setPlan(null);
+    } catch (error) {
+      let released = txIds.length === 0;
+      if (!released) {
+        try {
+          await api.cancelProcurement(txIds);
+          released = true;
+        } catch (cancelError) {
+          console.error('Failed to release the basket:', cancelError);
+        }
+      }
+      toast({
+        title: "Error",
+        description: txIds.length === 0
+          ? (isAxiosError(error) ? error.response?.data?.error : undefined) ?? "Failed to buy the basket; nothing was bought"
+          : released
+            ? `The basket could not be paid for, so nothing was bought. ${describeContractError(error)}`
+            : `The basket is reserved but not paid for; pay for it or let it go from Awaiting Settlement. ${describeContractError(error)}`,
+        variant: "destructive",
+      });
+      setPlan(null);
+    } finally {
+      setBasketStep(null);
+      onChange();
+    }
+  };
+
+  return { plan, isPlanning, basketStep, planBasket, buyBasket };
+}
@@ -0,0 +1,373 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardCheck, CheckCircle, XCircle, Eye, RefreshCw, Award, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createCreditClient,
+  describeContractError,
+  getWalletSigner,
+  VerificationStatus,
+  type AuditorProfile,
+  type Credit,
+} from '@/services/contract';
+import { parseCreditEvidence } from '@/services/evidence';
+import { EvidenceList } from '@/components/shared/EvidenceList';
+import { formatKg } from '@shared/quantity';
+import { motion } from 'framer-motion';
+
+const statusBadge = (status: VerificationStatus) => {
+  switch (status) {
+    case VerificationStatus.Verified: return <Badge className="bg-producer text-producer-foreground">Verified</Badge>;
+    case VerificationStatus.Rejected: return <Badge variant="destructive">Rejected</Badge>;
+    default: return <Badge variant="secondary">Pending</Badge>;
+  }
+};
+
+const AuditorDashboard: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [credits, setCredits] = useState<Credit[]>([]);
+  const [profile, setProfile] = useState<AuditorProfile | null>(null);
+  const [selectedCredit, setSelectedCredit] = useState<Credit | null>(null);
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // Load credits and the auditor's on-chain registration
+  useEffect(() => {
+    if (user) {
+      loadCredits();
+      loadProfile(user.address);
+    }
+  }, [user]);
+
+  const loadCredits = async () => {
+    setIsLoading(true);
+    try {
+      setCredits(await createCreditClient().listCredits());
+    } catch (error) {
+      console.error('Failed to load credits:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadProfile = async (address: string) => {
+    try {
+      setProfile(await createCreditClient().getAuditor(address));
+    } catch (error) {
+      console.error('Failed to load auditor profile:', error);
+    }
+  };
+
+  const pendingCredits = credits.filter(
+    c => c.verificationStatus === VerificationStatus.Pending && !c.isRetired
+  );
+  const reviewedCredits = credits.filter(c => c.verificationStatus !== VerificationStatus.Pending);
+
+  const openReview = (credit: Credit) => {
+    setSelectedCredit(credit);
+    setNotes('');
+  };
+
+  const submitVerification = async (status: VerificationStatus.Verified | VerificationStatus.Rejected) => {
+    if (!user || !selectedCredit) return;
+
+    if (status === VerificationStatus.Rejected && !notes.trim()) {
+      toast({
+        title: "Notes Required",
+        description: "Explain why the credit is rejected",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const client = createCreditClient(await getWalletSigner(user.address));
+      const result = await client.verifyCredit(selectedCredit.id, status, notes.trim());
+
+      toast({
+        title: status === VerificationStatus.Verified ? "Credit Verified" : "Credit Rejected",
+        description: `Credit #${selectedCredit.id} recorded in block ${result.blockNumber}`,
+        variant: status === VerificationStatus.Rejected ? "destructive" : undefined,
+      });
+
+      setSelectedCredit(null);
+      await Promise.all([loadCredits(), loadProfile(user.address)]);
+    } catch (error) {
+      toast({
+        title: "Verification Failed",
+        description: describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="container mx-auto p-6 space-y-6"
+    >
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-auditor">Auditor Dashboard</h1>
+          <p className="text-muted-foreground">
+            Independently verify issued hydrogen credits
+            {profile && ` as ${profile.name} (${profile.accreditation})`}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          className="border-auditor text-auditor hover:bg-auditor hover:text-auditor-foreground"
+          onClick={loadCredits}
+          disabled={isLoading}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {profile && !profile.isActive && (
+        <Card className="border-destructive">
+          <CardContent className="p-4 flex items-center space-x-2 text-destructive">
+            <AlertCircle className="h-5 w-5" />
+            <span>Your auditor registration has been deactivated by the regulator.</span>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Awaiting Verification</p>
+                <p className="text-3xl font-bold text-auditor">{pendingCredits.length}</p>
+              </div>
+              <ClipboardCheck className="h-8 w-8 text-auditor" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">My Verifications</p>
+                <p className="text-3xl font-bold text-foreground">{profile?.verificationCount ?? 0}</p>
+                <p className="text-sm text-muted-foreground">
+                  {profile?.lastVerification
+                    ? `last on ${format(profile.lastVerification, 'MMM dd, yyyy')}`
+                    : 'none yet'}
+                </p>
+              </div>
+              <Award className="h-8 w-8 text-producer" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Reviewed Credits</p>
+                <p className="text-3xl font-bold text-foreground">{reviewedCredits.length}</p>
+                <p className="text-sm text-muted-foreground">across all auditors</p>
+              </div>
+              <CheckCircle className="h-8 w-8 text-public" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Pending Credits Queue */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-auditor">Pending Credits</CardTitle>
+          <CardDescription>
+            Credits issued by the certifier that no auditor has verified yet
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {pendingCredits.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <ClipboardCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No credits awaiting verification</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Credit</TableHead>
+                  <TableHead>Producer</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Carbon Intensity</TableHead>
+                  <TableHead>Produced</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingCredits.map((credit) => (
+                  <TableRow key={credit.id}>
+                    <TableCell className="font-mono">#{credit.id}</TableCell>
+                    <TableCell>{credit.producerName}</TableCell>
+                    <TableCell>{formatKg(credit.amount)}</TableCell>
+                    <TableCell>{credit.renewableSource}</TableCell>
+                    <TableCell>{credit.carbonIntensity} gCO2/kWh</TableCell>
+                    <TableCell>{format(credit.productionDate, 'MMM dd, yyyy')}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openReview(credit)}
+                      >
+                        <Eye className="h-4 w-4 mr-1" />
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Reviewed Credits */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Verification History</CardTitle>
+          <CardDescription>Outcome of every credit that has been reviewed on-chain</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {reviewedCredits.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No credits have been reviewed yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Credit</TableHead>
+                  <TableHead>Producer</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reviewedCredits.map((credit) => (
+                  <TableRow key={credit.id}>
+                    <TableCell className="font-mono">#{credit.id}</TableCell>
+                    <TableCell>{credit.producerName}</TableCell>
+                    <TableCell>{formatKg(credit.amount)}</TableCell>
+                    <TableCell>{credit.location}</TableCell>
+                    <TableCell>{statusBadge(credit.verificationStatus)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review Dialog */}
+      <Dialog open={selectedCredit !== null} onOpenChange={(open) => !open && setSelectedCredit(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Verify Credit #{selectedCredit?.id}</DialogTitle>
+          </DialogHeader>
+          {selectedCredit && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <h4 className="font-semibold">Producer</h4>
+                  <p>{selectedCredit.producerName}</p>
+                  <p className="font-mono text-xs text-muted-foreground truncate">{selectedCredit.producer}</p>
+                </div>
+                <div>
+                  <h4 className="font-semibold">Amount</h4>
+                  <p>{formatKg(selectedCredit.amount)} H2</p>
+                </div>
+                <div>
+                  <h4 className="font-semibold">Renewable Source</h4>
+                  <p>{selectedCredit.renewableSource}</p>
+                </div>
+                <div>
+                  <h4 className="font-semibold">Location</h4>
+                  <p>{selectedCredit.location}</p>
+                </div>
+                <div>
+                  <h4 className="font-semibold">Carbon Intensity</h4>
+                  <p>{selectedCredit.carbonIntensity} gCO2/kWh</p>
+                </div>
+                <div>
+                  <h4 className="font-semibold">Certified</h4>
+                  <p>{format(selectedCredit.certificationDate, 'PPP')}</p>
+                </div>
+              </div>
+              {parseCreditEvidence(selectedCredit.metadata).length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold text-sm">Anchored Evidence</h4>
+                  <EvidenceList files={parseCreditEvidence(selectedCredit.metadata)} preview />
+                </div>
+              )}
+              {selectedCredit.metadata && (
+                <div>
+                  <h4 className="font-semibold text-sm">Metadata</h4>
+                  <pre className="text-xs bg-muted rounded p-2 whitespace-pre-wrap break-all">
+                    {selectedCredit.metadata}
+                  </pre>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="verificationNotes">Verification Notes</Label>
+                <Textarea
+                  id="verificationNotes"
+                  placeholder="Evidence checked, meter readings, site visit findings..."
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+              <div className="flex space-x-2 pt-2">
+                <Button
+                  onClick={() => submitVerification(VerificationStatus.Verified)}
+                  disabled={isProcessing}
+                  className="bg-producer hover:bg-producer/90 text-producer-foreground"
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Verify
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => submitVerification(VerificationStatus.Rejected)}
+                  disabled={isProcessing}
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+};
+
+export default AuditorDashboard;
@@ -3,6 +3,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -13,28 +15,69 @@ import {
   SelectTrigger, 
   SelectValue 
 } from '@/components/ui/select';
-import { ShoppingCart, Wallet, TrendingUp, Download, Eye, Filter } from 'lucide-react';
+import { ShoppingCart, Wallet, TrendingUp, Download, Eye, Filter, Leaf, Award, Merge, Split, Gavel, FileText } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePaymentBalance } from '@/hooks/use-payment-balance';
+import { usePendingDeliveries } from '@/hooks/use-deliveries';
 import { useToast } from '@/hooks/use-toast';
 import { api } from '@/services/api';
+import { isAxiosError } from 'axios';
+import {
+  createCreditClient,
+  describeContractError,
+  describeLineage,
+  getWalletSigner,
+  CreditStatus,
+  VerificationStatus,
+  type Credit,
+} from '@/services/contract';
+import { RENEWABLE_SOURCES, type RenewableSource } from '@/services/facilities';
+import {
+  emptyListingFilters,
+  listingRegions,
+  listingSorts,
+  matchesListingFilters,
+  sortListings,
+  type ListingSort,
+  type MarketplaceListing,
+} from '@/services/listings';
+import type { Bid, BidConstraints } from '@/services/orders';
+import {
+  downloadRetirementCertificate,
+  formatRetirementReason,
+  parseRetirementReason,
+  type RetiredCredit,
+} from '@/services/certificate';
+import {
+  buildClaimStatement,
+  downloadClaimStatementJson,
+  downloadClaimStatementPdf,
+  loadRetirements,
+} from '@/services/claimReport';
+import { downloadBlob, isWithinDates, transactionExportColumns, type ExportFormat } from '@/services/export';
+import { createSettlementClient, payForDelivery, type SettlementStep } from '@/services/settlement';
+import { AwaitingSettlement } from '@/components/buyer/AwaitingSettlement';
+import { ProcurementPlanner } from '@/components/buyer/ProcurementPlanner';
+import { ExportDialog } from '@/components/shared/ExportDialog';
+import { ExpiryBadge } from '@/components/shared/ExpiryBadge';
+import { ExpiryNotices } from '@/components/shared/ExpiryNotices';
+import { ListingAttributesSummary } from '@/components/shared/ListingAttributesSummary';
+import { ListingFilterFields } from '@/components/shared/ListingFilterFields';
+import { OrderBookDepth } from '@/components/shared/OrderBookDepth';
+import { SettlementSteps } from '@/components/shared/SettlementSteps';
+import { creditExpiresAt, isCreditExpired } from '@shared/expiry';
+import { creditsToTonnes, formatAmount, formatCredits, formatKg, formatTonnes } from '@shared/quantity';
 import { motion } from 'framer-motion';
 import { format } from 'date-fns';
 
-interface MarketplaceListing {
-  offerId: string;
-  producerId: string;
-  producerName: string;
-  creditsAvailable: number;
-  pricePerCredit: number;
-}
-
 interface Transaction {
   txId: string;
   type: 'trade';
   amount: number;
   counterparty: string;
   timestamp: string;
-  status: 'pending' | 'completed';
+  // Trades are pending until paid into escrow and escrowed until the producer settles
+  status: 'pending' | 'escrowed' | 'completed';
   pricePerCredit?: number;
   totalPrice?: number;
 }
@@ -42,20 +85,27 @@ interface Transaction {
 const BuyerDashboard: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { balance, symbol, refresh: refreshBalance } = usePaymentBalance(user?.address);
   const [listings, setListings] = useState<MarketplaceListing[]>([
     {
       offerId: "offer-1",
       producerId: "prod-1",
       producerName: "GreenH2 Ltd",
       creditsAvailable: 50,
-      pricePerCredit: 20
+      pricePerCredit: 20,
+      renewableSources: [],
+      locations: [],
+      incomplete: true
     },
     {
       offerId: "offer-2",
       producerId: "prod-2",
       producerName: "H2Works",
       creditsAvailable: 30,
-      pricePerCredit: 18
+      pricePerCredit: 18,
+      renewableSources: [],
+      locations: [],
+      incomplete: true
     }
   ]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -63,13 +113,55 @@ const BuyerDashboard: React.FC = () => {
   const [purchaseQuantity, setPurchaseQuantity] = useState('');
   const [isPurchasing, setIsPurchasing] = useState(false);
   const [buyModalOpen, setBuyModalOpen] = useState(false);
+  // Where the open purchase is in delivery-versus-payment settlement
+  const [settlementStep, setSettlementStep] = useState<SettlementStep | null>(null);
+  const [settlementFailed, setSettlementFailed] = useState(false);
+
+  // On-chain holdings and retirement
+  const [holdings, setHoldings] = useState<Credit[]>([]);
+  const [retirementTxs, setRetirementTxs] = useState<Record<number, string>>({});
+  const [selectedCreditIds, setSelectedCreditIds] = useState<number[]>([]);
+  const [retireModalOpen, setRetireModalOpen] = useState(false);
+  const [beneficiary, setBeneficiary] = useState('');
+  const [retirementReason, setRetirementReason] = useState('');
+  const [isRetiring, setIsRetiring] = useState(false);
+  // Emissions claim statement over a reporting period, YYYY-MM-DD inclusive
+  const [claimModalOpen, setClaimModalOpen] = useState(false);
+  const [claimFrom, setClaimFrom] = useState(`${new Date().getFullYear()}-01-01`);
+  const [claimTo, setClaimTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [isGeneratingClaim, setIsGeneratingClaim] = useState(false);
+  const [splitTarget, setSplitTarget] = useState<Credit | null>(null);
+  const [splitAmount, setSplitAmount] = useState('');
+  const [isReshaping, setIsReshaping] = useState(false);
+  // Purchases the producer has yet to settle on-chain
+  const { deliveries: pendingDeliveries, reload: loadDeliveries } = usePendingDeliveries(user?.role === 'buyer');
+
+  // Order book
+  const [bids, setBids] = useState<Bid[]>([]);
+  const [bookVersion, setBookVersion] = useState(0);
+  const [bidModalOpen, setBidModalOpen] = useState(false);
+  const [bidCredits, setBidCredits] = useState('');
+  const [bidPrice, setBidPrice] = useState('');
+  const [bidSource, setBidSource] = useState<RenewableSource | 'any'>('any');
+  const [bidMaxIntensity, setBidMaxIntensity] = useState('');
+  const [bidVintageFrom, setBidVintageFrom] = useState('');
+  const [bidVintageTo, setBidVintageTo] = useState('');
+  const [isBidding, setIsBidding] = useState(false);
   
   // Filters
   const [minCredits, setMinCredits] = useState('');
   const [maxPrice, setMaxPrice] = useState('');
-  const [sortBy, setSortBy] = useState('price-asc');
+  const [listingFilters, setListingFilters] = useState(emptyListingFilters);
+  const [sortBy, setSortBy] = useState<ListingSort>('price-asc');
   const [filteredListings, setFilteredListings] = useState(listings);
 
+  // Transaction history filters, also applied server-side to exports
+  const [txSearch, setTxSearch] = useState('');
+  const [txStatusFilter, setTxStatusFilter] = useState('all');
+  const [txDateFrom, setTxDateFrom] = useState('');
+  const [txDateTo, setTxDateTo] = useState('');
+  const [exportModalOpen, setExportModalOpen] = useState(false);
+
   // Redirect if not buyer
   useEffect(() => {
     if (user && user.role !== 'buyer') {
@@ -83,6 +175,8 @@ const BuyerDashboard: React.FC = () => {
     if (user && user.role === 'buyer') {
       loadMarketplace();
       loadUserTransactions();
+      loadHoldings(user.address);
+      loadBids();
     }
   }, [user]);
 
@@ -97,27 +191,10 @@ const BuyerDashboard: React.FC = () => {
     if (maxPrice) {
       filtered = filtered.filter(l => l.pricePerCredit <= parseFloat(maxPrice));
     }
+    filtered = filtered.filter(l => matchesListingFilters(l, listingFilters));
 
-    // Apply sorting
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'price-asc':
-          return a.pricePerCredit - b.pricePerCredit;
-        case 'price-desc':
-          return b.pricePerCredit - a.pricePerCredit;
-        case 'credits-asc':
-          return a.creditsAvailable - b.creditsAvailable;
-        case 'credits-desc':
-          return b.creditsAvailable - a.creditsAvailable;
-        case 'producer':
-          return a.producerName.localeCompare(b.producerName);
-        default:
-          return 0;
-      }
-    });
-
-    setFilteredListings(filtered);
-  }, [listings, minCredits, maxPrice, sortBy]);
+    setFilteredListings(sortListings(filtered, sortBy));
+  }, [listings, minCredits, maxPrice, listingFilters, sortBy]);
 
   const loadMarketplace = async () => {
     try {
@@ -141,6 +218,287 @@ const BuyerDashboard: React.FC = () => {
     }
   };
 
+  const loadHoldings = async (address: string) => {
+    try {
+      const client = createCreditClient();
+      const ids = await client.getOwnerCredits(address);
+      setHoldings(await Promise.all(ids.map(id => client.getCredit(id))));
+
+      // Retirement tx hashes come from the ledger indexer
+      const events = await api.getChainEvents({ name: 'CreditRetired', address });
+      setRetirementTxs(Object.fromEntries(
+        (events.data as { txHash: string; args: { id: string } }[]).map(e => [Number(e.args.id), e.txHash])
+      ));
+    } catch (error) {
+      console.error('Failed to load holdings:', error);
+    }
+  };
+
+  const loadBids = async () => {
+    try {
+      const response = await api.getBids();
+      setBids(response.data);
+    } catch (error) {
+      console.error('Failed to load bids:', error);
+    }
+  };
+
+  // A fill moves listings, balances and deliveries, so everything the order book touches is reloaded
+  const refreshAfterMatching = () => {
+    loadMarketplace();
+    loadUserTransactions();
+    loadDeliveries();
+    loadBids();
+    refreshBalance();
+    setBookVersion(v => v + 1);
+  };
+
+  const placeBid = async () => {
+    const credits = Number(bidCredits);
+    const limitPrice = Number(bidPrice);
+    if (!user || !Number.isInteger(credits) || credits <= 0 || !(limitPrice > 0)) {
+      toast({
+        title: "Error",
+        description: "Enter a whole number of credits and a limit price",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const constraints: BidConstraints = {
+      renewableSource: bidSource === 'any' ? undefined : bidSource,
+      maxCarbonIntensity: bidMaxIntensity ? Number(bidMaxIntensity) : undefined,
+      vintageFrom: bidVintageFrom || undefined,
+      vintageTo: bidVintageTo || undefined,
+    };
+
+    setIsBidding(true);
+    try {
+      const { data: bid } = await api.placeBid({ credits, limitPrice, constraints });
+      const filled = bid.credits - bid.remaining;
+      toast({
+        title: "Success",
+        description: filled > 0
+          ? `Bid ${bid.bidId} filled ${formatCredits(filled)} straight away${bid.remaining > 0 ? `; ${formatCredits(bid.remaining)} rest on the book` : ''}`
+          : `Bid ${bid.bidId} for ${formatCredits(credits)} is on the book`,
+      });
+      setBidModalOpen(false);
+      setBidCredits('');
+      setBidPrice('');
+      setBidSource('any');
+      setBidMaxIntensity('');
+      setBidVintageFrom('');
+      setBidVintageTo('');
+      refreshAfterMatching();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (isAxiosError(error) ? error.response?.data?.error : undefined) ?? "Failed to place bid",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBidding(false);
+    }
+  };
+
+  const cancelBid = async (bidId: string) => {
+    try {
+      await api.cancelBid(bidId);
+      toast({ title: "Success", description: `Bid ${bidId} cancelled` });
+      loadBids();
+      setBookVersion(v => v + 1);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to cancel bid",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeConstraints = (c: BidConstraints) => {
+    const parts = [
+      c.renewableSource,
+      c.maxCarbonIntensity !== undefined ? `≤ ${c.maxCarbonIntensity} gCO2/kWh` : undefined,
+      c.vintageFrom || c.vintageTo ? `vintage ${c.vintageFrom ?? '…'} to ${c.vintageTo ?? '…'}` : undefined,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'Any credits';
+  };
+
+  const isRetirable = (credit: Credit) =>
+    !credit.isRetired &&
+    credit.status === CreditStatus.Active &&
+    credit.verificationStatus === VerificationStatus.Verified &&
+    !isCreditExpired(credit.productionDate);
+
+  const activeHoldings = holdings.filter(c => !c.isRetired);
+  const retiredHoldings = holdings.filter(c => c.isRetired);
+  const selectedCredits = activeHoldings.filter(c => selectedCreditIds.includes(c.id));
+
+  const toggleCredit = (id: number, checked: boolean) => {
+    setSelectedCreditIds(prev => checked ? [...prev, id] : prev.filter(c => c !== id));
+  };
+
+  // Only parts of the same issued credit can be recombined
+  const canMerge = selectedCredits.length >= 2 && selectedCredits.every(c => c.origin === selectedCredits[0].origin);
+  const awaitingDeliveryKg = pendingDeliveries.reduce((sum, d) => sum + d.kg - d.deliveredKg, 0);
+
+  const splitCredit = async () => {
+    const amount = Number(splitAmount);
+    if (!user || !splitTarget || !Number.isInteger(amount) || amount <= 0 || amount >= splitTarget.amount) {
+      toast({
+        title: "Error",
+        description: "Enter a whole number of kg smaller than the credit",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsReshaping(true);
+    try {
+      const client = createCreditClient(await getWalletSigner(user.address));
+      const result = await client.splitCredit(splitTarget.id, [amount, splitTarget.amount - amount]);
+      toast({
+        title: "Credit Split",
+        description: `Credit #${splitTarget.id} is now ${result.childIds.map(id => `#${id}`).join(' and ')}`,
+      });
+      setSplitTarget(null);
+      setSelectedCreditIds([]);
+      await loadHoldings(user.address);
+    } catch (error) {
+      toast({
+        title: "Split Failed",
+        description: describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsReshaping(false);
+    }
+  };
+
+  const mergeCredits = async () => {
+    if (!user || !canMerge) return;
+
+    setIsReshaping(true);
+    try {
+      const client = createCreditClient(await getWalletSigner(user.address));
+      const result = await client.mergeCredits(selectedCredits.map(c => c.id));
+      toast({
+        title: "Credits Merged",
+        description: `Merged ${selectedCredits.length} credits into #${result.mergedId}`,
+      });
+      setSelectedCreditIds([]);
+      await loadHoldings(user.address);
+    } catch (error) {
+      toast({
+        title: "Merge Failed",
+        description: describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsReshaping(false);
+    }
+  };
+
+  const retireCredits = async () => {
+    if (!user || selectedCredits.length === 0 || !beneficiary.trim() || !retirementReason.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter a beneficiary and a retirement reason",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsRetiring(true);
+    const retired: RetiredCredit[] = [];
+    try {
+      const client = createCreditClient(await getWalletSigner(user.address));
+      const reason = formatRetirementReason({ beneficiary: beneficiary.trim(), reason: retirementReason.trim() });
+
+      // One transaction per credit; a failure stops the loop and the toast reports partial progress
+      for (const credit of selectedCredits) {
+        const result = await client.retireCredit(credit.id, reason);
+        retired.push({ credit: await client.getCredit(credit.id), txHash: result.hash });
+      }
+
+      toast({
+        title: "Credits Retired",
+        description: `Retired ${retired.length} credit(s) on behalf of ${beneficiary.trim()}. Your certificate is downloading.`,
+      });
+      await downloadRetirementCertificate(retired);
+
+      setRetireModalOpen(false);
+      setSelectedCreditIds([]);
+      setBeneficiary('');
+      setRetirementReason('');
+    } catch (error) {
+      toast({
+        title: "Retirement Failed",
+        description: retired.length > 0
+          ? `Retired ${retired.length} of ${selectedCredits.length} credits before failing: ${describeContractError(error)}`
+          : describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setRetirementTxs(prev => ({ ...prev, ...Object.fromEntries(retired.map(r => [r.credit.id, r.txHash])) }));
+      setHoldings(prev => prev.map(c => retired.find(r => r.credit.id === c.id)?.credit ?? c));
+      setIsRetiring(false);
+    }
+  };
+
+  const downloadCertificate = async (credit: Credit) => {
+    const txHash = retirementTxs[credit.id];
+    if (!txHash) return;
+    try {
+      await downloadRetirementCertificate([{ credit, txHash }]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to generate certificate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const generateClaimStatement = async (output: 'pdf' | 'json') => {
+    if (!user) return;
+    if (!claimFrom || !claimTo || claimFrom > claimTo) {
+      toast({
+        title: "Error",
+        description: "Choose a reporting period that ends after it starts",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsGeneratingClaim(true);
+    try {
+      const period = { from: claimFrom, to: claimTo };
+      const retirements = await loadRetirements(user.address, period);
+      if (retirements.length === 0) {
+        toast({
+          title: "Error",
+          description: "You retired no credits in this period",
+          variant: "destructive",
+        });
+        return;
+      }
+      const statement = buildClaimStatement(user.address, period, retirements);
+      if (output === 'pdf') downloadClaimStatementPdf(statement);
+      else downloadClaimStatementJson(statement);
+      setClaimModalOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate the claim statement",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGeneratingClaim(false);
+    }
+  };
+
   const executePurchase = async () => {
     if (!user || !selectedListing || !purchaseQuantity) {
       toast({
@@ -163,18 +521,21 @@ const BuyerDashboard: React.FC = () => {
       return;
     }
 
-    if ((user.budget || 0) < totalPrice) {
+    if (balance !== null && balance < totalPrice) {
       toast({
         title: "Error",
-        description: "Insufficient budget for this purchase",
+        description: `Insufficient ${symbol} balance for this purchase`,
         variant: "destructive",
       });
       return;
     }
 
     setIsPurchasing(true);
+    setSettlementFailed(false);
+    setSettlementStep('reserve');
+    let step: SettlementStep = 'reserve';
     try {
-      await api.executeTrade({
+      const { data: trade } = await api.executeTrade({
         buyerId: user.id,
         offerId: selectedListing.offerId,
         quantity,
@@ -189,33 +550,53 @@ const BuyerDashboard: React.FC = () => {
 
       // Add transaction to local state
       const newTransaction: Transaction = {
-        txId: `tx-${Date.now()}`,
+        txId: trade.txId,
         type: 'trade',
         amount: quantity,
         counterparty: selectedListing.producerName,
         timestamp: new Date().toISOString(),
-        status: 'completed',
+        status: trade.status,
         pricePerCredit: selectedListing.pricePerCredit,
         totalPrice,
       };
       setTransactions(prev => [newTransaction, ...prev]);
 
-      setBuyModalOpen(false);
-      setPurchaseQuantity('');
-      setSelectedListing(null);
+      // The reservation is recorded; now pay into escrow from the buyer's wallet
+      const { data: deliveries } = await api.getDeliveries({ status: 'pending' });
+      const delivery = deliveries.find(d => d.txId === trade.txId);
+      if (!delivery) throw new Error(`No delivery was recorded for ${trade.txId}`);
+      const client = createSettlementClient(await getWalletSigner(user.address));
+      const result = await payForDelivery(client, delivery, (next) => {
+        step = next;
+        setSettlementStep(next);
+      });
+      setTransactions(prev => prev.map(t => t.txId === trade.txId ? { ...t, status: 'escrowed' } : t));
 
       toast({
         title: "Success",
-        description: `Purchased ${quantity} credits from ${selectedListing.producerName}`,
+        description: `Purchased ${formatCredits(quantity)} from ${selectedListing.producerName}. ${result.payment.toFixed(2)} ${symbol} is in escrow until they settle.`,
       });
     } catch (error) {
+      setSettlementFailed(true);
       toast({
         title: "Error",
-        description: "Failed to complete purchase",
+        description: step === 'reserve'
+          ? (isAxiosError(error) ? error.response?.data?.error : undefined) ?? "Failed to complete purchase"
+          : `The credits are reserved but not paid for; pay from Awaiting Settlement. ${describeContractError(error)}`,
         variant: "destructive",
       });
     } finally {
       setIsPurchasing(false);
+      loadDeliveries();
+      refreshBalance();
+    }
+  };
+
+  const closeBuyModal = (open: boolean) => {
+    setBuyModalOpen(open);
+    if (!open) {
+      setSettlementStep(null);
+      setPurchaseQuantity('');
     }
   };
 
@@ -223,14 +604,37 @@ const BuyerDashboard: React.FC = () => {
     setSelectedListing(listing);
     setBuyModalOpen(true);
     setPurchaseQuantity('');
+    setSettlementStep(null);
   };
 
-  const exportTransactions = () => {
-    // Mock CSV export
-    toast({
-      title: "Export Started",
-      description: "Transaction history is being prepared for download",
-    });
+  const filteredTransactions = transactions.filter(tx =>
+    (txStatusFilter === 'all' || tx.status === txStatusFilter) &&
+    (!txSearch ||
+      tx.txId.toLowerCase().includes(txSearch.toLowerCase()) ||
+      tx.counterparty.toLowerCase().includes(txSearch.toLowerCase())) &&
+    isWithinDates(tx.timestamp, txDateFrom, txDateTo)
+  );
+
+  const exportTransactions = async (exportFormat: ExportFormat, columns: string[]) => {
+    if (!user) return;
+    try {
+      const response = await api.exportUserTransactions(user.id, {
+        format: exportFormat,
+        columns: columns.join(','),
+        status: txStatusFilter === 'all' ? undefined : txStatusFilter,
+        search: txSearch || undefined,
+        from: txDateFrom || undefined,
+        to: txDateTo || undefined,
+      });
+      downloadBlob(response.data, `transactions-${format(new Date(), 'yyyyMMdd-HHmmss')}.${exportFormat}`);
+    } catch (error) {
+      console.error('Failed to export transactions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export transaction history",
+        variant: "destructive",
+      });
+    }
   };
 
   if (!user || user.role !== 'buyer') {
@@ -258,11 +662,11 @@ const BuyerDashboard: React.FC = () => {
         </div>
         <Button 
           variant="outline" 
-          onClick={exportTransactions}
+          onClick={() => setExportModalOpen(true)}
           className="border-buyer text-buyer hover:bg-buyer hover:text-buyer-foreground"
         >
           <Download className="h-4 w-4 mr-2" />
-          Export CSV
+          Export
         </Button>
       </div>
 
@@ -273,7 +677,7 @@ const BuyerDashboard: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Credits Owned</p>
-                <p className="text-3xl font-bold text-buyer">{user.credits || 0}</p>
+                <p className="text-3xl font-bold text-buyer">{formatAmount(user.credits || 0, 'credit')}</p>
               </div>
               <ShoppingCart className="h-8 w-8 text-buyer" />
             </div>
@@ -284,8 +688,10 @@ const BuyerDashboard: React.FC = () => {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Available Budget</p>
-                <p className="text-3xl font-bold text-foreground">${user.budget || 0}</p>
+                <p className="text-sm font-medium text-muted-foreground">Payment Balance</p>
+                <p className="text-3xl font-bold text-foreground">
+                  {balance === null ? '—' : `${balance.toFixed(2)} ${symbol}`}
+                </p>
               </div>
               <Wallet className="h-8 w-8 text-producer" />
             </div>
@@ -305,6 +711,8 @@ const BuyerDashboard: React.FC = () => {
         </Card>
       </div>
 
+      <ExpiryNotices />
+
       {/* Marketplace Filters */}
       <Card>
         <CardHeader>
@@ -338,25 +746,25 @@ const BuyerDashboard: React.FC = () => {
             </div>
             <div>
               <Label htmlFor="sortBy">Sort By</Label>
-              <Select value={sortBy} onValueChange={setSortBy}>
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as ListingSort)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Sort by..." />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="price-asc">Price: Low to High</SelectItem>
-                  <SelectItem value="price-desc">Price: High to Low</SelectItem>
-                  <SelectItem value="credits-asc">Credits: Low to High</SelectItem>
-                  <SelectItem value="credits-desc">Credits: High to Low</SelectItem>
-                  <SelectItem value="producer">Producer Name</SelectItem>
+                  {listingSorts.map(sort => (
+                    <SelectItem key={sort.value} value={sort.value}>{sort.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
+            <ListingFilterFields filters={listingFilters} onChange={setListingFilters} regions={listingRegions(listings)} />
             <div className="flex items-end">
               <Button 
                 variant="outline" 
                 onClick={() => {
                   setMinCredits('');
                   setMaxPrice('');
+                  setListingFilters(emptyListingFilters);
                   setSortBy('price-asc');
                 }}
                 className="w-full"
@@ -381,9 +789,11 @@ const BuyerDashboard: React.FC = () => {
             <TableHeader>
               <TableRow>
                 <TableHead>Producer</TableHead>
+                <TableHead>Credits</TableHead>
                 <TableHead>Available Credits</TableHead>
                 <TableHead>Price per Credit</TableHead>
                 <TableHead>Total Value</TableHead>
+                <TableHead>Expires</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -398,9 +808,15 @@ const BuyerDashboard: React.FC = () => {
                       </div>
                     </div>
                   </TableCell>
+                  <TableCell>
+                    <ListingAttributesSummary attributes={listing} />
+                  </TableCell>
                   <TableCell>
                     <Badge variant="secondary">
-                      {listing.creditsAvailable} credits
+                      {formatCredits(listing.creditsAvailable)}
+                      <span className="block text-xs text-muted-foreground">
+                        {formatTonnes(creditsToTonnes(listing.creditsAvailable))} H2
+                      </span>
                     </Badge>
                   </TableCell>
                   <TableCell className="font-mono">
@@ -409,6 +825,9 @@ const BuyerDashboard: React.FC = () => {
                   <TableCell className="font-mono">
                     ${(listing.creditsAvailable * listing.pricePerCredit).toFixed(2)}
                   </TableCell>
+                  <TableCell>
+                    {listing.expiresAt ? <ExpiryBadge expiresAt={listing.expiresAt} /> : '—'}
+                  </TableCell>
                   <TableCell>
                     <Button 
                       size="sm"
@@ -433,6 +852,267 @@ const BuyerDashboard: React.FC = () => {
         </CardContent>
       </Card>
 
+      <OrderBookDepth refreshKey={bookVersion} />
+
+      {/* Limit Bids */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <Gavel className="h-5 w-5 mr-2 text-buyer" />
+              My Bids
+            </CardTitle>
+            <CardDescription>
+              Bids fill against the cheapest offers at or below your limit, oldest first, and may fill over several trades.
+              Constrained bids only match offers whose credits all meet the constraints.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => setBidModalOpen(true)}
+            className="bg-buyer hover:bg-buyer/90 text-buyer-foreground"
+          >
+            <Gavel className="h-4 w-4 mr-2" />
+            Place Bid
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {bids.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>No bids yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bid</TableHead>
+                  <TableHead>Limit Price</TableHead>
+                  <TableHead>Filled</TableHead>
+                  <TableHead>Constraints</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bids.map(bid => (
+                  <TableRow key={bid.bidId}>
+                    <TableCell>
+                      <div className="font-mono">{bid.bidId}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {format(new Date(bid.createdAt), 'MMM dd, yyyy HH:mm')}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono">${bid.limitPrice.toFixed(2)}</TableCell>
+                    <TableCell>
+                      <div>{formatAmount(bid.credits - bid.remaining, 'credit')} of {formatCredits(bid.credits)}</div>
+                      {bid.fills.map(fill => (
+                        <div key={fill.txId} className="text-xs text-muted-foreground">
+                          {formatCredits(fill.credits)} at ${fill.pricePerCredit.toFixed(2)} from {fill.offerId}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeConstraints(bid.constraints)}</TableCell>
+                    <TableCell>
+                      <Badge variant={bid.status === 'open' ? 'default' : bid.status === 'filled' ? 'secondary' : 'outline'}>
+                        {bid.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {bid.status === 'open' && (
+                        <Button size="sm" variant="outline" onClick={() => cancelBid(bid.bidId)}>
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Procurement Planner */}
+      <ProcurementPlanner
+        balance={balance}
+        symbol={symbol}
+        onBought={(trades) => setTransactions(prev => [...[...trades].reverse(), ...prev])}
+        onChange={refreshAfterMatching}
+      />
+
+      {/* Awaiting Settlement */}
+      <AwaitingSettlement
+        deliveries={pendingDeliveries}
+        symbol={symbol}
+        onChange={() => {
+          loadDeliveries();
+          refreshBalance();
+        }}
+      />
+
+      {/* On-chain Holdings */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <Leaf className="h-5 w-5 mr-2 text-producer" />
+              My Credits
+            </CardTitle>
+            <CardDescription>
+              Credits held by <span className="font-mono">{user.address}</span>. Verified, active credits can be retired until they expire, 365 days after production.
+              Split a credit to retire part of it; parts of the same issued credit can be merged back.
+              {awaitingDeliveryKg > 0 && (
+                <span className="block mt-1">
+                  {formatKg(awaitingDeliveryKg)} bought on the marketplace is awaiting on-chain settlement.
+                </span>
+              )}
+            </CardDescription>
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={mergeCredits}
+              disabled={!canMerge || isReshaping}
+            >
+              <Merge className="h-4 w-4 mr-2" />
+              Merge Selected
+            </Button>
+            <Button
+              onClick={() => setRetireModalOpen(true)}
+              disabled={selectedCredits.length === 0}
+              className="bg-producer hover:bg-producer/90 text-producer-foreground"
+            >
+              <Leaf className="h-4 w-4 mr-2" />
+              Retire Selected ({selectedCredits.length})
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                <TableHead>Credit</TableHead>
+                <TableHead>Producer</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Produced</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Lineage</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {activeHoldings.map((credit) => (
+                <TableRow key={credit.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedCreditIds.includes(credit.id)}
+                      onCheckedChange={(checked) => toggleCredit(credit.id, checked === true)}
+                      disabled={!isRetirable(credit)}
+                    />
+                  </TableCell>
+                  <TableCell className="font-mono">#{credit.id}</TableCell>
+                  <TableCell>{credit.producerName}</TableCell>
+                  <TableCell>{formatKg(credit.amount)}</TableCell>
+                  <TableCell>{credit.renewableSource}</TableCell>
+                  <TableCell>{format(credit.productionDate, 'MMM dd, yyyy')}</TableCell>
+                  <TableCell><ExpiryBadge expiresAt={creditExpiresAt(credit.productionDate)} /></TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{describeLineage(credit)}</TableCell>
+                  <TableCell>
+                    {isRetirable(credit) ? (
+                      <Badge className="bg-producer/10 text-producer">Verified</Badge>
+                    ) : (
+                      <Badge variant="secondary">
+                        {credit.status === CreditStatus.Suspended ? 'Suspended' : VerificationStatus[credit.verificationStatus]}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => { setSplitTarget(credit); setSplitAmount(''); }}
+                      disabled={!isRetirable(credit) || credit.amount < 2}
+                    >
+                      <Split className="h-4 w-4 mr-1" />
+                      Split
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {activeHoldings.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              <Leaf className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No active credits in your wallet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Retirements */}
+      {retiredHoldings.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center">
+                <Award className="h-5 w-5 mr-2 text-producer" />
+                Retirements
+              </CardTitle>
+              <CardDescription>Credits you have permanently retired, with downloadable certificates</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setClaimModalOpen(true)}>
+              <FileText className="h-4 w-4 mr-2" />
+              Claim Statement
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Credit</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Beneficiary</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Retired</TableHead>
+                  <TableHead>Certificate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {retiredHoldings.map((credit) => {
+                  const { beneficiary: retiredFor, reason } = parseRetirementReason(credit.retirementReason);
+                  return (
+                    <TableRow key={credit.id}>
+                      <TableCell className="font-mono">#{credit.id}</TableCell>
+                      <TableCell>{formatKg(credit.amount)}</TableCell>
+                      <TableCell>{retiredFor || '—'}</TableCell>
+                      <TableCell className="max-w-xs truncate" title={reason}>{reason}</TableCell>
+                      <TableCell>
+                        {credit.retirementDate ? format(credit.retirementDate, 'MMM dd, yyyy') : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => downloadCertificate(credit)}
+                          disabled={!retirementTxs[credit.id]}
+                          title={retirementTxs[credit.id] ? undefined : 'Waiting for the ledger indexer to record this retirement'}
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Transaction History */}
       <Card>
         <CardHeader>
@@ -440,6 +1120,50 @@ const BuyerDashboard: React.FC = () => {
           <CardDescription>Your credit purchase history</CardDescription>
         </CardHeader>
         <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <Label htmlFor="txSearch">Search</Label>
+              <Input
+                id="txSearch"
+                placeholder="Transaction ID or producer"
+                value={txSearch}
+                onChange={(e) => setTxSearch(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="txDateFrom">From Date</Label>
+              <Input
+                id="txDateFrom"
+                type="date"
+                value={txDateFrom}
+                onChange={(e) => setTxDateFrom(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="txDateTo">To Date</Label>
+              <Input
+                id="txDateTo"
+                type="date"
+                value={txDateTo}
+                onChange={(e) => setTxDateTo(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Status</Label>
+              <Select value={txStatusFilter} onValueChange={setTxStatusFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="escrowed">Escrowed</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <Table>
             <TableHeader>
               <TableRow>
@@ -454,12 +1178,12 @@ const BuyerDashboard: React.FC = () => {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {transactions.map((tx) => (
+              {filteredTransactions.map((tx) => (
                 <TableRow key={tx.txId}>
                   <TableCell className="font-mono">{tx.txId}</TableCell>
                   <TableCell>{format(new Date(tx.timestamp), 'MMM dd, yyyy')}</TableCell>
                   <TableCell>{tx.counterparty}</TableCell>
-                  <TableCell>{tx.amount}</TableCell>
+                  <TableCell>{formatAmount(tx.amount, 'credit')}</TableCell>
                   <TableCell className="font-mono">
                     ${tx.pricePerCredit?.toFixed(2) || 'N/A'}
                   </TableCell>
@@ -481,22 +1205,32 @@ const BuyerDashboard: React.FC = () => {
             </TableBody>
           </Table>
 
-          {transactions.length === 0 && (
+          {filteredTransactions.length === 0 && (
             <div className="text-center py-8 text-muted-foreground">
               <TrendingUp className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No transactions yet</p>
+              <p>{transactions.length === 0 ? 'No transactions yet' : 'No transactions match your filters'}</p>
             </div>
           )}
         </CardContent>
       </Card>
 
       {/* Buy Modal */}
-      <Dialog open={buyModalOpen} onOpenChange={setBuyModalOpen}>
+      <Dialog open={buyModalOpen} onOpenChange={closeBuyModal}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Purchase Credits</DialogTitle>
           </DialogHeader>
-          {selectedListing && (
+          {selectedListing && settlementStep && (
+            <div className="space-y-4">
+              <SettlementSteps current={settlementStep} failed={settlementFailed} />
+              {!isPurchasing && (
+                <Button variant="outline" className="w-full" onClick={() => closeBuyModal(false)}>
+                  Close
+                </Button>
+              )}
+            </div>
+          )}
+          {selectedListing && !settlementStep && (
             <div className="space-y-4">
               <div>
                 <h4 className="font-semibold">Producer</h4>
@@ -505,7 +1239,7 @@ const BuyerDashboard: React.FC = () => {
               
               <div>
                 <h4 className="font-semibold">Available Credits</h4>
-                <p>{selectedListing.creditsAvailable} credits</p>
+                <p>{formatCredits(selectedListing.creditsAvailable)} (1 credit = 1 kg H2)</p>
               </div>
               
               <div>
@@ -530,7 +1264,7 @@ const BuyerDashboard: React.FC = () => {
                 <div className="p-4 bg-muted rounded-lg">
                   <div className="flex justify-between">
                     <span>Quantity:</span>
-                    <span>{purchaseQuantity} credits</span>
+                    <span>{formatCredits(parseInt(purchaseQuantity || '0'))}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Price per credit:</span>
@@ -540,6 +1274,9 @@ const BuyerDashboard: React.FC = () => {
                     <span>Total:</span>
                     <span>${(parseInt(purchaseQuantity || '0') * selectedListing.pricePerCredit).toFixed(2)}</span>
                   </div>
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Paid in {symbol} into escrow; the producer's settlement swaps it for the credits in one transaction.
+                  </p>
                 </div>
               )}
               
@@ -554,6 +1291,245 @@ const BuyerDashboard: React.FC = () => {
           )}
         </DialogContent>
       </Dialog>
+      {/* Retire Modal */}
+      <Dialog open={retireModalOpen} onOpenChange={setRetireModalOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Retire Credits</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="p-4 bg-muted rounded-lg">
+              <div className="flex justify-between">
+                <span>Credits:</span>
+                <span className="font-mono">{selectedCredits.map(c => `#${c.id}`).join(', ')}</span>
+              </div>
+              <div className="flex justify-between font-bold">
+                <span>Total:</span>
+                <span>{formatKg(selectedCredits.reduce((sum, c) => sum + c.amount, 0))} H2</span>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="beneficiary">Beneficiary</Label>
+              <Input
+                id="beneficiary"
+                placeholder="Organisation the retirement is claimed for"
+                value={beneficiary}
+                onChange={(e) => setBeneficiary(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="retirementReason">Reason</Label>
+              <Textarea
+                id="retirementReason"
+                placeholder="e.g. Offsetting 2025 Scope 2 emissions of the Rotterdam plant"
+                value={retirementReason}
+                onChange={(e) => setRetirementReason(e.target.value)}
+              />
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Retirement is permanent. Each credit is retired in its own transaction and a certificate
+              with a verification QR code is downloaded when all of them are confirmed.
+            </p>
+
+            <Button
+              onClick={retireCredits}
+              disabled={isRetiring || !beneficiary.trim() || !retirementReason.trim()}
+              className="w-full bg-producer hover:bg-producer/90 text-producer-foreground"
+            >
+              {isRetiring ? 'Retiring...' : 'Confirm Retirement'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Split Modal */}
+      <Dialog open={splitTarget !== null} onOpenChange={(open) => !open && setSplitTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Split Credit #{splitTarget?.id}</DialogTitle>
+          </DialogHeader>
+          {splitTarget && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                The credit is replaced by two credits with the same producer, production date, source and
+                certification. Credit #{splitTarget.id} stays on-chain as their parent.
+              </p>
+              <div>
+                <Label htmlFor="splitAmount">First part (kg)</Label>
+                <Input
+                  id="splitAmount"
+                  type="number"
+                  step="1"
+                  min={1}
+                  max={splitTarget.amount - 1}
+                  placeholder={`1 to ${splitTarget.amount - 1}`}
+                  value={splitAmount}
+                  onChange={(e) => setSplitAmount(e.target.value)}
+                />
+                {Number(splitAmount) > 0 && Number(splitAmount) < splitTarget.amount && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Parts: {formatKg(Number(splitAmount))} and {formatKg(splitTarget.amount - Number(splitAmount))}
+                  </p>
+                )}
+              </div>
+              <Button onClick={splitCredit} disabled={isReshaping} className="w-full">
+                {isReshaping ? 'Splitting...' : 'Split Credit'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={bidModalOpen} onOpenChange={setBidModalOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Place Limit Bid</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="bidCredits">Credits</Label>
+                <Input
+                  id="bidCredits"
+                  type="number"
+                  step="1"
+                  min={1}
+                  value={bidCredits}
+                  onChange={(e) => setBidCredits(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="bidPrice">Limit Price ($/credit)</Label>
+                <Input
+                  id="bidPrice"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={bidPrice}
+                  onChange={(e) => setBidPrice(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="bidSource">Renewable Source</Label>
+                <Select value={bidSource} onValueChange={(value) => setBidSource(value as RenewableSource | 'any')}>
+                  <SelectTrigger id="bidSource">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any source</SelectItem>
+                    {RENEWABLE_SOURCES.map(source => (
+                      <SelectItem key={source} value={source}>{source}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="bidMaxIntensity">Max Carbon Intensity (gCO2/kWh)</Label>
+                <Input
+                  id="bidMaxIntensity"
+                  type="number"
+                  min={0}
+                  placeholder="Any"
+                  value={bidMaxIntensity}
+                  onChange={(e) => setBidMaxIntensity(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="bidVintageFrom">Vintage From</Label>
+                <Input
+                  id="bidVintageFrom"
+                  type="date"
+                  value={bidVintageFrom}
+                  onChange={(e) => setBidVintageFrom(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="bidVintageTo">Vintage To</Label>
+                <Input
+                  id="bidVintageTo"
+                  type="date"
+                  value={bidVintageTo}
+                  onChange={(e) => setBidVintageTo(e.target.value)}
+                />
+              </div>
+            </div>
+            {Number(bidCredits) > 0 && Number(bidPrice) > 0 && (
+              <p className="text-sm text-muted-foreground">
+                At most ${(Number(bidCredits) * Number(bidPrice)).toFixed(2)}; fills at the resting offer's price when it is lower.
+              </p>
+            )}
+            <Button
+              onClick={placeBid}
+              disabled={isBidding}
+              className="w-full bg-buyer hover:bg-buyer/90 text-buyer-foreground"
+            >
+              {isBidding ? 'Placing...' : 'Place Bid'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Emissions Claim Statement */}
+      <Dialog open={claimModalOpen} onOpenChange={setClaimModalOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Emissions Claim Statement</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Everything you retired in the period: H2 by source and region, weighted carbon intensity, retirement
+              reasons and the transaction proving each retirement. Download it as PDF to annex to a disclosure, or as JSON
+              for machine processing.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="claimFrom">From</Label>
+                <Input id="claimFrom" type="date" value={claimFrom} onChange={(e) => setClaimFrom(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="claimTo">To</Label>
+                <Input id="claimTo" type="date" value={claimTo} onChange={(e) => setClaimTo(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => generateClaimStatement('pdf')}
+                disabled={isGeneratingClaim}
+                className="flex-1 bg-buyer hover:bg-buyer/90 text-buyer-foreground"
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                Download PDF
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => generateClaimStatement('json')}
+                disabled={isGeneratingClaim}
+                className="flex-1"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download JSON
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ExportDialog
+        open={exportModalOpen}
+        onOpenChange={setExportModalOpen}
+        title="Export Transaction History"
+        description={`${filteredTransactions.length} transaction(s) match the current filters`}
+        columns={transactionExportColumns}
+        onExport={exportTransactions}
+        buttonClassName="w-full bg-buyer hover:bg-buyer/90 text-buyer-foreground"
+      />
     </motion.div>
   );
 };
@@ -0,0 +1,475 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BadgeCheck, CalendarIcon, FileCheck, Stamp } from 'lucide-react';
+import { format } from 'date-fns';
+import { isAxiosError } from 'axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { api } from '@/services/api';
+import {
+  createCreditClient,
+  describeContractError,
+  getWalletSigner,
+  MAX_CARBON_INTENSITY,
+} from '@/services/contract';
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { toEvidenceRefs, type EvidenceFile } from '@/services/evidence';
+import { EvidenceList } from '@/components/shared/EvidenceList';
+import { MeterSummary } from '@/components/shared/MeterSummary';
+import { RENEWABLE_SOURCES, formatCoordinates, primaryRenewableSource, type Facility } from '@/services/facilities';
+import { formatAmount, formatKg, formatTonnes, tonnesToKg } from '@shared/quantity';
+
+interface ApprovedReport {
+  reportId: string;
+  producerId: string;
+  producerName: string;
+  tons: number;
+  timestamp: string;
+  notes?: string;
+  file?: string;
+  evidence?: EvidenceFile[];
+  meterData?: EvidenceFile;
+  facility?: Facility;
+  status: 'approved';
+  creditId?: number;
+  txHash?: string;
+}
+
+interface IssuanceForm {
+  producerName: string;
+  renewableSource: string;
+  location: string;
+  carbonIntensity: string;
+  productionDate: Date | undefined;
+  metadata: string;
+}
+
+const emptyForm = (report: ApprovedReport): IssuanceForm => ({
+  producerName: report.producerName,
+  // Prefilled from the registered facility; the certifier can still correct them
+  renewableSource: (report.facility && primaryRenewableSource(report.facility)) ?? '',
+  location: report.facility ? `${report.facility.name} (${formatCoordinates(report.facility)})` : '',
+  // Metered reports carry a computed intensity that the certifier can't override
+  carbonIntensity: report.meterData?.meter ? String(report.meterData.meter.carbonIntensity) : '',
+  productionDate: new Date(report.timestamp),
+  metadata: '',
+});
+
+const CertifierDashboard: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reports, setReports] = useState<ApprovedReport[]>([]);
+  const [selectedReport, setSelectedReport] = useState<ApprovedReport | null>(null);
+  const [form, setForm] = useState<IssuanceForm | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // Load approved reports
+  useEffect(() => {
+    if (user) {
+      loadApprovedReports();
+    }
+  }, [user]);
+
+  const loadApprovedReports = async () => {
+    try {
+      const response = await api.getApprovedReports();
+      setReports(response.data || []);
+    } catch (error) {
+      console.error('Failed to load approved reports:', error);
+    }
+  };
+
+  const awaitingIssuance = reports.filter(r => r.creditId === undefined);
+  const issued = reports.filter(r => r.creditId !== undefined);
+
+  const openIssuance = (report: ApprovedReport) => {
+    setSelectedReport(report);
+    setForm(emptyForm(report));
+  };
+
+  const handleInputChange = (field: keyof IssuanceForm, value: string | Date | undefined) => {
+    setForm(prev => prev && { ...prev, [field]: value });
+  };
+
+  const issueCredit = async () => {
+    if (!user || !selectedReport || !form) return;
+
+    const carbonIntensity = parseInt(form.carbonIntensity);
+    if (!form.renewableSource || !form.location.trim() || !form.productionDate || isNaN(carbonIntensity)) {
+      toast({
+        title: "Error",
+        description: "Please fill in all required fields",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (carbonIntensity < 0 || carbonIntensity > MAX_CARBON_INTENSITY) {
+      toast({
+        title: "Error",
+        description: `Carbon intensity must be between 0 and ${MAX_CARBON_INTENSITY} gCO2/kWh`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (form.productionDate > new Date()) {
+      toast({
+        title: "Error",
+        description: "Production date cannot be in the future",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const client = createCreditClient(await getWalletSigner(user.address));
+      const result = await client.issueCredit({
+        to: selectedReport.producerId,
+        producer: selectedReport.producerId,
+        producerName: form.producerName,
+        amount: Math.round(tonnesToKg(selectedReport.tons)),
+        productionDate: form.productionDate,
+        renewableSource: form.renewableSource,
+        location: form.location.trim(),
+        carbonIntensity,
+        metadata: JSON.stringify({
+          reportId: selectedReport.reportId,
+          facilityId: selectedReport.facility?.facilityId,
+          tons: selectedReport.tons,
+          file: selectedReport.file,
+          // Anyone holding a document can hash it and match it against these
+          evidence: selectedReport.evidence?.length ? toEvidenceRefs(selectedReport.evidence) : undefined,
+          meterData: selectedReport.meterData ? toEvidenceRefs([selectedReport.meterData])[0] : undefined,
+          notes: form.metadata.trim() || undefined,
+        }),
+      });
+
+      await api.recordIssuance(selectedReport.reportId, {
+        creditId: result.creditId,
+        txHash: result.hash,
+      });
+
+      toast({
+        title: "Credit Issued",
+        description: `Credit #${result.creditId} minted for ${form.producerName} (${formatKg(tonnesToKg(selectedReport.tons))}).`,
+      });
+
+      setSelectedReport(null);
+      setForm(null);
+      await loadApprovedReports();
+    } catch (error) {
+      toast({
+        title: "Issuance Failed",
+        // The server rejects recording a credit that doesn't match the report
+        description: (isAxiosError(error) ? error.response?.data?.error : undefined) ?? describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="container mx-auto p-6 space-y-6"
+    >
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-certifier">Certifier Dashboard</h1>
+        <p className="text-muted-foreground">Issue on-chain credits for approved production reports</p>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Awaiting Issuance</p>
+                <p className="text-3xl font-bold text-certifier">{awaitingIssuance.length}</p>
+              </div>
+              <Stamp className="h-8 w-8 text-certifier" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Credits Issued</p>
+                <p className="text-3xl font-bold text-foreground">{issued.length}</p>
+              </div>
+              <BadgeCheck className="h-8 w-8 text-producer" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Certified Volume</p>
+                <p className="text-3xl font-bold text-foreground">
+                  {formatAmount(issued.reduce((sum, r) => sum + r.tons, 0), 't')}
+                </p>
+                <p className="text-sm text-muted-foreground">tonnes</p>
+              </div>
+              <FileCheck className="h-8 w-8 text-public" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Approved Reports Queue */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-certifier">Approved Production Reports</CardTitle>
+          <CardDescription>
+            Reports approved by the regulator that still need an on-chain credit
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {awaitingIssuance.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Stamp className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No approved reports awaiting issuance</p>
+            </div>
+          ) : (
+            awaitingIssuance.map((report) => (
+              <motion.div
+                key={report.reportId}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="border rounded-lg p-4 flex justify-between items-center"
+              >
+                <div>
+                  <h4 className="font-semibold">{report.producerName}</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {formatTonnes(report.tons)} • {format(new Date(report.timestamp), 'MMM dd, yyyy')}
+                  </p>
+                  <Badge variant="secondary" className="mt-2">
+                    {report.reportId}
+                  </Badge>
+                </div>
+                <Button
+                  onClick={() => openIssuance(report)}
+                  className="bg-certifier hover:bg-certifier/90 text-certifier-foreground"
+                >
+                  <BadgeCheck className="h-4 w-4 mr-2" />
+                  Issue Credit
+                </Button>
+              </motion.div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Issued Reports */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Issued Credits</CardTitle>
+          <CardDescription>Production reports already minted on-chain</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {issued.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No credits issued yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Report</TableHead>
+                  <TableHead>Producer</TableHead>
+                  <TableHead>Tonnes</TableHead>
+                  <TableHead>Credit</TableHead>
+                  <TableHead>Transaction</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {issued.map((report) => (
+                  <TableRow key={report.reportId}>
+                    <TableCell>{report.reportId}</TableCell>
+                    <TableCell>{report.producerName}</TableCell>
+                    <TableCell>{formatAmount(report.tons, 't')}</TableCell>
+                    <TableCell className="font-mono">#{report.creditId}</TableCell>
+                    <TableCell className="font-mono text-xs" title={report.txHash}>
+                      {report.txHash?.slice(0, 10)}…
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Issuance Dialog */}
+      <Dialog
+        open={selectedReport !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSelectedReport(null);
+            setForm(null);
+          }
+        }}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Issue Credit for {selectedReport?.reportId}</DialogTitle>
+          </DialogHeader>
+          {selectedReport && form && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {formatTonnes(selectedReport.tons)} ({formatKg(tonnesToKg(selectedReport.tons))}) to{' '}
+                <span className="font-mono">{selectedReport.producerId}</span>
+              </p>
+
+              <div className="space-y-2">
+                <Label htmlFor="producerName">Producer Name</Label>
+                <Input
+                  id="producerName"
+                  value={form.producerName}
+                  onChange={(e) => handleInputChange('producerName', e.target.value)}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Renewable Source *</Label>
+                  <Select value={form.renewableSource} onValueChange={(value) => handleInputChange('renewableSource', value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select source" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RENEWABLE_SOURCES.map((source) => (
+                        <SelectItem key={source} value={source}>{source}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="carbonIntensity">Carbon Intensity (gCO2/kWh) *</Label>
+                  <Input
+                    id="carbonIntensity"
+                    type="number"
+                    min="0"
+                    max={MAX_CARBON_INTENSITY}
+                    placeholder={`≤ ${MAX_CARBON_INTENSITY}`}
+                    value={form.carbonIntensity}
+                    disabled={selectedReport.meterData?.meter !== undefined}
+                    onChange={(e) => handleInputChange('carbonIntensity', e.target.value)}
+                  />
+                  {selectedReport.meterData?.meter && (
+                    <p className="text-sm text-muted-foreground">Computed from the report's meter data</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="location">Location *</Label>
+                <Input
+                  id="location"
+                  placeholder="e.g. Rotterdam, NL"
+                  value={form.location}
+                  onChange={(e) => handleInputChange('location', e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Production Date *</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        "w-full justify-start text-left font-normal",
+                        !form.productionDate && "text-muted-foreground"
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {form.productionDate ? format(form.productionDate, "PPP") : "Select date"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={form.productionDate}
+                      onSelect={(date) => handleInputChange('productionDate', date)}
+                      disabled={(date) => date > new Date()}
+                      initialFocus
+                      className="pointer-events-auto"
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+
+              {selectedReport.meterData?.meter && (
+                <div className="space-y-2">
+                  <Label>Meter Data</Label>
+                  <MeterSummary summary={selectedReport.meterData.meter} name={selectedReport.meterData.name} />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Evidence</Label>
+                {selectedReport.evidence?.length ? (
+                  <>
+                    <EvidenceList files={selectedReport.evidence} preview />
+                    <p className="text-sm text-muted-foreground">
+                      These SHA-256 hashes are written into the credit's on-chain metadata.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No evidence files were uploaded with this report.</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="metadata">Certification Notes</Label>
+                <Textarea
+                  id="metadata"
+                  placeholder="Standard applied, certificate reference, additional evidence..."
+                  value={form.metadata}
+                  onChange={(e) => handleInputChange('metadata', e.target.value)}
+                />
+              </div>
+
+              <Button
+                onClick={issueCredit}
+                disabled={isProcessing}
+                className="w-full bg-certifier hover:bg-certifier/90 text-certifier-foreground"
+              >
+                <BadgeCheck className="h-4 w-4 mr-2" />
+                {isProcessing ? 'Issuing...' : 'Issue Credit On-Chain'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+};
+
+export default CertifierDashboard;
@@ -0,0 +1,470 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarIcon, MapPin, Pencil, Plus, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { isAxiosError } from 'axios';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { api } from '@/services/api';
+import {
+  MIN_KWH_PER_KG,
+  RENEWABLE_SOURCES,
+  electrolyzerTypeLabel,
+  electrolyzerTypes,
+  formatCoordinates,
+  type ElectrolyzerType,
+  type Facility,
+  type FacilityInput,
+  type RenewableSource,
+} from '@/services/facilities';
+import { formatKg } from '@shared/quantity';
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+
+interface AssetForm {
+  type: RenewableSource | '';
+  name: string;
+  capacityMw: string;
+}
+
+interface FacilityForm {
+  name: string;
+  latitude: string;
+  longitude: string;
+  electrolyzerType: ElectrolyzerType | '';
+  capacityMw: string;
+  capacityKgPerDay: string;
+  renewableAssets: AssetForm[];
+  commissioningDate: Date | undefined;
+}
+
+const emptyAsset = (): AssetForm => ({ type: '', name: '', capacityMw: '' });
+
+const emptyForm = (): FacilityForm => ({
+  name: '',
+  latitude: '',
+  longitude: '',
+  electrolyzerType: '',
+  capacityMw: '',
+  capacityKgPerDay: '',
+  renewableAssets: [emptyAsset()],
+  commissioningDate: undefined,
+});
+
+const toForm = (facility: Facility): FacilityForm => ({
+  name: facility.name,
+  latitude: String(facility.latitude),
+  longitude: String(facility.longitude),
+  electrolyzerType: facility.electrolyzerType,
+  capacityMw: String(facility.capacityMw),
+  capacityKgPerDay: String(facility.capacityKgPerDay),
+  renewableAssets: facility.renewableAssets.map(a => ({ type: a.type, name: a.name ?? '', capacityMw: String(a.capacityMw) })),
+  commissioningDate: parseISO(facility.commissioningDate),
+});
+
+// Returns the request body, or the first problem with the form
+const toInput = (form: FacilityForm): FacilityInput | string => {
+  const latitude = parseFloat(form.latitude);
+  const longitude = parseFloat(form.longitude);
+  const capacityMw = parseFloat(form.capacityMw);
+  const capacityKgPerDay = parseFloat(form.capacityKgPerDay);
+  if (!form.name.trim()) return 'Enter the facility name';
+  if (isNaN(latitude) || latitude < -90 || latitude > 90) return 'Latitude must be between -90 and 90';
+  if (isNaN(longitude) || longitude < -180 || longitude > 180) return 'Longitude must be between -180 and 180';
+  if (!form.electrolyzerType) return 'Select the electrolyzer type';
+  if (!(capacityMw > 0) || !(capacityKgPerDay > 0)) return 'Enter the nameplate capacity in MW and kg per day';
+  if ((capacityMw * 1000 * 24) / capacityKgPerDay < MIN_KWH_PER_KG) {
+    return `${capacityMw} MW cannot produce ${formatKg(capacityKgPerDay)} per day (at least ${MIN_KWH_PER_KG} kWh/kg is needed)`;
+  }
+  if (form.renewableAssets.some(a => !a.type || !(parseFloat(a.capacityMw) > 0))) {
+    return 'Give every renewable asset a source and a capacity';
+  }
+  if (!form.commissioningDate) return 'Select the commissioning date';
+
+  return {
+    name: form.name.trim(),
+    latitude,
+    longitude,
+    electrolyzerType: form.electrolyzerType,
+    capacityMw,
+    capacityKgPerDay,
+    renewableAssets: form.renewableAssets.map(a => ({
+      type: a.type as RenewableSource,
+      name: a.name.trim() || undefined,
+      capacityMw: parseFloat(a.capacityMw),
+    })),
+    commissioningDate: format(form.commissioningDate, 'yyyy-MM-dd'),
+  };
+};
+
+const Facilities: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [facilities, setFacilities] = useState<Facility[]>([]);
+  // null: dialog closed; editingId null with a form open: registering a new facility
+  const [form, setForm] = useState<FacilityForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isProducer = user?.role === 'producer';
+
+  useEffect(() => {
+    if (user) {
+      loadFacilities();
+    }
+  }, [user]);
+
+  const loadFacilities = async () => {
+    try {
+      const response = await api.getFacilities();
+      setFacilities(response.data || []);
+    } catch (error) {
+      console.error('Failed to load facilities:', error);
+    }
+  };
+
+  const openForm = (facility?: Facility) => {
+    setEditingId(facility?.facilityId ?? null);
+    setForm(facility ? toForm(facility) : emptyForm());
+  };
+
+  const updateForm = (changes: Partial<FacilityForm>) => {
+    setForm(prev => prev && { ...prev, ...changes });
+  };
+
+  const updateAsset = (index: number, changes: Partial<AssetForm>) => {
+    setForm(prev => prev && {
+      ...prev,
+      renewableAssets: prev.renewableAssets.map((a, i) => i === index ? { ...a, ...changes } : a),
+    });
+  };
+
+  const saveFacility = async () => {
+    if (!form) return;
+    const input = toInput(form);
+    if (typeof input === 'string') {
+      toast({ title: "Error", description: input, variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = editingId
+        ? await api.updateFacility(editingId, input)
+        : await api.createFacility(input);
+      setFacilities(prev => editingId
+        ? prev.map(f => f.facilityId === editingId ? response.data : f)
+        : [...prev, response.data]);
+      setForm(null);
+
+      toast({
+        title: "Success",
+        description: `${response.data.name} ${editingId ? 'updated' : `registered as ${response.data.facilityId}`}`,
+      });
+    } catch (error) {
+      const data = isAxiosError(error) ? error.response?.data : undefined;
+      toast({
+        title: "Error",
+        description: data?.issues?.[0]?.message ?? data?.error ?? "Failed to save facility",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!user) return null;
+
+  const impliedConsumption = form && parseFloat(form.capacityMw) > 0 && parseFloat(form.capacityKgPerDay) > 0
+    ? (parseFloat(form.capacityMw) * 1000 * 24) / parseFloat(form.capacityKgPerDay)
+    : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="container mx-auto p-6 space-y-6"
+    >
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-producer">Production Facilities</h1>
+          <p className="text-muted-foreground">
+            {isProducer
+              ? 'Register the plants your hydrogen comes from; every report is checked against its facility\'s capacity'
+              : 'Registered production sites and their nameplate capacity'}
+          </p>
+        </div>
+        {isProducer && (
+          <Button onClick={() => openForm()} className="bg-producer hover:bg-producer/90">
+            <Plus className="h-4 w-4 mr-2" />
+            Register Facility
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Facilities</CardTitle>
+          <CardDescription>{facilities.length} registered</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {facilities.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <MapPin className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No facilities registered yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Facility</TableHead>
+                  {!isProducer && <TableHead>Producer</TableHead>}
+                  <TableHead>Location</TableHead>
+                  <TableHead>Electrolyzer</TableHead>
+                  <TableHead>Capacity</TableHead>
+                  <TableHead>Renewable Assets</TableHead>
+                  <TableHead>Commissioned</TableHead>
+                  {isProducer && <TableHead></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {facilities.map((facility) => (
+                  <TableRow key={facility.facilityId}>
+                    <TableCell>
+                      <p className="font-medium">{facility.name}</p>
+                      <p className="text-xs font-mono text-muted-foreground">{facility.facilityId}</p>
+                    </TableCell>
+                    {!isProducer && <TableCell>{facility.producerName ?? facility.producerId}</TableCell>}
+                    <TableCell className="text-sm">{formatCoordinates(facility)}</TableCell>
+                    <TableCell>{electrolyzerTypeLabel(facility.electrolyzerType)}</TableCell>
+                    <TableCell>
+                      <p>{facility.capacityMw} MW</p>
+                      <p className="text-sm text-muted-foreground">{formatKg(facility.capacityKgPerDay)}/day</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {facility.renewableAssets.map((asset, i) => (
+                          <Badge key={i} variant="secondary" title={asset.name}>
+                            {asset.type} {asset.capacityMw} MW
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{format(parseISO(facility.commissioningDate), 'MMM dd, yyyy')}</TableCell>
+                    {isProducer && (
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => openForm(facility)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Register / Edit Modal */}
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Facility' : 'Register Facility'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="facilityName">Name *</Label>
+                <Input
+                  id="facilityName"
+                  placeholder="e.g. Rotterdam Electrolysis Plant 1"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="latitude">Latitude *</Label>
+                  <Input
+                    id="latitude"
+                    type="number"
+                    step="0.0001"
+                    placeholder="51.9225"
+                    value={form.latitude}
+                    onChange={(e) => updateForm({ latitude: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="longitude">Longitude *</Label>
+                  <Input
+                    id="longitude"
+                    type="number"
+                    step="0.0001"
+                    placeholder="4.4792"
+                    value={form.longitude}
+                    onChange={(e) => updateForm({ longitude: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Electrolyzer Type *</Label>
+                  <Select
+                    value={form.electrolyzerType}
+                    onValueChange={(value) => updateForm({ electrolyzerType: value as ElectrolyzerType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {electrolyzerTypes.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Commissioning Date *</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className={cn(
+                          "w-full justify-start text-left font-normal",
+                          !form.commissioningDate && "text-muted-foreground"
+                        )}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {form.commissioningDate ? format(form.commissioningDate, "PPP") : "Select date"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={form.commissioningDate}
+                        onSelect={(date) => updateForm({ commissioningDate: date })}
+                        initialFocus
+                        className="pointer-events-auto"
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="capacityMw">Nameplate Capacity (MW) *</Label>
+                  <Input
+                    id="capacityMw"
+                    type="number"
+                    step="0.1"
+                    value={form.capacityMw}
+                    onChange={(e) => updateForm({ capacityMw: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="capacityKgPerDay">Rated Output (kg H2 per day) *</Label>
+                  <Input
+                    id="capacityKgPerDay"
+                    type="number"
+                    step="1"
+                    value={form.capacityKgPerDay}
+                    onChange={(e) => updateForm({ capacityKgPerDay: e.target.value })}
+                  />
+                </div>
+              </div>
+              {impliedConsumption !== null && (
+                <p className={cn(
+                  "text-sm",
+                  impliedConsumption < MIN_KWH_PER_KG ? "text-destructive" : "text-muted-foreground"
+                )}>
+                  Implies {impliedConsumption.toFixed(1)} kWh per kg of H2
+                  {impliedConsumption < MIN_KWH_PER_KG && ` (below the ${MIN_KWH_PER_KG} kWh/kg physical minimum)`}
+                </p>
+              )}
+
+              <div className="space-y-2">
+                <Label>Connected Renewable Assets *</Label>
+                {form.renewableAssets.map((asset, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <Select
+                      value={asset.type}
+                      onValueChange={(value) => updateAsset(index, { type: value as RenewableSource })}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue placeholder="Source" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RENEWABLE_SOURCES.map((source) => (
+                          <SelectItem key={source} value={source}>{source}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Asset name (optional)"
+                      value={asset.name}
+                      onChange={(e) => updateAsset(index, { name: e.target.value })}
+                      className="flex-1"
+                    />
+                    <Input
+                      type="number"
+                      step="0.1"
+                      placeholder="MW"
+                      value={asset.capacityMw}
+                      onChange={(e) => updateAsset(index, { capacityMw: e.target.value })}
+                      className="w-24"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={form.renewableAssets.length === 1}
+                      onClick={() => updateForm({ renewableAssets: form.renewableAssets.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateForm({ renewableAssets: [...form.renewableAssets, emptyAsset()] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Asset
+                </Button>
+              </div>
+
+              {editingId && (
+                <p className="text-sm text-muted-foreground">
+                  Reports already submitted keep the capacity check they were submitted with.
+                </p>
+              )}
+
+              <Button
+                onClick={saveFacility}
+                disabled={isSaving}
+                className="w-full bg-producer hover:bg-producer/90"
+              >
+                {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Register Facility'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  );
+};
+
+export default Facilities;
@@ -6,27 +6,35 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { Search, ShoppingCart, TrendingUp, Factory, Atom, Eye, Star } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePaymentBalance } from '@/hooks/use-payment-balance';
 import { useToast } from '@/hooks/use-toast';
 import { api } from '@/services/api';
+import { periodLabel, type AnalyticsInterval, type MarketAnalytics } from '@/services/analytics';
+import { describeContractError, getWalletSigner } from '@/services/contract';
+import {
+  emptyListingFilters,
+  listingRegions,
+  listingSorts,
+  matchesListingFilters,
+  sortListings,
+  type ListingSort,
+  type MarketplaceListing,
+} from '@/services/listings';
+import { createSettlementClient, payForDelivery, type SettlementStep } from '@/services/settlement';
+import { isAxiosError } from 'axios';
 import { motion } from 'framer-motion';
 import { Header } from '@/components/shared/Header';
-
-interface MarketplaceListing {
-  offerId: string;
-  producerId: string;
-  producerName: string;
-  creditsAvailable: number;
-  pricePerCredit: number;
-}
-
-interface MarketStats {
-  totalCredits: number;
-  totalProduction: number;
-  activeProducers: number;
-  avgPrice: number;
-}
+import { ExpiryBadge } from '@/components/shared/ExpiryBadge';
+import { ListingAttributesSummary } from '@/components/shared/ListingAttributesSummary';
+import { ListingFilterFields } from '@/components/shared/ListingFilterFields';
+import { OrderBookDepth } from '@/components/shared/OrderBookDepth';
+import { SettlementSteps } from '@/components/shared/SettlementSteps';
+import { formatAmount, formatCredits } from '@shared/quantity';
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
 
 const Index: React.FC = () => {
   const { user } = useAuth();
@@ -37,27 +45,41 @@ const Index: React.FC = () => {
       producerId: "prod-1",
       producerName: "GreenH2 Ltd",
       creditsAvailable: 50,
-      pricePerCredit: 20
+      pricePerCredit: 20,
+      renewableSources: [],
+      locations: [],
+      incomplete: true
     },
     {
       offerId: "offer-2",
       producerId: "prod-2",
       producerName: "H2Works",
       creditsAvailable: 30,
-      pricePerCredit: 18
+      pricePerCredit: 18,
+      renewableSources: [],
+      locations: [],
+      incomplete: true
     }
   ]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [listingFilters, setListingFilters] = useState(emptyListingFilters);
+  const [sortBy, setSortBy] = useState<ListingSort>('price-asc');
   const [selectedListing, setSelectedListing] = useState<MarketplaceListing | null>(null);
   const [purchaseQuantity, setPurchaseQuantity] = useState('');
   const [buyModalOpen, setBuyModalOpen] = useState(false);
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [settlementStep, setSettlementStep] = useState<SettlementStep | null>(null);
+  const [settlementFailed, setSettlementFailed] = useState(false);
+  const { balance, symbol, refresh: refreshBalance } = usePaymentBalance(user?.role === 'buyer' ? user.address : undefined);
+
+  const [analytics, setAnalytics] = useState<MarketAnalytics | null>(null);
+  const [priceInterval, setPriceInterval] = useState<AnalyticsInterval>('week');
 
-  const marketStats: MarketStats = {
-    totalCredits: 200,
-    totalProduction: 347,
-    activeProducers: 4,
-    avgPrice: 19.5
+  const priceChartConfig = {
+    credits: { label: "Credits traded", color: "hsl(var(--public))" },
+    vwap: { label: "VWAP", color: "hsl(var(--buyer))" },
+    high: { label: "High", color: "hsl(var(--producer))" },
+    low: { label: "Low", color: "hsl(var(--regulator))" },
   };
 
   // Load marketplace data
@@ -65,6 +87,19 @@ const Index: React.FC = () => {
     loadMarketplace();
   }, []);
 
+  useEffect(() => {
+    loadAnalytics(priceInterval);
+  }, [priceInterval]);
+
+  const loadAnalytics = async (interval: AnalyticsInterval) => {
+    try {
+      const response = await api.getAnalytics({ interval });
+      setAnalytics(response.data);
+    } catch (error) {
+      console.error('Failed to load market analytics:', error);
+    }
+  };
+
   const loadMarketplace = async () => {
     try {
       const response = await api.getMarketplace();
@@ -76,8 +111,12 @@ const Index: React.FC = () => {
     }
   };
 
-  const filteredListings = listings.filter(listing =>
-    listing.producerName.toLowerCase().includes(searchQuery.toLowerCase())
+  const filteredListings = sortListings(
+    listings.filter(listing =>
+      listing.producerName.toLowerCase().includes(searchQuery.toLowerCase()) &&
+      matchesListingFilters(listing, listingFilters)
+    ),
+    sortBy,
   );
 
   const handleSearch = (query: string) => {
@@ -96,6 +135,15 @@ const Index: React.FC = () => {
     setSelectedListing(listing);
     setBuyModalOpen(true);
     setPurchaseQuantity('');
+    setSettlementStep(null);
+  };
+
+  const closeBuyModal = (open: boolean) => {
+    setBuyModalOpen(open);
+    if (!open) {
+      setSettlementStep(null);
+      setPurchaseQuantity('');
+    }
   };
 
   const executePurchase = async () => {
@@ -120,9 +168,21 @@ const Index: React.FC = () => {
       return;
     }
 
+    if (balance !== null && balance < totalPrice) {
+      toast({
+        title: "Error",
+        description: `Insufficient ${symbol} balance for this purchase`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsPurchasing(true);
+    setSettlementFailed(false);
+    setSettlementStep('reserve');
+    let step: SettlementStep = 'reserve';
     try {
-      await api.executeTrade({
+      const { data: trade } = await api.executeTrade({
         buyerId: user.id,
         offerId: selectedListing.offerId,
         quantity,
@@ -135,22 +195,31 @@ const Index: React.FC = () => {
           : l
       ).filter(l => l.creditsAvailable > 0));
 
-      setBuyModalOpen(false);
-      setPurchaseQuantity('');
-      setSelectedListing(null);
+      const { data: deliveries } = await api.getDeliveries({ status: 'pending' });
+      const delivery = deliveries.find(d => d.txId === trade.txId);
+      if (!delivery) throw new Error(`No delivery was recorded for ${trade.txId}`);
+      const client = createSettlementClient(await getWalletSigner(user.address));
+      const result = await payForDelivery(client, delivery, (next) => {
+        step = next;
+        setSettlementStep(next);
+      });
 
       toast({
         title: "Success",
-        description: `Purchased ${quantity} credits from ${selectedListing.producerName}`,
+        description: `Purchased ${formatCredits(quantity)} from ${selectedListing.producerName}. ${result.payment.toFixed(2)} ${symbol} is in escrow until they settle.`,
       });
     } catch (error) {
+      setSettlementFailed(true);
       toast({
         title: "Error",
-        description: "Failed to complete purchase",
+        description: step === 'reserve'
+          ? (isAxiosError(error) ? error.response?.data?.error : undefined) ?? "Failed to complete purchase"
+          : `The credits are reserved but not paid for; pay from your dashboard. ${describeContractError(error)}`,
         variant: "destructive",
       });
     } finally {
       setIsPurchasing(false);
+      refreshBalance();
     }
   };
 
@@ -209,26 +278,28 @@ const Index: React.FC = () => {
           >
             <Card>
               <CardContent className="p-4 text-center">
-                <div className="text-2xl font-bold text-producer">{marketStats.totalCredits}</div>
+                <div className="text-2xl font-bold text-producer">{formatAmount(analytics?.summary.creditsAvailable ?? 0, 'credit')}</div>
                 <div className="text-sm text-muted-foreground">Credits Available</div>
               </CardContent>
             </Card>
             <Card>
               <CardContent className="p-4 text-center">
-                <div className="text-2xl font-bold text-public">{marketStats.totalProduction}</div>
-                <div className="text-sm text-muted-foreground">Tons Produced</div>
+                <div className="text-2xl font-bold text-public">{formatAmount(analytics?.summary.tonnesIssued ?? 0, 't')}</div>
+                <div className="text-sm text-muted-foreground">Tonnes Certified</div>
               </CardContent>
             </Card>
             <Card>
               <CardContent className="p-4 text-center">
-                <div className="text-2xl font-bold text-regulator">{marketStats.activeProducers}</div>
+                <div className="text-2xl font-bold text-regulator">{analytics?.summary.activeProducers ?? 0}</div>
                 <div className="text-sm text-muted-foreground">Active Producers</div>
               </CardContent>
             </Card>
             <Card>
               <CardContent className="p-4 text-center">
-                <div className="text-2xl font-bold text-buyer">${marketStats.avgPrice}</div>
-                <div className="text-sm text-muted-foreground">Avg. Price</div>
+                <div className="text-2xl font-bold text-buyer">
+                  {analytics?.summary.vwap != null ? `$${analytics.summary.vwap.toFixed(2)}` : '—'}
+                </div>
+                <div className="text-sm text-muted-foreground">Avg. Price (VWAP)</div>
               </CardContent>
             </Card>
           </motion.div>
@@ -266,7 +337,7 @@ const Index: React.FC = () => {
                     <div className="space-y-2">
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Available:</span>
-                        <span className="font-semibold">{seller.creditsAvailable} credits</span>
+                        <span className="font-semibold">{formatCredits(seller.creditsAvailable)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Price:</span>
@@ -329,6 +400,66 @@ const Index: React.FC = () => {
           </Card>
         </motion.section>
 
+        {/* Price History */}
+        <motion.section
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 1.2 }}
+        >
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="flex items-center">
+                  <TrendingUp className="h-5 w-5 mr-2 text-buyer" />
+                  Price History
+                </CardTitle>
+                <CardDescription>
+                  Volume-weighted average price per credit with each period's high and low, over marketplace trades
+                </CardDescription>
+              </div>
+              <Select value={priceInterval} onValueChange={(value) => setPriceInterval(value as AnalyticsInterval)}>
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Daily</SelectItem>
+                  <SelectItem value="week">Weekly</SelectItem>
+                  <SelectItem value="month">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {!analytics || analytics.prices.length === 0 ? (
+                <div className="h-[300px] flex items-center justify-center text-muted-foreground">No trades yet</div>
+              ) : (
+                <ChartContainer config={priceChartConfig} className="h-[300px] w-full">
+                  <ComposedChart data={analytics.prices}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="period" tickFormatter={periodLabel} />
+                    <YAxis yAxisId="price" tickFormatter={(value) => `$${value}`} />
+                    <YAxis yAxisId="volume" orientation="right" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar yAxisId="volume" dataKey="credits" fill="var(--color-credits)" opacity={0.4} />
+                    <Line yAxisId="price" type="monotone" dataKey="high" stroke="var(--color-high)" strokeDasharray="4 4" dot={false} />
+                    <Line yAxisId="price" type="monotone" dataKey="low" stroke="var(--color-low)" strokeDasharray="4 4" dot={false} />
+                    <Line yAxisId="price" type="monotone" dataKey="vwap" stroke="var(--color-vwap)" strokeWidth={3} />
+                  </ComposedChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </motion.section>
+
+        {/* Order Book Depth */}
+        <motion.section
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 1.3 }}
+        >
+          <OrderBookDepth />
+        </motion.section>
+
         {/* Market Table */}
         <motion.section
           initial={{ opacity: 0, y: 20 }}
@@ -343,13 +474,31 @@ const Index: React.FC = () => {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+                <ListingFilterFields filters={listingFilters} onChange={setListingFilters} regions={listingRegions(listings)} />
+                <div>
+                  <Label htmlFor="listingSort">Sort By</Label>
+                  <Select value={sortBy} onValueChange={(value) => setSortBy(value as ListingSort)}>
+                    <SelectTrigger id="listingSort">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {listingSorts.map(sort => (
+                        <SelectItem key={sort.value} value={sort.value}>{sort.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
               <Table>
                 <TableHeader>
                   <TableRow>
                     <TableHead>Producer</TableHead>
+                    <TableHead>Credits</TableHead>
                     <TableHead>Available Credits</TableHead>
                     <TableHead>Price per Credit</TableHead>
                     <TableHead>Total Value</TableHead>
+                    <TableHead>Expires</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -367,9 +516,12 @@ const Index: React.FC = () => {
                           </div>
                         </div>
                       </TableCell>
+                      <TableCell>
+                        <ListingAttributesSummary attributes={listing} />
+                      </TableCell>
                       <TableCell>
                         <Badge variant="secondary" className="bg-producer/10 text-producer">
-                          {listing.creditsAvailable} credits
+                          {formatCredits(listing.creditsAvailable)}
                         </Badge>
                       </TableCell>
                       <TableCell className="font-mono font-semibold">
@@ -378,6 +530,9 @@ const Index: React.FC = () => {
                       <TableCell className="font-mono">
                         ${(listing.creditsAvailable * listing.pricePerCredit).toFixed(2)}
                       </TableCell>
+                      <TableCell>
+                        {listing.expiresAt ? <ExpiryBadge expiresAt={listing.expiresAt} /> : '—'}
+                      </TableCell>
                       <TableCell>
                         <div className="flex space-x-2">
                           <Button 
@@ -401,7 +556,7 @@ const Index: React.FC = () => {
               {filteredListings.length === 0 && (
                 <div className="text-center py-12 text-muted-foreground">
                   <Search className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>No producers found matching "{searchQuery}"</p>
+                  <p>No listings match your search and filters</p>
                 </div>
               )}
             </CardContent>
@@ -434,12 +589,22 @@ const Index: React.FC = () => {
       </div>
 
       {/* Buy Modal */}
-      <Dialog open={buyModalOpen} onOpenChange={setBuyModalOpen}>
+      <Dialog open={buyModalOpen} onOpenChange={closeBuyModal}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Purchase Hydrogen Credits</DialogTitle>
           </DialogHeader>
-          {selectedListing && (
+          {selectedListing && settlementStep && (
+            <div className="space-y-4">
+              <SettlementSteps current={settlementStep} failed={settlementFailed} />
+              {!isPurchasing && (
+                <Button variant="outline" className="w-full" onClick={() => closeBuyModal(false)}>
+                  Close
+                </Button>
+              )}
+            </div>
+          )}
+          {selectedListing && !settlementStep && (
             <div className="space-y-4">
               <div>
                 <h4 className="font-semibold">Producer</h4>
@@ -448,7 +613,7 @@ const Index: React.FC = () => {
               
               <div>
                 <h4 className="font-semibold">Available Credits</h4>
-                <p>{selectedListing.creditsAvailable} credits</p>
+                <p>{formatCredits(selectedListing.creditsAvailable)} (1 credit = 1 kg H2)</p>
               </div>
               
               <div>
@@ -473,7 +638,7 @@ const Index: React.FC = () => {
                 <div className="p-4 bg-muted rounded-lg">
                   <div className="flex justify-between">
                     <span>Quantity:</span>
-                    <span>{purchaseQuantity} credits</span>
+                    <span>{formatCredits(parseInt(purchaseQuantity || '0'))}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Price per credit:</span>
@@ -483,6 +648,12 @@ const Index: React.FC = () => {
                     <span>Total:</span>
                     <span>${(parseInt(purchaseQuantity || '0') * selectedListing.pricePerCredit).toFixed(2)}</span>
                   </div>
+                  {balance !== null && (
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>Your balance:</span>
+                      <span>{balance.toFixed(2)} {symbol}</span>
+                    </div>
+                  )}
                 </div>
               )}
               
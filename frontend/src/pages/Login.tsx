@@ -11,11 +11,14 @@ import {
   SelectTrigger, 
   SelectValue 
 } from '@/components/ui/select';
-import { Atom, User, Building2, Mail, KeyRound } from 'lucide-react';
+import { Atom, User, Building2, Mail, Wallet } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { hasInjectedWallet } from '@/services/contract';
 import { motion } from 'framer-motion';
 
+const LOCAL_ACCOUNTS = Array.from({ length: 10 }, (_, i) => i);
+
 const Login: React.FC = () => {
   const { user, login } = useAuth();
   const { toast } = useToast();
@@ -23,12 +26,13 @@ const Login: React.FC = () => {
   const location = useLocation();
   
   const [formData, setFormData] = useState({
-    username: '',
+    name: '',
     email: '',
     company: '',
-    role: ''
+    localAccount: '0'
   });
   const [isLoading, setIsLoading] = useState(false);
+  const injectedWallet = hasInjectedWallet();
 
   // Get the intended destination or default to home
   const from = (location.state as any)?.from?.pathname || '/';
@@ -44,28 +48,24 @@ const Login: React.FC = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!formData.username || !formData.role) {
-      toast({
-        title: "Error",
-        description: "Please fill in username and select a role",
-        variant: "destructive",
-      });
-      return;
-    }
 
     setIsLoading(true);
     try {
-      await login(formData.username, formData.role, formData.email, formData.company);
+      const signedIn = await login({
+        name: formData.name,
+        email: formData.email,
+        company: formData.company,
+        localAccount: parseInt(formData.localAccount),
+      });
       toast({
         title: "Welcome!",
-        description: `Successfully logged in as ${formData.role}`,
+        description: `Signed in as ${signedIn.role}`,
       });
       navigate(from, { replace: true });
     } catch (error) {
       toast({
         title: "Login Failed",
-        description: "Something went wrong. Please try again.",
+        description: "Wallet signature was rejected or could not be verified.",
         variant: "destructive",
       });
     } finally {
@@ -73,26 +73,6 @@ const Login: React.FC = () => {
     }
   };
 
-  const getRoleColor = (role: string) => {
-    switch (role) {
-      case 'producer': return 'text-producer';
-      case 'buyer': return 'text-buyer';
-      case 'regulator': return 'text-regulator';
-      case 'public': return 'text-public';
-      default: return 'text-foreground';
-    }
-  };
-
-  const getRoleDescription = (role: string) => {
-    switch (role) {
-      case 'producer': return 'Generate and sell hydrogen credits';
-      case 'buyer': return 'Purchase hydrogen credits from producers';
-      case 'regulator': return 'Approve production reports and monitor compliance';
-      case 'public': return 'View public ledger and market transparency';
-      default: return 'Select your role to continue';
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center p-4">
       <motion.div
@@ -123,25 +103,24 @@ const Login: React.FC = () => {
           <CardHeader className="space-y-1 pb-4">
             <CardTitle className="text-2xl text-center">Sign In</CardTitle>
             <CardDescription className="text-center">
-              Enter your details to access your dashboard
+              Sign a message with your wallet to access your dashboard
             </CardDescription>
           </CardHeader>
           
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
-              {/* Username */}
+              {/* Display Name */}
               <div className="space-y-2">
-                <Label htmlFor="username">Username *</Label>
+                <Label htmlFor="name">Display Name</Label>
                 <div className="relative">
                   <User className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
-                    id="username"
+                    id="name"
                     type="text"
-                    placeholder="Enter your username"
-                    value={formData.username}
-                    onChange={(e) => handleInputChange('username', e.target.value)}
+                    placeholder="Defaults to your wallet address"
+                    value={formData.name}
+                    onChange={(e) => handleInputChange('name', e.target.value)}
                     className="pl-10"
-                    required
                   />
                 </div>
               </div>
@@ -178,46 +157,27 @@ const Login: React.FC = () => {
                 </div>
               </div>
 
-              {/* Role Selection */}
-              <div className="space-y-2">
-                <Label htmlFor="role">Role *</Label>
-                <Select value={formData.role} onValueChange={(value) => handleInputChange('role', value)}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select your role" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="producer">
-                      <div className="flex flex-col items-start">
-                        <span className="text-producer font-medium">Producer</span>
-                        <span className="text-xs text-muted-foreground">Generate hydrogen credits</span>
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="buyer">
-                      <div className="flex flex-col items-start">
-                        <span className="text-buyer font-medium">Buyer</span>
-                        <span className="text-xs text-muted-foreground">Purchase hydrogen credits</span>
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="regulator">
-                      <div className="flex flex-col items-start">
-                        <span className="text-regulator font-medium">Regulator</span>
-                        <span className="text-xs text-muted-foreground">Monitor compliance</span>
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="public">
-                      <div className="flex flex-col items-start">
-                        <span className="text-public font-medium">Public</span>
-                        <span className="text-xs text-muted-foreground">View transparency data</span>
-                      </div>
-                    </SelectItem>
-                  </SelectContent>
-                </Select>
-                {formData.role && (
-                  <p className={`text-sm ${getRoleColor(formData.role)}`}>
-                    {getRoleDescription(formData.role)}
+              {/* Local Hardhat account when no browser wallet is available */}
+              {!injectedWallet && (
+                <div className="space-y-2">
+                  <Label htmlFor="localAccount">Local Hardhat Account</Label>
+                  <Select value={formData.localAccount} onValueChange={(value) => handleInputChange('localAccount', value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LOCAL_ACCOUNTS.map((index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          Account #{index}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    No browser wallet detected. Signing with an unlocked account on the local node.
                   </p>
-                )}
-              </div>
+                </div>
+              )}
 
               <Button 
                 type="submit" 
@@ -226,21 +186,21 @@ const Login: React.FC = () => {
               >
                 {isLoading ? (
                   <>
-                    <KeyRound className="mr-2 h-4 w-4 animate-spin" />
-                    Signing In...
+                    <Wallet className="mr-2 h-4 w-4 animate-pulse" />
+                    Waiting for Signature...
                   </>
                 ) : (
                   <>
-                    <KeyRound className="mr-2 h-4 w-4" />
-                    Sign In
+                    <Wallet className="mr-2 h-4 w-4" />
+                    Sign In with Wallet
                   </>
                 )}
               </Button>
             </form>
 
             <div className="mt-6 text-center text-sm text-muted-foreground">
-              <p>Demo Mode - No password required</p>
-              <p className="text-xs mt-1">Simply enter a username and select your role</p>
+              <p>Your role is read from the GreenHydrogenCredit contract</p>
+              <p className="text-xs mt-1">Regulator, certifier, auditor, producer or buyer access follows your on-chain status</p>
             </div>
           </CardContent>
         </Card>
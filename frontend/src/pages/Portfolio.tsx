@@ -0,0 +1,52 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { RefreshCw } from 'lucide-react';
+import { usePortfolio } from '@/hooks/use-portfolio';
+import { portfolioTotals } from '@/services/portfolio';
+import { HoldingsTable } from '@/components/buyer/HoldingsTable';
+import { PortfolioSummary } from '@/components/buyer/PortfolioSummary';
+import { motion } from 'framer-motion';
+
+const Portfolio: React.FC = () => {
+  const { holdings, pricing, isLoading, reload } = usePortfolio();
+
+  const totals = portfolioTotals(holdings);
+  // Only holdings with both a purchase price and a market value count towards the gain
+  const gain = holdings.reduce((sum, h) =>
+    h.markValue !== undefined && h.costBasis !== undefined ? sum + h.markValue - h.costBasis : sum, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="container mx-auto p-6 space-y-6"
+    >
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-buyer">Portfolio</h1>
+          <p className="text-muted-foreground">
+            Every credit in your wallet, what you paid for it and what it is worth at recent market prices
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          className="border-buyer text-buyer hover:bg-buyer hover:text-buyer-foreground"
+          onClick={reload}
+          disabled={isLoading}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <PortfolioSummary totals={totals} gain={gain} />
+
+      {/* Holdings */}
+      <HoldingsTable holdings={holdings} pricing={pricing} isLoading={isLoading} />
+    </motion.div>
+  );
+};
+
+export default Portfolio;
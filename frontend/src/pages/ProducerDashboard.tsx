@@ -5,51 +5,115 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { CalendarIcon, Factory, TrendingUp, Upload, Plus, Eye } from 'lucide-react';
-import { format } from 'date-fns';
+import { AlertCircle, CalendarIcon, Factory, TrendingUp, Upload, Plus, Eye, RotateCcw, Pencil, Trash2, Pause, Play, Store, XCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { isAxiosError } from 'axios';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePendingDeliveries } from '@/hooks/use-deliveries';
 import { useToast } from '@/hooks/use-toast';
 import { api } from '@/services/api';
+import { currentRevision, rejectionReasonLabel, type ProductionReport, type ReportInput } from '@/services/reports';
+import {
+  EVIDENCE_ACCEPT,
+  MAX_EVIDENCE_BYTES,
+  MAX_EVIDENCE_FILES,
+  METER_DATA_ACCEPT,
+  formatFileSize,
+  toEvidenceRefs,
+  uploadEvidence,
+  uploadMeterData,
+  type EvidenceFile,
+} from '@/services/evidence';
+import { formatUtilization, type Facility } from '@/services/facilities';
+import {
+  createCreditClient,
+  CreditStatus,
+  VerificationStatus,
+  type Credit,
+} from '@/services/contract';
+import type { Offer, OfferAction, OfferStatus } from '@/services/offers';
+import { PendingDeliveries } from '@/components/producer/PendingDeliveries';
+import { EvidenceList } from '@/components/shared/EvidenceList';
+import { ExpiryBadge } from '@/components/shared/ExpiryBadge';
+import { ExpiryNotices } from '@/components/shared/ExpiryNotices';
+import { MeterSummary } from '@/components/shared/MeterSummary';
+import { creditExpiresAt, isCreditExpired } from '@shared/expiry';
+import {
+  formatAmount,
+  formatCredits,
+  formatKg,
+  formatTonnes,
+  kgToCredits,
+  kgToTonnes,
+  roundTonnes,
+  tonnesToCredits,
+} from '@shared/quantity';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
 
-interface ProductionReport {
-  reportId: string;
-  producerId: string;
-  tons: number;
-  status: 'draft' | 'submitted' | 'approved' | 'rejected';
-  timestamp: string;
-  notes?: string;
-  file?: string;
-}
-
 interface Transaction {
   txId: string;
   type: 'issue' | 'trade';
   amount: number;
   counterparty?: string;
   timestamp: string;
-  status: 'pending' | 'completed';
+  // Trades are pending until paid into escrow and escrowed until the producer settles
+  status: 'pending' | 'escrowed' | 'completed';
 }
 
 const ProducerDashboard: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [productionDate, setProductionDate] = useState<Date | undefined>(new Date());
+  const [periodStart, setPeriodStart] = useState<Date | undefined>();
+  const [facilityId, setFacilityId] = useState('');
+  const [facilities, setFacilities] = useState<Facility[]>([]);
   const [tons, setTons] = useState('');
   const [notes, setNotes] = useState('');
-  const [fileName, setFileName] = useState('');
+  const [evidence, setEvidence] = useState<EvidenceFile[]>([]);
+  // Interval meter data; when attached, the tons come from its H2 output
+  const [meterData, setMeterData] = useState<EvidenceFile | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
   const [reports, setReports] = useState<ProductionReport[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  // Draft currently loaded into the form, if any
+  const [editingDraftId, setEditingDraftId] = useState<string | null>(null);
   const [selectedReport, setSelectedReport] = useState<ProductionReport | null>(null);
   const [offerCredits, setOfferCredits] = useState('');
   const [offerPrice, setOfferPrice] = useState('');
   const [createOfferOpen, setCreateOfferOpen] = useState(false);
+  // On-chain credits held by the producer, and those picked to back the offer
+  const [ownCredits, setOwnCredits] = useState<Credit[]>([]);
+  const [offerCreditIds, setOfferCreditIds] = useState<number[]>([]);
+
+  // The producer's own offers
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [editingOffer, setEditingOffer] = useState<Offer | null>(null);
+  const [editOfferCredits, setEditOfferCredits] = useState('');
+  const [editOfferPrice, setEditOfferPrice] = useState('');
+  const [offerActionId, setOfferActionId] = useState<string | null>(null);
+  const [fillsOffer, setFillsOffer] = useState<Offer | null>(null);
+
+  // Amending a rejected report
+  const [amendTarget, setAmendTarget] = useState<ProductionReport | null>(null);
+  const [amendTons, setAmendTons] = useState('');
+  const [amendNotes, setAmendNotes] = useState('');
+  const [amendEvidence, setAmendEvidence] = useState<EvidenceFile[]>([]);
+  const [amendMeterData, setAmendMeterData] = useState<EvidenceFile | null>(null);
+  const [amendFacilityId, setAmendFacilityId] = useState('');
+  const [isResubmitting, setIsResubmitting] = useState(false);
+
+  // Marketplace sales still to be settled on-chain through the escrow
+  const { deliveries, reload: loadDeliveries } = usePendingDeliveries(user?.role === 'producer');
 
   // Redirect if not producer
   useEffect(() => {
@@ -63,9 +127,121 @@ const ProducerDashboard: React.FC = () => {
   useEffect(() => {
     if (user) {
       loadUserTransactions();
+      loadReports();
+      loadFacilities();
+      loadOffers();
     }
   }, [user]);
 
+  const loadFacilities = async () => {
+    try {
+      const response = await api.getFacilities();
+      const loaded: Facility[] = response.data || [];
+      setFacilities(loaded);
+      // Most producers run a single site
+      if (loaded.length === 1) setFacilityId(loaded[0].facilityId);
+    } catch (error) {
+      console.error('Failed to load facilities:', error);
+    }
+  };
+
+  const loadOwnCredits = async (address: string) => {
+    try {
+      const client = createCreditClient();
+      const ids = await client.getOwnerCredits(address);
+      setOwnCredits(await Promise.all(ids.map(id => client.getCredit(id))));
+    } catch (error) {
+      console.error('Failed to load credits:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (createOfferOpen && user) loadOwnCredits(user.address);
+  }, [createOfferOpen, user]);
+
+  const loadOffers = async () => {
+    try {
+      const response = await api.getOffers();
+      setOffers(response.data);
+    } catch (error) {
+      console.error('Failed to load offers:', error);
+    }
+  };
+
+  const openEditOffer = (offer: Offer) => {
+    setEditingOffer(offer);
+    setEditOfferCredits(String(offer.creditsAvailable));
+    setEditOfferPrice(String(offer.pricePerCredit));
+  };
+
+  const saveOffer = async () => {
+    if (!editingOffer) return;
+    const credits = Number(editOfferCredits);
+    const price = Number(editOfferPrice);
+    if (!Number.isInteger(credits) || credits < 0 || !(price > 0)) {
+      toast({
+        title: "Error",
+        description: "Please enter a whole number of credits and a valid price",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setOfferActionId(editingOffer.offerId);
+    try {
+      await api.updateOffer(editingOffer.offerId, { creditsAvailable: credits, pricePerCredit: price });
+      toast({ title: "Success", description: `Offer ${editingOffer.offerId} updated` });
+      setEditingOffer(null);
+      loadOffers();
+      loadDeliveries();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: failureReason(error, "Failed to update offer"),
+        variant: "destructive",
+      });
+    } finally {
+      setOfferActionId(null);
+    }
+  };
+
+  const changeOfferStatus = async (offer: Offer, action: OfferAction) => {
+    setOfferActionId(offer.offerId);
+    try {
+      await api.changeOfferStatus(offer.offerId, action);
+      const done = { pause: 'paused', resume: 'resumed', cancel: 'cancelled' }[action];
+      toast({ title: "Success", description: `Offer ${offer.offerId} ${done}` });
+      loadOffers();
+      // Resuming can match resting bids straight away
+      if (action === 'resume') loadDeliveries();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: failureReason(error, `Failed to ${action} offer`),
+        variant: "destructive",
+      });
+    } finally {
+      setOfferActionId(null);
+    }
+  };
+
+  const offerStatusColor = (status: OfferStatus) => {
+    switch (status) {
+      case 'active': return 'bg-producer text-producer-foreground';
+      case 'paused': return 'bg-warning text-warning-foreground';
+      default: return 'bg-muted text-muted-foreground';
+    }
+  };
+
+  const loadReports = async () => {
+    try {
+      const response = await api.getProducerReports();
+      setReports(response.data || []);
+    } catch (error) {
+      console.error('Failed to load production reports:', error);
+    }
+  };
+
   const loadUserTransactions = async () => {
     try {
       if (user) {
@@ -77,60 +253,152 @@ const ProducerDashboard: React.FC = () => {
     }
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setFileName(file.name);
+  // Uploads the chosen files to the evidence store; re-attaching identical content is a no-op
+  const uploadFiles = async (
+    input: HTMLInputElement,
+    attached: EvidenceFile[],
+    setAttached: (files: EvidenceFile[]) => void,
+  ) => {
+    const files = Array.from(input.files ?? []);
+    input.value = '';
+    if (attached.length + files.length > MAX_EVIDENCE_FILES) {
+      toast({
+        title: "Error",
+        description: `A report can have at most ${MAX_EVIDENCE_FILES} evidence files`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    let next = attached;
+    try {
+      for (const file of files) {
+        const uploaded = await uploadEvidence(file);
+        if (!next.some(f => f.sha256 === uploaded.sha256)) next = [...next, uploaded];
+      }
+    } catch (error) {
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Failed to upload evidence",
+        variant: "destructive",
+      });
+    } finally {
+      setAttached(next);
+      setIsUploading(false);
     }
   };
 
+  // Uploads meter data and shows what the server derived from it; the volume follows the H2 output
+  const uploadMeterFile = async (
+    input: HTMLInputElement,
+    setMeter: (file: EvidenceFile) => void,
+    setVolume: (tons: string) => void,
+  ) => {
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const uploaded = await uploadMeterData(file);
+      setMeter(uploaded);
+      if (uploaded.meter) setVolume(String(roundTonnes(kgToTonnes(uploaded.meter.h2Kg))));
+    } catch (error) {
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Failed to upload meter data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const hasVolume = (amount: string, meter: EvidenceFile | null) =>
+    meter !== null || (amount !== '' && parseFloat(amount) > 0);
+
+  // The server's error message, e.g. why a report failed the capacity check
+  const failureReason = (error: unknown, fallback: string): string =>
+    (isAxiosError(error) ? error.response?.data?.error : undefined) ?? fallback;
+
+  const facilityName = (id?: string) => facilities.find(f => f.facilityId === id)?.name ?? id;
+
+  const reportInput = (): ReportInput => ({
+    tons: meterData ? undefined : parseFloat(tons),
+    productionDate: productionDate ? format(productionDate, 'yyyy-MM-dd') : undefined,
+    facilityId: facilityId || undefined,
+    periodStart: periodStart ? format(periodStart, 'yyyy-MM-dd') : undefined,
+    notes,
+    evidence: toEvidenceRefs(evidence),
+    meterData: meterData ? toEvidenceRefs([meterData])[0] : undefined,
+  });
+
+  const resetForm = () => {
+    setEditingDraftId(null);
+    setTons('');
+    setNotes('');
+    setEvidence([]);
+    setMeterData(null);
+    setProductionDate(new Date());
+    setPeriodStart(undefined);
+    setFacilityId(facilities.length === 1 ? facilities[0].facilityId : '');
+  };
+
+  // Replaces a report in the list, or prepends it if it is new
+  const upsertReport = (report: ProductionReport) => {
+    setReports(prev => prev.some(r => r.reportId === report.reportId)
+      ? prev.map(r => r.reportId === report.reportId ? report : r)
+      : [report, ...prev]);
+  };
+
   const saveDraft = async () => {
-    if (!user || !tons || parseFloat(tons) <= 0) {
+    if (!user || !hasVolume(tons, meterData)) {
       toast({
         title: "Error",
-        description: "Please enter a valid amount of tons produced",
+        description: "Please enter a valid amount of tonnes produced or attach meter data",
         variant: "destructive",
       });
       return;
     }
 
+    setIsSavingDraft(true);
     try {
-      const newReport: ProductionReport = {
-        reportId: `rep-${Date.now()}`,
-        producerId: user.id,
-        tons: parseFloat(tons),
-        status: 'draft',
-        timestamp: new Date().toISOString(),
-        notes,
-        file: fileName,
-      };
-
-      setReports([...reports, newReport]);
-      
-      // Reset form
-      setTons('');
-      setNotes('');
-      setFileName('');
-      setProductionDate(new Date());
+      const response = editingDraftId
+        ? await api.updateDraft(editingDraftId, reportInput())
+        : await api.saveDraft(reportInput());
+
+      upsertReport(response.data);
+      resetForm();
 
       toast({
         title: "Success",
-        description: "Production report saved as draft",
+        description: `Production report ${response.data.reportId} saved as draft`,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to save draft",
+        description: failureReason(error, "Failed to save draft"),
         variant: "destructive",
       });
+    } finally {
+      setIsSavingDraft(false);
     }
   };
 
   const submitForVerification = async () => {
-    if (!user || !tons || parseFloat(tons) <= 0) {
+    if (!user || !hasVolume(tons, meterData)) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid amount of tonnes produced or attach meter data",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!facilityId) {
       toast({
         title: "Error",
-        description: "Please enter a valid amount of tons produced",
+        description: "Select the facility this hydrogen was produced at",
         variant: "destructive",
       });
       return;
@@ -138,30 +406,17 @@ const ProducerDashboard: React.FC = () => {
 
     setIsSubmitting(true);
     try {
-      await api.submitProduction({
-        producerId: user.id,
-        tons: parseFloat(tons),
-        notes,
-        file: fileName,
-      });
+      let response;
+      if (editingDraftId) {
+        // Save the latest edits before submitting the draft itself
+        await api.updateDraft(editingDraftId, reportInput());
+        response = await api.submitDraft(editingDraftId);
+      } else {
+        response = await api.submitProduction({ producerId: user.id, ...reportInput() });
+      }
 
-      const newReport: ProductionReport = {
-        reportId: `rep-${Date.now()}`,
-        producerId: user.id,
-        tons: parseFloat(tons),
-        status: 'submitted',
-        timestamp: new Date().toISOString(),
-        notes,
-        file: fileName,
-      };
-
-      setReports([...reports, newReport]);
-      
-      // Reset form
-      setTons('');
-      setNotes('');
-      setFileName('');
-      setProductionDate(new Date());
+      upsertReport(response.data);
+      resetForm();
 
       toast({
         title: "Success",
@@ -170,7 +425,7 @@ const ProducerDashboard: React.FC = () => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to submit report",
+        description: failureReason(error, "Failed to submit report"),
         variant: "destructive",
       });
     } finally {
@@ -178,20 +433,140 @@ const ProducerDashboard: React.FC = () => {
     }
   };
 
+  const editDraft = async (reportId: string) => {
+    try {
+      const { data: draft } = await api.getReport(reportId);
+      upsertReport(draft);
+      if (draft.status !== 'draft') return;
+
+      setEditingDraftId(draft.reportId);
+      setTons(String(draft.tons));
+      setNotes(draft.notes ?? '');
+      setEvidence(draft.evidence ?? []);
+      setMeterData(draft.meterData ?? null);
+      setProductionDate(draft.productionDate ? parseISO(draft.productionDate) : undefined);
+      setPeriodStart(draft.periodStart ? parseISO(draft.periodStart) : undefined);
+      setFacilityId(draft.facilityId ?? '');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load draft",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteDraft = async (reportId: string) => {
+    try {
+      await api.deleteDraft(reportId);
+      setReports(prev => prev.filter(r => r.reportId !== reportId));
+      if (editingDraftId === reportId) resetForm();
+
+      toast({
+        title: "Success",
+        description: `Draft ${reportId} deleted`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete draft",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openAmendDialog = (report: ProductionReport) => {
+    setSelectedReport(null);
+    setAmendTarget(report);
+    setAmendTons(String(report.tons));
+    setAmendNotes(report.notes ?? '');
+    setAmendEvidence(report.evidence ?? []);
+    setAmendMeterData(report.meterData ?? null);
+    setAmendFacilityId(report.facilityId ?? '');
+  };
+
+  const resubmitReport = async () => {
+    if (!amendTarget || !hasVolume(amendTons, amendMeterData)) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid amount of tonnes produced or attach meter data",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!amendFacilityId) {
+      toast({
+        title: "Error",
+        description: "Select the facility this hydrogen was produced at",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsResubmitting(true);
+    try {
+      const response = await api.resubmitReport(amendTarget.reportId, {
+        tons: amendMeterData ? undefined : parseFloat(amendTons),
+        productionDate: amendTarget.productionDate,
+        periodStart: amendTarget.periodStart,
+        facilityId: amendFacilityId,
+        notes: amendNotes,
+        evidence: toEvidenceRefs(amendEvidence),
+        meterData: amendMeterData ? toEvidenceRefs([amendMeterData])[0] : undefined,
+      });
+
+      setReports(prev => prev.map(r => r.reportId === amendTarget.reportId ? response.data : r));
+      setAmendTarget(null);
+
+      toast({
+        title: "Success",
+        description: `Report ${amendTarget.reportId} resubmitted as revision ${currentRevision(response.data)}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: failureReason(error, "Failed to resubmit report"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsResubmitting(false);
+    }
+  };
+
+  // Only verified, active credits that haven't expired can be offered
+  const isOfferable = (credit: Credit) =>
+    credit.status === CreditStatus.Active &&
+    credit.verificationStatus === VerificationStatus.Verified &&
+    !isCreditExpired(credit.productionDate);
+
+  const unretiredCredits = ownCredits.filter(c => !c.isRetired);
+  const offerBacking = unretiredCredits
+    .filter(c => offerCreditIds.includes(c.id))
+    .reduce((sum, c) => sum + kgToCredits(c.amount), 0);
+  // Paused offers still hold their reservation
+  const listedCredits = offers
+    .filter(o => o.status !== 'cancelled')
+    .reduce((sum, o) => sum + o.creditsAvailable, 0);
+
+  const toggleOfferCredit = (id: number, checked: boolean) => {
+    setOfferCreditIds(prev => checked ? [...prev, id] : prev.filter(c => c !== id));
+  };
+
   const createOffer = async () => {
-    if (!user || !offerCredits || !offerPrice || parseFloat(offerCredits) <= 0 || parseFloat(offerPrice) <= 0) {
+    const credits = Number(offerCredits);
+    if (!user || !Number.isInteger(credits) || credits <= 0 || !offerPrice || parseFloat(offerPrice) <= 0) {
       toast({
         title: "Error",
-        description: "Please enter valid credit amount and price",
+        description: "Please enter a whole number of credits and a valid price",
         variant: "destructive",
       });
       return;
     }
 
-    if ((user.credits || 0) < parseFloat(offerCredits)) {
+    if (offerBacking < credits) {
       toast({
         title: "Error",
-        description: "Insufficient credits available",
+        description: `Select credits covering at least ${formatCredits(credits)} to back the offer`,
         variant: "destructive",
       });
       return;
@@ -200,22 +575,26 @@ const ProducerDashboard: React.FC = () => {
     try {
       await api.createOffer({
         producerId: user.id,
-        creditsAvailable: parseFloat(offerCredits),
+        creditsAvailable: credits,
         pricePerCredit: parseFloat(offerPrice),
+        creditIds: offerCreditIds,
       });
 
       setOfferCredits('');
       setOfferPrice('');
+      setOfferCreditIds([]);
       setCreateOfferOpen(false);
 
       toast({
         title: "Success",
         description: "Offer created successfully",
       });
+      loadOffers();
+      loadDeliveries();
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to create offer",
+        description: failureReason(error, "Failed to create offer"),
         variant: "destructive",
       });
     }
@@ -271,12 +650,14 @@ const ProducerDashboard: React.FC = () => {
                 <Input
                   id="offerCredits"
                   type="number"
-                  placeholder="Enter number of credits"
+                  step="1"
+                  placeholder="Enter number of credits (1 credit = 1 kg H2)"
                   value={offerCredits}
                   onChange={(e) => setOfferCredits(e.target.value)}
                 />
                 <p className="text-sm text-muted-foreground mt-1">
-                  Available: {user.credits || 0} credits
+                  Already on your open offers: {formatCredits(listedCredits)}. Offers can't list more than you hold
+                  of their credits beyond that and what buyers are still owed.
                 </p>
               </div>
               <div>
@@ -290,6 +671,34 @@ const ProducerDashboard: React.FC = () => {
                   onChange={(e) => setOfferPrice(e.target.value)}
                 />
               </div>
+              <div>
+                <Label>Backing Credits</Label>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Expired credits can't be sold; the offer lapses when its earliest credit expires.
+                </p>
+                <div className="max-h-48 overflow-y-auto space-y-1 border rounded-md p-2">
+                  {unretiredCredits.map(credit => (
+                    <label key={credit.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={offerCreditIds.includes(credit.id)}
+                        onCheckedChange={(checked) => toggleOfferCredit(credit.id, checked === true)}
+                        disabled={!isOfferable(credit)}
+                      />
+                      <span className="font-mono">#{credit.id}</span>
+                      <span>{formatKg(credit.amount)}</span>
+                      <span className="ml-auto">
+                        <ExpiryBadge expiresAt={creditExpiresAt(credit.productionDate)} />
+                      </span>
+                    </label>
+                  ))}
+                  {unretiredCredits.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No credits in your wallet</p>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Selected: {formatCredits(offerBacking)}
+                </p>
+              </div>
               <Button onClick={createOffer} className="w-full">
                 Create Offer
               </Button>
@@ -298,6 +707,8 @@ const ProducerDashboard: React.FC = () => {
         </Dialog>
       </div>
 
+      <ExpiryNotices />
+
       {/* Summary Card */}
       <Card>
         <CardHeader>
@@ -309,14 +720,14 @@ const ProducerDashboard: React.FC = () => {
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div className="text-center">
-              <div className="text-3xl font-bold text-producer">{user.credits || 0}</div>
+              <div className="text-3xl font-bold text-producer">{formatAmount(user.credits || 0, 'credit')}</div>
               <div className="text-sm text-muted-foreground">Current Credits</div>
             </div>
             <div className="text-center">
               <div className="text-3xl font-bold text-foreground">
-                {reports.filter(r => r.status === 'approved').reduce((sum, r) => sum + r.tons, 0)}
+                {formatAmount(reports.filter(r => r.status === 'approved').reduce((sum, r) => sum + r.tons, 0), 't')}
               </div>
-              <div className="text-sm text-muted-foreground">Total Tons Produced</div>
+              <div className="text-sm text-muted-foreground">Total Tonnes Produced</div>
             </div>
             <div className="text-center">
               <div className="text-3xl font-bold text-foreground">{reports.length}</div>
@@ -331,11 +742,65 @@ const ProducerDashboard: React.FC = () => {
         <CardHeader>
           <CardTitle>Production Report</CardTitle>
           <CardDescription>
-            Submit your hydrogen production data for verification
+            {editingDraftId
+              ? `Editing draft ${editingDraftId}`
+              : 'Submit your hydrogen production data for verification'}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label>Facility</Label>
+            {facilities.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Reports must name the facility they were produced at.{' '}
+                <Link to="/facilities" className="text-producer underline">Register a facility</Link> first.
+              </p>
+            ) : (
+              <Select value={facilityId} onValueChange={setFacilityId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select the producing facility" />
+                </SelectTrigger>
+                <SelectContent>
+                  {facilities.map((facility) => (
+                    <SelectItem key={facility.facilityId} value={facility.facilityId}>
+                      {facility.name} ({facility.capacityMw} MW, {formatKg(facility.capacityKgPerDay)}/day)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="periodStart">Period Start (optional)</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    id="periodStart"
+                    variant="outline"
+                    className={cn(
+                      "w-full justify-start text-left font-normal",
+                      !periodStart && "text-muted-foreground"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {periodStart ? format(periodStart, "PPP") : "Production date only"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={periodStart}
+                    onSelect={setPeriodStart}
+                    disabled={productionDate ? { after: productionDate } : undefined}
+                    initialFocus
+                    className="pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
             <div>
               <Label htmlFor="date">Production Date</Label>
               <Popover>
@@ -364,34 +829,73 @@ const ProducerDashboard: React.FC = () => {
             </div>
 
             <div>
-              <Label htmlFor="tons">Tons Produced</Label>
+              <Label htmlFor="tons">Tonnes Produced</Label>
               <Input
                 id="tons"
                 type="number"
-                step="0.01"
-                placeholder="Enter tons of hydrogen produced"
+                step="0.001"
+                placeholder="Enter tonnes of hydrogen produced"
                 value={tons}
+                disabled={meterData !== null}
                 onChange={(e) => setTons(e.target.value)}
               />
+              {hasVolume(tons, null) && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {meterData ? 'Derived from the attached meter data; ' : ''}
+                  issues {formatCredits(tonnesToCredits(parseFloat(tons)))} once approved
+                </p>
+              )}
             </div>
           </div>
 
-          <div>
-            <Label htmlFor="file">Attach Production Certificate (PDF)</Label>
+          <div className="space-y-2">
+            <Label htmlFor="meterData">Meter Data (optional)</Label>
+            <div className="flex items-center space-x-2">
+              <Input
+                id="meterData"
+                type="file"
+                accept={METER_DATA_ACCEPT}
+                disabled={isUploading}
+                onChange={(e) => uploadMeterFile(e.target, setMeterData, setTons)}
+                className="flex-1"
+              />
+              {meterData && (
+                <Button variant="ghost" size="sm" onClick={() => setMeterData(null)}>
+                  Remove
+                </Button>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Interval CSV (start, end, electrolyzer_kw, renewable_kw, h2_kg, optional grid_gco2_per_kwh) or the same
+              fields as JSON. Production volume and carbon intensity are computed from it.
+            </p>
+            {meterData?.meter && <MeterSummary summary={meterData.meter} name={meterData.name} />}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="file">Evidence (production certificates, supporting documents)</Label>
             <div className="flex items-center space-x-2">
               <Input
                 id="file"
                 type="file"
-                accept=".pdf"
-                onChange={handleFileUpload}
+                multiple
+                accept={EVIDENCE_ACCEPT}
+                disabled={isUploading}
+                onChange={(e) => uploadFiles(e.target, evidence, setEvidence)}
                 className="flex-1"
               />
               <Upload className="h-4 w-4 text-muted-foreground" />
             </div>
-            {fileName && (
-              <p className="text-sm text-muted-foreground mt-1">
-                Selected: {fileName}
-              </p>
+            <p className="text-sm text-muted-foreground">
+              {isUploading
+                ? 'Uploading...'
+                : `PDF, PNG, JPEG or WebP, up to ${formatFileSize(MAX_EVIDENCE_BYTES)} each. Files are stored by their SHA-256 hash.`}
+            </p>
+            {evidence.length > 0 && (
+              <EvidenceList
+                files={evidence}
+                onRemove={(sha256) => setEvidence(evidence.filter(f => f.sha256 !== sha256))}
+              />
             )}
           </div>
 
@@ -409,21 +913,131 @@ const ProducerDashboard: React.FC = () => {
             <Button 
               variant="outline" 
               onClick={saveDraft}
-              disabled={!tons || parseFloat(tons) <= 0}
+              disabled={isSavingDraft || isUploading || !hasVolume(tons, meterData)}
             >
-              Save Draft
+              {isSavingDraft ? 'Saving...' : editingDraftId ? 'Update Draft' : 'Save Draft'}
             </Button>
             <Button 
               onClick={submitForVerification}
-              disabled={isSubmitting || !tons || parseFloat(tons) <= 0}
+              disabled={isSubmitting || isUploading || !hasVolume(tons, meterData) || !facilityId}
               className="bg-producer hover:bg-producer/90"
             >
               {isSubmitting ? 'Submitting...' : 'Submit for Verification'}
             </Button>
+            {editingDraftId && (
+              <Button variant="ghost" onClick={resetForm}>
+                Cancel Editing
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      {/* My Offers */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Store className="h-5 w-5 mr-2 text-producer" />
+            My Offers
+          </CardTitle>
+          <CardDescription>
+            Paused offers leave the marketplace and order book but keep their credits reserved. Cancelling releases
+            them; buyers already owed credits from an offer are still owed them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {offers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No offers yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Offer</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>For Sale</TableHead>
+                  <TableHead>Sold</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {offers.map((offer) => (
+                  <TableRow key={offer.offerId}>
+                    <TableCell>
+                      <div className="font-mono">{offer.offerId}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {offer.createdAt && format(new Date(offer.createdAt), 'MMM dd, yyyy')}
+                        {offer.creditIds && ` • credits ${offer.creditIds.map(id => `#${id}`).join(', ')}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono">${offer.pricePerCredit.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {formatCredits(offer.creditsAvailable)}
+                      {offer.expiresAt && offer.status !== 'cancelled' && (
+                        <span className="block">
+                          <ExpiryBadge expiresAt={offer.expiresAt} />
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setFillsOffer(offer)}
+                        disabled={offer.fills.length === 0}
+                      >
+                        <Eye className="h-4 w-4 mr-1" />
+                        {formatCredits(offer.creditsSold)} ({offer.fills.length})
+                      </Button>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={offerStatusColor(offer.status)}>{offer.status}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {offer.status !== 'cancelled' && (
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Edit"
+                            onClick={() => openEditOffer(offer)}
+                            disabled={offerActionId !== null}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={offer.status === 'active' ? 'Pause' : 'Resume'}
+                            onClick={() => changeOfferStatus(offer, offer.status === 'active' ? 'pause' : 'resume')}
+                            disabled={offerActionId !== null}
+                          >
+                            {offer.status === 'active' ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Cancel"
+                            onClick={() => changeOfferStatus(offer, 'cancel')}
+                            disabled={offerActionId !== null}
+                            className="text-destructive"
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pending Deliveries */}
+      <PendingDeliveries deliveries={deliveries} onResolved={loadDeliveries} />
+
       {/* Credits & Transactions Table */}
       <Card>
         <CardHeader>
@@ -448,7 +1062,7 @@ const ProducerDashboard: React.FC = () => {
                   <TableCell className="font-mono">{report.reportId}</TableCell>
                   <TableCell>{format(new Date(report.timestamp), 'MMM dd, yyyy')}</TableCell>
                   <TableCell>Production</TableCell>
-                  <TableCell>{report.tons} tons</TableCell>
+                  <TableCell>{formatTonnes(report.tons)}</TableCell>
                   <TableCell>-</TableCell>
                   <TableCell>
                     <Badge className={getStatusColor(report.status)}>
@@ -456,7 +1070,10 @@ const ProducerDashboard: React.FC = () => {
                     </Badge>
                   </TableCell>
                   <TableCell>
-                    <Dialog>
+                    <Dialog
+                      open={selectedReport?.reportId === report.reportId}
+                      onOpenChange={(open) => !open && setSelectedReport(null)}
+                    >
                       <DialogTrigger asChild>
                         <Button 
                           variant="ghost" 
@@ -478,16 +1095,77 @@ const ProducerDashboard: React.FC = () => {
                             </div>
                             <div>
                               <Label>Production Amount</Label>
-                              <p>{selectedReport.tons} tons</p>
+                              <p>
+                                {formatTonnes(selectedReport.tons)} ({formatCredits(tonnesToCredits(selectedReport.tons))})
+                              </p>
                             </div>
                             <div>
                               <Label>Status</Label>
-                              <Badge className={getStatusColor(selectedReport.status)}>
-                                {selectedReport.status}
-                              </Badge>
+                              <div className="flex items-center space-x-2">
+                                <Badge className={getStatusColor(selectedReport.status)}>
+                                  {selectedReport.status}
+                                </Badge>
+                                <span className="text-sm text-muted-foreground">
+                                  Revision {currentRevision(selectedReport)}
+                                </span>
+                              </div>
                             </div>
+                            {selectedReport.rejection && (
+                              <div className="p-4 rounded-lg border border-destructive/50 bg-destructive/5">
+                                <Label>Rejected: {rejectionReasonLabel(selectedReport.rejection.reason)}</Label>
+                                {selectedReport.rejection.notes && (
+                                  <p className="text-sm mt-1">{selectedReport.rejection.notes}</p>
+                                )}
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  {format(new Date(selectedReport.rejection.timestamp), 'PPP')}
+                                </p>
+                              </div>
+                            )}
+                            {selectedReport.productionDate && (
+                              <div>
+                                <Label>{selectedReport.periodStart ? 'Production Period' : 'Production Date'}</Label>
+                                <p>
+                                  {selectedReport.periodStart && `${format(parseISO(selectedReport.periodStart), 'PPP')} – `}
+                                  {format(parseISO(selectedReport.productionDate), 'PPP')}
+                                </p>
+                              </div>
+                            )}
+                            {selectedReport.facilityId && (
+                              <div>
+                                <Label>Facility</Label>
+                                <p>{facilityName(selectedReport.facilityId)}</p>
+                              </div>
+                            )}
+                            {selectedReport.capacityCheck && (
+                              <div
+                                className={cn(
+                                  "p-3 rounded-lg border text-sm",
+                                  (selectedReport.capacityCheck.exceedsCapacity || selectedReport.capacityCheck.flagged) &&
+                                    "border-destructive/50 bg-destructive/5"
+                                )}
+                              >
+                                <Label>Capacity Check</Label>
+                                <p className="mt-1">
+                                  {formatKg(selectedReport.capacityCheck.claimedKg)} claimed of at most{' '}
+                                  {formatKg(selectedReport.capacityCheck.maxKg)} over{' '}
+                                  {selectedReport.capacityCheck.operatingHours} operating hours ({formatUtilization(selectedReport.capacityCheck)})
+                                </p>
+                                {selectedReport.capacityCheck.exceedsCapacity && (
+                                  <p className="flex items-center text-destructive mt-1">
+                                    <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+                                    More than the facility can produce; this draft cannot be submitted as is.
+                                  </p>
+                                )}
+                                {selectedReport.capacityCheck.flagged && (
+                                  <p className="flex items-center text-destructive mt-1">
+                                    <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+                                    Close to nameplate capacity; flagged for closer review.
+                                  </p>
+                                )}
+                              </div>
+                            )}
                             <div>
-                              <Label>Submitted</Label>
+                              <Label>{selectedReport.status === 'draft' ? 'Last Saved' : 'Submitted'}</Label>
                               <p>{format(new Date(selectedReport.timestamp), 'PPP')}</p>
                             </div>
                             {selectedReport.notes && (
@@ -496,16 +1174,64 @@ const ProducerDashboard: React.FC = () => {
                                 <p>{selectedReport.notes}</p>
                               </div>
                             )}
-                            {selectedReport.file && (
+                            {selectedReport.meterData?.meter && (
+                              <div className="space-y-2">
+                                <Label>Meter Data</Label>
+                                <MeterSummary summary={selectedReport.meterData.meter} name={selectedReport.meterData.name} />
+                              </div>
+                            )}
+                            {selectedReport.evidence && selectedReport.evidence.length > 0 ? (
+                              <div className="space-y-2">
+                                <Label>Evidence</Label>
+                                <EvidenceList files={selectedReport.evidence} preview />
+                              </div>
+                            ) : selectedReport.file && (
                               <div>
                                 <Label>Attached File</Label>
                                 <p>{selectedReport.file}</p>
                               </div>
                             )}
+                            {selectedReport.history && selectedReport.history.length > 0 && (
+                              <div>
+                                <Label>Revision History</Label>
+                                <div className="space-y-2 mt-1">
+                                  {selectedReport.history.map((revision) => (
+                                    <div key={revision.revision} className="p-3 bg-muted rounded-lg text-sm">
+                                      <p className="font-medium">
+                                        Revision {revision.revision} • {formatTonnes(revision.tons)} • submitted {format(new Date(revision.submittedAt), 'MMM dd, yyyy')}
+                                      </p>
+                                      <p className="text-muted-foreground">
+                                        Rejected: {rejectionReasonLabel(revision.rejection.reason)}
+                                        {revision.rejection.notes && ` – ${revision.rejection.notes}`}
+                                      </p>
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+                            {selectedReport.status === 'rejected' && (
+                              <Button
+                                onClick={() => openAmendDialog(selectedReport)}
+                                className="w-full bg-producer hover:bg-producer/90"
+                              >
+                                <RotateCcw className="h-4 w-4 mr-2" />
+                                Amend & Resubmit
+                              </Button>
+                            )}
                           </div>
                         )}
                       </DialogContent>
                     </Dialog>
+                    {report.status === 'draft' && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => editDraft(report.reportId)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deleteDraft(report.reportId)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
@@ -514,7 +1240,7 @@ const ProducerDashboard: React.FC = () => {
                   <TableCell className="font-mono">{tx.txId}</TableCell>
                   <TableCell>{format(new Date(tx.timestamp), 'MMM dd, yyyy')}</TableCell>
                   <TableCell className="capitalize">{tx.type}</TableCell>
-                  <TableCell>{tx.amount} credits</TableCell>
+                  <TableCell>{formatCredits(tx.amount)}</TableCell>
                   <TableCell>{tx.counterparty || '-'}</TableCell>
                   <TableCell>
                     <Badge variant={tx.status === 'completed' ? 'default' : 'secondary'}>
@@ -532,6 +1258,202 @@ const ProducerDashboard: React.FC = () => {
           </Table>
         </CardContent>
       </Card>
+
+      {/* Amend Modal */}
+      <Dialog open={amendTarget !== null} onOpenChange={(open) => !open && setAmendTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Amend & Resubmit Report</DialogTitle>
+          </DialogHeader>
+          {amendTarget && (
+            <div className="space-y-4">
+              {amendTarget.rejection && (
+                <div className="p-4 rounded-lg border border-destructive/50 bg-destructive/5">
+                  <Label>Rejected: {rejectionReasonLabel(amendTarget.rejection.reason)}</Label>
+                  {amendTarget.rejection.notes && (
+                    <p className="text-sm mt-1">{amendTarget.rejection.notes}</p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <Label>Facility</Label>
+                <Select value={amendFacilityId} onValueChange={setAmendFacilityId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select the producing facility" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {facilities.map((facility) => (
+                      <SelectItem key={facility.facilityId} value={facility.facilityId}>
+                        {facility.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="amendTons">Tonnes Produced</Label>
+                <Input
+                  id="amendTons"
+                  type="number"
+                  step="0.001"
+                  value={amendTons}
+                  disabled={amendMeterData !== null}
+                  onChange={(e) => setAmendTons(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="amendMeterData">Meter Data</Label>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    id="amendMeterData"
+                    type="file"
+                    accept={METER_DATA_ACCEPT}
+                    disabled={isUploading}
+                    onChange={(e) => uploadMeterFile(e.target, setAmendMeterData, setAmendTons)}
+                    className="flex-1"
+                  />
+                  {amendMeterData && (
+                    <Button variant="ghost" size="sm" onClick={() => setAmendMeterData(null)}>
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                {amendMeterData?.meter && <MeterSummary summary={amendMeterData.meter} name={amendMeterData.name} />}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="amendFile">Evidence</Label>
+                <Input
+                  id="amendFile"
+                  type="file"
+                  multiple
+                  accept={EVIDENCE_ACCEPT}
+                  disabled={isUploading}
+                  onChange={(e) => uploadFiles(e.target, amendEvidence, setAmendEvidence)}
+                />
+                {isUploading && <p className="text-sm text-muted-foreground">Uploading...</p>}
+                {amendEvidence.length > 0 && (
+                  <EvidenceList
+                    files={amendEvidence}
+                    onRemove={(sha256) => setAmendEvidence(amendEvidence.filter(f => f.sha256 !== sha256))}
+                  />
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="amendNotes">Additional Notes</Label>
+                <Textarea
+                  id="amendNotes"
+                  placeholder="Describe what changed since the rejection..."
+                  value={amendNotes}
+                  onChange={(e) => setAmendNotes(e.target.value)}
+                />
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                This resubmits {amendTarget.reportId} as revision {currentRevision(amendTarget) + 1}. The rejected
+                version is kept in the report's history.
+              </p>
+
+              <Button
+                onClick={resubmitReport}
+                disabled={isResubmitting || isUploading || !hasVolume(amendTons, amendMeterData) || !amendFacilityId}
+                className="w-full bg-producer hover:bg-producer/90"
+              >
+                {isResubmitting ? 'Resubmitting...' : 'Resubmit for Verification'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Offer Modal */}
+      <Dialog open={editingOffer !== null} onOpenChange={(open) => !open && setEditingOffer(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Offer {editingOffer?.offerId}</DialogTitle>
+          </DialogHeader>
+          {editingOffer && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="editOfferCredits">Credits for Sale</Label>
+                <Input
+                  id="editOfferCredits"
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={editOfferCredits}
+                  onChange={(e) => setEditOfferCredits(e.target.value)}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  {formatCredits(editingOffer.creditsSold)} already sold. The backing credits stay the same; cancel and
+                  create a new offer to sell others.
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="editOfferPrice">Price per Credit ($)</Label>
+                <Input
+                  id="editOfferPrice"
+                  type="number"
+                  step="0.01"
+                  value={editOfferPrice}
+                  onChange={(e) => setEditOfferPrice(e.target.value)}
+                />
+              </div>
+              <Button
+                onClick={saveOffer}
+                disabled={offerActionId !== null}
+                className="w-full bg-producer hover:bg-producer/90"
+              >
+                {offerActionId === editingOffer.offerId ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Offer Fills Modal */}
+      <Dialog open={fillsOffer !== null} onOpenChange={(open) => !open && setFillsOffer(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Fills for {fillsOffer?.offerId}</DialogTitle>
+          </DialogHeader>
+          {fillsOffer && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Trade</TableHead>
+                  <TableHead>Buyer</TableHead>
+                  <TableHead>Credits</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Settlement</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fillsOffer.fills.map((fill) => (
+                  <TableRow key={fill.txId}>
+                    <TableCell>
+                      <div className="font-mono">{fill.txId}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {format(new Date(fill.timestamp), 'MMM dd, yyyy HH:mm')}
+                      </div>
+                    </TableCell>
+                    <TableCell>{fill.buyerName}</TableCell>
+                    <TableCell>{formatCredits(fill.credits)}</TableCell>
+                    <TableCell className="font-mono">${fill.pricePerCredit.toFixed(2)}</TableCell>
+                    <TableCell>
+                      <Badge variant={fill.status === 'delivered' ? 'default' : 'secondary'}>{fill.status}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
     </motion.div>
   );
 };
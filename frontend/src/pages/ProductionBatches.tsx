@@ -0,0 +1,413 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Layers, Plus, RefreshCw, UserCheck, CheckCircle, Clock, History } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createCreditClient,
+  describeContractError,
+  getWalletSigner,
+  VerificationStatus,
+  type BatchEvent,
+  type Credit,
+  type ProductionBatch,
+} from '@/services/contract';
+import { formatKg } from '@shared/quantity';
+import { motion } from 'framer-motion';
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const ProductionBatches: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [batches, setBatches] = useState<ProductionBatch[]>([]);
+  const [credits, setCredits] = useState<Credit[]>([]);
+  const [history, setHistory] = useState<BatchEvent[]>([]);
+  const [minVerifications, setMinVerifications] = useState(2);
+  const [selectedProducer, setSelectedProducer] = useState('');
+  const [selectedCreditIds, setSelectedCreditIds] = useState<number[]>([]);
+  const [expandedBatch, setExpandedBatch] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const isAuditor = user?.role === 'auditor';
+
+  // Batches, credits and event history are all read straight from the contract
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  const loadBatches = async () => {
+    setIsLoading(true);
+    try {
+      const client = createCreditClient();
+      const [batchList, creditList, events, minCount] = await Promise.all([
+        client.listProductionBatches(),
+        client.listCredits(),
+        client.getBatchHistory(),
+        client.getMinVerificationCount(),
+      ]);
+      setBatches(batchList.reverse());
+      setCredits(creditList);
+      setHistory(events);
+      setMinVerifications(minCount);
+    } catch (error) {
+      console.error('Failed to load production batches:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const producerNames = new Map(credits.map(c => [c.producer, c.producerName]));
+
+  // A credit should only be counted towards one batch. Batches group issued credits: parts split or
+  // merged from one are already covered by it, whether or not it has been batched yet.
+  const batchedCreditIds = new Set(batches.flatMap(b => b.creditIds));
+  const batchableCredits = credits.filter(
+    c => c.verificationStatus === VerificationStatus.Verified &&
+      !c.isRetired &&
+      c.origin === c.id &&
+      !batchedCreditIds.has(c.id)
+  );
+  const producers = [...new Set(batchableCredits.map(c => c.producer))];
+  const producerCredits = batchableCredits.filter(c => c.producer === selectedProducer);
+  const selectedAmount = producerCredits
+    .filter(c => selectedCreditIds.includes(c.id))
+    .reduce((sum, c) => sum + c.amount, 0);
+
+  const awaitingConsensus = batches.filter(b => !b.isVerified);
+  const creatorOf = (batchId: number) =>
+    history.find(e => e.type === 'created' && e.batchId === batchId)?.auditor;
+
+  const handleProducerChange = (producer: string) => {
+    setSelectedProducer(producer);
+    setSelectedCreditIds([]);
+  };
+
+  const toggleCredit = (id: number, checked: boolean) => {
+    setSelectedCreditIds(prev => checked ? [...prev, id] : prev.filter(c => c !== id));
+  };
+
+  const createBatch = async () => {
+    if (!user || !selectedProducer || selectedCreditIds.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select a producer and at least one verified credit",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const client = createCreditClient(await getWalletSigner(user.address));
+      const result = await client.createProductionBatch(selectedProducer, selectedCreditIds);
+
+      toast({
+        title: "Batch Created",
+        description: `Batch #${result.batchId} needs ${minVerifications - 1} more auditor sign-off(s).`,
+      });
+
+      setSelectedProducer('');
+      setSelectedCreditIds([]);
+      await loadBatches();
+    } catch (error) {
+      toast({
+        title: "Batch Creation Failed",
+        description: describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const signOff = async (batch: ProductionBatch) => {
+    if (!user) return;
+
+    setIsProcessing(true);
+    try {
+      const client = createCreditClient(await getWalletSigner(user.address));
+      await client.verifyProductionBatch(batch.batchId);
+
+      const reached = batch.verificationCount + 1 >= minVerifications;
+      toast({
+        title: "Sign-off Recorded",
+        description: reached
+          ? `Batch #${batch.batchId} reached auditor consensus.`
+          : `Batch #${batch.batchId} now has ${batch.verificationCount + 1} of ${minVerifications} sign-offs.`,
+      });
+
+      await loadBatches();
+    } catch (error) {
+      toast({
+        title: "Sign-off Failed",
+        description: describeContractError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="container mx-auto p-6 space-y-6"
+    >
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-auditor">Production Batches</h1>
+          <p className="text-muted-foreground">
+            Verified credits grouped per producer and confirmed by {minVerifications} independent auditors
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          className="border-auditor text-auditor hover:bg-auditor hover:text-auditor-foreground"
+          onClick={loadBatches}
+          disabled={isLoading}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Total Batches</p>
+                <p className="text-3xl font-bold text-foreground">{batches.length}</p>
+              </div>
+              <Layers className="h-8 w-8 text-auditor" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Awaiting Co-verification</p>
+                <p className="text-3xl font-bold text-auditor">{awaitingConsensus.length}</p>
+              </div>
+              <Clock className="h-8 w-8 text-warning" />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Consensus Reached</p>
+                <p className="text-3xl font-bold text-foreground">{batches.length - awaitingConsensus.length}</p>
+              </div>
+              <CheckCircle className="h-8 w-8 text-producer" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Create Batch (auditors only) */}
+      {isAuditor && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-auditor flex items-center">
+              <Plus className="h-5 w-5 mr-2" />
+              Create Batch
+            </CardTitle>
+            <CardDescription>
+              Group verified credits from one producer. Your own signature counts as the first sign-off.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Producer</Label>
+              <Select value={selectedProducer} onValueChange={handleProducerChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder={producers.length ? "Select a producer" : "No unbatched verified credits"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {producers.map((producer) => (
+                    <SelectItem key={producer} value={producer}>
+                      {producerNames.get(producer)} ({shortAddress(producer)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedProducer && (
+              <div className="space-y-2">
+                <Label>Verified Credits</Label>
+                <div className="border rounded-lg divide-y">
+                  {producerCredits.map((credit) => (
+                    <label
+                      key={credit.id}
+                      className="flex items-center justify-between p-3 cursor-pointer hover:bg-muted/50"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <Checkbox
+                          checked={selectedCreditIds.includes(credit.id)}
+                          onCheckedChange={(checked) => toggleCredit(credit.id, checked === true)}
+                        />
+                        <span className="font-mono">#{credit.id}</span>
+                        <span className="text-sm text-muted-foreground">
+                          {credit.renewableSource} • {credit.location} • {format(credit.productionDate, 'MMM dd, yyyy')}
+                        </span>
+                      </div>
+                      <span className="text-sm font-medium">{formatKg(credit.amount)}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-muted-foreground">
+                {selectedCreditIds.length} credit(s) • {formatKg(selectedAmount)} H2
+              </p>
+              <Button
+                onClick={createBatch}
+                disabled={isProcessing || selectedCreditIds.length === 0}
+                className="bg-auditor hover:bg-auditor/90 text-auditor-foreground"
+              >
+                <Layers className="h-4 w-4 mr-2" />
+                Create Batch
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Batch List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Batches</CardTitle>
+          <CardDescription>
+            Progress toward {minVerifications} auditor sign-offs and on-chain history per batch
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {batches.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Layers className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No production batches yet</p>
+            </div>
+          ) : (
+            batches.map((batch) => {
+              const creator = creatorOf(batch.batchId);
+              const isCreator = creator?.toLowerCase() === user?.address.toLowerCase();
+              const events = history.filter(e => e.batchId === batch.batchId);
+              const progress = Math.min(100, (batch.verificationCount / minVerifications) * 100);
+
+              return (
+                <motion.div
+                  key={batch.batchId}
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  className="border rounded-lg p-4 space-y-3"
+                >
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <h4 className="font-semibold">
+                        Batch #{batch.batchId} • {producerNames.get(batch.producer) ?? shortAddress(batch.producer)}
+                      </h4>
+                      <p className="text-sm text-muted-foreground">
+                        {formatKg(batch.totalAmount)} H2 across {batch.creditIds.length} credit(s)
+                      </p>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {batch.creditIds.map((id) => (
+                          <Badge key={id} variant="secondary" className="font-mono">#{id}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                    {batch.isVerified ? (
+                      <Badge className="bg-producer text-producer-foreground">Consensus Reached</Badge>
+                    ) : (
+                      <Badge variant="outline" className="border-warning text-warning">Awaiting Co-verification</Badge>
+                    )}
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Auditor sign-offs</span>
+                      <span className="font-medium">
+                        {batch.verificationCount} / {minVerifications}
+                      </span>
+                    </div>
+                    <Progress value={progress} className="h-2" />
+                  </div>
+
+                  <div className="flex space-x-2">
+                    {isAuditor && !batch.isVerified && (
+                      <Button
+                        size="sm"
+                        onClick={() => signOff(batch)}
+                        disabled={isProcessing || isCreator}
+                        title={isCreator ? 'You created this batch; another auditor must co-verify it' : undefined}
+                        className="bg-auditor hover:bg-auditor/90 text-auditor-foreground"
+                      >
+                        <UserCheck className="h-4 w-4 mr-1" />
+                        {isCreator ? 'Created by you' : 'Add Sign-off'}
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setExpandedBatch(expandedBatch === batch.batchId ? null : batch.batchId)}
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      History
+                    </Button>
+                  </div>
+
+                  {expandedBatch === batch.batchId && (
+                    <div className="border-l-2 border-auditor/40 pl-4 space-y-2">
+                      {events.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No events found for this batch</p>
+                      ) : (
+                        events.map((event) => (
+                          <div key={`${event.txHash}-${event.type}`} className="text-sm">
+                            <span className="font-medium">
+                              {event.type === 'created' ? 'ProductionBatchCreated' : 'ProductionBatchVerified'}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {' '}by <span className="font-mono">{shortAddress(event.auditor)}</span>
+                              {' '}• block {event.blockNumber} • {format(event.timestamp, 'PPp')}
+                            </span>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </motion.div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
+export default ProductionBatches;
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -20,91 +21,59 @@ import {
   ChartLegend,
   ChartLegendContent 
 } from '@/components/ui/chart';
-import { FileText, Shield, Eye, Filter, TrendingUp, BarChart3 } from 'lucide-react';
+import { FileText, Shield, Eye, Filter, TrendingUp, BarChart3, Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { api } from '@/services/api';
+import type { MarketAnalytics } from '@/services/analytics';
+import { downloadFromUrl, isWithinDates, ledgerExportColumns, type ExportFormat } from '@/services/export';
+import { ExportDialog } from '@/components/shared/ExportDialog';
+import { formatAmount, formatCredits, formatKg, creditsToKg } from '@shared/quantity';
 import { motion } from 'framer-motion';
 import { format } from 'date-fns';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, BarChart, Bar } from 'recharts';
 
 interface LedgerEntry {
   txId: string;
-  type: 'issue' | 'trade';
+  type: 'issue' | 'trade' | 'retire';
+  creditId: number;
   from: string;
   to: string;
   credits: number;
   timestamp: string;
+  blockNumber: number;
   verified: boolean;
 }
 
-interface CumulativeData {
-  date: string;
-  credits: number;
-}
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 
-interface ProducerData {
-  name: string;
-  credits: number;
-}
+const shortAddress = (address: string) =>
+  address === ZERO_ADDRESS ? 'Retired' : `${address.slice(0, 6)}…${address.slice(-4)}`;
 
 const PublicLedger: React.FC = () => {
   const { toast } = useToast();
-  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([
-    {
-      txId: "tx-1001",
-      type: "issue",
-      from: "reg-1",
-      to: "prod-1",
-      credits: 120,
-      timestamp: "2025-08-01T10:00:00Z",
-      verified: true
-    },
-    {
-      txId: "tx-1002",
-      type: "trade",
-      from: "prod-1",
-      to: "buyer-1",
-      credits: 10,
-      timestamp: "2025-08-05T12:00:00Z",
-      verified: true
-    }
-  ]);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [analytics, setAnalytics] = useState<MarketAnalytics | null>(null);
   const [filteredEntries, setFilteredEntries] = useState(ledgerEntries);
   const [selectedEntry, setSelectedEntry] = useState<LedgerEntry | null>(null);
   
-  // Filters
+  // Filters; `?tx=` comes from retirement certificate QR codes
+  const [searchParams, setSearchParams] = useSearchParams();
+  const txFilter = searchParams.get('tx');
   const [producerFilter, setProducerFilter] = useState('');
   const [dateFromFilter, setDateFromFilter] = useState('');
   const [dateToFilter, setDateToFilter] = useState('');
   const [typeFilter, setTypeFilter] = useState('all');
-
-  // Mock data for charts
-  const cumulativeData: CumulativeData[] = [
-    { date: '2025-07-01', credits: 0 },
-    { date: '2025-07-15', credits: 85 },
-    { date: '2025-08-01', credits: 120 },
-    { date: '2025-08-15', credits: 145 },
-    { date: '2025-08-30', credits: 200 },
-  ];
-
-  const top10Producers: ProducerData[] = [
-    { name: 'GreenH2 Ltd', credits: 120 },
-    { name: 'H2Works', credits: 80 },
-    { name: 'CleanEnergy Co', credits: 65 },
-    { name: 'EcoHydrogen', credits: 45 },
-    { name: 'SustainableH2', credits: 35 },
-    { name: 'BlueHydrogen Inc', credits: 28 },
-    { name: 'FutureEnergy', credits: 22 },
-    { name: 'HydrogenPro', credits: 18 },
-    { name: 'GreenFuel Ltd', credits: 15 },
-    { name: 'CleanTech H2', credits: 12 },
-  ];
+  const [exportModalOpen, setExportModalOpen] = useState(false);
 
   const chartConfig = {
-    credits: {
-      label: "Credits",
+    issued: {
+      label: "Issued",
       color: "hsl(var(--public))",
     },
+    circulating: {
+      label: "Circulating",
+      color: "hsl(var(--producer))",
+    },
   };
 
   const barChartConfig = {
@@ -119,10 +88,19 @@ const PublicLedger: React.FC = () => {
     loadLedgerData();
   }, []);
 
+  // Charts follow the date filters
+  useEffect(() => {
+    loadAnalytics(dateFromFilter, dateToFilter);
+  }, [dateFromFilter, dateToFilter]);
+
   // Apply filters
   useEffect(() => {
     let filtered = [...ledgerEntries];
 
+    if (txFilter) {
+      filtered = filtered.filter(entry => entry.txId.toLowerCase() === txFilter.toLowerCase());
+    }
+
     if (producerFilter) {
       filtered = filtered.filter(entry => 
         entry.from.toLowerCase().includes(producerFilter.toLowerCase()) ||
@@ -130,16 +108,8 @@ const PublicLedger: React.FC = () => {
       );
     }
 
-    if (dateFromFilter) {
-      filtered = filtered.filter(entry => 
-        new Date(entry.timestamp) >= new Date(dateFromFilter)
-      );
-    }
-
-    if (dateToFilter) {
-      filtered = filtered.filter(entry => 
-        new Date(entry.timestamp) <= new Date(dateToFilter)
-      );
+    if (dateFromFilter || dateToFilter) {
+      filtered = filtered.filter(entry => isWithinDates(entry.timestamp, dateFromFilter, dateToFilter));
     }
 
     if (typeFilter !== 'all') {
@@ -150,23 +120,31 @@ const PublicLedger: React.FC = () => {
     filtered.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
     setFilteredEntries(filtered);
-  }, [ledgerEntries, producerFilter, dateFromFilter, dateToFilter, typeFilter]);
+  }, [ledgerEntries, txFilter, producerFilter, dateFromFilter, dateToFilter, typeFilter]);
 
   const loadLedgerData = async () => {
     try {
       const response = await api.getLedger();
-      if (response.data) {
-        setLedgerEntries(response.data);
-      }
+      setLedgerEntries(response.data || []);
     } catch (error) {
       console.error('Failed to load ledger data:', error);
     }
   };
 
+  const loadAnalytics = async (from: string, to: string) => {
+    try {
+      const response = await api.getAnalytics({ from: from || undefined, to: to || undefined, interval: 'day' });
+      setAnalytics(response.data);
+    } catch (error) {
+      console.error('Failed to load analytics:', error);
+    }
+  };
+
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'issue': return 'bg-producer text-producer-foreground';
       case 'trade': return 'bg-buyer text-buyer-foreground';
+      case 'retire': return 'bg-regulator text-regulator-foreground';
       default: return 'bg-muted text-muted-foreground';
     }
   };
@@ -175,11 +153,26 @@ const PublicLedger: React.FC = () => {
     switch (type) {
       case 'issue': return 'Issued';
       case 'trade': return 'Traded';
+      case 'retire': return 'Retired';
       default: return type;
     }
   };
 
+  // Streams the filtered ledger from the server rather than serialising the table here
+  const exportLedger = (exportFormat: ExportFormat, columns: string[]) => {
+    downloadFromUrl(api.getLedgerExportUrl({
+      format: exportFormat,
+      columns: columns.join(','),
+      type: typeFilter === 'all' ? undefined : typeFilter,
+      tx: txFilter || undefined,
+      address: producerFilter || undefined,
+      from: dateFromFilter || undefined,
+      to: dateToFilter || undefined,
+    }));
+  };
+
   const clearFilters = () => {
+    setSearchParams({});
     setProducerFilter('');
     setDateFromFilter('');
     setDateToFilter('');
@@ -201,8 +194,16 @@ const PublicLedger: React.FC = () => {
         <div className="flex items-center space-x-2">
           <Badge variant="secondary" className="bg-producer/10 text-producer">
             <Shield className="h-3 w-3 mr-1" />
-            Verified by Regulator
+            Indexed from Chain
           </Badge>
+          <Button
+            variant="outline"
+            onClick={() => setExportModalOpen(true)}
+            className="border-public text-public hover:bg-public hover:text-public-foreground"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
         </div>
       </div>
 
@@ -226,7 +227,7 @@ const PublicLedger: React.FC = () => {
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Credits Issued</p>
                 <p className="text-3xl font-bold text-producer">
-                  {ledgerEntries.filter(e => e.type === 'issue').reduce((sum, e) => sum + e.credits, 0)}
+                  {formatAmount(ledgerEntries.filter(e => e.type === 'issue').reduce((sum, e) => sum + e.credits, 0), 'credit')}
                 </p>
               </div>
               <div className="h-8 w-8 rounded-full bg-producer/10 flex items-center justify-center">
@@ -242,7 +243,7 @@ const PublicLedger: React.FC = () => {
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Credits Traded</p>
                 <p className="text-3xl font-bold text-buyer">
-                  {ledgerEntries.filter(e => e.type === 'trade').reduce((sum, e) => sum + e.credits, 0)}
+                  {formatAmount(ledgerEntries.filter(e => e.type === 'trade').reduce((sum, e) => sum + e.credits, 0), 'credit')}
                 </p>
               </div>
               <TrendingUp className="h-8 w-8 text-buyer" />
@@ -255,7 +256,7 @@ const PublicLedger: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Active Producers</p>
-                <p className="text-3xl font-bold text-foreground">4</p>
+                <p className="text-3xl font-bold text-foreground">{analytics?.summary.activeProducers ?? 0}</p>
               </div>
               <BarChart3 className="h-8 w-8 text-public" />
             </div>
@@ -269,11 +270,11 @@ const PublicLedger: React.FC = () => {
         <Card>
           <CardHeader>
             <CardTitle>Cumulative Credits Over Time</CardTitle>
-            <CardDescription>Total credits issued and circulating</CardDescription>
+            <CardDescription>Total credits issued and circulating (1 credit = 1 kg H2)</CardDescription>
           </CardHeader>
           <CardContent>
             <ChartContainer config={chartConfig} className="h-[300px]">
-              <LineChart data={cumulativeData}>
+              <LineChart data={analytics?.supply ?? []}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis 
                   dataKey="date" 
@@ -281,12 +282,20 @@ const PublicLedger: React.FC = () => {
                 />
                 <YAxis />
                 <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line 
+                  type="monotone" 
+                  dataKey="issued" 
+                  stroke="var(--color-issued)" 
+                  strokeWidth={3}
+                  dot={{ fill: "var(--color-issued)", strokeWidth: 2, r: 4 }}
+                />
                 <Line 
                   type="monotone" 
-                  dataKey="credits" 
-                  stroke="var(--color-credits)" 
+                  dataKey="circulating" 
+                  stroke="var(--color-circulating)" 
                   strokeWidth={3}
-                  dot={{ fill: "var(--color-credits)", strokeWidth: 2, r: 4 }}
+                  dot={{ fill: "var(--color-circulating)", strokeWidth: 2, r: 4 }}
                 />
               </LineChart>
             </ChartContainer>
@@ -297,11 +306,11 @@ const PublicLedger: React.FC = () => {
         <Card>
           <CardHeader>
             <CardTitle>Top 10 Producers</CardTitle>
-            <CardDescription>Leading hydrogen credit producers</CardDescription>
+            <CardDescription>Most credits issued, within the date filters when set</CardDescription>
           </CardHeader>
           <CardContent>
             <ChartContainer config={barChartConfig} className="h-[300px]">
-              <BarChart data={top10Producers} layout="horizontal">
+              <BarChart data={analytics?.topProducers ?? []} layout="horizontal">
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis type="number" />
                 <YAxis dataKey="name" type="category" width={80} />
@@ -327,7 +336,7 @@ const PublicLedger: React.FC = () => {
               <Label htmlFor="producer">Producer/Entity</Label>
               <Input
                 id="producer"
-                placeholder="Search by entity ID"
+                placeholder="Search by wallet address"
                 value={producerFilter}
                 onChange={(e) => setProducerFilter(e.target.value)}
               />
@@ -360,6 +369,7 @@ const PublicLedger: React.FC = () => {
                   <SelectItem value="all">All Types</SelectItem>
                   <SelectItem value="issue">Issued</SelectItem>
                   <SelectItem value="trade">Traded</SelectItem>
+                  <SelectItem value="retire">Retired</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -378,6 +388,12 @@ const PublicLedger: React.FC = () => {
           <CardTitle>Transaction Ledger</CardTitle>
           <CardDescription>
             Immutable record of all hydrogen credit transactions ({filteredEntries.length} entries)
+            {txFilter && (
+              <>
+                {' '}• showing transaction <span className="font-mono">{txFilter.slice(0, 10)}…</span>{' '}
+                <button className="underline" onClick={() => setSearchParams({})}>show all</button>
+              </>
+            )}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -402,15 +418,15 @@ const PublicLedger: React.FC = () => {
                   animate={{ opacity: 1 }}
                   className="border-b"
                 >
-                  <TableCell className="font-mono">{entry.txId}</TableCell>
+                  <TableCell className="font-mono" title={entry.txId}>{entry.txId.slice(0, 10)}…</TableCell>
                   <TableCell>
                     <Badge className={getTypeColor(entry.type)}>
                       {getTypeLabel(entry.type)}
                     </Badge>
                   </TableCell>
-                  <TableCell className="font-mono">{entry.from}</TableCell>
-                  <TableCell className="font-mono">{entry.to}</TableCell>
-                  <TableCell className="font-semibold">{entry.credits}</TableCell>
+                  <TableCell className="font-mono" title={entry.from}>{shortAddress(entry.from)}</TableCell>
+                  <TableCell className="font-mono" title={entry.to}>{shortAddress(entry.to)}</TableCell>
+                  <TableCell className="font-semibold">{formatAmount(entry.credits, 'credit')}</TableCell>
                   <TableCell>{format(new Date(entry.timestamp), 'MMM dd, yyyy HH:mm')}</TableCell>
                   <TableCell>
                     {entry.verified ? (
@@ -441,8 +457,8 @@ const PublicLedger: React.FC = () => {
                           <div className="space-y-4">
                             <div className="grid grid-cols-2 gap-4">
                               <div>
-                                <Label>Transaction ID</Label>
-                                <p className="font-mono text-sm">{selectedEntry.txId}</p>
+                                <Label>Credit</Label>
+                                <p className="font-mono text-sm">#{selectedEntry.creditId}</p>
                               </div>
                               <div>
                                 <Label>Type</Label>
@@ -455,25 +471,26 @@ const PublicLedger: React.FC = () => {
                             <div className="grid grid-cols-2 gap-4">
                               <div>
                                 <Label>From</Label>
-                                <p className="font-mono text-sm">{selectedEntry.from}</p>
+                                <p className="font-mono text-sm break-all">{selectedEntry.from}</p>
                               </div>
                               <div>
                                 <Label>To</Label>
-                                <p className="font-mono text-sm">{selectedEntry.to}</p>
+                                <p className="font-mono text-sm break-all">{selectedEntry.to === ZERO_ADDRESS ? 'Retired' : selectedEntry.to}</p>
                               </div>
                             </div>
                             
                             <div className="grid grid-cols-2 gap-4">
                               <div>
                                 <Label>Credits</Label>
-                                <p className="text-2xl font-bold">{selectedEntry.credits}</p>
+                                <p className="text-2xl font-bold">{formatCredits(selectedEntry.credits)}</p>
+                                <p className="text-sm text-muted-foreground">{formatKg(creditsToKg(selectedEntry.credits))} H2</p>
                               </div>
                               <div>
                                 <Label>Status</Label>
                                 {selectedEntry.verified ? (
                                   <Badge className="bg-producer/10 text-producer">
                                     <Shield className="h-3 w-3 mr-1" />
-                                    Verified by Regulator
+                                    Verified by Auditor
                                   </Badge>
                                 ) : (
                                   <Badge variant="secondary">Pending Verification</Badge>
@@ -481,16 +498,20 @@ const PublicLedger: React.FC = () => {
                               </div>
                             </div>
                             
-                            <div>
-                              <Label>Timestamp</Label>
-                              <p>{format(new Date(selectedEntry.timestamp), 'PPpp')}</p>
+                            <div className="grid grid-cols-2 gap-4">
+                              <div>
+                                <Label>Timestamp</Label>
+                                <p>{format(new Date(selectedEntry.timestamp), 'PPpp')}</p>
+                              </div>
+                              <div>
+                                <Label>Block</Label>
+                                <p className="font-mono">{selectedEntry.blockNumber}</p>
+                              </div>
                             </div>
                             
                             <div className="p-4 bg-muted rounded-lg">
-                              <h4 className="font-semibold mb-2">Transaction Hash (Mock)</h4>
-                              <p className="font-mono text-xs break-all">
-                                0x{selectedEntry.txId.replace('tx-', '')}a1b2c3d4e5f6789012345678901234567890abcdef
-                              </p>
+                              <h4 className="font-semibold mb-2">Transaction Hash</h4>
+                              <p className="font-mono text-xs break-all">{selectedEntry.txId}</p>
                             </div>
                           </div>
                         )}
@@ -510,6 +531,16 @@ const PublicLedger: React.FC = () => {
           )}
         </CardContent>
       </Card>
+
+      <ExportDialog
+        open={exportModalOpen}
+        onOpenChange={setExportModalOpen}
+        title="Export Ledger"
+        description={`${filteredEntries.length} entries match the current filters, exported oldest first`}
+        columns={ledgerExportColumns}
+        onExport={exportLedger}
+        buttonClassName="w-full bg-public hover:bg-public/90 text-public-foreground"
+      />
     </motion.div>
   );
 };
@@ -2,7 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   ChartContainer, 
   ChartTooltip, 
@@ -10,13 +13,36 @@ import {
   ChartLegend,
   ChartLegendContent 
 } from '@/components/ui/chart';
-import { Shield, FileCheck, AlertCircle, Download, Eye, CheckCircle, XCircle } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Shield, ShieldAlert, FileCheck, AlertCircle, Download, Eye, CheckCircle, XCircle, Clock } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { api } from '@/services/api';
+import { issuanceChartConfig, periodLabel, SERIES_COLORS, type MarketAnalytics } from '@/services/analytics';
+import {
+  currentRevision,
+  rejectionReasonLabel,
+  rejectionReasons,
+  type RejectionReason,
+  type ReportRevision,
+} from '@/services/reports';
+import type { EvidenceFile } from '@/services/evidence';
+import { fraudRuleLabel, severityVariant, type FraudFlag, type FraudReviewStatus } from '@/services/fraud';
+import type { ExpiryReport } from '@/services/expiry';
+import {
+  electrolyzerTypeLabel,
+  formatCoordinates,
+  formatUtilization,
+  type CapacityCheck,
+  type Facility,
+} from '@/services/facilities';
+import { EvidenceList } from '@/components/shared/EvidenceList';
+import { MeterSummary } from '@/components/shared/MeterSummary';
+import { ProducerRegistrations } from '@/components/regulator/ProducerRegistrations';
+import { formatCredits, formatKg, formatTonnes, tonnesToCredits } from '@shared/quantity';
 import { motion } from 'framer-motion';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { format } from 'date-fns';
+import { format, startOfMonth, subMonths } from 'date-fns';
 
 interface PendingReport {
   reportId: string;
@@ -26,14 +52,14 @@ interface PendingReport {
   timestamp: string;
   notes?: string;
   file?: string;
+  evidence?: EvidenceFile[];
+  meterData?: EvidenceFile;
+  productionDate?: string;
+  periodStart?: string;
+  facility?: Facility;
+  capacityCheck?: CapacityCheck;
   status: 'submitted';
-}
-
-interface MonthlyData {
-  month: string;
-  producer1: number;
-  producer2: number;
-  producer3: number;
+  history?: ReportRevision[];
 }
 
 interface CreditDistribution {
@@ -60,39 +86,31 @@ const RegulatorDashboard: React.FC = () => {
   const [selectedReport, setSelectedReport] = useState<PendingReport | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
-  // Mock data for charts
-  const monthlyData: MonthlyData[] = [
-    { month: 'Jan', producer1: 65, producer2: 28, producer3: 45 },
-    { month: 'Feb', producer1: 75, producer2: 32, producer3: 52 },
-    { month: 'Mar', producer1: 85, producer2: 38, producer3: 58 },
-    { month: 'Apr', producer1: 78, producer2: 42, producer3: 65 },
-    { month: 'May', producer1: 92, producer2: 48, producer3: 71 },
-    { month: 'Jun', producer1: 88, producer2: 52, producer3: 68 },
-    { month: 'Jul', producer1: 95, producer2: 58, producer3: 75 },
-    { month: 'Aug', producer1: 102, producer2: 62, producer3: 82 },
-  ];
-
-  const creditDistribution: CreditDistribution[] = [
-    { name: 'GreenH2 Ltd', value: 120, color: 'hsl(var(--producer))' },
-    { name: 'H2Works', value: 80, color: 'hsl(var(--public))' },
-    { name: 'CleanEnergy Co', value: 45, color: 'hsl(var(--buyer))' },
-    { name: 'EcoHydrogen', value: 35, color: 'hsl(var(--regulator))' },
-  ];
-
-  const chartConfig = {
-    producer1: {
-      label: "GreenH2 Ltd",
-      color: "hsl(var(--producer))",
-    },
-    producer2: {
-      label: "H2Works", 
-      color: "hsl(var(--public))",
-    },
-    producer3: {
-      label: "CleanEnergy Co",
-      color: "hsl(var(--buyer))",
-    },
-  };
+  // Rejection requires a structured reason; notes are sent back to the producer
+  const [rejectTarget, setRejectTarget] = useState<PendingReport | null>(null);
+  const [rejectReason, setRejectReason] = useState<RejectionReason | ''>('');
+  const [rejectNotes, setRejectNotes] = useState('');
+
+  // Open fraud flags; dismissing or confirming one records the decision and removes it from the queue
+  const [fraudFlags, setFraudFlags] = useState<FraudFlag[]>([]);
+  const [reviewTarget, setReviewTarget] = useState<{ flag: FraudFlag; status: FraudReviewStatus } | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+
+  // Expired-but-unretired credits, which can no longer be traded or retired
+  const [expiryReport, setExpiryReport] = useState<ExpiryReport | null>(null);
+
+  // Issuance charts, over the last `analyticsMonths` months or all time
+  const [analyticsMonths, setAnalyticsMonths] = useState('12');
+  const [analytics, setAnalytics] = useState<MarketAnalytics | null>(null);
+
+  const issuanceProducers = analytics?.issuance.producers ?? [];
+  const chartConfig = issuanceChartConfig(issuanceProducers);
+  const creditDistribution: CreditDistribution[] = (analytics?.topProducers ?? []).map((p, index) => ({
+    name: p.name,
+    value: p.credits,
+    color: SERIES_COLORS[index % SERIES_COLORS.length],
+  }));
+  const totalCredits = analytics ? tonnesToCredits(analytics.summary.tonnesIssued) : 0;
 
   // Redirect if not regulator
   useEffect(() => {
@@ -106,9 +124,47 @@ const RegulatorDashboard: React.FC = () => {
   useEffect(() => {
     if (user && user.role === 'regulator') {
       loadPendingReports();
+      loadFraudFlags();
+      loadExpiryReport();
     }
   }, [user]);
 
+  useEffect(() => {
+    if (user && user.role === 'regulator') loadAnalytics(analyticsMonths);
+  }, [user, analyticsMonths]);
+
+  const loadAnalytics = async (months: string) => {
+    try {
+      const from = months === 'all'
+        ? undefined
+        : format(subMonths(startOfMonth(new Date()), Number(months) - 1), 'yyyy-MM-dd');
+      const response = await api.getAnalytics({ from, interval: 'month' });
+      setAnalytics(response.data);
+    } catch (error) {
+      console.error('Failed to load analytics:', error);
+    }
+  };
+
+  const loadExpiryReport = async () => {
+    try {
+      const response = await api.getCreditExpiry();
+      setExpiryReport(response.data);
+    } catch (error) {
+      console.error('Failed to load credit expiry report:', error);
+    }
+  };
+
+  const loadFraudFlags = async () => {
+    try {
+      const response = await api.getFraudFlags();
+      setFraudFlags(response.data || []);
+    } catch (error) {
+      console.error('Failed to load fraud flags:', error);
+    }
+  };
+
+  const flagsForReport = (reportId: string) => fraudFlags.filter(f => f.reportIds.includes(reportId));
+
   const loadPendingReports = async () => {
     try {
       const response = await api.getPendingReports();
@@ -135,7 +191,7 @@ const RegulatorDashboard: React.FC = () => {
 
       toast({
         title: "Success",
-        description: `Approved ${report.tons} tons production. Credits issued to ${report.producerName}.`,
+        description: `Approved ${formatTonnes(report.tons)} of hydrogen. ${formatCredits(tonnesToCredits(report.tons))} issued to ${report.producerName}.`,
       });
     } catch (error) {
       toast({
@@ -148,18 +204,27 @@ const RegulatorDashboard: React.FC = () => {
     }
   };
 
-  const rejectReport = async (report: PendingReport) => {
-    if (!user) return;
+  const openRejectDialog = (report: PendingReport) => {
+    setSelectedReport(null);
+    setRejectTarget(report);
+    setRejectReason(report.meterData?.meter?.exceedsThreshold ? 'carbon_intensity_too_high' : '');
+    setRejectNotes('');
+  };
 
+  const rejectReport = async () => {
+    if (!user || !rejectTarget || !rejectReason) return;
+
+    const report = rejectTarget;
     setIsProcessing(true);
     try {
-      // In a real implementation, there would be a reject endpoint
-      // For now, we'll just remove it from the pending list
+      await api.rejectReport(report.reportId, { reason: rejectReason, notes: rejectNotes.trim() });
+
       setPendingReports(prev => prev.filter(r => r.reportId !== report.reportId));
+      setRejectTarget(null);
 
       toast({
         title: "Report Rejected",
-        description: `Production report from ${report.producerName} has been rejected.`,
+        description: `Production report from ${report.producerName} has been returned for amendment.`,
         variant: "destructive",
       });
     } catch (error) {
@@ -173,6 +238,37 @@ const RegulatorDashboard: React.FC = () => {
     }
   };
 
+  const openReviewDialog = (flag: FraudFlag, status: FraudReviewStatus) => {
+    setReviewTarget({ flag, status });
+    setReviewNotes('');
+  };
+
+  const reviewFlag = async () => {
+    if (!reviewTarget) return;
+
+    const { flag, status } = reviewTarget;
+    setIsProcessing(true);
+    try {
+      await api.reviewFraudFlag(flag.flagId, { status, notes: reviewNotes.trim() });
+
+      setFraudFlags(prev => prev.filter(f => f.flagId !== flag.flagId));
+      setReviewTarget(null);
+
+      toast({
+        title: "Success",
+        description: `${fraudRuleLabel(flag.rule)} flag ${status}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to record review",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   if (!user || user.role !== 'regulator') {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -222,7 +318,7 @@ const RegulatorDashboard: React.FC = () => {
               <div>
                 <p className="text-sm font-medium text-muted-foreground">This Month</p>
                 <p className="text-3xl font-bold text-foreground">347</p>
-                <p className="text-sm text-muted-foreground">tons verified</p>
+                <p className="text-sm text-muted-foreground">tonnes verified</p>
               </div>
               <FileCheck className="h-8 w-8 text-producer" />
             </div>
@@ -234,8 +330,8 @@ const RegulatorDashboard: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Total Credits</p>
-                <p className="text-3xl font-bold text-foreground">280</p>
-                <p className="text-sm text-muted-foreground">issued</p>
+                <p className="text-3xl font-bold text-foreground">{totalCredits.toLocaleString()}</p>
+                <p className="text-sm text-muted-foreground">issued in the charted period (1 credit = 1 kg H2)</p>
               </div>
               <Shield className="h-8 w-8 text-public" />
             </div>
@@ -257,6 +353,110 @@ const RegulatorDashboard: React.FC = () => {
         </Card>
       </div>
 
+      {/* Fraud Review Queue */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center text-regulator">
+            <ShieldAlert className="h-5 w-5 mr-2" />
+            Fraud Review Queue
+          </CardTitle>
+          <CardDescription>
+            Overlapping production periods, reused evidence, round-trip transfers and volume spikes, most severe first
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {fraudFlags.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <ShieldAlert className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No open fraud flags</p>
+            </div>
+          ) : (
+            fraudFlags.map((flag) => (
+              <div key={flag.flagId} className="border rounded-lg p-4 flex justify-between items-start gap-4">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant={severityVariant(flag.severity)}>{flag.severity}</Badge>
+                    <span className="font-semibold">{fraudRuleLabel(flag.rule)}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {format(new Date(flag.detectedAt), 'MMM dd, yyyy')}
+                    </span>
+                  </div>
+                  <p className="text-sm break-words">{flag.summary}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {flag.producerNames.map((name) => (
+                      <Badge key={name} variant="outline">{name}</Badge>
+                    ))}
+                    {flag.reportIds.map((id) => (
+                      <Badge key={id} variant="secondary" className="font-mono">{id}</Badge>
+                    ))}
+                    {flag.creditIds.map((id) => (
+                      <Badge key={id} variant="secondary">Credit #{id}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex space-x-2 shrink-0">
+                  <Button size="sm" variant="outline" onClick={() => openReviewDialog(flag, 'dismissed')}>
+                    Dismiss
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => openReviewDialog(flag, 'confirmed')}>
+                    Confirm
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <ProducerRegistrations />
+
+      {/* Expired Credits */}
+      {expiryReport && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center text-regulator">
+              <Clock className="h-5 w-5 mr-2" />
+              Expired Credits
+            </CardTitle>
+            <CardDescription>
+              {formatKg(expiryReport.expired.kg)} across {expiryReport.expired.credits} on-chain credit
+              {expiryReport.expired.credits === 1 ? '' : 's'} expired without being retired;
+              {' '}{formatKg(expiryReport.expiringSoon.kg)} more expires within 30 days
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {expiryReport.expired.byProducer.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Clock className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No expired, unretired credits</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Producer</TableHead>
+                    <TableHead>On-chain Credits</TableHead>
+                    <TableHead>Volume</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {expiryReport.expired.byProducer.map((row) => (
+                    <TableRow key={row.producer}>
+                      <TableCell>
+                        <div className="font-medium">{row.producerName}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{row.producer}</div>
+                      </TableCell>
+                      <TableCell>{row.credits}</TableCell>
+                      <TableCell>{formatKg(row.kg)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Pending Reports Queue */}
         <Card>
@@ -284,14 +484,36 @@ const RegulatorDashboard: React.FC = () => {
                     <div>
                       <h4 className="font-semibold">{report.producerName}</h4>
                       <p className="text-sm text-muted-foreground">
-                        {report.tons} tons • {format(new Date(report.timestamp), 'MMM dd, yyyy')}
+                        {formatTonnes(report.tons)} • {format(new Date(report.timestamp), 'MMM dd, yyyy')}
                       </p>
-                      <Badge variant="secondary" className="mt-2">
-                        {report.reportId}
-                      </Badge>
+                      <div className="flex items-center space-x-2 mt-2">
+                        <Badge variant="secondary">
+                          {report.reportId}
+                        </Badge>
+                        {report.history?.length ? (
+                          <Badge variant="outline">Revision {currentRevision(report)}</Badge>
+                        ) : null}
+                        {report.meterData?.meter?.exceedsThreshold && (
+                          <Badge variant="destructive">
+                            {report.meterData.meter.carbonIntensity} gCO2/kWh
+                          </Badge>
+                        )}
+                        {report.capacityCheck?.flagged && (
+                          <Badge variant="destructive">{formatUtilization(report.capacityCheck)}</Badge>
+                        )}
+                        {flagsForReport(report.reportId).length > 0 && (
+                          <Badge variant="destructive">
+                            <ShieldAlert className="h-3 w-3 mr-1" />
+                            {flagsForReport(report.reportId).length} fraud flag{flagsForReport(report.reportId).length === 1 ? '' : 's'}
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <Dialog>
+                      <Dialog
+                        open={selectedReport?.reportId === report.reportId}
+                        onOpenChange={(open) => !open && setSelectedReport(null)}
+                      >
                         <DialogTrigger asChild>
                           <Button 
                             variant="ghost" 
@@ -301,7 +523,7 @@ const RegulatorDashboard: React.FC = () => {
                             <Eye className="h-4 w-4" />
                           </Button>
                         </DialogTrigger>
-                        <DialogContent>
+                        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
                           <DialogHeader>
                             <DialogTitle>Production Report Review</DialogTitle>
                           </DialogHeader>
@@ -313,30 +535,105 @@ const RegulatorDashboard: React.FC = () => {
                               </div>
                               <div>
                                 <h4 className="font-semibold">Production Amount</h4>
-                                <p>{selectedReport.tons} tons of hydrogen</p>
+                                <p>
+                                  {formatTonnes(selectedReport.tons)} of hydrogen →{' '}
+                                  {formatCredits(tonnesToCredits(selectedReport.tons))}
+                                </p>
                               </div>
                               <div>
                                 <h4 className="font-semibold">Submitted</h4>
                                 <p>{format(new Date(selectedReport.timestamp), 'PPP')}</p>
                               </div>
+                              {selectedReport.facility && (
+                                <div>
+                                  <h4 className="font-semibold">Facility</h4>
+                                  <p>{selectedReport.facility.name}</p>
+                                  <p className="text-sm text-muted-foreground">
+                                    {formatCoordinates(selectedReport.facility)} •{' '}
+                                    {electrolyzerTypeLabel(selectedReport.facility.electrolyzerType)} •{' '}
+                                    {selectedReport.facility.capacityMw} MW, {formatKg(selectedReport.facility.capacityKgPerDay)}/day •{' '}
+                                    {selectedReport.facility.renewableAssets.map(a => `${a.type} ${a.capacityMw} MW`).join(', ')}
+                                  </p>
+                                </div>
+                              )}
+                              {selectedReport.capacityCheck && (
+                                <div
+                                  className={
+                                    selectedReport.capacityCheck.flagged
+                                      ? 'p-3 rounded-lg border border-destructive/50 bg-destructive/5'
+                                      : undefined
+                                  }
+                                >
+                                  <h4 className="font-semibold">Capacity Check</h4>
+                                  <p>
+                                    {formatKg(selectedReport.capacityCheck.claimedKg)} claimed of at most{' '}
+                                    {formatKg(selectedReport.capacityCheck.maxKg)} over{' '}
+                                    {selectedReport.capacityCheck.operatingHours} operating hours
+                                    ({formatUtilization(selectedReport.capacityCheck)})
+                                  </p>
+                                  <p className="text-sm text-muted-foreground">
+                                    {format(new Date(selectedReport.capacityCheck.periodStart), 'PPP p')} –{' '}
+                                    {format(new Date(selectedReport.capacityCheck.periodEnd), 'PPP p')}
+                                  </p>
+                                  {selectedReport.capacityCheck.flagged && (
+                                    <p className="flex items-center text-sm text-destructive mt-1">
+                                      <AlertCircle className="h-4 w-4 mr-2 shrink-0" />
+                                      Output is close to the facility's nameplate capacity; check the evidence before approving.
+                                    </p>
+                                  )}
+                                </div>
+                              )}
                               {selectedReport.notes && (
                                 <div>
                                   <h4 className="font-semibold">Notes</h4>
                                   <p>{selectedReport.notes}</p>
                                 </div>
                               )}
-                              {selectedReport.file && (
+                              {selectedReport.meterData?.meter && (
+                                <div className="space-y-2">
+                                  <h4 className="font-semibold">Meter Data</h4>
+                                  <MeterSummary summary={selectedReport.meterData.meter} name={selectedReport.meterData.name} />
+                                </div>
+                              )}
+                              {selectedReport.evidence && selectedReport.evidence.length > 0 ? (
+                                <div className="space-y-2">
+                                  <h4 className="font-semibold">Evidence</h4>
+                                  <EvidenceList files={selectedReport.evidence} preview />
+                                </div>
+                              ) : selectedReport.file ? (
                                 <div>
                                   <h4 className="font-semibold">Attached Document</h4>
-                                  <p className="text-blue-600 hover:underline cursor-pointer">
-                                    {selectedReport.file}
+                                  <p className="text-muted-foreground">
+                                    {selectedReport.file} (file name only, not uploaded)
                                   </p>
                                 </div>
+                              ) : (
+                                <div>
+                                  <h4 className="font-semibold">Evidence</h4>
+                                  <p className="text-muted-foreground">No evidence attached</p>
+                                </div>
+                              )}
+                              {selectedReport.history && selectedReport.history.length > 0 && (
+                                <div>
+                                  <h4 className="font-semibold">Previous Rejections</h4>
+                                  <div className="space-y-2 mt-1">
+                                    {selectedReport.history.map((revision) => (
+                                      <div key={revision.revision} className="p-3 bg-muted rounded-lg text-sm">
+                                        <p className="font-medium">
+                                          Revision {revision.revision}: {formatTonnes(revision.tons)} • {rejectionReasonLabel(revision.rejection.reason)}
+                                        </p>
+                                        {revision.rejection.notes && (
+                                          <p className="text-muted-foreground">{revision.rejection.notes}</p>
+                                        )}
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
                               )}
                               <div className="flex space-x-2 pt-4">
                                 <Button 
                                   onClick={() => approveReport(selectedReport)}
-                                  disabled={isProcessing}
+                                  disabled={isProcessing || selectedReport.meterData?.meter?.exceedsThreshold}
                                   className="bg-producer hover:bg-producer/90"
                                 >
                                   <CheckCircle className="h-4 w-4 mr-2" />
@@ -344,7 +641,7 @@ const RegulatorDashboard: React.FC = () => {
                                 </Button>
                                 <Button 
                                   variant="destructive"
-                                  onClick={() => rejectReport(selectedReport)}
+                                  onClick={() => openRejectDialog(selectedReport)}
                                   disabled={isProcessing}
                                 >
                                   <XCircle className="h-4 w-4 mr-2" />
@@ -362,7 +659,7 @@ const RegulatorDashboard: React.FC = () => {
                     <Button 
                       size="sm"
                       onClick={() => approveReport(report)}
-                      disabled={isProcessing}
+                      disabled={isProcessing || report.meterData?.meter?.exceedsThreshold}
                       className="bg-producer hover:bg-producer/90 text-producer-foreground"
                     >
                       <CheckCircle className="h-4 w-4 mr-1" />
@@ -371,7 +668,7 @@ const RegulatorDashboard: React.FC = () => {
                     <Button 
                       size="sm"
                       variant="destructive"
-                      onClick={() => rejectReport(report)}
+                      onClick={() => openRejectDialog(report)}
                       disabled={isProcessing}
                     >
                       <XCircle className="h-4 w-4 mr-1" />
@@ -384,25 +681,44 @@ const RegulatorDashboard: React.FC = () => {
           </CardContent>
         </Card>
 
-        {/* Monthly Production Chart */}
+        {/* Monthly Issuance Chart */}
         <Card>
-          <CardHeader>
-            <CardTitle>Monthly Production by Producer</CardTitle>
-            <CardDescription>Hydrogen production trends over time</CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Monthly Issuance by Producer</CardTitle>
+              <CardDescription>Credits issued on-chain each month (1 credit = 1 kg H2)</CardDescription>
+            </div>
+            <Select value={analyticsMonths} onValueChange={setAnalyticsMonths}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="3">Last 3 months</SelectItem>
+                <SelectItem value="6">Last 6 months</SelectItem>
+                <SelectItem value="12">Last 12 months</SelectItem>
+                <SelectItem value="all">All time</SelectItem>
+              </SelectContent>
+            </Select>
           </CardHeader>
           <CardContent>
-            <ChartContainer config={chartConfig} className="h-[300px]">
-              <BarChart data={monthlyData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="month" />
-                <YAxis />
-                <ChartTooltip content={<ChartTooltipContent />} />
-                <ChartLegend content={<ChartLegendContent />} />
-                <Bar dataKey="producer1" fill="var(--color-producer1)" />
-                <Bar dataKey="producer2" fill="var(--color-producer2)" />
-                <Bar dataKey="producer3" fill="var(--color-producer3)" />
-              </BarChart>
-            </ChartContainer>
+            {issuanceProducers.length === 0 ? (
+              <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+                No credits issued in this period
+              </div>
+            ) : (
+              <ChartContainer config={chartConfig} className="h-[300px]">
+                <BarChart data={analytics?.issuance.series ?? []}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="period" tickFormatter={periodLabel} />
+                  <YAxis />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {issuanceProducers.map(p => (
+                    <Bar key={p.key} dataKey={p.key} stackId="issuance" fill={`var(--color-${p.key})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -411,7 +727,7 @@ const RegulatorDashboard: React.FC = () => {
       <Card>
         <CardHeader>
           <CardTitle>Credits Distribution by Producer</CardTitle>
-          <CardDescription>Current credit allocation across registered producers</CardDescription>
+          <CardDescription>Credits issued to the ten largest producers in the charted period</CardDescription>
         </CardHeader>
         <CardContent>
           <ChartContainer config={{}} className="h-[400px]">
@@ -424,7 +740,7 @@ const RegulatorDashboard: React.FC = () => {
                   outerRadius={120}
                   fill="#8884d8"
                   dataKey="value"
-                  label={({ name, value }) => `${name}: ${value}`}
+                  label={({ name, value }) => `${name}: ${formatCredits(value)}`}
                 >
                   {creditDistribution.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={entry.color} />
@@ -436,6 +752,119 @@ const RegulatorDashboard: React.FC = () => {
           </ChartContainer>
         </CardContent>
       </Card>
+
+      {/* Reject Modal */}
+      <Dialog open={rejectTarget !== null} onOpenChange={(open) => !open && setRejectTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Production Report</DialogTitle>
+          </DialogHeader>
+          {rejectTarget && (
+            <div className="space-y-4">
+              <div className="p-4 bg-muted rounded-lg">
+                <div className="flex justify-between">
+                  <span>Report:</span>
+                  <span className="font-mono">{rejectTarget.reportId}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Producer:</span>
+                  <span>{rejectTarget.producerName}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Amount:</span>
+                  <span>{formatTonnes(rejectTarget.tons)}</span>
+                </div>
+              </div>
+
+              <div>
+                <Label>Reason</Label>
+                <Select value={rejectReason} onValueChange={(value) => setRejectReason(value as RejectionReason)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rejectionReasons.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="rejectNotes">Notes for the producer</Label>
+                <Textarea
+                  id="rejectNotes"
+                  placeholder="What needs to change before this report can be approved?"
+                  value={rejectNotes}
+                  onChange={(e) => setRejectNotes(e.target.value)}
+                />
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                The producer can amend and resubmit the same report; earlier revisions stay in its history.
+              </p>
+
+              <Button
+                variant="destructive"
+                onClick={rejectReport}
+                disabled={isProcessing || !rejectReason || (rejectReason === 'other' && !rejectNotes.trim())}
+                className="w-full"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                {isProcessing ? 'Rejecting...' : 'Reject Report'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Fraud Review Modal */}
+      <Dialog open={reviewTarget !== null} onOpenChange={(open) => !open && setReviewTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewTarget?.status === 'confirmed' ? 'Confirm Fraud Flag' : 'Dismiss Fraud Flag'}
+            </DialogTitle>
+          </DialogHeader>
+          {reviewTarget && (
+            <div className="space-y-4">
+              <div className="p-4 bg-muted rounded-lg space-y-1">
+                <div className="flex items-center space-x-2">
+                  <Badge variant={severityVariant(reviewTarget.flag.severity)}>{reviewTarget.flag.severity}</Badge>
+                  <span className="font-semibold">{fraudRuleLabel(reviewTarget.flag.rule)}</span>
+                </div>
+                <p className="text-sm">{reviewTarget.flag.summary}</p>
+              </div>
+
+              <div>
+                <Label htmlFor="reviewNotes">Notes</Label>
+                <Textarea
+                  id="reviewNotes"
+                  placeholder={reviewTarget.status === 'confirmed'
+                    ? 'What was found, and what action follows (rejecting reports, suspending credits)?'
+                    : 'Why is this not a concern?'}
+                  value={reviewNotes}
+                  onChange={(e) => setReviewNotes(e.target.value)}
+                />
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                The decision is recorded against this flag and it leaves the queue. Confirming does not reject
+                reports or suspend credits by itself.
+              </p>
+
+              <Button
+                variant={reviewTarget.status === 'confirmed' ? 'destructive' : 'default'}
+                onClick={reviewFlag}
+                disabled={isProcessing || !reviewNotes.trim()}
+                className="w-full"
+              >
+                {isProcessing ? 'Saving...' : reviewTarget.status === 'confirmed' ? 'Confirm Flag' : 'Dismiss Flag'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </motion.div>
   );
 };
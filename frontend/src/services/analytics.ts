@@ -0,0 +1,71 @@
+import { format, parseISO } from 'date-fns';
+
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+export interface AnalyticsParams {
+  // YYYY-MM-DD, both inclusive
+  from?: string;
+  to?: string;
+  interval?: AnalyticsInterval;
+}
+
+// Marketplace trades in one period; prices per credit
+export interface PriceBar {
+  // YYYY-MM-DD for days and weeks (weeks start on Monday), YYYY-MM for months
+  period: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  vwap: number;
+  credits: number;
+  trades: number;
+}
+
+export interface ProducerVolume {
+  producer: string;
+  name: string;
+  credits: number;
+}
+
+export interface MarketAnalytics {
+  summary: {
+    // For sale right now, whatever the range
+    creditsAvailable: number;
+    tonnesIssued: number;
+    activeProducers: number;
+    // null without trades in the range
+    vwap: number | null;
+    creditsTraded: number;
+    trades: number;
+  };
+  prices: PriceBar[];
+  issuance: {
+    // Series keys, largest issuer first; `other` sums the rest
+    producers: { key: string; name: string }[];
+    // `period` plus credits issued under each producer key
+    series: Record<string, string | number>[];
+  };
+  // Running totals per day with issuance or retirement
+  supply: { date: string; issued: number; retired: number; circulating: number }[];
+  // Most credits issued in the range
+  topProducers: ProducerVolume[];
+}
+
+// Colours for per-producer series, in rank order
+export const SERIES_COLORS = [
+  'hsl(var(--producer))',
+  'hsl(var(--public))',
+  'hsl(var(--buyer))',
+  'hsl(var(--regulator))',
+  'hsl(var(--certifier))',
+  'hsl(var(--auditor))',
+];
+
+// Chart config for the issuance series: one entry per producer key
+export const issuanceChartConfig = (producers: MarketAnalytics['issuance']['producers']) =>
+  Object.fromEntries(producers.map((p, i) => [p.key, { label: p.name, color: SERIES_COLORS[i % SERIES_COLORS.length] }]));
+
+// Axis label for a period: months as "Aug 2026", days and weeks as "Aug 03"
+export const periodLabel = (period: string) =>
+  format(parseISO(period), period.length === 7 ? 'MMM yyyy' : 'MMM dd');
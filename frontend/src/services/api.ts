@@ -1,4 +1,17 @@
 import axios from 'axios';
+import type { AnalyticsParams, MarketAnalytics } from './analytics';
+import type { ExportFormat } from './export';
+import type { ProductionReport, RejectionReason, ReportInput } from './reports';
+import type { EvidenceFile } from './evidence';
+import type { Facility, FacilityInput } from './facilities';
+import type { FraudFlag, FraudFlagQuery, FraudReviewStatus } from './fraud';
+import type { CreditExpiryNotification, ExpiryReport } from './expiry';
+import type { Delivery, DeliveryStatus } from './deliveries';
+import type { Bid, BidInput, BidStatus, OrderBook } from './orders';
+import type { PortfolioPricing } from './portfolio';
+import type { ProcurementLeg, ProcurementPlan, ProcurementRequest, ProcurementTrade } from './procurement';
+import type { Offer, OfferAction, OfferStatus, OfferUpdate } from './offers';
+import type { ProducerRegistration } from './producers';
 
 const API_BASE_URL = 'http://localhost:3001/api';
 
@@ -14,26 +27,118 @@ axios.interceptors.request.use((config) => {
   return config;
 });
 
+interface ExportParams {
+  format: ExportFormat;
+  // Comma-separated column keys
+  columns: string;
+  from?: string;
+  to?: string;
+}
+
+export interface LedgerExportParams extends ExportParams {
+  type?: string;
+  tx?: string;
+  address?: string;
+}
+
+export interface TransactionExportParams extends ExportParams {
+  status?: string;
+  search?: string;
+}
+
 // API endpoints
 export const api = {
   // Authentication
-  login: (data: { username: string; role: string }) => 
+  getSignInChallenge: (address: string) =>
+    axios.get('/auth/nonce', { params: { address } }),
+
+  login: (data: { address: string; signature: string; name?: string; email?: string; company?: string }) => 
     axios.post('/login', data),
 
+  getSession: () =>
+    axios.get('/auth/session'),
+
+  // Deletes the session on the server so its token stops working; sent with the token explicitly
+  // since the caller clears the stored one straight away
+  logout: (token: string) =>
+    axios.post('/logout', null, { headers: { Authorization: `Bearer ${token}` } }),
+
   // Ledger
   getLedger: () => 
     axios.get('/ledger'),
 
+  // Price, issuance and supply series computed from trades and indexed chain events
+  getAnalytics: (params?: AnalyticsParams) =>
+    axios.get<MarketAnalytics>('/analytics', { params }),
+
+  // Public, so the browser can download it directly as a stream
+  getLedgerExportUrl: (params: LedgerExportParams) =>
+    axios.getUri({ url: '/ledger/export', params }),
+
+  // Indexed contract events
+  getChainEvents: (params?: { name?: string; creditId?: number; batchId?: number; address?: string; fromBlock?: number; toBlock?: number }) =>
+    axios.get('/chain/events', { params }),
+
+  getIndexerStatus: () =>
+    axios.get('/chain/status'),
+
   // Marketplace
   getMarketplace: () => 
     axios.get('/marketplace'),
   
-  createOffer: (data: { producerId: string; creditsAvailable: number; pricePerCredit: number }) =>
+  // creditIds are the on-chain credits backing the offer; none may be expired
+  createOffer: (data: { producerId: string; creditsAvailable: number; pricePerCredit: number; creditIds: number[] }) =>
     axios.post('/marketplace', data),
 
+  // The signed-in producer's offers with their fills; volume is reserved against on-chain holdings
+  getOffers: (params?: { status?: OfferStatus | 'all' }) =>
+    axios.get<Offer[]>('/offers', { params }),
+
+  updateOffer: (offerId: string, data: OfferUpdate) =>
+    axios.put(`/offers/${offerId}`, data),
+
+  changeOfferStatus: (offerId: string, action: OfferAction) =>
+    axios.post(`/offers/${offerId}/${action}`),
+
+  // On-chain deliveries owed for marketplace purchases; producers see what they owe, buyers what they're owed
+  getDeliveries: (params?: { status?: DeliveryStatus | 'all' }) =>
+    axios.get<Delivery[]>('/deliveries', { params }),
+
+  // Puts the credits of an unpaid delivery whose payment window has passed back on its offer
+  releaseDelivery: (deliveryId: string) =>
+    axios.post(`/deliveries/${deliveryId}/release`),
+
+  // Facilities; producers only see their own
+  getFacilities: (params?: { producerId?: string }) =>
+    axios.get<Facility[]>('/facilities', { params }),
+
+  createFacility: (data: FacilityInput) =>
+    axios.post<Facility>('/facilities', data),
+
+  updateFacility: (facilityId: string, data: FacilityInput) =>
+    axios.put<Facility>(`/facilities/${facilityId}`, data),
+
   // Production
-  submitProduction: (data: { producerId: string; tons: number; notes?: string; file?: string }) =>
-    axios.post('/production', data),
+  submitProduction: (data: ReportInput & { producerId: string }) =>
+    axios.post<ProductionReport>('/production', data),
+
+  getProducerReports: () =>
+    axios.get<ProductionReport[]>('/production/reports'),
+
+  getReport: (reportId: string) =>
+    axios.get<ProductionReport>(`/production/${reportId}`),
+
+  saveDraft: (data: ReportInput) =>
+    axios.post<ProductionReport>('/production/drafts', data),
+
+  updateDraft: (reportId: string, data: ReportInput) =>
+    axios.put<ProductionReport>(`/production/${reportId}`, data),
+
+  deleteDraft: (reportId: string) =>
+    axios.delete(`/production/${reportId}`),
+
+  submitDraft: (reportId: string) =>
+    axios.post<ProductionReport>(`/production/${reportId}/submit`),
   
   getPendingReports: () =>
     axios.get('/production/pending'),
@@ -41,16 +146,98 @@ export const api = {
   approveReport: (data: { reportId: string; regulatorId: string }) =>
     axios.post('/approve', data),
 
+  rejectReport: (reportId: string, data: { reason: RejectionReason; notes: string }) =>
+    axios.post(`/production/${reportId}/reject`, data),
+
+  resubmitReport: (reportId: string, data: ReportInput) =>
+    axios.post<ProductionReport>(`/production/${reportId}/resubmit`, data),
+
+  // Fraud detection review queue
+  getFraudFlags: (params?: FraudFlagQuery) =>
+    axios.get<FraudFlag[]>('/fraud/flags', { params }),
+
+  reviewFraudFlag: (flagId: string, data: { status: FraudReviewStatus; notes: string }) =>
+    axios.post<FraudFlag>(`/fraud/flags/${encodeURIComponent(flagId)}/review`, data),
+
+  // Credit expiry
+  getCreditExpiry: () =>
+    axios.get<ExpiryReport>('/credits/expiry'),
+
+  getNotifications: (params?: { unread?: boolean }) =>
+    axios.get<CreditExpiryNotification[]>('/notifications', { params }),
+
+  markNotificationRead: (notificationId: string) =>
+    axios.post<CreditExpiryNotification>(`/notifications/${notificationId}/read`),
+
+  // Evidence (content-addressed by SHA-256)
+  uploadEvidence: (file: File, type = file.type) =>
+    axios.post<EvidenceFile>('/evidence', file, {
+      params: { name: file.name },
+      headers: { 'Content-Type': type },
+    }),
+
+  getEvidence: (sha256: string) =>
+    axios.get<Blob>(`/evidence/${sha256}`, { responseType: 'blob' }),
+
+  getApprovedReports: () =>
+    axios.get('/production/approved'),
+
+  recordIssuance: (reportId: string, data: { creditId: number; txHash: string }) =>
+    axios.post(`/production/${reportId}/issuance`, data),
+
   // Trading
   executeTrade: (data: { buyerId: string; offerId: string; quantity: number }) =>
     axios.post('/trade', data),
 
+  // Order book: public depth, plus the signed-in buyer's limit bids
+  getOrderBook: () =>
+    axios.get<OrderBook>('/orderbook'),
+
+  getBids: (params?: { status?: BidStatus | 'all' }) =>
+    axios.get<Bid[]>('/bids', { params }),
+
+  // Matches immediately against crossing offers; whatever is left rests on the book
+  placeBid: (data: BidInput) =>
+    axios.post<Bid>('/bids', data),
+
+  cancelBid: (bidId: string) =>
+    axios.post<Bid>(`/bids/${bidId}/cancel`),
+
+  // What the signed-in buyer paid for the credits they hold, and the current mark price
+  getPortfolioPricing: () =>
+    axios.get<PortfolioPricing>('/portfolio/pricing'),
+
+  // Procurement: the cheapest basket of offers for a request, bought all-or-nothing
+  planProcurement: (data: ProcurementRequest) =>
+    axios.post<ProcurementPlan>('/procurement/plan', data),
+
+  // Reserves every leg of a plan; the server checks them against the request again
+  executeProcurement: (request: ProcurementRequest, legs: Pick<ProcurementLeg, 'offerId' | 'credits' | 'pricePerCredit'>[]) =>
+    axios.post<ProcurementTrade[]>('/procurement/execute', { request, legs }),
+
+  // Releases a reserved basket whose payment never reached the escrow
+  cancelProcurement: (txIds: string[]) =>
+    axios.post('/procurement/cancel', { txIds }),
+
+  // Producer registrations: wallets the regulator admits as producers before their first credit
+  getProducerRegistrations: () =>
+    axios.get<ProducerRegistration[]>('/producers/registrations'),
+
+  registerProducer: (data: { address: string; name: string }) =>
+    axios.post<ProducerRegistration>('/producers/registrations', data),
+
+  revokeProducerRegistration: (address: string) =>
+    axios.delete(`/producers/registrations/${address}`),
+
   // Users
   getUserProfile: (userId: string) =>
     axios.get(`/users/${userId}`),
   
   getUserTransactions: (userId: string) =>
     axios.get(`/transactions/${userId}`),
+
+  exportUserTransactions: (userId: string, params: TransactionExportParams) =>
+    axios.get<Blob>(`/transactions/${userId}/export`, { params, responseType: 'blob' }),
 };
 
 export default api;
\ No newline at end of file
@@ -0,0 +1,126 @@
+import QRCode from 'qrcode';
+import { format } from 'date-fns';
+import { CONTRACT_ADDRESS, describeLineage, VerificationStatus, type Credit } from './contract';
+import { downloadBlob } from './export';
+import { formatKg } from '@shared/quantity';
+
+export interface RetirementDetails {
+  beneficiary: string;
+  reason: string;
+}
+
+export interface RetiredCredit {
+  credit: Credit;
+  txHash: string;
+}
+
+const BENEFICIARY_PATTERN = /^On behalf of (.+?): ([\s\S]*)$/;
+
+// retireCredit only stores one reason string, so the beneficiary is folded into it.
+export const formatRetirementReason = ({ beneficiary, reason }: RetirementDetails) =>
+  `On behalf of ${beneficiary}: ${reason}`;
+
+export const parseRetirementReason = (text: string): RetirementDetails => {
+  const match = BENEFICIARY_PATTERN.exec(text);
+  return match ? { beneficiary: match[1], reason: match[2] } : { beneficiary: '', reason: text };
+};
+
+// Public ledger link encoded in the certificate QR code.
+export const ledgerVerificationUrl = (txHash: string) =>
+  `${window.location.origin}/public?tx=${txHash}`;
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const row = (label: string, value: string) =>
+  `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+
+const creditSection = async ({ credit, txHash }: RetiredCredit) => {
+  const { beneficiary, reason } = parseRetirementReason(credit.retirementReason);
+  const verifyUrl = ledgerVerificationUrl(txHash);
+  const qr = await QRCode.toString(verifyUrl, { type: 'svg', margin: 1, width: 160 });
+
+  return `
+  <section class="credit">
+    <h2>Credit #${credit.id}</h2>
+    <p class="lead">
+      ${formatKg(credit.amount)} of certified green hydrogen retired
+      ${beneficiary ? `on behalf of <strong>${escapeHtml(beneficiary)}</strong>` : ''}
+      on ${escapeHtml(credit.retirementDate ? format(credit.retirementDate, 'PPP') : 'pending confirmation')}.
+    </p>
+    <div class="columns">
+      <table>
+        ${row('Retirement reason', reason)}
+        ${row('Retired by', credit.owner)}
+        ${row('Producer', `${credit.producerName} (${credit.producer})`)}
+        ${credit.parents.length > 0 ? row('Lineage', describeLineage(credit)) : ''}
+        ${row('Production date', format(credit.productionDate, 'PPP'))}
+        ${row('Renewable source', credit.renewableSource)}
+        ${row('Location', credit.location)}
+        ${row('Carbon intensity', `${credit.carbonIntensity} gCO2/kWh`)}
+        ${row('Verification', VerificationStatus[credit.verificationStatus])}
+        ${row('Certified by', credit.certifier)}
+        ${row('Certification date', format(credit.certificationDate, 'PPP'))}
+        ${credit.metadata ? row('Certification metadata', credit.metadata) : ''}
+        ${row('Retirement transaction', txHash)}
+      </table>
+      <figure>
+        ${qr}
+        <figcaption>Scan to verify on the public ledger<br><a href="${escapeHtml(verifyUrl)}">${escapeHtml(verifyUrl)}</a></figcaption>
+      </figure>
+    </div>
+  </section>`;
+};
+
+/**
+ * Self-contained HTML certificate for one or more retired credits. It prints
+ * cleanly to PDF and every section carries a QR code back to the public ledger.
+ */
+export const buildRetirementCertificate = async (retired: RetiredCredit[]) => {
+  const sections = await Promise.all(retired.map(creditSection));
+  const total = retired.reduce((sum, r) => sum + r.credit.amount, 0);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Green Hydrogen Retirement Certificate</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; max-width: 860px; margin: 2rem auto; padding: 0 1.5rem; }
+  header { border-bottom: 4px solid #16a34a; padding-bottom: 1rem; margin-bottom: 1.5rem; }
+  header h1 { margin: 0; color: #15803d; }
+  header p { margin: .25rem 0 0; color: #4b5563; }
+  .credit { border: 1px solid #d1d5db; border-radius: 8px; padding: 1rem 1.25rem; margin-bottom: 1.5rem; page-break-inside: avoid; }
+  .credit h2 { margin-top: 0; }
+  .lead { font-size: 1.05rem; }
+  .columns { display: flex; gap: 1.5rem; align-items: flex-start; }
+  table { border-collapse: collapse; flex: 1; font-size: .875rem; }
+  th { text-align: left; color: #4b5563; font-weight: 500; padding: .3rem 1rem .3rem 0; vertical-align: top; white-space: nowrap; }
+  td { padding: .3rem 0; word-break: break-all; }
+  figure { margin: 0; width: 180px; text-align: center; font-size: .7rem; color: #4b5563; word-break: break-all; }
+  footer { font-size: .75rem; color: #6b7280; border-top: 1px solid #e5e7eb; padding-top: .75rem; }
+</style>
+</head>
+<body>
+  <header>
+    <h1>Retirement Certificate</h1>
+    <p>${retired.length} credit(s), ${formatKg(total)} H2 permanently retired on the GreenHydrogenCredit registry</p>
+  </header>
+  ${sections.join('\n')}
+  <footer>
+    Issued ${escapeHtml(format(new Date(), 'PPpp'))} from contract ${CONTRACT_ADDRESS}.
+    Retired credits cannot be transferred or retired again; the transactions above are the authoritative record.
+  </footer>
+</body>
+</html>`;
+};
+
+export const downloadRetirementCertificate = async (retired: RetiredCredit[]) => {
+  const html = await buildRetirementCertificate(retired);
+  downloadBlob(
+    new Blob([html], { type: 'text/html' }),
+    retired.length === 1
+      ? `retirement-certificate-credit-${retired[0].credit.id}.html`
+      : `retirement-certificate-${format(new Date(), 'yyyyMMdd-HHmmss')}.html`,
+  );
+};
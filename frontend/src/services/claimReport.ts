@@ -0,0 +1,210 @@
+import { format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import { autoTable, type UserOptions } from 'jspdf-autotable';
+import { api } from './api';
+import { ledgerVerificationUrl, parseRetirementReason } from './certificate';
+import { CONTRACT_ADDRESS, createCreditClient, type Credit } from './contract';
+import { downloadBlob, isWithinDates } from './export';
+import { summarizeClaim, type ClaimBreakdown, type ClaimedCredit, type ClaimSummary } from '@shared/claims';
+import { formatKg } from '@shared/quantity';
+
+// Bumped whenever the JSON layout changes, so consumers of annexed statements can tell versions apart.
+export const CLAIM_STATEMENT_SCHEMA = 'green-hydrogen-emissions-claim/1';
+
+// YYYY-MM-DD, inclusive, compared against the block time of each retirement
+export interface ClaimPeriod {
+  from: string;
+  to: string;
+}
+
+interface RetirementEvent {
+  txHash: string;
+  blockNumber: number;
+  timestamp: string;
+  args: { id: string; owner: string; reason: string };
+}
+
+export interface Retirement {
+  credit: Credit;
+  event: RetirementEvent;
+}
+
+export interface ClaimStatement extends ClaimSummary {
+  schema: typeof CLAIM_STATEMENT_SCHEMA;
+  account: string;
+  period: ClaimPeriod;
+  generatedAt: string;
+  registry: { contract: string };
+  credits: ClaimedCredit[];
+}
+
+// The account's retirements in the period, each with the retired credit as the contract holds it now.
+export const loadRetirements = async (account: string, period: ClaimPeriod): Promise<Retirement[]> => {
+  const { data } = await api.getChainEvents({ name: 'CreditRetired', address: account });
+  const events = (data as RetirementEvent[]).filter(e =>
+    e.args.owner.toLowerCase() === account.toLowerCase() && isWithinDates(e.timestamp, period.from, period.to)
+  );
+  const client = createCreditClient();
+  return Promise.all(events.map(async event => ({ event, credit: await client.getCredit(Number(event.args.id)) })));
+};
+
+/**
+ * Statement of everything `account` retired in `period`: kg of H2 by source
+ * and region, kg-weighted carbon intensity, what each retirement was for, and
+ * the transaction proving it. The same object is the JSON annex and the
+ * source of the PDF report.
+ */
+export const buildClaimStatement = (account: string, period: ClaimPeriod, retirements: Retirement[]): ClaimStatement => {
+  const credits = retirements
+    .map(({ credit, event }): ClaimedCredit => {
+      const { beneficiary, reason } = parseRetirementReason(event.args.reason);
+      return {
+        creditId: credit.id,
+        kg: credit.amount,
+        producer: credit.producer,
+        producerName: credit.producerName,
+        productionDate: format(credit.productionDate, 'yyyy-MM-dd'),
+        renewableSource: credit.renewableSource,
+        location: credit.location,
+        carbonIntensity: credit.carbonIntensity,
+        certifier: credit.certifier,
+        certificationDate: format(credit.certificationDate, 'yyyy-MM-dd'),
+        metadata: credit.metadata,
+        originId: credit.origin,
+        beneficiary,
+        reason,
+        proof: {
+          txHash: event.txHash,
+          blockNumber: event.blockNumber,
+          retiredAt: event.timestamp,
+          ledgerUrl: ledgerVerificationUrl(event.txHash),
+        },
+      };
+    })
+    .sort((a, b) => a.proof.retiredAt.localeCompare(b.proof.retiredAt));
+
+  return {
+    schema: CLAIM_STATEMENT_SCHEMA,
+    account,
+    period,
+    generatedAt: new Date().toISOString(),
+    registry: { contract: CONTRACT_ADDRESS },
+    ...summarizeClaim(credits),
+    credits,
+  };
+};
+
+const intensity = (value: number | null) => value === null ? '—' : `${value.toFixed(2)} gCO2/kWh`;
+
+// Colours and spacing of the A4 report, in mm
+const MARGIN = 16;
+const GREEN: [number, number, number] = [21, 128, 61];
+const MUTED: [number, number, number] = [75, 85, 99];
+const tableStyles = {
+  theme: 'plain' as const,
+  styles: { fontSize: 8, cellPadding: { top: 1.2, bottom: 1.2, left: 0, right: 2 } },
+  headStyles: { textColor: MUTED, fontStyle: 'normal' as const, lineWidth: { bottom: 0.2 }, lineColor: 200 },
+  margin: { left: MARGIN, right: MARGIN },
+};
+
+/**
+ * The statement as an A4 PDF: totals, breakdowns by source and region, the
+ * retirement reasons and every retired credit with the transaction proving it,
+ * linked to the public ledger.
+ */
+export const renderClaimStatement = (statement: ClaimStatement) => {
+  const { period, totals } = statement;
+  const dates = `${format(new Date(`${period.from}T00:00`), 'PPP')} – ${format(new Date(`${period.to}T00:00`), 'PPP')}`;
+  const doc = new jsPDF({ format: 'a4', unit: 'mm' });
+  const width = doc.internal.pageSize.getWidth() - 2 * MARGIN;
+  let y = MARGIN;
+
+  doc.setProperties({ title: `Emissions Claim Statement ${period.from} to ${period.to}` });
+  doc.setFontSize(18).setTextColor(...GREEN).text('Emissions Claim Statement', MARGIN, y + 6);
+  const subtitle = doc.splitTextToSize(`Green hydrogen credits retired by ${statement.account} from ${dates}`, width);
+  doc.setFontSize(9).setTextColor(...MUTED).text(subtitle, MARGIN, y + 12);
+  y += 14 + 4 * subtitle.length;
+  doc.setDrawColor(...GREEN).setLineWidth(1).line(MARGIN, y, MARGIN + width, y);
+  y += 6;
+
+  // Each table continues from where the last one ended, on whatever page that was
+  const table = (title: string, options: UserOptions) => {
+    doc.setFontSize(11).setTextColor(17, 24, 39).text(title, MARGIN, y + 6);
+    autoTable(doc, {
+      ...tableStyles,
+      ...options,
+      startY: y + 8,
+      didDrawPage: (data) => { y = data.cursor?.y ?? y; },
+    });
+    y += 4;
+  };
+
+  const cards = [
+    ['Credits retired', String(totals.credits)],
+    ['Hydrogen retired', formatKg(totals.kg)],
+    ['Weighted carbon intensity', intensity(totals.weightedCarbonIntensity)],
+  ];
+  const cardWidth = (width - 8) / cards.length;
+  cards.forEach(([label, value], i) => {
+    const x = MARGIN + i * (cardWidth + 4);
+    doc.setDrawColor(209, 213, 219).setLineWidth(0.3).roundedRect(x, y, cardWidth, 16, 2, 2);
+    doc.setFontSize(8).setTextColor(...MUTED).text(label, x + 3, y + 5);
+    doc.setFontSize(12).setTextColor(17, 24, 39).text(value, x + 3, y + 12);
+  });
+  y += 18;
+
+  const breakdownTable = (title: string, rows: ClaimBreakdown[]) => table(title, {
+    head: [['', 'H2', 'Share', 'Carbon intensity']],
+    body: rows.map(r => [r.key, formatKg(r.kg), `${(r.share * 100).toFixed(1)}%`, intensity(r.weightedCarbonIntensity)]),
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' } },
+  });
+  breakdownTable('By renewable source', statement.bySource);
+  breakdownTable('By region', statement.byRegion);
+
+  table('Retirement reasons', {
+    head: [['Beneficiary', 'Reason', 'H2', 'Credits']],
+    body: statement.reasons.map(r => [r.beneficiary || '—', r.reason, formatKg(r.kg), r.creditIds.map(id => `#${id}`).join(', ')]),
+    columnStyles: { 2: { halign: 'right' } },
+  });
+
+  table('Retired credits and proofs', {
+    head: [['Credit', 'Producer', 'Source', 'Region', 'Intensity', 'Produced', 'H2', 'Retirement transaction']],
+    body: statement.credits.map(c => [
+      `#${c.creditId}${c.originId !== c.creditId ? ` (from #${c.originId})` : ''}`,
+      c.producerName,
+      c.renewableSource,
+      c.location,
+      String(c.carbonIntensity),
+      c.productionDate,
+      formatKg(c.kg),
+      `${format(new Date(c.proof.retiredAt), 'PPp')}, block ${c.proof.blockNumber}\n${c.proof.txHash}`,
+    ]),
+    columnStyles: { 4: { halign: 'right' }, 6: { halign: 'right' }, 7: { font: 'courier', fontSize: 6, cellWidth: 48 } },
+    didDrawCell: ({ section, column, row, cell }) => {
+      if (section === 'body' && column.index === 7) {
+        doc.link(cell.x, cell.y, cell.width, cell.height, { url: statement.credits[row.index].proof.ledgerUrl });
+      }
+    },
+  });
+
+  const footer = doc.splitTextToSize(
+    `Generated ${format(new Date(statement.generatedAt), 'PPpp')} from contract ${statement.registry.contract} ` +
+    `(schema ${statement.schema}). Each retirement transaction is the authoritative record and can be checked on the public ledger.`,
+    width,
+  );
+  if (y + 6 + 3.5 * footer.length > doc.internal.pageSize.getHeight() - MARGIN) {
+    doc.addPage();
+    y = MARGIN;
+  }
+  doc.setDrawColor(229, 231, 235).setLineWidth(0.2).line(MARGIN, y + 2, MARGIN + width, y + 2);
+  doc.setFontSize(7).setTextColor(107, 114, 128).text(footer, MARGIN, y + 6);
+  return doc;
+};
+
+const fileStem = ({ period }: ClaimStatement) => `emissions-claim-${period.from}-to-${period.to}`;
+
+export const downloadClaimStatementJson = (statement: ClaimStatement) =>
+  downloadBlob(new Blob([JSON.stringify(statement, null, 2)], { type: 'application/json' }), `${fileStem(statement)}.json`);
+
+export const downloadClaimStatementPdf = (statement: ClaimStatement) =>
+  downloadBlob(renderClaimStatement(statement).output('blob'), `${fileStem(statement)}.pdf`);
@@ -0,0 +1,329 @@
+import {
+  BrowserProvider,
+  JsonRpcProvider,
+  type ContractRunner,
+  type ContractTransactionReceipt,
+  type ContractTransactionResponse,
+} from 'ethers';
+import { GreenHydrogenCredit__factory, type GreenHydrogenCredit } from '@/contracts/typechain';
+
+// Defaults match a fresh `npx hardhat node` + `scripts/deploy.js` run.
+export const CONTRACT_ADDRESS =
+  import.meta.env.VITE_CONTRACT_ADDRESS ?? '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+export const RPC_URL = import.meta.env.VITE_RPC_URL ?? 'http://127.0.0.1:8545';
+
+// Mirrors the constant in GreenHydrogenCredit.sol (gCO2/kWh).
+export const MAX_CARBON_INTENSITY = 50;
+
+// Mirrors the enums in GreenHydrogenCredit.sol; order matters.
+export enum CreditStatus {
+  Active,
+  Retired,
+  Suspended,
+  // Split or merged into new credits; kept on-chain for lineage only
+  Superseded,
+}
+
+export enum VerificationStatus {
+  Pending,
+  Verified,
+  Rejected,
+}
+
+export interface Credit {
+  id: number;
+  owner: string;
+  producer: string;
+  producerName: string;
+  amount: number; // kg of H2
+  productionDate: Date;
+  renewableSource: string;
+  location: string;
+  carbonIntensity: number; // gCO2/kWh
+  verificationStatus: VerificationStatus;
+  status: CreditStatus;
+  certifier: string;
+  certificationDate: Date;
+  metadata: string;
+  isRetired: boolean;
+  retirementDate: Date | null;
+  retirementReason: string;
+  // The issued credit this one descends from (its own id if issued directly) and the credits it was split or merged from
+  origin: number;
+  parents: number[];
+}
+
+export interface ProductionBatch {
+  batchId: number;
+  producer: string;
+  totalAmount: number;
+  verificationCount: number;
+  isVerified: boolean;
+  creditIds: number[];
+}
+
+// On-chain history of a batch: creation by one auditor, then the sign-off that reached consensus.
+export interface BatchEvent {
+  type: 'created' | 'verified';
+  batchId: number;
+  auditor: string;
+  blockNumber: number;
+  txHash: string;
+  timestamp: Date;
+}
+
+export interface AuditorProfile {
+  address: string;
+  name: string;
+  accreditation: string;
+  isActive: boolean;
+  verificationCount: number;
+  lastVerification: Date | null;
+}
+
+export interface IssueCreditParams {
+  to: string;
+  producer: string;
+  producerName: string;
+  amount: number;
+  productionDate: Date;
+  renewableSource: string;
+  location: string;
+  carbonIntensity: number;
+  metadata: string;
+}
+
+export interface TxResult {
+  hash: string;
+  blockNumber: number;
+  receipt: ContractTransactionReceipt;
+}
+
+const toDate = (seconds: bigint) => new Date(Number(seconds) * 1000);
+const toSeconds = (date: Date) => BigInt(Math.floor(date.getTime() / 1000));
+
+const decodeCredit = (c: GreenHydrogenCredit.CreditStructOutput, origin: bigint, parents: bigint[]): Credit => ({
+  id: Number(c.id),
+  owner: c.owner,
+  producer: c.producer,
+  producerName: c.producerName,
+  amount: Number(c.amount),
+  productionDate: toDate(c.productionDate),
+  renewableSource: c.renewableSource,
+  location: c.location,
+  carbonIntensity: Number(c.carbonIntensity),
+  verificationStatus: Number(c.verificationStatus) as VerificationStatus,
+  status: Number(c.status) as CreditStatus,
+  certifier: c.certifier,
+  certificationDate: toDate(c.certificationDate),
+  metadata: c.metadata,
+  isRetired: c.isRetired,
+  retirementDate: c.retirementDate > 0n ? toDate(c.retirementDate) : null,
+  retirementReason: c.retirementReason,
+  origin: Number(origin),
+  parents: parents.map(Number),
+});
+
+const decodeBatch = (b: GreenHydrogenCredit.ProductionBatchStructOutput): ProductionBatch => ({
+  batchId: Number(b.batchId),
+  producer: b.producer,
+  totalAmount: Number(b.totalAmount),
+  verificationCount: Number(b.verificationCount),
+  isVerified: b.isVerified,
+  creditIds: b.creditIds.map(Number),
+});
+
+const decodeAuditor = (a: GreenHydrogenCredit.AuditorStructOutput): AuditorProfile => ({
+  address: a.auditorAddress,
+  name: a.name,
+  accreditation: a.accreditation,
+  isActive: a.isActive,
+  verificationCount: Number(a.verificationCount),
+  lastVerification: a.lastVerification > 0n ? toDate(a.lastVerification) : null,
+});
+
+export const send = async (pending: Promise<ContractTransactionResponse>): Promise<TxResult> => {
+  const response = await pending;
+  const receipt = await response.wait();
+  if (!receipt) throw new Error(`Transaction ${response.hash} was dropped`);
+  return { hash: response.hash, blockNumber: receipt.blockNumber, receipt };
+};
+
+export const getLocalProvider = () => new JsonRpcProvider(RPC_URL);
+
+// Unlocked Hardhat node account, by index or address.
+export const getLocalSigner = (account: number | string = 0) => getLocalProvider().getSigner(account);
+
+export const hasInjectedWallet = () => Boolean(window.ethereum);
+
+export const getInjectedSigner = async () => {
+  if (!window.ethereum) throw new Error('No injected wallet found');
+  return new BrowserProvider(window.ethereum).getSigner();
+};
+
+// Prefers the browser wallet; falls back to a Hardhat node account for local development.
+export const getWalletSigner = (localAccount: number | string = 0) =>
+  hasInjectedWallet() ? getInjectedSigner() : getLocalSigner(localAccount);
+
+/**
+ * Typed wrapper around GreenHydrogenCredit. Writes wait for one confirmation
+ * and resolve with the receipt; reads return decoded structs and enums.
+ */
+export const createCreditClient = (runner: ContractRunner = getLocalProvider(), address = CONTRACT_ADDRESS) => {
+  const contract = GreenHydrogenCredit__factory.connect(address, runner);
+
+  const getCredit = async (id: number) => {
+    const [credit, origin, parents] = await Promise.all([
+      contract.getCredit(id),
+      contract.creditOrigin(id),
+      contract.getCreditParents(id),
+    ]);
+    return decodeCredit(credit, origin, parents);
+  };
+
+  // Ids of the credits created by a split or merge, read from the receipt's events.
+  const derivedIds = (receipt: ContractTransactionReceipt, event: 'CreditSplit' | 'CreditMerged') => [
+    ...new Set(receipt.logs
+      .map(log => contract.interface.parseLog(log))
+      .filter(parsed => parsed?.name === event)
+      .map(parsed => Number(parsed!.args.id))),
+  ];
+
+  return {
+    contract,
+
+    issueCredit: async (params: IssueCreditParams) => {
+      const result = await send(contract.issueCredit(
+        params.to,
+        params.producer,
+        params.producerName,
+        params.amount,
+        toSeconds(params.productionDate),
+        params.renewableSource,
+        params.location,
+        params.carbonIntensity,
+        params.metadata,
+      ));
+      const issued = result.receipt.logs
+        .map(log => contract.interface.parseLog(log))
+        .find(event => event?.name === 'CreditIssued');
+      return { ...result, creditId: Number(issued?.args.id) };
+    },
+
+    verifyCredit: (id: number, status: VerificationStatus, notes: string) =>
+      send(contract.verifyCredit(id, status, notes)),
+
+    transferCredit: (id: number, to: string) =>
+      send(contract.transferCredit(id, to)),
+
+    // Sends `amount` kg of the credit to `to` as a new child credit; the sender keeps the rest as another.
+    transferPartial: async (id: number, to: string, amount: number) => {
+      const result = await send(contract.transferPartial(id, to, amount));
+      const [transferredId, remainderId] = derivedIds(result.receipt, 'CreditSplit');
+      return { ...result, transferredId, remainderId };
+    },
+
+    // Amounts in kg must add up to the whole credit.
+    splitCredit: async (id: number, amounts: number[]) => {
+      const result = await send(contract.splitCredit(id, amounts));
+      return { ...result, childIds: derivedIds(result.receipt, 'CreditSplit') };
+    },
+
+    // Credits must share an origin, i.e. descend from the same issued credit.
+    mergeCredits: async (ids: number[]) => {
+      const result = await send(contract.mergeCredits(ids));
+      return { ...result, mergedId: derivedIds(result.receipt, 'CreditMerged')[0] };
+    },
+
+    retireCredit: (id: number, reason: string) =>
+      send(contract.retireCredit(id, reason)),
+
+    // Operators, such as the settlement escrow, may transfer the sender's credits.
+    setOperator: (operator: string, approved: boolean) =>
+      send(contract.setOperator(operator, approved)),
+
+    isOperator: (owner: string, operator: string) => contract.isOperator(owner, operator),
+
+    suspendCredit: (id: number, reason: string) =>
+      send(contract.suspendCredit(id, reason)),
+
+    getCredit,
+
+    // Credit ids are sequential from 1, so the whole registry can be walked up to nextId.
+    listCredits: async () => {
+      const nextId = Number(await contract.nextId());
+      const ids = Array.from({ length: nextId - 1 }, (_, i) => i + 1);
+      return Promise.all(ids.map(getCredit));
+    },
+
+    getOwnerCredits: async (owner: string) => (await contract.getOwnerCredits(owner)).map(Number),
+
+    getAuditor: async (address: string) => decodeAuditor(await contract.getAuditor(address)),
+
+    createProductionBatch: async (producer: string, creditIds: number[]) => {
+      const result = await send(contract.createProductionBatch(producer, creditIds));
+      const created = result.receipt.logs
+        .map(log => contract.interface.parseLog(log))
+        .find(event => event?.name === 'ProductionBatchCreated');
+      return { ...result, batchId: Number(created?.args.batchId) };
+    },
+
+    verifyProductionBatch: (batchId: number) =>
+      send(contract.verifyProductionBatch(batchId)),
+
+    getProductionBatch: async (batchId: number) => decodeBatch(await contract.getProductionBatch(batchId)),
+
+    // Batch ids are sequential from 1, like credit ids.
+    listProductionBatches: async () => {
+      const nextBatchId = Number(await contract.nextBatchId());
+      const ids = Array.from({ length: nextBatchId - 1 }, (_, i) => i + 1);
+      return Promise.all(ids.map(async id => decodeBatch(await contract.getProductionBatch(id))));
+    },
+
+    getMinVerificationCount: async () => Number(await contract.MIN_VERIFICATION_COUNT()),
+
+    // ProductionBatchCreated does not name the auditor, so it is taken from the transaction sender.
+    getBatchHistory: async (batchId?: number): Promise<BatchEvent[]> => {
+      const [created, verified] = await Promise.all([
+        contract.queryFilter(contract.filters.ProductionBatchCreated(batchId)),
+        contract.queryFilter(contract.filters.ProductionBatchVerified(batchId)),
+      ]);
+      const events = await Promise.all([
+        ...created.map(async (log): Promise<BatchEvent> => ({
+          type: 'created',
+          batchId: Number(log.args.batchId),
+          auditor: (await log.getTransaction()).from,
+          blockNumber: log.blockNumber,
+          txHash: log.transactionHash,
+          timestamp: toDate(BigInt((await log.getBlock()).timestamp)),
+        })),
+        ...verified.map(async (log): Promise<BatchEvent> => ({
+          type: 'verified',
+          batchId: Number(log.args.batchId),
+          auditor: log.args.auditor,
+          blockNumber: log.blockNumber,
+          txHash: log.transactionHash,
+          timestamp: toDate(BigInt((await log.getBlock()).timestamp)),
+        })),
+      ]);
+      return events.sort((a, b) => a.blockNumber - b.blockNumber);
+    },
+
+    isCreditExpired: (id: number) => contract.isCreditExpired(id),
+  };
+};
+
+export type CreditClient = ReturnType<typeof createCreditClient>;
+
+// "Issued", "Split from #3" or "Merged from #4, #6", naming the issued credit when it is further back.
+export const describeLineage = (credit: Pick<Credit, 'origin' | 'parents'>) => {
+  if (credit.parents.length === 0) return 'Issued';
+  const from = `${credit.parents.length > 1 ? 'Merged' : 'Split'} from ${credit.parents.map(id => `#${id}`).join(', ')}`;
+  return credit.parents.includes(credit.origin) ? from : `${from} (issued as #${credit.origin})`;
+};
+
+// Pulls the revert reason out of an ethers error for display in toasts.
+export const describeContractError = (error: unknown) => {
+  const e = error as { reason?: string; shortMessage?: string; message?: string };
+  return e?.reason ?? e?.shortMessage ?? e?.message ?? 'Transaction failed';
+};
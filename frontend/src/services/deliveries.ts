@@ -0,0 +1,65 @@
+import { KG_PER_CREDIT } from '@shared/quantity';
+
+export type DeliveryStatus = 'pending' | 'delivered';
+
+// A credit the producer can settle a delivery from: part of the offer's backing credits' lineage
+export interface DeliverySource {
+  id: number;
+  amount: number;
+  originId: number;
+  expiresAt: string;
+}
+
+// `accepted` basket trades wait for the basket's other sellers and settle with them
+export type EscrowStatus = 'escrowed' | 'accepted' | 'settled' | 'refunded';
+
+// A payment the buyer put into the settlement escrow for a delivery
+export interface EscrowPayment {
+  tradeId: number;
+  creditId: number;
+  kg: number;
+  // In payment currency units
+  payment: number;
+  status: EscrowStatus;
+  txHash: string;
+  // Set when the trade was escrowed as part of a basket
+  basketId?: number;
+}
+
+// kg owed on-chain for a marketplace purchase; the buyer pays into escrow and the producer settles the swap there
+export interface Delivery {
+  deliveryId: string;
+  txId: string;
+  offerId: string;
+  producerId: string;
+  producerName: string;
+  buyerId: string;
+  buyerName: string;
+  kg: number;
+  pricePerCredit: number;
+  deliveredKg: number;
+  // Paid into escrow, awaiting the producer's settlement
+  escrowedKg: number;
+  escrows: EscrowPayment[];
+  status: DeliveryStatus;
+  createdAt: string;
+  // Filled in while the delivery is pending
+  sourceCredits: DeliverySource[];
+  // Set while nothing is paid or delivered: the reservation lapses then and the producer can release it
+  paymentDueAt?: string;
+}
+
+// Still in escrow: neither settled nor refunded.
+export const isHeld = (escrow: EscrowPayment) => escrow.status === 'escrowed' || escrow.status === 'accepted';
+
+// kg neither delivered nor paid into escrow yet.
+export const unpaidKg = (delivery: Delivery) =>
+  Math.max(delivery.kg - delivery.deliveredKg - delivery.escrowedKg, 0);
+
+export const paymentFor = (delivery: Delivery, kg: number) => kg / KG_PER_CREDIT * delivery.pricePerCredit;
+
+// The smallest credit that covers `kg`, so larger ones stay whole; otherwise the largest, settling in parts.
+export const deliverySource = (sources: DeliverySource[], kg: number) => {
+  const covering = sources.filter(c => c.amount >= kg).sort((a, b) => a.amount - b.amount);
+  return covering[0] ?? [...sources].sort((a, b) => b.amount - a.amount)[0];
+};
@@ -0,0 +1,102 @@
+import { isAxiosError } from 'axios';
+import { api } from './api';
+
+export type DocumentType = 'application/pdf' | 'image/png' | 'image/jpeg' | 'image/webp';
+export type MeterDataType = 'text/csv' | 'application/json';
+export type EvidenceType = DocumentType | MeterDataType;
+
+// What the server derived from an interval meter data upload
+export interface MeterSummary {
+  intervals: number;
+  periodStart: string;
+  periodEnd: string;
+  h2Kg: number;
+  energyKwh: number;
+  renewableKwh: number;
+  gridKwh: number;
+  // Fraction of electrolyzer energy drawn from the grid, 0–1
+  gridShare: number;
+  // gCO2/kWh, rounded up to a whole number as issueCredit expects
+  carbonIntensity: number;
+  // kWh per kg of H2
+  specificConsumption: number;
+  exceedsThreshold: boolean;
+}
+
+// How a report or a credit's metadata points at a stored file.
+export interface EvidenceRef {
+  sha256: string;
+  name: string;
+}
+
+export interface EvidenceFile extends EvidenceRef {
+  type: EvidenceType;
+  size: number;
+  meter?: MeterSummary;
+}
+
+// Mirror the server defaults (EVIDENCE_MAX_BYTES, EVIDENCE_MAX_FILES).
+export const EVIDENCE_TYPES: DocumentType[] = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'];
+export const EVIDENCE_ACCEPT = '.pdf,.png,.jpg,.jpeg,.webp';
+export const METER_DATA_ACCEPT = '.csv,.json';
+export const MAX_EVIDENCE_BYTES = 10 * 1024 * 1024;
+export const MAX_EVIDENCE_FILES = 10;
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const sha256Hex = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Uploads one file to the evidence store. The hash is computed locally as
+ * well, so a mismatch with the server's content address is caught here.
+ */
+const upload = async (file: File, type: EvidenceType): Promise<EvidenceFile> => {
+  if (file.size > MAX_EVIDENCE_BYTES) {
+    throw new Error(`${file.name}: larger than ${formatFileSize(MAX_EVIDENCE_BYTES)}`);
+  }
+
+  const request = api.uploadEvidence(file, type).catch((error) => {
+    const reason = isAxiosError(error) ? error.response?.data?.error : undefined;
+    throw new Error(`${file.name}: ${reason ?? 'upload failed'}`);
+  });
+  const [localHash, response] = await Promise.all([sha256Hex(file), request]);
+  if (response.data.sha256 !== localHash) {
+    throw new Error(`${file.name}: server stored a different hash than the file's SHA-256`);
+  }
+  return response.data;
+};
+
+export const uploadEvidence = async (file: File) => {
+  if (!EVIDENCE_TYPES.includes(file.type as DocumentType)) {
+    throw new Error(`${file.name}: only PDF, PNG, JPEG and WebP files are accepted`);
+  }
+  return upload(file, file.type as DocumentType);
+};
+
+// Browsers disagree on the MIME type of .csv files, so meter data is typed by extension.
+export const uploadMeterData = async (file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const type: MeterDataType | null = extension === 'csv' ? 'text/csv' : extension === 'json' ? 'application/json' : null;
+  if (!type) throw new Error(`${file.name}: meter data must be a .csv or .json file`);
+  return upload(file, type);
+};
+
+// Only the hash and name go into credit metadata; that is all a verifier needs.
+export const toEvidenceRefs = (files: EvidenceRef[]): EvidenceRef[] =>
+  files.map(({ sha256, name }) => ({ sha256, name }));
+
+// Reads the evidence anchored in a credit's metadata JSON, if any.
+export const parseCreditEvidence = (metadata: string): EvidenceRef[] => {
+  try {
+    const parsed = JSON.parse(metadata);
+    return Array.isArray(parsed?.evidence)
+      ? parsed.evidence.filter((e: EvidenceRef) => typeof e?.sha256 === 'string' && typeof e?.name === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+};
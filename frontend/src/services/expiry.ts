@@ -0,0 +1,40 @@
+export interface CreditExpiryNotification {
+  notificationId: string;
+  userId: string;
+  type: 'credit_expiring';
+  creditId: number;
+  // kg of H2
+  amount: number;
+  // The warning window (30, 7 or 1 days) the credit had entered when notified
+  windowDays: number;
+  expiresAt: string;
+  createdAt: string;
+  read: boolean;
+}
+
+export interface ExpiringCredit {
+  id: number;
+  owner: string;
+  ownerName: string;
+  producer: string;
+  producerName: string;
+  amount: number;
+  productionDate: string;
+  expiresAt: string;
+  suspended: boolean;
+}
+
+// Outstanding (unretired) credits past or nearing expiry; amounts in kg
+export interface ExpiryReport {
+  expired: {
+    credits: number;
+    kg: number;
+    byProducer: { producer: string; producerName: string; credits: number; kg: number }[];
+    list: ExpiringCredit[];
+  };
+  expiringSoon: {
+    credits: number;
+    kg: number;
+    list: ExpiringCredit[];
+  };
+}
@@ -0,0 +1,59 @@
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+}
+
+export const exportFormats: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' },
+];
+
+// Keys must match the export columns the server accepts for each dataset.
+export const ledgerExportColumns: ExportColumn[] = [
+  { key: 'txId', label: 'Transaction Hash' },
+  { key: 'type', label: 'Type' },
+  { key: 'creditId', label: 'Credit ID' },
+  { key: 'from', label: 'From' },
+  { key: 'to', label: 'To' },
+  { key: 'credits', label: 'Credits (1 credit = 1 kg H2)' },
+  { key: 'timestamp', label: 'Timestamp (ISO 8601)' },
+  { key: 'blockNumber', label: 'Block' },
+  { key: 'verified', label: 'Verified' },
+];
+
+export const transactionExportColumns: ExportColumn[] = [
+  { key: 'txId', label: 'Transaction ID' },
+  { key: 'type', label: 'Type' },
+  { key: 'timestamp', label: 'Timestamp (ISO 8601)' },
+  { key: 'counterparty', label: 'Counterparty' },
+  { key: 'amount', label: 'Credits' },
+  { key: 'pricePerCredit', label: 'Price per Credit' },
+  { key: 'totalPrice', label: 'Total Price' },
+  { key: 'status', label: 'Status' },
+];
+
+// Dates in the filter inputs are YYYY-MM-DD; the server compares them against the UTC date of each row.
+export const isWithinDates = (timestamp: string, from?: string, to?: string) => {
+  const date = new Date(timestamp).toISOString().slice(0, 10);
+  return (!from || date >= from) && (!to || date <= to);
+};
+
+const clickLink = (href: string, filename?: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  if (filename) link.download = filename;
+  link.click();
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  clickLink(url, filename);
+  URL.revokeObjectURL(url);
+};
+
+// The server streams the file with Content-Disposition: attachment, so the
+// browser writes it straight to disk instead of buffering it in the page.
+export const downloadFromUrl = (url: string) => clickLink(url);
@@ -0,0 +1,69 @@
+export type ElectrolyzerType = 'alkaline' | 'pem' | 'soec' | 'aem';
+
+export const electrolyzerTypes: { value: ElectrolyzerType; label: string }[] = [
+  { value: 'alkaline', label: 'Alkaline' },
+  { value: 'pem', label: 'PEM (proton exchange membrane)' },
+  { value: 'soec', label: 'SOEC (solid oxide)' },
+  { value: 'aem', label: 'AEM (anion exchange membrane)' },
+];
+
+export const electrolyzerTypeLabel = (type: ElectrolyzerType) =>
+  electrolyzerTypes.find(t => t.value === type)?.label ?? type;
+
+// Also the renewableSource values written on-chain when a credit is issued
+export const RENEWABLE_SOURCES = ['Solar', 'Wind', 'Hydro', 'Geothermal', 'Biomass'] as const;
+export type RenewableSource = (typeof RENEWABLE_SOURCES)[number];
+
+export interface RenewableAsset {
+  type: RenewableSource;
+  name?: string;
+  capacityMw: number;
+}
+
+export interface FacilityInput {
+  name: string;
+  latitude: number;
+  longitude: number;
+  electrolyzerType: ElectrolyzerType;
+  capacityMw: number;
+  capacityKgPerDay: number;
+  renewableAssets: RenewableAsset[];
+  // YYYY-MM-DD
+  commissioningDate: string;
+}
+
+export interface Facility extends FacilityInput {
+  facilityId: string;
+  producerId: string;
+  // Included when listing facilities
+  producerName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How a report's output compares with its facility's nameplate capacity over the period
+export interface CapacityCheck {
+  facilityId: string;
+  periodStart: string;
+  periodEnd: string;
+  operatingHours: number;
+  maxKg: number;
+  claimedKg: number;
+  // Null if the facility wasn't commissioned yet
+  utilization: number | null;
+  exceedsCapacity: boolean;
+  flagged: boolean;
+}
+
+// Mirrors MIN_KWH_PER_KG on the server: nameplate output can't beat the theoretical minimum
+export const MIN_KWH_PER_KG = 39.4;
+
+export const formatCoordinates = ({ latitude, longitude }: Pick<Facility, 'latitude' | 'longitude'>) =>
+  `${Math.abs(latitude).toFixed(4)}°${latitude >= 0 ? 'N' : 'S'}, ${Math.abs(longitude).toFixed(4)}°${longitude >= 0 ? 'E' : 'W'}`;
+
+export const formatUtilization = (check: CapacityCheck) =>
+  check.utilization === null ? 'not operating' : `${Math.round(check.utilization * 100)}% of capacity`;
+
+// The asset supplying most of the power, used as the credit's renewable source
+export const primaryRenewableSource = (facility: Facility) =>
+  [...facility.renewableAssets].sort((a, b) => b.capacityMw - a.capacityMw)[0]?.type;
@@ -0,0 +1,50 @@
+export type FraudRule = 'overlapping_period' | 'reused_evidence' | 'round_trip_transfer' | 'volume_spike';
+
+export type FraudSeverity = 'low' | 'medium' | 'high';
+
+export const fraudRules: { value: FraudRule; label: string }[] = [
+  { value: 'overlapping_period', label: 'Overlapping production period' },
+  { value: 'reused_evidence', label: 'Reused evidence' },
+  { value: 'round_trip_transfer', label: 'Round-trip transfer' },
+  { value: 'volume_spike', label: 'Volume spike' },
+];
+
+export const fraudRuleLabel = (rule: FraudRule) =>
+  fraudRules.find(r => r.value === rule)?.label ?? rule;
+
+export type FraudReviewStatus = 'dismissed' | 'confirmed';
+
+export interface FraudReview {
+  flagId: string;
+  status: FraudReviewStatus;
+  notes: string;
+  // Reports the flag covered when reviewed; the flag reopens if it gains others
+  reportIds: string[];
+  regulatorId: string;
+  timestamp: string;
+}
+
+// Flags are recomputed by the server on every request; only reviews are stored
+export interface FraudFlag {
+  flagId: string;
+  rule: FraudRule;
+  severity: FraudSeverity;
+  summary: string;
+  producerIds: string[];
+  producerNames: string[];
+  reportIds: string[];
+  creditIds: number[];
+  addresses: string[];
+  detectedAt: string;
+  review?: FraudReview;
+}
+
+export interface FraudFlagQuery {
+  status?: 'open' | 'reviewed' | 'all';
+  rule?: FraudRule;
+  severity?: FraudSeverity;
+  reportId?: string;
+}
+
+export const severityVariant = (severity: FraudSeverity) =>
+  severity === 'high' ? 'destructive' : severity === 'medium' ? 'default' : 'secondary';
@@ -0,0 +1,102 @@
+import type { RenewableSource } from './facilities';
+
+// What a buyer would receive, aggregated from the credits the offer can be delivered from
+export interface ListingAttributes {
+  renewableSources: string[];
+  locations: string[];
+  // gCO2/kWh; the average is weighted by kg
+  carbonIntensity?: { min: number; max: number; average: number };
+  // Production dates, YYYY-MM-DD
+  vintage?: { from: string; to: string };
+  // Some credits were indexed before their source and intensity were recorded
+  incomplete: boolean;
+}
+
+export interface MarketplaceListing extends ListingAttributes {
+  offerId: string;
+  producerId: string;
+  producerName: string;
+  creditsAvailable: number;
+  pricePerCredit: number;
+  // On-chain credits the producer delivers from; absent on legacy offers
+  creditIds?: number[];
+  // Earliest expiry among the backing credits
+  expiresAt?: string;
+}
+
+// Like bid constraints, a listing matches only when every credit behind it does; all are optional
+export interface ListingFilters {
+  source: RenewableSource | 'any';
+  region: string;
+  // gCO2/kWh
+  minIntensity: string;
+  maxIntensity: string;
+  // YYYY-MM-DD inclusive
+  vintageFrom: string;
+  vintageTo: string;
+}
+
+export const emptyListingFilters: ListingFilters = {
+  source: 'any',
+  region: 'any',
+  minIntensity: '',
+  maxIntensity: '',
+  vintageFrom: '',
+  vintageTo: '',
+};
+
+export const matchesListingFilters = (listing: MarketplaceListing, filters: ListingFilters) => {
+  const only = (values: string[], value: string) => values.length === 1 && values[0] === value;
+  const intensity = listing.carbonIntensity;
+  const vintage = listing.vintage;
+  // Credits missing an attribute can't be shown to meet a filter on it
+  const known = !listing.incomplete;
+
+  return (
+    (filters.source === 'any' || (known && only(listing.renewableSources, filters.source))) &&
+    (filters.region === 'any' || (known && only(listing.locations, filters.region))) &&
+    (!filters.minIntensity || (known && !!intensity && intensity.min >= parseFloat(filters.minIntensity))) &&
+    (!filters.maxIntensity || (known && !!intensity && intensity.max <= parseFloat(filters.maxIntensity))) &&
+    (!filters.vintageFrom || (!!vintage && vintage.from >= filters.vintageFrom)) &&
+    (!filters.vintageTo || (!!vintage && vintage.to <= filters.vintageTo))
+  );
+};
+
+export const listingSorts = [
+  { value: 'price-asc', label: 'Price: Low to High' },
+  { value: 'price-desc', label: 'Price: High to Low' },
+  { value: 'credits-asc', label: 'Credits: Low to High' },
+  { value: 'credits-desc', label: 'Credits: High to Low' },
+  { value: 'intensity-asc', label: 'Carbon Intensity: Lowest First' },
+  { value: 'vintage-desc', label: 'Vintage: Newest First' },
+  { value: 'producer', label: 'Producer Name' },
+] as const;
+
+export type ListingSort = (typeof listingSorts)[number]['value'];
+
+// Listings without an intensity or vintage sort last.
+export const sortListings = (listings: MarketplaceListing[], sortBy: ListingSort) =>
+  [...listings].sort((a, b) => {
+    switch (sortBy) {
+      case 'price-asc':
+        return a.pricePerCredit - b.pricePerCredit;
+      case 'price-desc':
+        return b.pricePerCredit - a.pricePerCredit;
+      case 'credits-asc':
+        return a.creditsAvailable - b.creditsAvailable;
+      case 'credits-desc':
+        return b.creditsAvailable - a.creditsAvailable;
+      case 'intensity-asc':
+        return (a.carbonIntensity?.average ?? Infinity) - (b.carbonIntensity?.average ?? Infinity);
+      case 'vintage-desc':
+        return (b.vintage?.to ?? '').localeCompare(a.vintage?.to ?? '');
+      case 'producer':
+        return a.producerName.localeCompare(b.producerName);
+      default:
+        return 0;
+    }
+  });
+
+// Locations buyers can pick from: those credits on offer were produced at
+export const listingRegions = (listings: MarketplaceListing[]) =>
+  [...new Set(listings.flatMap(l => l.locations))].sort();
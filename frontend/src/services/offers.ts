@@ -0,0 +1,40 @@
+import type { DeliveryStatus } from './deliveries';
+
+// Paused offers leave the marketplace but keep their volume reserved; cancelled ones release it
+export type OfferStatus = 'active' | 'paused' | 'cancelled';
+
+// A sale from an offer, direct or matched against a bid
+export interface OfferFill {
+  txId: string;
+  buyerName: string;
+  credits: number;
+  pricePerCredit: number;
+  timestamp: string;
+  // Whether the producer has settled it on-chain
+  status: DeliveryStatus;
+}
+
+// One of the signed-in producer's own offers
+export interface Offer {
+  offerId: string;
+  producerId: string;
+  producerName: string;
+  // Still for sale
+  creditsAvailable: number;
+  creditsSold: number;
+  pricePerCredit: number;
+  creditIds?: number[];
+  expiresAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  status: OfferStatus;
+  // Newest first
+  fills: OfferFill[];
+}
+
+export interface OfferUpdate {
+  creditsAvailable: number;
+  pricePerCredit: number;
+}
+
+export type OfferAction = 'pause' | 'resume' | 'cancel';
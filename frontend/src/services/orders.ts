@@ -0,0 +1,52 @@
+import type { RenewableSource } from './facilities';
+
+// Every credit an offer could be delivered from must meet these; all are optional
+export interface BidConstraints {
+  renewableSource?: RenewableSource;
+  // gCO2/kWh
+  maxCarbonIntensity?: number;
+  // Production dates, YYYY-MM-DD inclusive
+  vintageFrom?: string;
+  vintageTo?: string;
+}
+
+export interface BidFill {
+  txId: string;
+  offerId: string;
+  credits: number;
+  pricePerCredit: number;
+  timestamp: string;
+}
+
+export type BidStatus = 'open' | 'filled' | 'cancelled';
+
+export interface Bid {
+  bidId: string;
+  buyerId: string;
+  credits: number;
+  remaining: number;
+  limitPrice: number;
+  constraints: BidConstraints;
+  status: BidStatus;
+  fills: BidFill[];
+  createdAt: string;
+}
+
+export interface BidInput {
+  credits: number;
+  limitPrice: number;
+  constraints?: BidConstraints;
+}
+
+// One price level of the book
+export interface DepthLevel {
+  price: number;
+  credits: number;
+  orders: number;
+}
+
+// Bids best (highest) first, asks best (lowest) first
+export interface OrderBook {
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+}
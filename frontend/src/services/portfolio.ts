@@ -0,0 +1,91 @@
+import { format } from 'date-fns';
+import { creditExpiresAt, expiryWarningWindow, hasExpired } from '@shared/expiry';
+import { kgToCredits } from '@shared/quantity';
+import type { Credit } from './contract';
+
+// What the holder paid for a credit on the marketplace
+export interface CreditAcquisition {
+  creditId: number;
+  pricePerCredit: number;
+  acquiredAt: string;
+  // The trade it settled; absent when the price is carried over from the credits it was split or merged from
+  txId?: string;
+}
+
+export interface PortfolioPricing {
+  acquisitions: CreditAcquisition[];
+  // VWAP of trades over the last `markWindowDays`, else the last trade's price; null before any trade
+  markPrice: number | null;
+  markWindowDays: number;
+}
+
+export interface PortfolioHolding {
+  credit: Credit;
+  expiresAt: Date;
+  acquisition?: CreditAcquisition;
+  // In payment currency units; absent when it can't be priced
+  costBasis?: number;
+  markValue?: number;
+}
+
+export type HoldingGrouping = 'none' | 'source' | 'vintage' | 'producer';
+
+export interface PortfolioTotals {
+  // kg of H2
+  heldKg: number;
+  retiredKg: number;
+  // Unretired kg inside the widest expiry warning window
+  expiringKg: number;
+  costBasis: number;
+  // Unretired, unexpired holdings at the mark price
+  markValue: number;
+}
+
+// Payment currency amounts; a dash when a holding can't be priced
+export const formatMoney = (value?: number) => value === undefined ? '—' : `$${value.toFixed(2)}`;
+
+// Retired and expired credits can no longer be sold, so they have no market value.
+export const toHolding = (credit: Credit, pricing?: PortfolioPricing): PortfolioHolding => {
+  const expiresAt = creditExpiresAt(credit.productionDate);
+  const acquisition = pricing?.acquisitions.find(a => a.creditId === credit.id);
+  const marketable = !credit.isRetired && !hasExpired(expiresAt);
+  return {
+    credit,
+    expiresAt,
+    acquisition,
+    costBasis: acquisition && kgToCredits(credit.amount) * acquisition.pricePerCredit,
+    markValue: marketable && pricing?.markPrice != null ? kgToCredits(credit.amount) * pricing.markPrice : undefined,
+  };
+};
+
+export const holdingGroupLabel = (holding: PortfolioHolding, grouping: HoldingGrouping) => {
+  switch (grouping) {
+    case 'source':
+      return holding.credit.renewableSource || 'Unrecorded source';
+    case 'vintage':
+      return format(holding.credit.productionDate, 'yyyy');
+    case 'producer':
+      return holding.credit.producerName;
+    default:
+      return 'All holdings';
+  }
+};
+
+// Groups in label order, holdings in each by credit id.
+export const groupHoldings = (holdings: PortfolioHolding[], grouping: HoldingGrouping) => {
+  const groups = new Map<string, PortfolioHolding[]>();
+  for (const holding of [...holdings].sort((a, b) => a.credit.id - b.credit.id)) {
+    const label = holdingGroupLabel(holding, grouping);
+    groups.set(label, [...(groups.get(label) ?? []), holding]);
+  }
+  return [...groups].sort(([a], [b]) => a.localeCompare(b)).map(([label, members]) => ({ label, holdings: members }));
+};
+
+export const portfolioTotals = (holdings: PortfolioHolding[]): PortfolioTotals =>
+  holdings.reduce((totals, { credit, expiresAt, costBasis, markValue }) => ({
+    heldKg: totals.heldKg + (credit.isRetired ? 0 : credit.amount),
+    retiredKg: totals.retiredKg + (credit.isRetired ? credit.amount : 0),
+    expiringKg: totals.expiringKg + (!credit.isRetired && expiryWarningWindow(expiresAt) !== null ? credit.amount : 0),
+    costBasis: totals.costBasis + (costBasis ?? 0),
+    markValue: totals.markValue + (markValue ?? 0),
+  }), { heldKg: 0, retiredKg: 0, expiringKg: 0, costBasis: 0, markValue: 0 });
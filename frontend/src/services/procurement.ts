@@ -0,0 +1,52 @@
+import type { RenewableSource } from './facilities';
+
+// Every credit behind a chosen offer must meet the constraints; all but credits and budget are optional
+export interface ProcurementRequest {
+  credits: number;
+  // Most the whole basket may cost
+  budget: number;
+  // Any of these; every source when absent
+  renewableSources?: RenewableSource[];
+  // gCO2/kWh
+  maxCarbonIntensity?: number;
+  // Production dates, YYYY-MM-DD inclusive
+  vintageFrom?: string;
+  vintageTo?: string;
+  // Largest fraction of the credits one producer may supply, 0–1
+  maxProducerShare?: number;
+}
+
+export interface ProcurementLeg {
+  offerId: string;
+  producerId: string;
+  producerName: string;
+  credits: number;
+  pricePerCredit: number;
+  cost: number;
+}
+
+export interface ProcurementPlan {
+  request: ProcurementRequest;
+  legs: ProcurementLeg[];
+  credits: number;
+  cost: number;
+  // Credits no combination of suitable offers can supply
+  shortfall: number;
+  withinBudget: boolean;
+}
+
+// One leg's trade, once the basket is bought
+export interface ProcurementTrade {
+  txId: string;
+  type: 'trade';
+  amount: number;
+  counterparty: string;
+  timestamp: string;
+  // Pending until the basket is paid into escrow
+  status: 'pending' | 'escrowed' | 'completed';
+  pricePerCredit: number;
+  totalPrice: number;
+}
+
+export const isExecutable = (plan: ProcurementPlan) =>
+  plan.legs.length > 0 && plan.shortfall === 0 && plan.withinBudget;
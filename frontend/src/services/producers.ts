@@ -0,0 +1,7 @@
+// A wallet the regulator has admitted as a producer before it holds any credits
+export interface ProducerRegistration {
+  address: string;
+  name: string;
+  registeredBy: string;
+  registeredAt: string;
+}
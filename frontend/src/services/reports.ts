@@ -0,0 +1,83 @@
+import type { EvidenceFile, EvidenceRef } from './evidence';
+import type { CapacityCheck } from './facilities';
+
+export type ReportStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export type RejectionReason =
+  | 'missing_evidence'
+  | 'carbon_intensity_too_high'
+  | 'date_mismatch'
+  | 'quantity_discrepancy'
+  | 'other';
+
+export const rejectionReasons: { value: RejectionReason; label: string }[] = [
+  { value: 'missing_evidence', label: 'Missing or insufficient evidence' },
+  { value: 'carbon_intensity_too_high', label: 'Carbon intensity too high' },
+  { value: 'date_mismatch', label: 'Production date mismatch' },
+  { value: 'quantity_discrepancy', label: 'Quantity does not match evidence' },
+  { value: 'other', label: 'Other (explain in notes)' },
+];
+
+export const rejectionReasonLabel = (reason: RejectionReason) =>
+  rejectionReasons.find(r => r.value === reason)?.label ?? reason;
+
+export interface Rejection {
+  reason: RejectionReason;
+  notes: string;
+  regulatorId: string;
+  timestamp: string;
+}
+
+export interface ReportRevision {
+  revision: number;
+  tons: number;
+  facilityId?: string;
+  periodStart?: string;
+  productionDate?: string;
+  notes?: string;
+  file?: string;
+  evidence?: EvidenceFile[];
+  meterData?: EvidenceFile;
+  submittedAt: string;
+  rejection: Rejection;
+}
+
+export interface ProductionReport {
+  reportId: string;
+  producerId: string;
+  tons: number;
+  status: ReportStatus;
+  // Submission time; for drafts, the last save
+  timestamp: string;
+  // Required to submit
+  facilityId?: string;
+  // The reporting period runs from periodStart (or productionDate alone) to productionDate
+  periodStart?: string;
+  productionDate?: string;
+  notes?: string;
+  // File name only, on reports from before evidence uploads
+  file?: string;
+  evidence?: EvidenceFile[];
+  // Interval meter data; when present, `tons` is derived from its H2 output
+  meterData?: EvidenceFile;
+  capacityCheck?: CapacityCheck;
+  rejection?: Rejection;
+  history?: ReportRevision[];
+}
+
+// Fields a producer fills in; productionDate is a YYYY-MM-DD calendar date.
+// Either tons or meter data is required, and meter data takes precedence.
+export interface ReportInput {
+  tons?: number;
+  facilityId?: string;
+  periodStart?: string;
+  productionDate?: string;
+  notes?: string;
+  file?: string;
+  evidence?: EvidenceRef[];
+  meterData?: EvidenceRef;
+}
+
+// Revisions are numbered from 1; every resubmission archives the previous one.
+export const currentRevision = (report: Pick<ProductionReport, 'history'>) =>
+  (report.history?.length ?? 0) + 1;
@@ -0,0 +1,178 @@
+import { formatUnits, parseUnits, type ContractRunner } from 'ethers';
+import { CreditEscrow__factory, MockStablecoin__factory } from '@/contracts/typechain';
+import { getLocalProvider, send } from './contract';
+import { deliverySource, paymentFor, unpaidKg, type Delivery } from './deliveries';
+
+// Defaults match a fresh `npx hardhat node` + `scripts/deploy.js` run.
+export const PAYMENT_TOKEN_ADDRESS =
+  import.meta.env.VITE_PAYMENT_TOKEN_ADDRESS ?? '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+export const ESCROW_ADDRESS =
+  import.meta.env.VITE_ESCROW_ADDRESS ?? '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+
+// Mirrors TradeStatus in CreditEscrow.sol; order matters.
+export enum EscrowTradeStatus {
+  Escrowed,
+  Settled,
+  Refunded,
+}
+
+export interface EscrowParams {
+  seller: string;
+  creditId: number;
+  // kg of H2
+  kg: number;
+  // In whole currency units, e.g. dollars
+  payment: number;
+  // The marketplace delivery being paid for
+  ref: string;
+}
+
+/**
+ * Payment token and escrow for delivery-versus-payment. Amounts are in whole
+ * currency units (mUSD locally); base-unit conversion happens here.
+ */
+export const createSettlementClient = (
+  runner: ContractRunner = getLocalProvider(),
+  tokenAddress = PAYMENT_TOKEN_ADDRESS,
+  escrowAddress = ESCROW_ADDRESS,
+) => {
+  const token = MockStablecoin__factory.connect(tokenAddress, runner);
+  const escrow = CreditEscrow__factory.connect(escrowAddress, runner);
+
+  let decimals: Promise<bigint> | undefined;
+  const tokenDecimals = async () => Number(await (decimals ??= token.decimals()));
+  const toUnits = async (value: number) => {
+    const places = await tokenDecimals();
+    return parseUnits(value.toFixed(places), places);
+  };
+  const fromUnits = async (value: bigint) => Number(formatUnits(value, await tokenDecimals()));
+
+  return {
+    token,
+    escrow,
+
+    symbol: () => token.symbol(),
+
+    getBalance: async (owner: string) => fromUnits(await token.balanceOf(owner)),
+
+    getAllowance: async (owner: string) => fromUnits(await token.allowance(owner, escrowAddress)),
+
+    // Step 1: let the escrow pull the payment
+    approvePayment: async (payment: number) =>
+      send(token.approve(escrowAddress, await toUnits(payment))),
+
+    // Step 1 for a basket: approve its legs' payments, summed in base units as the escrow sums them
+    approveBasket: async (legs: EscrowParams[]) => {
+      const payments = await Promise.all(legs.map(leg => toUnits(leg.payment)));
+      return send(token.approve(escrowAddress, payments.reduce((sum, payment) => sum + payment, 0n)));
+    },
+
+    // Step 2: move the payment into escrow against the seller's credit
+    escrowPayment: async (params: EscrowParams) => {
+      const result = await send(escrow.escrow(params.seller, params.creditId, params.kg, await toUnits(params.payment), params.ref));
+      const escrowed = result.receipt.logs
+        .map(log => escrow.interface.parseLog(log))
+        .find(event => event?.name === 'PaymentEscrowed');
+      return { ...result, tradeId: Number(escrowed?.args.tradeId) };
+    },
+
+    // Step 2 for a basket: one transaction escrows every leg, or none
+    escrowBasket: async (legs: EscrowParams[]) => {
+      const params = await Promise.all(legs.map(async leg => ({
+        seller: leg.seller,
+        creditId: leg.creditId,
+        amount: leg.kg,
+        payment: await toUnits(leg.payment),
+        ref: leg.ref,
+      })));
+      const result = await send(escrow.escrowBasket(params));
+      const escrowed = result.receipt.logs
+        .map(log => escrow.interface.parseLog(log))
+        .find(event => event?.name === 'BasketEscrowed');
+      return { ...result, basketId: Number(escrowed?.args.basketId) };
+    },
+
+    // Step 3, by the seller: swap the credit for the escrowed payment in one transaction. A basket trade
+    // is only accepted, leaving `deliveredCreditId` undefined, until the last of its sellers settles.
+    settle: async (tradeId: number) => {
+      const result = await send(escrow.settle(tradeId));
+      const settled = result.receipt.logs
+        .map(log => escrow.interface.parseLog(log))
+        .find(event => event?.name === 'TradeSettled' && Number(event.args.tradeId) === tradeId);
+      return { ...result, deliveredCreditId: settled ? Number(settled.args.deliveredCreditId) : undefined };
+    },
+
+    refund: (tradeId: number) =>
+      send(escrow.refund(tradeId)),
+  };
+};
+
+export type SettlementClient = ReturnType<typeof createSettlementClient>;
+
+// A purchase goes through these in order; the last one is the producer's.
+export type SettlementStep = 'reserve' | 'approve' | 'escrow' | 'settle';
+
+/**
+ * Pays into escrow for what is still unpaid on a delivery, against one of the
+ * producer's source credits: approves the payment, then escrows it. A source
+ * smaller than what is owed covers part of it; the rest is paid the same way
+ * later. The producer's settlement then swaps the payment for the credit.
+ */
+export const payForDelivery = async (
+  client: SettlementClient,
+  delivery: Delivery,
+  onStep?: (step: SettlementStep) => void,
+) => {
+  const owedKg = unpaidKg(delivery);
+  const source = deliverySource(delivery.sourceCredits, owedKg);
+  if (owedKg === 0) throw new Error('This delivery is already paid for');
+  if (!source) throw new Error("None of the offer's credits are left in the producer's wallet");
+
+  const kg = Math.min(source.amount, owedKg);
+  const payment = paymentFor(delivery, kg);
+  onStep?.('approve');
+  await client.approvePayment(payment);
+  onStep?.('escrow');
+  const result = await client.escrowPayment({ seller: delivery.producerId, creditId: source.id, kg, payment, ref: delivery.deliveryId });
+  onStep?.('settle');
+  return { ...result, kg, payment };
+};
+
+/**
+ * Pays for several deliveries at once, e.g. a procurement basket: each one's
+ * unpaid kg is split across the producer's source credits, then a single
+ * basket escrow takes the whole payment, so either all of it is in escrow or
+ * none is. The trades settle together once every producer has accepted.
+ */
+export const payForBasket = async (
+  client: SettlementClient,
+  deliveries: Delivery[],
+  onStep?: (step: SettlementStep) => void,
+) => {
+  // Deliveries from offers sharing credits draw on the same sources
+  const drawn = new Map<number, number>();
+  const legs = deliveries.flatMap(delivery => {
+    const delivered: EscrowParams[] = [];
+    let owedKg = unpaidKg(delivery);
+    while (owedKg > 0) {
+      const sources = delivery.sourceCredits
+        .map(c => ({ ...c, amount: c.amount - (drawn.get(c.id) ?? 0) }))
+        .filter(c => c.amount > 0);
+      const source = deliverySource(sources, owedKg);
+      if (!source) throw new Error(`${delivery.producerName} no longer holds enough of the credits for ${delivery.txId}`);
+      const kg = Math.min(source.amount, owedKg);
+      delivered.push({ seller: delivery.producerId, creditId: source.id, kg, payment: paymentFor(delivery, kg), ref: delivery.deliveryId });
+      drawn.set(source.id, (drawn.get(source.id) ?? 0) + kg);
+      owedKg -= kg;
+    }
+    return delivered;
+  });
+  if (legs.length === 0) throw new Error('This basket is already paid for');
+
+  onStep?.('approve');
+  await client.approveBasket(legs);
+  onStep?.('escrow');
+  const result = await client.escrowBasket(legs);
+  onStep?.('settle');
+  return { ...result, payment: legs.reduce((sum, leg) => sum + leg.payment, 0) };
+};
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CONTRACT_ADDRESS?: string;
+  readonly VITE_RPC_URL?: string;
+  readonly VITE_PAYMENT_TOKEN_ADDRESS?: string;
+  readonly VITE_ESCROW_ADDRESS?: string;
+}
+
+interface Window {
+  ethereum?: import('ethers').Eip1193Provider;
+}
@@ -81,6 +81,20 @@ export default {
 					dark: 'hsl(var(--public-dark))',
 					accent: 'hsl(var(--public-accent))'
 				},
+				auditor: {
+					DEFAULT: 'hsl(var(--auditor))',
+					foreground: 'hsl(var(--auditor-foreground))',
+					light: 'hsl(var(--auditor-light))',
+					dark: 'hsl(var(--auditor-dark))',
+					accent: 'hsl(var(--auditor-accent))'
+				},
+				certifier: {
+					DEFAULT: 'hsl(var(--certifier))',
+					foreground: 'hsl(var(--certifier-foreground))',
+					light: 'hsl(var(--certifier-light))',
+					dark: 'hsl(var(--certifier-dark))',
+					accent: 'hsl(var(--certifier-accent))'
+				},
 				// Enhanced system colors
 				success: {
 					DEFAULT: 'hsl(var(--success))',
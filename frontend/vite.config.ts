@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // Serve ../shared (code common to the frontend and the server) in dev
+    fs: {
+      allow: [".", "../shared"],
+    },
   },
   plugins: [
     react(),
@@ -17,6 +21,7 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "../shared"),
     },
   },
 }));
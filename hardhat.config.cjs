@@ -1,3 +1,5 @@
+require("@nomicfoundation/hardhat-toolbox");
+
 module.exports = {
   solidity: {
     version: "0.8.20",
@@ -6,6 +8,13 @@ module.exports = {
       viaIR: true
     }
   },
+  typechain: {
+    // Generated bindings are consumed by the frontend contract client.
+    // The toolbox skips typechain for .cjs configs unless told otherwise.
+    outDir: "frontend/src/contracts/typechain",
+    target: "ethers-v6",
+    dontOverrideCompile: false
+  },
   networks: {
     sepolia: {
       url: "https://eth-sepolia.g.alchemy.com/v2/wTVReTh5ooHgm95FUBWYG",
@@ -13,4 +22,3 @@ module.exports = {
     }
   }
 };
-
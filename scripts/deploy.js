@@ -14,9 +14,23 @@ async function main() {
   console.log("✅ Green Hydrogen Credit System deployed to:", contractAddress);
 
   // Get the deployer account (regulator)
-  const [deployer] = await ethers.getSigners();
+  const signers = await ethers.getSigners();
+  const [deployer] = signers;
   console.log("🏛️  Regulator address:", deployer.address);
 
+  // Payment token and escrow come next so their addresses stay fixed on a fresh node
+  const MockStablecoin = await ethers.getContractFactory("MockStablecoin");
+  const stablecoin = await MockStablecoin.deploy();
+  await stablecoin.waitForDeployment();
+  const stablecoinAddress = await stablecoin.getAddress();
+  console.log("✅ Mock USD (mUSD) deployed to:", stablecoinAddress);
+
+  const CreditEscrow = await ethers.getContractFactory("CreditEscrow");
+  const escrow = await CreditEscrow.deploy(contractAddress, stablecoinAddress);
+  await escrow.waitForDeployment();
+  const escrowAddress = await escrow.getAddress();
+  console.log("✅ Credit escrow deployed to:", escrowAddress);
+
   // Set up initial configuration
   console.log("\n🔧 Setting up initial configuration...");
 
@@ -153,9 +167,26 @@ async function main() {
     console.log("   ❌ Failed to create/verify batch:", error.message);
   }
 
+  // Fund buyer accounts and let the sample producers settle through the escrow
+  console.log("\n💵 Funding buyers and approving the escrow...");
+  try {
+    for (const buyer of signers.slice(4, 10)) {
+      await (await stablecoin.mint(buyer.address, ethers.parseUnits("10000", 6))).wait();
+      console.log(`   ✅ Minted 10,000 mUSD to ${buyer.address}`);
+    }
+    for (const producer of signers.slice(1, 4)) {
+      await (await greenHydrogenCredit.connect(producer).setOperator(escrowAddress, true)).wait();
+      console.log(`   ✅ ${producer.address} approved the escrow`);
+    }
+  } catch (error) {
+    console.log("   ❌ Failed to fund buyers or approve the escrow:", error.message);
+  }
+
   console.log("\n🎉 Deployment and setup completed successfully!");
   console.log("\n📊 System Summary:");
   console.log("   • Contract Address:", contractAddress);
+  console.log("   • Payment Token (mUSD):", stablecoinAddress);
+  console.log("   • Escrow:", escrowAddress);
   console.log("   • Regulator:", deployer.address);
   console.log("   • Auditors Registered:", sampleAuditors.length);
   console.log("   • Sample Credits Issued:", sampleCredits.length);
@@ -0,0 +1,179 @@
+import { kgToCredits, kgToTonnes } from '../../shared/quantity.js';
+import { badRequest } from './errors.js';
+import { projectCredits, type CreditState } from './projections.js';
+import type { Database } from './store.js';
+import { isListingTradable, sellableCredits } from './trading.js';
+import type {
+  AnalyticsInterval,
+  AnalyticsRange,
+  ChainEvent,
+  LedgerRecord,
+  MarketAnalytics,
+  PriceBar,
+  ProducerVolume,
+} from './types.js';
+
+type Credits = ReadonlyMap<number, CreditState>;
+
+// Producers charted individually in the issuance series; the rest are summed under `other`.
+const ISSUANCE_SERIES_PRODUCERS = 5;
+const TOP_PRODUCERS = 10;
+// Longest series a request can ask for, e.g. about three years of days.
+const MAX_PERIODS = 1100;
+
+const inRange = (timestamp: string, range: AnalyticsRange) => {
+  const date = timestamp.slice(0, 10);
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+};
+
+// The period a timestamp falls in: its day, the Monday starting its week, or its month.
+export const periodOf = (timestamp: string, interval: AnalyticsInterval) => {
+  const date = timestamp.slice(0, 10);
+  if (interval === 'day') return date;
+  if (interval === 'month') return date.slice(0, 7);
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+  return day.toISOString().slice(0, 10);
+};
+
+const nextPeriod = (period: string, interval: AnalyticsInterval) => {
+  if (interval === 'month') {
+    const month = new Date(`${period}-01T00:00:00Z`);
+    month.setUTCMonth(month.getUTCMonth() + 1);
+    return month.toISOString().slice(0, 7);
+  }
+  const day = new Date(`${period}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + (interval === 'week' ? 7 : 1));
+  return day.toISOString().slice(0, 10);
+};
+
+// Every period from `first` through `last`, so charts show the quiet ones too.
+export const periodsBetween = (first: string, last: string, interval: AnalyticsInterval) => {
+  const periods: string[] = [];
+  for (let period = first; period <= last; period = nextPeriod(period, interval)) {
+    periods.push(period);
+    if (periods.length > MAX_PERIODS) throw badRequest(`Too many ${interval}s in this range; pick a longer interval or a shorter range`);
+  }
+  return periods;
+};
+
+const trades = (ledger: readonly LedgerRecord[], range: AnalyticsRange) =>
+  ledger
+    .filter((r): r is LedgerRecord & { pricePerCredit: number } =>
+      r.type === 'trade' && r.pricePerCredit !== undefined && inRange(r.timestamp, range)
+    )
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+// OHLC and VWAP of marketplace trades per period; periods without trades are left out.
+export const priceSeries = (ledger: readonly LedgerRecord[], range: AnalyticsRange): PriceBar[] => {
+  const bars = new Map<string, PriceBar & { value: number }>();
+  for (const trade of trades(ledger, range)) {
+    const period = periodOf(trade.timestamp, range.interval);
+    const price = trade.pricePerCredit;
+    const bar = bars.get(period) ??
+      { period, open: price, high: price, low: price, close: price, vwap: price, credits: 0, trades: 0, value: 0 };
+    bar.high = Math.max(bar.high, price);
+    bar.low = Math.min(bar.low, price);
+    bar.close = price;
+    bar.credits += trade.credits;
+    bar.value += trade.credits * price;
+    bar.trades += 1;
+    bar.vwap = bar.value / bar.credits;
+    bars.set(period, bar);
+  }
+  return [...bars.values()].map(({ value: _value, ...bar }) => bar);
+};
+
+const issuances = (events: readonly ChainEvent[], credits: Credits, range: AnalyticsRange) =>
+  events
+    .filter(e => e.name === 'CreditIssued' && inRange(e.timestamp, range))
+    .map(e => ({ timestamp: e.timestamp, credit: credits.get(Number(e.args.id)) }))
+    .filter((i): i is { timestamp: string; credit: CreditState } => i.credit !== undefined);
+
+const producerVolumes = (issued: ReturnType<typeof issuances>): ProducerVolume[] => {
+  const byProducer = new Map<string, ProducerVolume>();
+  for (const { credit } of issued) {
+    const key = credit.producer.toLowerCase();
+    const producer = byProducer.get(key) ?? { producer: credit.producer, name: credit.producerName, credits: 0 };
+    producer.credits += kgToCredits(credit.amount);
+    byProducer.set(key, producer);
+  }
+  return [...byProducer.values()].sort((a, b) => b.credits - a.credits);
+};
+
+// Credits issued per producer in each period, keyed by producer address.
+export const issuanceSeries = (events: readonly ChainEvent[], range: AnalyticsRange, credits: Credits = projectCredits(events)) => {
+  const issued = issuances(events, credits, range);
+  const ranked = producerVolumes(issued);
+  const charted = ranked.slice(0, ISSUANCE_SERIES_PRODUCERS);
+  const keyOf = (producer: string) =>
+    charted.some(p => p.producer.toLowerCase() === producer.toLowerCase()) ? producer.toLowerCase() : 'other';
+  const producers = charted.map(p => ({ key: p.producer.toLowerCase(), name: p.name }));
+  if (ranked.length > charted.length) producers.push({ key: 'other', name: 'Other producers' });
+
+  if (issued.length === 0) return { producers, series: [] };
+  const first = periodOf(range.from ?? issued[0].timestamp, range.interval);
+  const last = periodOf(range.to ?? issued[issued.length - 1].timestamp, range.interval);
+  const rows = new Map(periodsBetween(first, last, range.interval).map(period => [
+    period,
+    { period, ...Object.fromEntries(producers.map(p => [p.key, 0])) } as Record<string, string | number>,
+  ]));
+  for (const { timestamp, credit } of issued) {
+    const row = rows.get(periodOf(timestamp, range.interval));
+    const key = keyOf(credit.producer);
+    if (row) row[key] = (row[key] as number) + kgToCredits(credit.amount);
+  }
+  return { producers, series: [...rows.values()] };
+};
+
+// Running issued, retired and circulating credits at the end of each day in the range with either.
+export const supplySeries = (events: readonly ChainEvent[], range: AnalyticsRange, credits: Credits = projectCredits(events)) => {
+  const daily = new Map<string, { issued: number; retired: number; circulating: number }>();
+  let issued = 0;
+  let retired = 0;
+
+  for (const event of events) {
+    if (event.name !== 'CreditIssued' && event.name !== 'CreditRetired') continue;
+    const credit = credits.get(Number(event.args.id));
+    if (!credit) continue;
+    if (event.name === 'CreditIssued') issued += kgToCredits(credit.amount);
+    else retired += kgToCredits(credit.amount);
+    if (inRange(event.timestamp, range)) {
+      daily.set(event.timestamp.slice(0, 10), { issued, retired, circulating: issued - retired });
+    }
+  }
+  return [...daily].map(([date, totals]) => ({ date, ...totals }));
+};
+
+export const topProducers = (events: readonly ChainEvent[], range: AnalyticsRange, credits: Credits = projectCredits(events)) =>
+  producerVolumes(issuances(events, credits, range)).slice(0, TOP_PRODUCERS);
+
+/**
+ * Market figures computed from indexed issuances and retirements and from
+ * marketplace trades, as chart-ready series over `range`.
+ */
+export const marketAnalytics = (db: Readonly<Database>, range: AnalyticsRange): MarketAnalytics => {
+  const credits = projectCredits(db.chainEvents);
+  const issued = issuances(db.chainEvents, credits, range);
+  const traded = trades(db.ledger, range);
+  const creditsTraded = traded.reduce((sum, t) => sum + t.credits, 0);
+  const value = traded.reduce((sum, t) => sum + t.credits * t.pricePerCredit, 0);
+
+  return {
+    range,
+    summary: {
+      creditsAvailable: db.listings
+        .filter(l => isListingTradable(l))
+        .reduce((sum, l) => sum + sellableCredits(db, l, credits), 0),
+      tonnesIssued: kgToTonnes(issued.reduce((sum, i) => sum + i.credit.amount, 0)),
+      activeProducers: new Set(issued.map(i => i.credit.producer.toLowerCase())).size,
+      vwap: creditsTraded > 0 ? value / creditsTraded : null,
+      creditsTraded,
+      trades: traded.length,
+    },
+    prices: priceSeries(db.ledger, range),
+    issuance: issuanceSeries(db.chainEvents, range, credits),
+    supply: supplySeries(db.chainEvents, range, credits),
+    topProducers: topProducers(db.chainEvents, range, credits),
+  };
+};
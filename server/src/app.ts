@@ -0,0 +1,56 @@
+import cors from 'cors';
+import express from 'express';
+import { authenticate } from './auth.js';
+import { config } from './config.js';
+import { errorHandler } from './errors.js';
+import type { EvidenceStore } from './evidence.js';
+import { analyticsRouter } from './routes/analytics.js';
+import { authRouter } from './routes/auth.js';
+import { chainRouter } from './routes/chain.js';
+import { creditsRouter } from './routes/credits.js';
+import { deliveriesRouter } from './routes/deliveries.js';
+import { evidenceRouter } from './routes/evidence.js';
+import { facilitiesRouter } from './routes/facilities.js';
+import { fraudRouter } from './routes/fraud.js';
+import { ledgerRouter } from './routes/ledger.js';
+import { marketplaceRouter } from './routes/marketplace.js';
+import { notificationsRouter } from './routes/notifications.js';
+import { ordersRouter } from './routes/orders.js';
+import { portfolioRouter } from './routes/portfolio.js';
+import { procurementRouter } from './routes/procurement.js';
+import { producersRouter } from './routes/producers.js';
+import { productionRouter } from './routes/production.js';
+import { usersRouter } from './routes/users.js';
+import type { Store } from './store.js';
+
+export const createApp = (store: Store, evidence: EvidenceStore) => {
+  const app = express();
+
+  app.use(cors({ origin: config.corsOrigin, exposedHeaders: ['X-Total-Count'] }));
+  app.use(authenticate(store));
+  // Evidence uploads are raw files, JSON meter data included, so they bypass JSON body parsing.
+  app.use('/api', evidenceRouter(store, evidence));
+  app.use(express.json());
+
+  const api = express.Router();
+  api.use(analyticsRouter(store));
+  api.use(authRouter(store));
+  api.use(chainRouter(store));
+  api.use(creditsRouter(store));
+  api.use(deliveriesRouter(store));
+  api.use(facilitiesRouter(store));
+  api.use(fraudRouter(store));
+  api.use(ledgerRouter(store));
+  api.use(marketplaceRouter(store));
+  api.use(notificationsRouter(store));
+  api.use(ordersRouter(store));
+  api.use(portfolioRouter(store));
+  api.use(procurementRouter(store));
+  api.use(producersRouter(store));
+  api.use(productionRouter(store));
+  api.use(usersRouter(store));
+  app.use('/api', api);
+
+  app.use(errorHandler);
+  return app;
+};
@@ -0,0 +1,70 @@
+import type { Request, RequestHandler } from 'express';
+import { forbidden, unauthorized } from './errors.js';
+import { readChainRoles, type ChainRoles } from './chain.js';
+import type { Database, Store } from './store.js';
+import type { Role, User } from './types.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+export const bearerToken = (req: Request) => {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+};
+
+// Resolves the bearer token (if any) to a user; routes decide whether one is required. Expired sessions count as none.
+export const authenticate = (store: Store): RequestHandler => (req, _res, next) => {
+  const token = bearerToken(req);
+  if (token) {
+    const now = new Date().toISOString();
+    req.user = store.read(db => {
+      const session = db.sessions.find(s => s.token === token && s.expiresAt > now);
+      return session && db.users.find(u => u.id === session.userId);
+    });
+  }
+  next();
+};
+
+export const requireRole = (...roles: Role[]): RequestHandler => (req, _res, next) => {
+  if (!req.user) throw unauthorized();
+  if (roles.length > 0 && !roles.includes(req.user.role)) {
+    throw forbidden(`Requires role: ${roles.join(' or ')}`);
+  }
+  next();
+};
+
+export const currentUser = (req: Request): User => {
+  if (!req.user) throw unauthorized();
+  return req.user;
+};
+
+// Rejects requests that act on behalf of someone other than the signed-in user.
+export const assertSelf = (req: Request, userId: string) => {
+  const user = currentUser(req);
+  if (user.id !== userId) throw forbidden('Cannot act on behalf of another user');
+  return user;
+};
+
+// Dashboard role for a wallet, derived from contract state rather than user choice. A wallet
+// holds no credits until its first report is approved, so a regulator's registration also
+// makes it a producer.
+export const roleFromChain = (roles: ChainRoles, registeredProducer = false): Role => {
+  if (roles.regulator) return 'regulator';
+  if (roles.certifier) return 'certifier';
+  if (roles.auditor) return 'auditor';
+  if (roles.producer || registeredProducer) return 'producer';
+  return 'buyer';
+};
+
+export const isRegisteredProducer = (db: Readonly<Database>, address: string) =>
+  db.producerRegistrations.some(r => r.address.toLowerCase() === address.toLowerCase());
+
+export const resolveRole = async (store: Store, address: string) => {
+  const roles = await readChainRoles(address);
+  return roleFromChain(roles, store.read(db => isRegisteredProducer(db, address)));
+};
@@ -0,0 +1,53 @@
+import { config } from './config.js';
+import type { CapacityCheck, Facility, ProductionReport } from './types.js';
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Theoretical minimum electricity per kg of H2 (higher heating value); no electrolyzer does better.
+export const MIN_KWH_PER_KG = 39.4;
+
+export interface ReportingPeriod {
+  start: Date;
+  end: Date;
+}
+
+const utcDate = (date: string) => new Date(`${date}T00:00:00Z`);
+
+/**
+ * The span a report's output was produced in: the meter data's intervals when
+ * attached, otherwise whole UTC days from `periodStart` (or `productionDate`
+ * alone) through `productionDate`. Null when the report gives no dates at all.
+ */
+export const reportingPeriod = (
+  report: Pick<ProductionReport, 'meterData' | 'periodStart' | 'productionDate'>,
+): ReportingPeriod | null => {
+  const meter = report.meterData?.meter;
+  if (meter) return { start: new Date(meter.periodStart), end: new Date(meter.periodEnd) };
+  if (!report.productionDate) return null;
+  return {
+    start: utcDate(report.periodStart ?? report.productionDate),
+    end: new Date(utcDate(report.productionDate).getTime() + DAY_MS),
+  };
+};
+
+// Compares claimed output with nameplate capacity over the part of the period the facility was running.
+export const checkCapacity = (facility: Facility, period: ReportingPeriod, claimedKg: number): CapacityCheck => {
+  const from = Math.max(period.start.getTime(), utcDate(facility.commissioningDate).getTime());
+  const operatingHours = Math.max(0, (period.end.getTime() - from) / HOUR_MS);
+  const maxKg = Number(((facility.capacityKgPerDay * operatingHours) / 24).toFixed(3));
+  const utilization = maxKg > 0 ? Number((claimedKg / maxKg).toFixed(4)) : null;
+  const exceedsCapacity = claimedKg > maxKg;
+
+  return {
+    facilityId: facility.facilityId,
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    operatingHours: Number(operatingHours.toFixed(2)),
+    maxKg,
+    claimedKg,
+    utilization,
+    exceedsCapacity,
+    flagged: !exceedsCapacity && utilization !== null && utilization >= config.capacityFlagUtilization,
+  };
+};
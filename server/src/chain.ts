@@ -0,0 +1,119 @@
+import { Contract, formatUnits, JsonRpcProvider, Network } from 'ethers';
+import { config } from './config.js';
+import { HttpError } from './errors.js';
+
+// The subset of GreenHydrogenCredit the server reads.
+const abi = [
+  'function regulator() view returns (address)',
+  'function certifier() view returns (address)',
+  'function isAuditor(address) view returns (bool)',
+  'function getProducerCredits(address producer) view returns (uint256[])',
+  'function getCredit(uint256 id) view returns (tuple(uint256 id, address owner, address producer, string producerName, uint256 amount, uint256 productionDate, string renewableSource, string location, uint256 carbonIntensity, uint8 verificationStatus, uint8 status, address certifier, uint256 certificationDate, string metadata, bool isRetired, uint256 retirementDate, string retirementReason))',
+  'event CreditIssued(uint256 indexed id, address indexed owner, address indexed producer, uint256 amount, uint256 productionDate)',
+  'event CreditVerified(uint256 indexed id, address indexed auditor, uint8 status)',
+  'event CreditRetired(uint256 indexed id, address indexed owner, string reason)',
+  'event CreditTransferred(uint256 indexed id, address indexed from, address indexed to)',
+  'event CreditSuspended(uint256 indexed id, address indexed regulator, string reason)',
+  'event CreditSplit(uint256 indexed id, uint256 indexed parentId, address indexed owner, uint256 amount)',
+  'event CreditMerged(uint256 indexed id, uint256 indexed parentId, address indexed owner, uint256 amount)',
+  'event AuditorRegistered(address indexed auditor, string name)',
+  'event AuditorDeactivated(address indexed auditor)',
+  'event ProductionBatchCreated(uint256 indexed batchId, address indexed producer, uint256 totalAmount)',
+  'event ProductionBatchVerified(uint256 indexed batchId, address indexed auditor)',
+];
+
+// The settlement escrow's events, indexed alongside the credit contract's.
+const escrowAbi = [
+  'event PaymentEscrowed(uint256 indexed tradeId, address indexed buyer, address indexed seller, uint256 creditId, uint256 amount, uint256 payment, string ref)',
+  'event TradeSettled(uint256 indexed tradeId, uint256 indexed deliveredCreditId, address indexed buyer)',
+  'event TradeRefunded(uint256 indexed tradeId, address indexed buyer, uint256 payment)',
+  'event BasketEscrowed(uint256 indexed basketId, address indexed buyer, uint256[] tradeIds, uint256 payment)',
+  'event TradeAccepted(uint256 indexed tradeId, uint256 indexed basketId, address indexed seller)',
+];
+
+const paymentTokenAbi = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+];
+
+export interface ChainRoles {
+  regulator: boolean;
+  certifier: boolean;
+  auditor: boolean;
+  producer: boolean;
+}
+
+const network = Network.from(config.chainId);
+export const provider = new JsonRpcProvider(config.rpcUrl, network, { staticNetwork: network });
+export const creditContract = new Contract(config.contractAddress, abi, provider);
+export const escrowContract = new Contract(config.escrowAddress, escrowAbi, provider);
+const paymentToken = new Contract(config.paymentTokenAddress, paymentTokenAbi, provider);
+
+let paymentDecimals: Promise<bigint> | undefined;
+
+// Converts payment token base units to whole currency units (e.g. dollars for mUSD).
+export const toPaymentUnits = async (value: bigint) => {
+  try {
+    paymentDecimals ??= paymentToken.decimals() as Promise<bigint>;
+    return Number(formatUnits(value, await paymentDecimals));
+  } catch (error) {
+    paymentDecimals = undefined;
+    throw error;
+  }
+};
+
+// A wallet's payment token balance in whole currency units.
+export const readPaymentBalance = async (address: string): Promise<number> => {
+  try {
+    return await toPaymentUnits(await paymentToken.balanceOf(address));
+  } catch (error) {
+    console.error('Failed to read payment balance from chain:', error);
+    throw new HttpError(503, 'Unable to reach the payment token');
+  }
+};
+
+export interface IssuedCredit {
+  producer: string;
+  // kg of H2
+  amount: number;
+  metadata: string;
+}
+
+// The credit `txHash` minted as `creditId`, or null if that transaction didn't issue it.
+export const readIssuedCredit = async (creditId: number, txHash: string): Promise<IssuedCredit | null> => {
+  try {
+    const receipt = await provider.getTransactionReceipt(txHash);
+    if (!receipt || receipt.status !== 1) return null;
+    const issued = receipt.logs.some(log => {
+      if (log.address.toLowerCase() !== config.contractAddress.toLowerCase()) return false;
+      const parsed = creditContract.interface.parseLog(log);
+      return parsed?.name === 'CreditIssued' && parsed.args.id === BigInt(creditId);
+    });
+    if (!issued) return null;
+    const credit = await creditContract.getCredit(creditId);
+    return { producer: credit.producer, amount: Number(credit.amount), metadata: credit.metadata };
+  } catch (error) {
+    console.error('Failed to read issued credit from chain:', error);
+    throw new HttpError(503, 'Unable to reach the credit contract');
+  }
+};
+
+export const readChainRoles = async (address: string): Promise<ChainRoles> => {
+  try {
+    const [regulator, certifier, auditor, producerCredits] = await Promise.all([
+      creditContract.regulator() as Promise<string>,
+      creditContract.certifier() as Promise<string>,
+      creditContract.isAuditor(address) as Promise<boolean>,
+      creditContract.getProducerCredits(address) as Promise<bigint[]>,
+    ]);
+    return {
+      regulator: regulator.toLowerCase() === address.toLowerCase(),
+      certifier: certifier.toLowerCase() === address.toLowerCase(),
+      auditor,
+      producer: producerCredits.length > 0,
+    };
+  } catch (error) {
+    console.error('Failed to read roles from chain:', error);
+    throw new HttpError(503, 'Unable to reach the credit contract');
+  }
+};
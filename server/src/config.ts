@@ -0,0 +1,44 @@
+import { resolve } from 'node:path';
+
+export const config = {
+  port: Number(process.env.PORT ?? 3001),
+  corsOrigin: process.env.CORS_ORIGIN ?? 'http://localhost:8080',
+  dataFile: resolve(process.env.DATA_FILE ?? 'data/db.json'),
+  // Content-addressed evidence uploads: directory, per-file size limit and files per report.
+  evidenceDir: resolve(process.env.EVIDENCE_DIR ?? 'data/evidence'),
+  evidenceMaxBytes: Number(process.env.EVIDENCE_MAX_BYTES ?? 10 * 1024 * 1024),
+  evidenceMaxFiles: Number(process.env.EVIDENCE_MAX_FILES ?? 10),
+  // Meter data: gCO2/kWh charged for grid energy when an interval doesn't give its own factor,
+  // and the intensity above which reports are flagged (mirrors MAX_CARBON_INTENSITY in the contract).
+  gridEmissionFactor: Number(process.env.GRID_EMISSION_FACTOR ?? 400),
+  maxCarbonIntensity: 50,
+  // Reports claiming more than this share of a facility's nameplate output are flagged for review.
+  capacityFlagUtilization: Number(process.env.CAPACITY_FLAG_UTILIZATION ?? 0.9),
+  // Fraud rules: a credit returning to an earlier holder within this many hours is a rapid round trip,
+  // and a report whose daily output is this many times its facility's recent median is a volume spike.
+  fraudRoundTripHours: Number(process.env.FRAUD_ROUND_TRIP_HOURS ?? 72),
+  fraudVolumeSpikeFactor: Number(process.env.FRAUD_VOLUME_SPIKE_FACTOR ?? 3),
+  // How often credits are checked for upcoming expiry, to notify their owners.
+  expirySweepMs: Number(process.env.EXPIRY_SWEEP_MS ?? 60 * 60 * 1000),
+  // How long a buyer has to pay a trade into escrow before its reservation lapses, and how often lapsed ones are released.
+  paymentWindowMs: Number(process.env.PAYMENT_WINDOW_MS ?? 24 * 60 * 60 * 1000),
+  paymentSweepMs: Number(process.env.PAYMENT_SWEEP_MS ?? 10 * 60 * 1000),
+  // Defaults match a fresh `npx hardhat node` + `scripts/deploy.js` run.
+  rpcUrl: process.env.RPC_URL ?? 'http://127.0.0.1:8545',
+  chainId: Number(process.env.CHAIN_ID ?? 31337),
+  contractAddress: process.env.CONTRACT_ADDRESS ?? '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  // ERC-20 buyers pay in (the mock mUSD locally) and the escrow that swaps it for credits.
+  paymentTokenAddress: process.env.PAYMENT_TOKEN_ADDRESS ?? '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+  escrowAddress: process.env.ESCROW_ADDRESS ?? '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+  // Event indexer: first block to replay from, blocks per getLogs call, poll interval,
+  // and how many recent block hashes to keep for reorg detection.
+  indexerStartBlock: Number(process.env.INDEXER_START_BLOCK ?? 0),
+  indexerBatchSize: Number(process.env.INDEXER_BATCH_SIZE ?? 2000),
+  indexerPollMs: Number(process.env.INDEXER_POLL_MS ?? 2000),
+  indexerReorgDepth: Number(process.env.INDEXER_REORG_DEPTH ?? 64),
+  // Rows written per chunk when streaming CSV/XLSX/JSON exports.
+  exportPageSize: Number(process.env.EXPORT_PAGE_SIZE ?? 500),
+  // How long a sign-in challenge stays valid, and how long a session lasts before signing in again.
+  challengeTtlMs: Number(process.env.CHALLENGE_TTL_MS ?? 5 * 60 * 1000),
+  sessionTtlMs: Number(process.env.SESSION_TTL_MS ?? 7 * 24 * 60 * 60 * 1000),
+};
@@ -0,0 +1,162 @@
+import { isCreditExpired } from '../../shared/expiry.js';
+import { KG_PER_CREDIT } from '../../shared/quantity.js';
+import { descendants, projectCredits, type CreditState } from './projections.js';
+import type { Database } from './store.js';
+import type { Delivery, MarketplaceListing, Transaction } from './types.js';
+
+export type DeliveryStatus = 'pending' | 'delivered';
+
+// `accepted` basket trades wait for the basket's other sellers and settle with them.
+export type EscrowStatus = 'escrowed' | 'accepted' | 'settled' | 'refunded';
+
+// A payment the buyer escrowed for a delivery; the producer settles it by swapping in the credit.
+export interface EscrowPayment {
+  tradeId: number;
+  creditId: number;
+  kg: number;
+  // In payment currency units
+  payment: number;
+  status: EscrowStatus;
+  txHash: string;
+  // Set when the trade was escrowed as part of a basket
+  basketId?: number;
+}
+
+export interface DeliveryState extends Delivery {
+  deliveredKg: number;
+  // Paid for in escrow and not yet settled or refunded; an underpaid escrow counts for the kg its payment covers
+  escrowedKg: number;
+  escrows: EscrowPayment[];
+  status: DeliveryStatus;
+}
+
+type Credits = ReadonlyMap<number, CreditState>;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// The kg of a delivery that `payment` pays for in full, at most `kg`.
+const coveredKg = (kg: number, payment: number, pricePerCredit: number) =>
+  pricePerCredit > 0 ? Math.min(kg, Math.floor(payment / pricePerCredit * KG_PER_CREDIT + 1e-6)) : kg;
+
+// Still in escrow: neither settled nor refunded.
+export const isHeld = (status: EscrowStatus) => status === 'escrowed' || status === 'accepted';
+
+/**
+ * Credits the producer can still deliver an offer from: whatever they hold of
+ * the offer's backing credits and the parts split or merged from them, as long
+ * as it could be transferred today.
+ */
+export const deliverableCredits = (credits: Credits, listing: Pick<MarketplaceListing, 'producerId' | 'creditIds'>) =>
+  [...descendants(credits, listing.creditIds ?? [])]
+    .map(id => credits.get(id)!)
+    .filter(c =>
+      sameAddress(c.owner, listing.producerId) &&
+      c.verified &&
+      !c.superseded &&
+      !c.retired &&
+      !c.suspended &&
+      !isCreditExpired(c.productionDate)
+    );
+
+/**
+ * Settles deliveries against indexed transfers from producer to buyer, oldest
+ * delivery first. A transfer counts towards an offer when its credit descends
+ * from the offer's backing credits; one transfer can settle several deliveries
+ * and several transfers one delivery. Derived on every read, like fraud flags.
+ */
+export const deliveryStates = (db: Readonly<Database>, credits: Credits = projectCredits(db.chainEvents)): DeliveryState[] => {
+  const transfers = db.chainEvents
+    .filter(e => e.name === 'CreditTransferred')
+    .map(e => ({
+      creditId: Number(e.args.id),
+      from: e.args.from,
+      to: e.args.to,
+      unclaimedKg: credits.get(Number(e.args.id))?.amount ?? 0,
+    }));
+
+  // Escrowed payments reference the delivery they pay for; settlement and refund events close them.
+  const escrows = new Map<number, EscrowPayment & { ref: string; buyer: string; seller: string }>();
+  for (const e of db.chainEvents) {
+    const tradeId = Number(e.args.tradeId);
+    if (e.name === 'PaymentEscrowed') {
+      escrows.set(tradeId, {
+        tradeId,
+        creditId: Number(e.args.creditId),
+        kg: Number(e.args.amount),
+        payment: Number(e.args.paymentValue),
+        status: 'escrowed',
+        txHash: e.txHash,
+        ref: e.args.ref,
+        buyer: e.args.buyer,
+        seller: e.args.seller,
+      });
+    } else if (e.name === 'BasketEscrowed') {
+      for (const id of e.args.tradeIds.split(',')) {
+        const escrow = escrows.get(Number(id));
+        if (escrow) escrow.basketId = Number(e.args.basketId);
+      }
+    } else if (e.name === 'TradeAccepted') {
+      const escrow = escrows.get(tradeId);
+      if (escrow?.status === 'escrowed') escrow.status = 'accepted';
+    } else if (e.name === 'TradeSettled' || e.name === 'TradeRefunded') {
+      const escrow = escrows.get(tradeId);
+      if (escrow) escrow.status = e.name === 'TradeSettled' ? 'settled' : 'refunded';
+    }
+  }
+
+  const lineages = new Map<string, Set<number>>();
+  const lineageOf = (offerId: string) => {
+    let lineage = lineages.get(offerId);
+    if (!lineage) {
+      const listing = db.listings.find(l => l.offerId === offerId);
+      lineage = descendants(credits, listing?.creditIds ?? []);
+      lineages.set(offerId, lineage);
+    }
+    return lineage;
+  };
+
+  return [...db.deliveries]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(delivery => {
+      const lineage = lineageOf(delivery.offerId);
+      let owedKg = delivery.kg;
+      for (const transfer of transfers) {
+        if (owedKg === 0) break;
+        if (
+          transfer.unclaimedKg === 0 ||
+          !lineage.has(transfer.creditId) ||
+          !sameAddress(transfer.from, delivery.producerId) ||
+          !sameAddress(transfer.to, delivery.buyerId)
+        ) continue;
+        const kg = Math.min(owedKg, transfer.unclaimedKg);
+        transfer.unclaimedKg -= kg;
+        owedKg -= kg;
+      }
+      const payments = [...escrows.values()]
+        .filter(p => p.ref === delivery.deliveryId && sameAddress(p.buyer, delivery.buyerId) && sameAddress(p.seller, delivery.producerId))
+        .map(({ ref: _ref, buyer: _buyer, seller: _seller, ...payment }) => payment);
+      return {
+        ...delivery,
+        deliveredKg: delivery.kg - owedKg,
+        escrowedKg: payments
+          .filter(p => isHeld(p.status))
+          .reduce((sum, p) => sum + coveredKg(p.kg, p.payment, delivery.pricePerCredit), 0),
+        escrows: payments,
+        status: owedKg === 0 ? 'delivered' : 'pending',
+      };
+    });
+};
+
+// What the buyer still has to pay into escrow for a delivery, in payment currency units.
+export const unpaidValue = (delivery: DeliveryState) =>
+  Math.max(delivery.kg - delivery.deliveredKg - delivery.escrowedKg, 0) / KG_PER_CREDIT * delivery.pricePerCredit;
+
+// Where a trade's delivery stands, as its transaction status.
+export const tradeStatus = (delivery: DeliveryState): Transaction['status'] =>
+  delivery.status === 'delivered' ? 'completed' : unpaidValue(delivery) > 0 ? 'pending' : 'escrowed';
+
+// kg sold from an offer that the producer has yet to transfer.
+export const undeliveredKg = (states: DeliveryState[], offerId: string) =>
+  states
+    .filter(d => d.offerId === offerId)
+    .reduce((sum, d) => sum + d.kg - d.deliveredKg, 0);
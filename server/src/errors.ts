@@ -0,0 +1,34 @@
+import type { ErrorRequestHandler } from 'express';
+import { ZodError } from 'zod';
+
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const badRequest = (message: string) => new HttpError(400, message);
+export const unauthorized = (message = 'Authentication required') => new HttpError(401, message);
+export const forbidden = (message = 'Not allowed') => new HttpError(403, message);
+export const notFound = (message: string) => new HttpError(404, message);
+export const conflict = (message: string) => new HttpError(409, message);
+export const unsupportedMediaType = (message: string) => new HttpError(415, message);
+
+export const errorHandler: ErrorRequestHandler = (error, _req, res, _next) => {
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  if (error instanceof ZodError) {
+    res.status(400).json({ error: 'Invalid request', issues: error.issues });
+    return;
+  }
+  // Body parser failures (malformed JSON, oversized uploads) carry their own client status.
+  if (error?.expose && typeof error.status === 'number') {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  console.error('Unhandled error:', error);
+  res.status(500).json({ error: 'Internal server error' });
+};
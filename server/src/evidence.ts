@@ -0,0 +1,56 @@
+import { createHash } from 'node:crypto';
+import { access, mkdir, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { EvidenceType } from './types.js';
+
+export const evidenceTypes = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'text/csv',
+  'application/json',
+] as const satisfies readonly EvidenceType[];
+
+export const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+const ascii = (bytes: Buffer, start: number, end: number) => bytes.subarray(start, end).toString('latin1');
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Identifies a document or image from its leading bytes, so the declared Content-Type can't lie.
+// Meter data has no signature; it is validated by parsing instead.
+export const sniffEvidenceType = (bytes: Buffer): EvidenceType | null => {
+  if (ascii(bytes, 0, 5) === '%PDF-') return 'application/pdf';
+  if (bytes.subarray(0, 8).equals(PNG_SIGNATURE)) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp';
+  return null;
+};
+
+/**
+ * Content-addressed blob store on the local filesystem. Files are named by
+ * their SHA-256 and sharded by the first two hex digits, so identical uploads
+ * share one copy and a file can never change under its hash.
+ */
+export class EvidenceStore {
+  constructor(private readonly dir: string) {}
+
+  pathFor(sha256: string) {
+    if (!SHA256_PATTERN.test(sha256)) throw new Error(`Invalid evidence hash ${sha256}`);
+    return join(this.dir, sha256.slice(0, 2), sha256);
+  }
+
+  async put(bytes: Buffer) {
+    const sha256 = createHash('sha256').update(bytes).digest('hex');
+    const path = this.pathFor(sha256);
+    const exists = await access(path).then(() => true, () => false);
+    if (!exists) {
+      await mkdir(join(this.dir, sha256.slice(0, 2)), { recursive: true });
+      const tmp = `${path}.${process.pid}.tmp`;
+      await writeFile(tmp, bytes);
+      await rename(tmp, path);
+    }
+    return sha256;
+  }
+}
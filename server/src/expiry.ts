@@ -0,0 +1,104 @@
+import { creditExpiresAt, expiryWarningWindow, isCreditExpired } from '../../shared/expiry.js';
+import { config } from './config.js';
+import { projectCredits, type CreditState } from './projections.js';
+import { displayName, nextId, type Database, type Store } from './store.js';
+import type { Notification } from './types.js';
+
+// Retired credits are spent and superseded ones live on in their children; suspended ones stay on the books until the regulator acts.
+const outstanding = (db: Readonly<Database>) =>
+  [...projectCredits(db.chainEvents).values()].filter(c => !c.retired && !c.superseded);
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Notifies each holder once per warning window (30, 7, 1 days) a credit they
+ * hold enters. A credit first seen inside a narrow window skips the wider
+ * ones, and a new owner after a transfer is notified afresh.
+ */
+export const sweepExpiringCredits = (db: Database, now = new Date()): Notification[] => {
+  const created: Notification[] = [];
+  for (const credit of outstanding(db)) {
+    if (credit.suspended) continue;
+    const windowDays = expiryWarningWindow(creditExpiresAt(credit.productionDate), now);
+    if (windowDays === null) continue;
+    const notified = db.notifications.some(n =>
+      n.type === 'credit_expiring' &&
+      n.creditId === credit.id &&
+      sameAddress(n.userId, credit.owner) &&
+      n.windowDays <= windowDays
+    );
+    if (notified) continue;
+
+    const notification: Notification = {
+      notificationId: nextId(db, 'ntf'),
+      userId: credit.owner,
+      type: 'credit_expiring',
+      creditId: credit.id,
+      amount: credit.amount,
+      windowDays,
+      expiresAt: creditExpiresAt(credit.productionDate).toISOString(),
+      createdAt: now.toISOString(),
+      read: false,
+    };
+    db.notifications.push(notification);
+    created.push(notification);
+  }
+  return created;
+};
+
+export const startExpirySweep = (store: Store) => {
+  const tick = async () => {
+    try {
+      const created = await store.transact(db => sweepExpiringCredits(db));
+      if (created.length > 0) console.log(`Expiry sweep: notified owners of ${created.length} expiring credit(s)`);
+    } catch (error) {
+      console.error('Expiry sweep failed:', error);
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, config.expirySweepMs);
+  return () => clearInterval(timer);
+};
+
+const describeCredit = (db: Readonly<Database>, credit: CreditState) => ({
+  id: credit.id,
+  owner: credit.owner,
+  ownerName: displayName(db, credit.owner),
+  producer: credit.producer,
+  producerName: credit.producerName,
+  amount: credit.amount,
+  productionDate: credit.productionDate,
+  expiresAt: creditExpiresAt(credit.productionDate).toISOString(),
+  suspended: credit.suspended,
+});
+
+// Expired but never retired volume, for the regulator; plus what will join it within the widest warning window.
+export const expiryReport = (db: Readonly<Database>, now = new Date()) => {
+  const credits = outstanding(db);
+  const expired = credits.filter(c => isCreditExpired(c.productionDate, now));
+  const expiring = credits.filter(c => expiryWarningWindow(creditExpiresAt(c.productionDate), now) !== null);
+
+  const byProducer = new Map<string, { producer: string; producerName: string; credits: number; kg: number }>();
+  for (const credit of expired) {
+    const entry = byProducer.get(credit.producer) ??
+      { producer: credit.producer, producerName: credit.producerName, credits: 0, kg: 0 };
+    entry.credits += 1;
+    entry.kg += credit.amount;
+    byProducer.set(credit.producer, entry);
+  }
+
+  return {
+    expired: {
+      credits: expired.length,
+      kg: expired.reduce((sum, c) => sum + c.amount, 0),
+      byProducer: [...byProducer.values()].sort((a, b) => b.kg - a.kg),
+      list: expired.map(c => describeCredit(db, c)),
+    },
+    expiringSoon: {
+      credits: expiring.length,
+      kg: expiring.reduce((sum, c) => sum + c.amount, 0),
+      list: expiring.map(c => describeCredit(db, c)),
+    },
+  };
+};
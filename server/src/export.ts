@@ -0,0 +1,128 @@
+import type { Response } from 'express';
+import ExcelJS from 'exceljs';
+import { once } from 'node:events';
+import { z } from 'zod';
+import { config } from './config.js';
+
+export const exportFormats = ['csv', 'xlsx', 'json'] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+type CellValue = string | number | boolean | null | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => CellValue;
+}
+
+const contentTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+// `?format=csv&columns=txId,timestamp`; omitting `columns` exports every column in table order.
+export const exportQuerySchema = <T>(columns: readonly ExportColumn<T>[]) => {
+  const keys = columns.map(c => c.key);
+  return z.object({
+    format: z.enum(exportFormats).default('csv'),
+    columns: z
+      .string()
+      .optional()
+      .transform(value => (value ? value.split(',').map(key => key.trim()).filter(Boolean) : keys))
+      .refine(selected => selected.length > 0, 'Select at least one column')
+      .refine(selected => selected.every(key => keys.includes(key)), `Columns must be among: ${keys.join(', ')}`)
+      .transform(selected => columns.filter(c => selected.includes(c.key))),
+  });
+};
+
+// Text a spreadsheet would run as a formula gets a leading quote; names and reasons come from users.
+const csvCell = (value: CellValue) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Respects backpressure so a slow client never makes us buffer the whole
+ * export. Resolves false once the client has gone, so callers stop pulling
+ * rows instead of waiting for a drain that never comes.
+ */
+const write = async (res: Response, chunk: string) => {
+  if (res.destroyed) return false;
+  if (!res.write(chunk)) {
+    const gone = new AbortController();
+    await Promise.race([
+      once(res, 'drain', { signal: gone.signal }),
+      once(res, 'close', { signal: gone.signal }),
+    ]).catch(() => undefined);
+    gone.abort();
+  }
+  return !res.destroyed;
+};
+
+function* pages<T>(rows: Iterable<T>, size: number) {
+  let page: T[] = [];
+  for (const row of rows) {
+    page.push(row);
+    if (page.length === size) {
+      yield page;
+      page = [];
+    }
+  }
+  if (page.length > 0) yield page;
+}
+
+// Hands the event loop back between pages so a large export doesn't stall other requests.
+const nextTick = () => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * Streams `rows` to the client as a file download, one page at a time.
+ * Rows are pulled lazily from the iterable, so callers can pass a generator
+ * and never materialise the full result set.
+ */
+export const streamExport = async <T>(
+  res: Response,
+  { filename, format, columns, rows }: {
+    filename: string;
+    format: ExportFormat;
+    columns: readonly ExportColumn<T>[];
+    rows: Iterable<T>;
+  },
+) => {
+  res.setHeader('Content-Type', contentTypes[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useSharedStrings: false });
+    const sheet = workbook.addWorksheet(filename);
+    sheet.columns = columns.map(c => ({ header: c.header, key: c.key, width: 24 }));
+    for (const page of pages(rows, config.exportPageSize)) {
+      if (res.destroyed) return;
+      for (const row of page) sheet.addRow(columns.map(c => c.value(row) ?? null)).commit();
+      await nextTick();
+    }
+    sheet.commit();
+    await workbook.commit();
+    return;
+  }
+
+  if (format === 'csv') {
+    if (!await write(res, columns.map(c => csvCell(c.header)).join(',') + '\r\n')) return;
+    for (const page of pages(rows, config.exportPageSize)) {
+      if (!await write(res, page.map(row => columns.map(c => csvCell(c.value(row))).join(',') + '\r\n').join(''))) return;
+      await nextTick();
+    }
+  } else {
+    let first = true;
+    if (!await write(res, '[')) return;
+    for (const page of pages(rows, config.exportPageSize)) {
+      const records = page.map(row => JSON.stringify(Object.fromEntries(columns.map(c => [c.key, c.value(row) ?? null]))));
+      if (!await write(res, (first ? '\n' : ',\n') + records.join(',\n'))) return;
+      first = false;
+      await nextTick();
+    }
+    if (!await write(res, first ? ']' : '\n]')) return;
+  }
+  res.end();
+};
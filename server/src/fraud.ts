@@ -0,0 +1,225 @@
+import { formatKg, tonnesToKg } from '../../shared/quantity.js';
+import { reportingPeriod, type ReportingPeriod } from './capacity.js';
+import { config } from './config.js';
+import type { Database } from './store.js';
+import type { FraudFlag, FraudSeverity, ProductionReport } from './types.js';
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Volume spikes are measured against the median of this many earlier reports, and need at least MIN of them.
+const SPIKE_BASELINE_REPORTS = 5;
+const SPIKE_MIN_BASELINE = 3;
+
+const severityRank: Record<FraudSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+type Flag = Omit<FraudFlag, 'review'>;
+
+// Reports that currently claim output: drafts aren't claims yet and rejected ones no longer are.
+const claims = (db: Readonly<Database>) =>
+  db.reports.filter(r => r.status === 'submitted' || r.status === 'approved');
+
+const latest = (...timestamps: string[]) => timestamps.reduce((a, b) => (a > b ? a : b));
+
+const unique = <T>(values: T[]) => [...new Set(values)];
+
+const creditIds = (reports: ProductionReport[]) =>
+  reports.flatMap(r => (r.creditId === undefined ? [] : [r.creditId]));
+
+const withPeriods = (reports: ProductionReport[]) =>
+  reports.flatMap(report => {
+    const period = reportingPeriod(report);
+    return period ? [{ report, period }] : [];
+  });
+
+const byFacility = (reports: ProductionReport[]) => {
+  const groups = new Map<string, ProductionReport[]>();
+  for (const report of reports) {
+    if (!report.facilityId) continue;
+    groups.set(report.facilityId, [...(groups.get(report.facilityId) ?? []), report]);
+  }
+  return groups;
+};
+
+const overlaps = (a: ReportingPeriod, b: ReportingPeriod) => a.start < b.end && b.start < a.end;
+
+// "on 2025-01-03" or "between 2025-01-03 and 2025-01-05"; periods end exclusively.
+const describeOverlap = (a: ReportingPeriod, b: ReportingPeriod) => {
+  const from = new Date(Math.max(a.start.getTime(), b.start.getTime())).toISOString().slice(0, 10);
+  const to = new Date(Math.min(a.end.getTime(), b.end.getTime()) - 1).toISOString().slice(0, 10);
+  return from === to ? `on ${from}` : `between ${from} and ${to}`;
+};
+
+// The same hours at the same facility claimed by two reports.
+const overlappingPeriods = (db: Readonly<Database>): Flag[] => {
+  const flags: Flag[] = [];
+  for (const [facilityId, reports] of byFacility(claims(db))) {
+    const periods = withPeriods(reports);
+    periods.forEach((a, i) => {
+      for (const b of periods.slice(i + 1)) {
+        if (!overlaps(a.period, b.period)) continue;
+        const pair = [a.report, b.report].sort((x, y) => x.reportId.localeCompare(y.reportId));
+        const bothApproved = pair.every(r => r.status === 'approved');
+        flags.push({
+          flagId: `overlapping_period:${pair[0].reportId}:${pair[1].reportId}`,
+          rule: 'overlapping_period',
+          severity: bothApproved ? 'high' : 'medium',
+          summary:
+            `${pair[0].reportId} and ${pair[1].reportId} both claim production at ${facilityId} ` +
+            describeOverlap(a.period, b.period),
+          producerIds: unique(pair.map(r => r.producerId)),
+          reportIds: pair.map(r => r.reportId),
+          creditIds: creditIds(pair),
+          addresses: [],
+          detectedAt: latest(...pair.map(r => r.timestamp)),
+        });
+      }
+    });
+  }
+  return flags;
+};
+
+// One evidence file (by SHA-256) backing more than one report. Reused meter data double-counts volume outright.
+const reusedEvidence = (db: Readonly<Database>): Flag[] => {
+  const uses = new Map<string, { name: string; meter: boolean; reports: Set<ProductionReport> }>();
+  for (const report of claims(db)) {
+    const files = [...(report.evidence ?? []), ...(report.meterData ? [report.meterData] : [])];
+    for (const file of files) {
+      const use = uses.get(file.sha256) ?? { name: file.name, meter: false, reports: new Set() };
+      use.meter ||= file === report.meterData;
+      use.reports.add(report);
+      uses.set(file.sha256, use);
+    }
+  }
+
+  return [...uses]
+    .filter(([, use]) => use.reports.size > 1)
+    .map(([sha256, use]): Flag => {
+      const reports = [...use.reports].sort((a, b) => a.reportId.localeCompare(b.reportId));
+      const producerIds = unique(reports.map(r => r.producerId));
+      const reportIds = reports.map(r => r.reportId);
+      return {
+        // Keyed on the file alone; another report attaching it reopens a reviewed flag.
+        flagId: `reused_evidence:${sha256}`,
+        rule: 'reused_evidence',
+        severity: use.meter || producerIds.length > 1 ? 'high' : 'medium',
+        summary:
+          `${use.meter ? 'Meter data' : 'Evidence'} "${use.name}" (${sha256.slice(0, 12)}…) is attached to ` +
+          `${reportIds.join(', ')}${producerIds.length > 1 ? ` from ${producerIds.length} producers` : ''}`,
+        producerIds,
+        reportIds,
+        creditIds: creditIds(reports),
+        addresses: [],
+        detectedAt: latest(...reports.map(r => r.timestamp)),
+      };
+    });
+};
+
+// A credit coming back to an address that held it before: A → B → A, or a longer cycle. Split and
+// merged credits carry their parent's holders, so selling part of a credit and buying it back counts.
+const roundTripTransfers = (db: Readonly<Database>): Flag[] => {
+  const flags: Flag[] = [];
+  const holders = new Map<number, { address: string; since: string }[]>();
+  const producers = new Map<number, string>();
+
+  for (const event of db.chainEvents) {
+    const id = Number(event.args.id);
+    if (event.name === 'CreditIssued') {
+      holders.set(id, [{ address: event.args.owner, since: event.timestamp }]);
+      producers.set(id, event.args.producer);
+      continue;
+    }
+    if (event.name === 'CreditSplit' || event.name === 'CreditMerged') {
+      const parentId = Number(event.args.parentId);
+      const inherited = holders.get(parentId);
+      if (inherited && !holders.has(id)) {
+        holders.set(id, [...inherited]);
+        producers.set(id, producers.get(parentId)!);
+      }
+      continue;
+    }
+    const chain = holders.get(id);
+    if (event.name !== 'CreditTransferred' || !chain) continue;
+
+    const to = event.args.to;
+    const earlier = chain.findLastIndex(h => h.address.toLowerCase() === to.toLowerCase());
+    if (earlier >= 0 && earlier < chain.length - 1) {
+      const cycle = chain.slice(earlier).map(h => h.address);
+      // Measured from when the returning address last let the credit go
+      const hours = (Date.parse(event.timestamp) - Date.parse(chain[earlier + 1].since)) / HOUR_MS;
+      const rapid = hours <= config.fraudRoundTripHours;
+      flags.push({
+        flagId: `round_trip_transfer:${id}:${event.txHash}`,
+        rule: 'round_trip_transfer',
+        severity: rapid ? 'high' : 'low',
+        summary:
+          `Credit #${id} returned to ${to} after ${cycle.length === 2 ? 'a round trip' : `a ${cycle.length}-address cycle`} ` +
+          `(${[...cycle, to].join(' → ')}) in ${Math.round(hours)} hours`,
+        producerIds: unique([producers.get(id)!]),
+        reportIds: db.reports.filter(r => r.creditId === id).map(r => r.reportId),
+        creditIds: [id],
+        addresses: unique(cycle),
+        detectedAt: event.timestamp,
+      });
+    }
+    chain.push({ address: to, since: event.timestamp });
+  }
+  return flags;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// A report whose daily output jumps well above the facility's recent reports.
+const volumeSpikes = (db: Readonly<Database>): Flag[] => {
+  const flags: Flag[] = [];
+  for (const [facilityId, reports] of byFacility(claims(db))) {
+    const rates = withPeriods(reports)
+      .sort((a, b) => a.period.start.getTime() - b.period.start.getTime())
+      .map(({ report, period }) => ({
+        report,
+        kgPerDay: tonnesToKg(report.tons) / Math.max((period.end.getTime() - period.start.getTime()) / DAY_MS, 1 / 24),
+      }));
+
+    rates.forEach(({ report, kgPerDay }, i) => {
+      const baseline = rates.slice(Math.max(0, i - SPIKE_BASELINE_REPORTS), i).map(r => r.kgPerDay);
+      if (baseline.length < SPIKE_MIN_BASELINE) return;
+      const ratio = kgPerDay / median(baseline);
+      if (ratio < config.fraudVolumeSpikeFactor) return;
+      flags.push({
+        flagId: `volume_spike:${report.reportId}`,
+        rule: 'volume_spike',
+        severity: ratio >= 2 * config.fraudVolumeSpikeFactor ? 'high' : 'medium',
+        summary:
+          `${report.reportId} claims ${formatKg(Math.round(kgPerDay))} per day at ${facilityId}, ` +
+          `${ratio.toFixed(1)}× the median of its previous ${baseline.length} reports`,
+        producerIds: [report.producerId],
+        reportIds: [report.reportId],
+        creditIds: creditIds([report]),
+        addresses: [],
+        detectedAt: report.timestamp,
+      });
+    });
+  }
+  return flags;
+};
+
+/**
+ * Runs every detection rule over reports and indexed chain events. Flags are
+ * derived, not stored: only regulators' reviews are persisted, matched back by
+ * `flagId`. A review only holds while the flag involves no report it did not
+ * cover. Sorted most severe first, then newest first.
+ */
+export const detectFraud = (db: Readonly<Database>): FraudFlag[] => {
+  const reviews = new Map(db.fraudReviews.map(r => [r.flagId, r]));
+  const reviewOf = (flag: Flag) => {
+    const review = reviews.get(flag.flagId);
+    return review && flag.reportIds.every(id => review.reportIds.includes(id)) ? review : undefined;
+  };
+  return [...overlappingPeriods(db), ...reusedEvidence(db), ...roundTripTransfers(db), ...volumeSpikes(db)]
+    .map(flag => ({ ...flag, review: reviewOf(flag) }))
+    .sort((a, b) => severityRank[a.severity] - severityRank[b.severity] || b.detectedAt.localeCompare(a.detectedAt));
+};
@@ -0,0 +1,19 @@
+import { createApp } from './app.js';
+import { config } from './config.js';
+import { EvidenceStore } from './evidence.js';
+import { startExpirySweep } from './expiry.js';
+import { startIndexer } from './indexer.js';
+import { Store } from './store.js';
+import { startPaymentSweep } from './trading.js';
+
+const store = await Store.open(config.dataFile);
+startIndexer(store);
+startExpirySweep(store);
+startPaymentSweep(store);
+
+const evidence = new EvidenceStore(config.evidenceDir);
+
+createApp(store, evidence).listen(config.port, () => {
+  console.log(`🌱 Green Hydrogen API listening on http://localhost:${config.port}/api`);
+  console.log(`   Data file: ${config.dataFile}`);
+});
@@ -0,0 +1,177 @@
+import type { Block, Log, LogDescription } from 'ethers';
+import { creditContract, escrowContract, provider, toPaymentUnits } from './chain.js';
+import { config } from './config.js';
+import type { Store } from './store.js';
+import type { ChainEvent, ChainEventName, IndexedBlock, IndexerCheckpoint } from './types.js';
+
+export const indexedEventNames = [
+  'CreditIssued',
+  'CreditVerified',
+  'CreditTransferred',
+  'CreditRetired',
+  'CreditSuspended',
+  'CreditSplit',
+  'CreditMerged',
+  'AuditorRegistered',
+  'AuditorDeactivated',
+  'ProductionBatchCreated',
+  'ProductionBatchVerified',
+  'PaymentEscrowed',
+  'TradeSettled',
+  'TradeRefunded',
+  'BasketEscrowed',
+  'TradeAccepted',
+] as const satisfies readonly ChainEventName[];
+
+const indexedEvents = new Set<string>(indexedEventNames);
+
+const decodeArgs = (parsed: LogDescription) =>
+  Object.fromEntries(parsed.fragment.inputs.map((input, i) => [input.name, String(parsed.args[i])]));
+
+// Walks the sampled hashes newest-first and returns the highest block that is still canonical.
+const findForkPoint = async (checkpoint: IndexerCheckpoint) => {
+  for (const sample of [...checkpoint.recentBlocks].reverse()) {
+    const block = await provider.getBlock(sample.number);
+    if (block?.hash === sample.hash) return sample.number;
+  }
+  return null;
+};
+
+// Returns the checkpoint to resume from, rolling back events that a reorg orphaned.
+export const reconcile = async (store: Store) => {
+  const checkpoint = store.read(db => db.indexer);
+  if (!checkpoint) return null;
+
+  if (checkpoint.contractAddress !== config.contractAddress) {
+    console.warn(`Indexer: contract changed to ${config.contractAddress}, re-indexing from block ${config.indexerStartBlock}`);
+    await store.transact(db => {
+      db.chainEvents = [];
+      db.indexer = null;
+    });
+    return null;
+  }
+
+  const forkPoint = await findForkPoint(checkpoint);
+  if (forkPoint === checkpoint.blockNumber) return checkpoint;
+
+  console.warn(`Indexer: reorg detected at block ${checkpoint.blockNumber}, rolling back to ${forkPoint ?? 'start'}`);
+  return store.transact(db => {
+    if (forkPoint === null) {
+      db.chainEvents = [];
+      db.indexer = null;
+    } else {
+      db.chainEvents = db.chainEvents.filter(e => e.blockNumber <= forkPoint);
+      db.indexer = {
+        contractAddress: checkpoint.contractAddress,
+        blockNumber: forkPoint,
+        recentBlocks: checkpoint.recentBlocks.filter(b => b.number <= forkPoint),
+      };
+    }
+    return db.indexer;
+  });
+};
+
+const toEvent = async (log: Log, parsed: LogDescription, block: Block): Promise<ChainEvent> => {
+  const args = decodeArgs(parsed);
+  // CreditIssued omits the producer name, certifier and attributes; read them from the credit as of that block.
+  if (parsed.name === 'CreditIssued') {
+    const credit = await creditContract.getCredit(parsed.args.id, { blockTag: log.blockNumber });
+    args.producerName = credit.producerName;
+    args.certifier = credit.certifier;
+    args.renewableSource = credit.renewableSource;
+    args.location = credit.location;
+    args.carbonIntensity = String(credit.carbonIntensity);
+  }
+  // Payments are in token base units; keep the currency amount too.
+  if (parsed.name === 'PaymentEscrowed') {
+    args.paymentValue = String(await toPaymentUnits(parsed.args.payment));
+  }
+  return {
+    id: `${log.transactionHash}:${log.index}`,
+    name: parsed.name as ChainEventName,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    txHash: log.transactionHash,
+    logIndex: log.index,
+    timestamp: new Date(block.timestamp * 1000).toISOString(),
+    args,
+  };
+};
+
+/**
+ * Indexes the next range of blocks and advances the checkpoint in one store
+ * transaction, so a restart resumes exactly where the last batch ended.
+ * Resolves to true once the indexer has caught up with the chain head.
+ */
+const syncOnce = async (store: Store) => {
+  const checkpoint = await reconcile(store);
+  const head = await provider.getBlockNumber();
+  const fromBlock = checkpoint ? checkpoint.blockNumber + 1 : config.indexerStartBlock;
+  if (fromBlock > head) return true;
+  const toBlock = Math.min(head, fromBlock + config.indexerBatchSize - 1);
+
+  const blocks = new Map<number, Block>();
+  const blockAt = async (number: number) => {
+    let block = blocks.get(number);
+    if (!block) {
+      const fetched = await provider.getBlock(number);
+      if (!fetched?.hash) throw new Error(`Block ${number} is not available`);
+      block = fetched;
+      blocks.set(number, block);
+    }
+    return block;
+  };
+
+  const logs = await provider.getLogs({ address: [config.contractAddress, config.escrowAddress], fromBlock, toBlock });
+  const events: ChainEvent[] = [];
+  for (const log of logs) {
+    const contract = log.address.toLowerCase() === config.escrowAddress.toLowerCase() ? escrowContract : creditContract;
+    const parsed = contract.interface.parseLog(log);
+    if (!parsed || !indexedEvents.has(parsed.name)) continue;
+    const block = await blockAt(log.blockNumber);
+    if (block.hash !== log.blockHash) throw new Error(`Block ${log.blockNumber} was reorganised while indexing`);
+    events.push(await toEvent(log, parsed, block));
+  }
+  await blockAt(toBlock);
+
+  const sampled: IndexedBlock[] = [...blocks.values()].map(b => ({ number: b.number, hash: b.hash! }));
+  await store.transact(db => {
+    const recentBlocks = [...(db.indexer?.recentBlocks ?? []), ...sampled]
+      .sort((a, b) => a.number - b.number)
+      .slice(-config.indexerReorgDepth);
+    db.chainEvents.push(...events);
+    db.indexer = { contractAddress: config.contractAddress, blockNumber: toBlock, recentBlocks };
+  });
+
+  if (events.length > 0) console.log(`Indexer: ${events.length} event(s) from blocks ${fromBlock}-${toBlock}`);
+  return toBlock === head;
+};
+
+/**
+ * Replays contract events from the last checkpoint and then keeps polling for
+ * new blocks. Returns a function that stops the loop.
+ */
+export const startIndexer = (store: Store) => {
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  const schedule = (delay: number) => {
+    if (!stopped) timer = setTimeout(tick, delay);
+  };
+
+  const tick = async () => {
+    try {
+      const caughtUp = await syncOnce(store);
+      schedule(caughtUp ? config.indexerPollMs : 0);
+    } catch (error) {
+      console.error('Indexer sync failed:', error);
+      schedule(config.indexerPollMs);
+    }
+  };
+
+  schedule(0);
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
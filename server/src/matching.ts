@@ -0,0 +1,93 @@
+import { readPaymentBalance } from './chain.js';
+import { deliverableCredits, deliveryStates } from './deliveries.js';
+import { projectCredits, type CreditState } from './projections.js';
+import type { Database, Store } from './store.js';
+import { executeTrade, isListingTradable, sellableCredits, spendableBalance } from './trading.js';
+import type { Bid, BidConstraints, BidFill, MarketplaceListing } from './types.js';
+
+type Credits = ReadonlyMap<number, CreditState>;
+
+export const meets = (credit: CreditState, constraints: BidConstraints) => {
+  const vintage = credit.productionDate.slice(0, 10);
+  return (
+    (!constraints.renewableSource || credit.renewableSource === constraints.renewableSource) &&
+    (constraints.maxCarbonIntensity === undefined ||
+      (credit.carbonIntensity !== undefined && credit.carbonIntensity <= constraints.maxCarbonIntensity)) &&
+    (!constraints.vintageFrom || vintage >= constraints.vintageFrom) &&
+    (!constraints.vintageTo || vintage <= constraints.vintageTo)
+  );
+};
+
+const isConstrained = (constraints: BidConstraints) => Object.values(constraints).some(v => v !== undefined);
+
+// An offer suits a bid when whichever of its credits the producer delivers from would meet the bid's constraints.
+const suits = (credits: Credits, listing: MarketplaceListing, bid: Bid) => {
+  if (!isConstrained(bid.constraints)) return true;
+  const deliverable = deliverableCredits(credits, listing);
+  return deliverable.length > 0 && deliverable.every(c => meets(c, bid.constraints));
+};
+
+// Offers from before the order book have no `createdAt` and count as oldest.
+const byAge = (a?: string, b?: string) => (a ?? '').localeCompare(b ?? '');
+
+// Payment token balances of buyers with open bids, read before matching. Unreadable balances count as zero.
+export const readBidderBalances = async (store: Store) => {
+  const buyerIds = store.read(db => [...new Set(db.bids.filter(b => b.status === 'open').map(b => b.buyerId))]);
+  const balances = await Promise.all(buyerIds.map(id => readPaymentBalance(id).catch(() => 0)));
+  return new Map(buyerIds.map((id, i) => [id, balances[i]]));
+};
+
+/**
+ * Crosses open bids with offers by price-time priority: the highest bid goes
+ * first and fills against the cheapest suitable offers, ties broken by age.
+ * Each match trades at the price of whichever order rested on the book first.
+ * Bids fill partially until their credits run out or the buyer can't pay for
+ * more from their payment token `balances`, less what they already owe.
+ * Returns the fills made, in order.
+ */
+export const matchOrders = (db: Database, balances: ReadonlyMap<string, number>): BidFill[] => {
+  const fills: BidFill[] = [];
+  const bids = db.bids
+    .filter(b => b.status === 'open')
+    .sort((a, b) => b.limitPrice - a.limitPrice || byAge(a.createdAt, b.createdAt));
+  if (bids.length === 0) return fills;
+
+  const credits = projectCredits(db.chainEvents);
+  const states = deliveryStates(db, credits);
+  const spendable = new Map([...balances].map(([buyerId, balance]) => [buyerId, spendableBalance(states, buyerId, balance)]));
+  for (const bid of bids) {
+    const buyer = db.users.find(u => u.id === bid.buyerId);
+    if (!buyer) continue;
+    const asks = db.listings
+      .filter(l =>
+        isListingTradable(l) &&
+        l.pricePerCredit <= bid.limitPrice &&
+        l.creditsAvailable > 0 &&
+        l.producerId.toLowerCase() !== bid.buyerId.toLowerCase() &&
+        suits(credits, l, bid)
+      )
+      .sort((a, b) => a.pricePerCredit - b.pricePerCredit || byAge(a.createdAt, b.createdAt));
+
+    for (const listing of asks) {
+      if (bid.remaining === 0) break;
+      const producer = db.users.find(u => u.id === listing.producerId);
+      if (!producer) continue;
+      const price = byAge(listing.createdAt, bid.createdAt) <= 0 ? listing.pricePerCredit : bid.limitPrice;
+      const quantity = Math.min(
+        bid.remaining,
+        sellableCredits(db, listing, credits),
+        Math.floor((spendable.get(buyer.id) ?? 0) / price),
+      );
+      if (quantity <= 0) continue;
+
+      const entry = executeTrade(db, listing, producer, buyer, quantity, price);
+      spendable.set(buyer.id, (spendable.get(buyer.id) ?? 0) - quantity * price);
+      const fill = { txId: entry.txId, offerId: listing.offerId, credits: quantity, pricePerCredit: price, timestamp: entry.timestamp };
+      bid.fills.push(fill);
+      bid.remaining -= quantity;
+      fills.push(fill);
+    }
+    if (bid.remaining === 0) bid.status = 'filled';
+  }
+  return fills;
+};
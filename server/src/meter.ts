@@ -0,0 +1,146 @@
+import { config } from './config.js';
+import { badRequest } from './errors.js';
+import type { MeterSummary } from './types.js';
+
+export const meterDataTypes = ['text/csv', 'application/json'] as const;
+export type MeterDataType = (typeof meterDataTypes)[number];
+
+// One metering interval. Power values are averages over the interval, in kW.
+interface MeterInterval {
+  start: Date;
+  end: Date;
+  electrolyzerKw: number;
+  renewableKw: number;
+  h2Kg: number;
+  gridGco2PerKwh?: number;
+}
+
+const MAX_INTERVALS = 100_000;
+const MAX_REPORTED_ERRORS = 10;
+
+// CSV headers map onto the camelCase keys used by JSON uploads.
+const csvColumns: Record<string, keyof MeterInterval> = {
+  start: 'start',
+  end: 'end',
+  electrolyzer_kw: 'electrolyzerKw',
+  renewable_kw: 'renewableKw',
+  h2_kg: 'h2Kg',
+  grid_gco2_per_kwh: 'gridGco2PerKwh',
+};
+
+const requiredKeys = ['start', 'end', 'electrolyzerKw', 'renewableKw', 'h2Kg'] as const;
+
+type RawRow = Partial<Record<keyof MeterInterval, unknown>>;
+
+const parseCsv = (text: string): RawRow[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) throw badRequest('Meter data is empty');
+  const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+  const unknown = header.filter(h => !(h in csvColumns));
+  if (unknown.length > 0) throw badRequest(`Unknown meter data column(s): ${unknown.join(', ')}`);
+  return lines.slice(1).map(line => {
+    const cells = line.split(',');
+    return Object.fromEntries(header.map((h, i) => [csvColumns[h], cells[i]?.trim()]));
+  });
+};
+
+const parseJson = (text: string): RawRow[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw badRequest('Meter data is not valid JSON');
+  }
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { intervals?: unknown })?.intervals;
+  if (!Array.isArray(rows)) throw badRequest('Meter data JSON must be an array of intervals or { "intervals": [...] }');
+  return rows as RawRow[];
+};
+
+const toNumber = (value: unknown) => (typeof value === 'string' && value !== '' ? Number(value) : value);
+
+// Validates every row and reports the first few problems by row number (1 = first interval).
+const toIntervals = (rows: RawRow[]) => {
+  if (rows.length === 0) throw badRequest('Meter data has no intervals');
+  if (rows.length > MAX_INTERVALS) throw badRequest(`Meter data has more than ${MAX_INTERVALS} intervals`);
+
+  const errors: string[] = [];
+  const intervals: MeterInterval[] = [];
+  rows.forEach((row, i) => {
+    const fail = (message: string) => errors.push(`row ${i + 1}: ${message}`);
+    const missing = requiredKeys.filter(key => row?.[key] === undefined || row[key] === '');
+    if (missing.length > 0) return fail(`missing ${missing.join(', ')}`);
+
+    const start = new Date(String(row.start));
+    const end = new Date(String(row.end));
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return fail('start and end must be ISO 8601 timestamps');
+    if (end <= start) return fail('end must be after start');
+
+    const values = {
+      electrolyzerKw: toNumber(row.electrolyzerKw),
+      renewableKw: toNumber(row.renewableKw),
+      h2Kg: toNumber(row.h2Kg),
+      gridGco2PerKwh: row.gridGco2PerKwh === undefined || row.gridGco2PerKwh === '' ? undefined : toNumber(row.gridGco2PerKwh),
+    };
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return fail(`${key} must be a non-negative number`);
+    }
+
+    const previous = intervals.at(-1);
+    if (previous && start < previous.end) return fail('intervals must be in order and must not overlap');
+    intervals.push({ start, end, ...(values as Omit<MeterInterval, 'start' | 'end'>) });
+  });
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_REPORTED_ERRORS).join('; ');
+    const more = errors.length > MAX_REPORTED_ERRORS ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)` : '';
+    throw badRequest(`Invalid meter data: ${shown}${more}`);
+  }
+  return intervals;
+};
+
+const round = (value: number, decimals = 3) => Number(value.toFixed(decimals));
+
+/**
+ * Derives production volume and carbon intensity from interval meter data.
+ * Renewable supply is matched to electrolyzer demand interval by interval:
+ * surplus in one interval does not offset grid draw in another. Grid energy is
+ * charged at the interval's `grid_gco2_per_kwh`, or the configured default.
+ */
+export const summarizeMeterData = (intervals: MeterInterval[]): MeterSummary => {
+  let h2Kg = 0;
+  let energyKwh = 0;
+  let renewableKwh = 0;
+  let emissionsG = 0;
+
+  for (const interval of intervals) {
+    const hours = (interval.end.getTime() - interval.start.getTime()) / 3_600_000;
+    const energy = interval.electrolyzerKw * hours;
+    const renewable = Math.min(interval.renewableKw, interval.electrolyzerKw) * hours;
+    h2Kg += interval.h2Kg;
+    energyKwh += energy;
+    renewableKwh += renewable;
+    emissionsG += (energy - renewable) * (interval.gridGco2PerKwh ?? config.gridEmissionFactor);
+  }
+
+  const gridKwh = energyKwh - renewableKwh;
+  // Whole gCO2/kWh, rounded up, because that is what issueCredit accepts.
+  const carbonIntensity = energyKwh > 0 ? Math.ceil(round(emissionsG / energyKwh, 6)) : 0;
+
+  return {
+    intervals: intervals.length,
+    periodStart: intervals[0].start.toISOString(),
+    periodEnd: intervals[intervals.length - 1].end.toISOString(),
+    h2Kg: round(h2Kg),
+    energyKwh: round(energyKwh),
+    renewableKwh: round(renewableKwh),
+    gridKwh: round(gridKwh),
+    gridShare: energyKwh > 0 ? round(gridKwh / energyKwh, 4) : 0,
+    carbonIntensity,
+    specificConsumption: h2Kg > 0 ? round(energyKwh / h2Kg) : 0,
+    exceedsThreshold: carbonIntensity > config.maxCarbonIntensity,
+  };
+};
+
+export const parseMeterData = (text: string, type: MeterDataType) =>
+  summarizeMeterData(toIntervals(type === 'text/csv' ? parseCsv(text) : parseJson(text)));
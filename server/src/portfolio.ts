@@ -0,0 +1,83 @@
+import { descendants, projectCredits, type CreditState } from './projections.js';
+import type { Database } from './store.js';
+import type { CreditAcquisition, LedgerRecord, PortfolioPricing } from './types.js';
+
+type Credits = ReadonlyMap<number, CreditState>;
+
+// Trades this recent set the mark price.
+const MARK_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * What `holder` paid for each credit that reached them from a marketplace
+ * delivery: a transfer from the producer of a credit in the offer's lineage is
+ * priced at the latest such delivery agreed before it. Credits the holder then
+ * split or merged carry their parents' price, weighted by kg.
+ */
+export const creditAcquisitions = (
+  db: Readonly<Database>,
+  holder: string,
+  credits: Credits = projectCredits(db.chainEvents),
+): CreditAcquisition[] => {
+  const deliveries = db.deliveries
+    .filter(d => sameAddress(d.buyerId, holder))
+    .map(d => ({
+      ...d,
+      lineage: descendants(credits, db.listings.find(l => l.offerId === d.offerId)?.creditIds ?? []),
+    }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const acquired = new Map<number, CreditAcquisition>();
+  for (const event of db.chainEvents) {
+    if (event.name !== 'CreditTransferred' || !sameAddress(event.args.to, holder)) continue;
+    const creditId = Number(event.args.id);
+    const delivery = deliveries.find(d =>
+      d.createdAt <= event.timestamp && sameAddress(d.producerId, event.args.from) && d.lineage.has(creditId)
+    );
+    if (delivery) {
+      acquired.set(creditId, { creditId, pricePerCredit: delivery.pricePerCredit, acquiredAt: event.timestamp, txId: delivery.txId });
+    }
+  }
+
+  // Parts made after the purchase inherit its price.
+  const inherited = (id: number, seen = new Set<number>()): CreditAcquisition | undefined => {
+    const own = acquired.get(id);
+    const credit = credits.get(id);
+    if (own || !credit || credit.parents.length === 0 || seen.has(id)) return own;
+    seen.add(id);
+    const parents = credit.parents.map(p => ({ acquisition: inherited(p, seen), kg: credits.get(p)?.amount ?? 0 }));
+    if (parents.some(p => !p.acquisition)) return undefined;
+    const kg = parents.reduce((sum, p) => sum + p.kg, 0);
+    return {
+      creditId: id,
+      pricePerCredit: kg > 0 ? parents.reduce((sum, p) => sum + p.acquisition!.pricePerCredit * p.kg, 0) / kg : 0,
+      acquiredAt: parents.map(p => p.acquisition!.acquiredAt).sort().at(-1)!,
+    };
+  };
+
+  return [...credits.values()]
+    .filter(c => sameAddress(c.owner, holder) && !c.superseded)
+    .map(c => inherited(c.id))
+    .filter((a): a is CreditAcquisition => a !== undefined);
+};
+
+// VWAP of the recent trades, falling back to the latest trade when the window is quiet.
+export const markPrice = (ledger: readonly LedgerRecord[], now = new Date()) => {
+  const trades = ledger
+    .filter((r): r is LedgerRecord & { pricePerCredit: number } => r.type === 'trade' && r.pricePerCredit !== undefined)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  if (trades.length === 0) return null;
+  const since = new Date(now.getTime() - MARK_WINDOW_DAYS * DAY_MS).toISOString();
+  const recent = trades.filter(t => t.timestamp >= since);
+  const credits = recent.reduce((sum, t) => sum + t.credits, 0);
+  if (credits === 0) return trades[trades.length - 1].pricePerCredit;
+  return recent.reduce((sum, t) => sum + t.credits * t.pricePerCredit, 0) / credits;
+};
+
+export const portfolioPricing = (db: Readonly<Database>, holder: string): PortfolioPricing => ({
+  acquisitions: creditAcquisitions(db, holder),
+  markPrice: markPrice(db.ledger),
+  markWindowDays: MARK_WINDOW_DAYS,
+});
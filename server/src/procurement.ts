@@ -0,0 +1,109 @@
+import { formatCredits } from '../../shared/quantity.js';
+import { deliverableCredits } from './deliveries.js';
+import { meets } from './matching.js';
+import { projectCredits } from './projections.js';
+import type { Database } from './store.js';
+import { isListingTradable, sellableCredits } from './trading.js';
+import type { MarketplaceListing, ProcurementLeg, ProcurementPlan, ProcurementRequest } from './types.js';
+
+type Credits = ReturnType<typeof projectCredits>;
+
+// Like a constrained bid, an offer suits a request only if every credit it could be delivered from meets it.
+const suits = (credits: Credits, listing: MarketplaceListing, request: ProcurementRequest) => {
+  const deliverable = deliverableCredits(credits, listing);
+  const sources = request.renewableSources ?? [];
+  return deliverable.length > 0 && deliverable.every(c =>
+    (sources.length === 0 || (c.renewableSource !== undefined && sources.some(s => s === c.renewableSource))) &&
+    meets(c, request)
+  );
+};
+
+/**
+ * The cheapest basket of offers covering `request.credits`. Taking the
+ * cheapest suitable offers first, each up to what its producer may still
+ * supply under `maxProducerShare`, gives the lowest total cost, so a request
+ * this plan can't meet within budget can't be met at all.
+ */
+export const planProcurement = (db: Readonly<Database>, buyerId: string, request: ProcurementRequest): ProcurementPlan => {
+  const credits = projectCredits(db.chainEvents);
+  const perProducer = Math.floor(request.credits * (request.maxProducerShare ?? 1));
+  const supplied = new Map<string, number>();
+  const legs: ProcurementLeg[] = [];
+  let remaining = request.credits;
+
+  const offers = db.listings
+    .filter(l =>
+      isListingTradable(l) &&
+      l.creditsAvailable > 0 &&
+      l.producerId.toLowerCase() !== buyerId.toLowerCase() &&
+      suits(credits, l, request)
+    )
+    .sort((a, b) => a.pricePerCredit - b.pricePerCredit || (a.createdAt ?? '').localeCompare(b.createdAt ?? ''));
+
+  for (const listing of offers) {
+    if (remaining === 0) break;
+    const producer = listing.producerId.toLowerCase();
+    const quantity = Math.min(
+      remaining,
+      sellableCredits(db, listing, credits),
+      perProducer - (supplied.get(producer) ?? 0),
+    );
+    if (quantity <= 0) continue;
+    legs.push({
+      offerId: listing.offerId,
+      producerId: listing.producerId,
+      producerName: listing.producerName,
+      credits: quantity,
+      pricePerCredit: listing.pricePerCredit,
+      cost: quantity * listing.pricePerCredit,
+    });
+    supplied.set(producer, (supplied.get(producer) ?? 0) + quantity);
+    remaining -= quantity;
+  }
+
+  const cost = legs.reduce((sum, l) => sum + l.cost, 0);
+  return {
+    request,
+    legs,
+    credits: request.credits - remaining,
+    cost,
+    shortfall: remaining,
+    withinBudget: cost <= request.budget,
+  };
+};
+
+/**
+ * Why a basket can't be bought for `request`, or undefined if it can: its
+ * legs must make up the requested credits within budget, from suitable offers
+ * of other producers, none supplying more than `maxProducerShare`. Whether
+ * each offer can still sell its leg at that price is checked as it trades.
+ */
+export const basketMisfit = (
+  db: Readonly<Database>,
+  buyerId: string,
+  request: ProcurementRequest,
+  legs: Pick<ProcurementLeg, 'offerId' | 'credits' | 'pricePerCredit'>[],
+): string | undefined => {
+  const total = legs.reduce((sum, l) => sum + l.credits, 0);
+  if (total !== request.credits) {
+    return `The basket holds ${formatCredits(total)}, not the ${formatCredits(request.credits)} requested`;
+  }
+  const cost = legs.reduce((sum, l) => sum + l.credits * l.pricePerCredit, 0);
+  if (cost > request.budget) return `The basket costs ${cost.toFixed(2)}, over the budget of ${request.budget.toFixed(2)}`;
+
+  const credits = projectCredits(db.chainEvents);
+  const perProducer = Math.floor(request.credits * (request.maxProducerShare ?? 1));
+  const supplied = new Map<string, number>();
+  for (const leg of legs) {
+    const listing = db.listings.find(l => l.offerId === leg.offerId);
+    if (!listing) continue;
+    if (listing.producerId.toLowerCase() === buyerId.toLowerCase()) return `Offer ${leg.offerId} is your own`;
+    if (!suits(credits, listing, request)) return `Offer ${leg.offerId} has credits that miss the request's constraints`;
+    const producer = listing.producerId.toLowerCase();
+    supplied.set(producer, (supplied.get(producer) ?? 0) + leg.credits);
+    if (supplied.get(producer)! > perProducer) {
+      return `${listing.producerName} would supply more than ${formatCredits(perProducer)} of the basket`;
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,127 @@
+import { ZeroAddress } from 'ethers';
+import { kgToCredits } from '../../shared/quantity.js';
+import type { ChainEvent, LedgerEntry } from './types.js';
+
+// Mirrors VerificationStatus.Verified in GreenHydrogenCredit.sol.
+const VERIFIED = '1';
+
+export interface CreditState {
+  id: number;
+  owner: string;
+  producer: string;
+  producerName: string;
+  // kg of H2, as stored on-chain
+  amount: number;
+  // ISO 8601; the credit expires CREDIT_EXPIRY_DAYS after it
+  productionDate: string;
+  // Absent on CreditIssued events indexed before the indexer recorded them
+  renewableSource?: string;
+  location?: string;
+  carbonIntensity?: number;
+  verified: boolean;
+  retired: boolean;
+  suspended: boolean;
+  // The issued credit this one was split or merged from; its own id if it was issued directly
+  originId: number;
+  parents: number[];
+  children: number[];
+  // Split or merged into children; kept only for lineage
+  superseded: boolean;
+}
+
+// Current state of every credit, replayed from indexed events.
+export const projectCredits = (events: readonly ChainEvent[]) => {
+  const credits = new Map<number, CreditState>();
+  for (const event of events) {
+    const id = Number(event.args.id);
+    if (event.name === 'CreditIssued') {
+      credits.set(id, {
+        id,
+        owner: event.args.owner,
+        producer: event.args.producer,
+        producerName: event.args.producerName,
+        amount: Number(event.args.amount),
+        productionDate: new Date(Number(event.args.productionDate) * 1000).toISOString(),
+        renewableSource: event.args.renewableSource,
+        location: event.args.location,
+        carbonIntensity: event.args.carbonIntensity === undefined ? undefined : Number(event.args.carbonIntensity),
+        verified: false,
+        retired: false,
+        suspended: false,
+        originId: id,
+        parents: [],
+        children: [],
+        superseded: false,
+      });
+      continue;
+    }
+    // A split emits one event per child and a merge one per parent; children inherit everything but owner and amount.
+    if (event.name === 'CreditSplit' || event.name === 'CreditMerged') {
+      const parent = credits.get(Number(event.args.parentId));
+      if (!parent) continue;
+      const child = credits.get(id) ??
+        { ...parent, id, owner: event.args.owner, amount: 0, parents: [], children: [], superseded: false };
+      child.amount += Number(event.args.amount);
+      child.parents.push(parent.id);
+      parent.children.push(id);
+      parent.superseded = true;
+      credits.set(id, child);
+      continue;
+    }
+    const credit = credits.get(id);
+    if (!credit) continue;
+    switch (event.name) {
+      case 'CreditVerified': credit.verified = event.args.status === VERIFIED; break;
+      case 'CreditTransferred': credit.owner = event.args.to; break;
+      case 'CreditRetired': credit.retired = true; break;
+      case 'CreditSuspended': credit.suspended = true; break;
+    }
+  }
+  return credits;
+};
+
+// The given credits and every credit split or merged from them, however many generations down.
+export const descendants = (credits: ReadonlyMap<number, CreditState>, ids: Iterable<number>) => {
+  const found = new Set<number>();
+  const pending = [...ids];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    const credit = credits.get(id);
+    if (!credit || found.has(id)) continue;
+    found.add(id);
+    pending.push(...credit.children);
+  }
+  return found;
+};
+
+// Yields ledger entries in chain order without building the whole list.
+export function* ledgerEntries(events: readonly ChainEvent[]): Generator<LedgerEntry> {
+  const credits = projectCredits(events);
+
+  for (const event of events) {
+    const creditId = Number(event.args.id);
+    const credit = credits.get(creditId);
+    if (!credit) continue;
+    const base = {
+      txId: event.txHash,
+      creditId,
+      credits: kgToCredits(credit.amount),
+      timestamp: event.timestamp,
+      blockNumber: event.blockNumber,
+      verified: credit.verified,
+    };
+    switch (event.name) {
+      case 'CreditIssued':
+        yield { ...base, type: 'issue', from: event.args.certifier, to: event.args.owner };
+        break;
+      case 'CreditTransferred':
+        yield { ...base, type: 'trade', from: event.args.from, to: event.args.to };
+        break;
+      case 'CreditRetired':
+        yield { ...base, type: 'retire', from: event.args.owner, to: ZeroAddress };
+        break;
+    }
+  }
+}
+
+export const buildLedger = (events: readonly ChainEvent[]): LedgerEntry[] => [...ledgerEntries(events)];
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { marketAnalytics } from '../analytics.js';
+import type { Store } from '../store.js';
+
+const analyticsQuerySchema = z.object({
+  // Calendar dates (YYYY-MM-DD, UTC); both ends are inclusive.
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  interval: z.enum(['day', 'week', 'month']).default('month'),
+}).refine(q => !q.from || !q.to || q.from <= q.to, {
+  message: 'The range ends before it starts',
+  path: ['to'],
+});
+
+// Public, like the ledger it is computed from.
+export const analyticsRouter = (store: Store) => {
+  const router = Router();
+
+  router.get('/analytics', (req, res) => {
+    const range = analyticsQuerySchema.parse(req.query);
+    res.json(store.read(db => marketAnalytics(db, range)));
+  });
+
+  return router;
+};
@@ -0,0 +1,141 @@
+import { randomBytes } from 'node:crypto';
+import { Router } from 'express';
+import { getAddress, isAddress, verifyMessage } from 'ethers';
+import { z } from 'zod';
+import { bearerToken, currentUser, requireRole, resolveRole } from '../auth.js';
+import { config } from '../config.js';
+import { unauthorized } from '../errors.js';
+import type { Store } from '../store.js';
+import type { User } from '../types.js';
+
+const addressSchema = z
+  .string()
+  .refine(value => isAddress(value), 'Invalid address')
+  .transform(value => getAddress(value));
+
+const loginSchema = z.object({
+  address: addressSchema,
+  signature: z.string().min(1),
+  name: z.string().trim().min(1).optional(),
+  email: z.string().email().optional(),
+  company: z.string().trim().min(1).optional(),
+});
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// EIP-4361 (Sign-In with Ethereum) style message.
+const buildMessage = (address: string, nonce: string, issuedAt: Date, expiresAt: Date) => {
+  const origin = new URL(config.corsOrigin);
+  return [
+    `${origin.host} wants you to sign in with your Ethereum account:`,
+    address,
+    '',
+    'Sign in to HydrogenCredit.',
+    '',
+    `URI: ${origin.origin}`,
+    'Version: 1',
+    `Chain ID: ${config.chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join('\n');
+};
+
+export const authRouter = (store: Store) => {
+  const router = Router();
+
+  router.get('/auth/nonce', async (req, res) => {
+    const address = addressSchema.parse(req.query.address);
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + config.challengeTtlMs);
+    const message = buildMessage(address, randomBytes(16).toString('hex'), issuedAt, expiresAt);
+
+    await store.transact(db => {
+      const now = issuedAt.toISOString();
+      db.challenges = db.challenges.filter(c => c.address !== address && c.expiresAt > now);
+      db.challenges.push({ address, message, expiresAt: expiresAt.toISOString() });
+    });
+
+    res.json({ message });
+  });
+
+  router.post('/login', async (req, res) => {
+    const body = loginSchema.parse(req.body);
+
+    const challenge = store.read(db => db.challenges.find(c => c.address === body.address));
+    if (!challenge || challenge.expiresAt <= new Date().toISOString()) {
+      throw unauthorized('Sign-in challenge missing or expired');
+    }
+    let signer: string;
+    try {
+      signer = verifyMessage(challenge.message, body.signature);
+    } catch {
+      throw unauthorized('Malformed signature');
+    }
+    if (signer !== body.address) throw unauthorized('Signature does not match address');
+
+    const role = await resolveRole(store, body.address);
+
+    const result = await store.transact(db => {
+      // Consume the challenge so the signature cannot be replayed.
+      const index = db.challenges.findIndex(c => c.message === challenge.message);
+      if (index === -1) throw unauthorized('Sign-in challenge already used');
+      db.challenges.splice(index, 1);
+
+      let user = db.users.find(u => u.address === body.address);
+      if (!user) {
+        user = {
+          id: body.address,
+          address: body.address,
+          role,
+          name: body.name ?? shortAddress(body.address),
+          credits: 0,
+        } satisfies User;
+        db.users.push(user);
+      }
+      user.role = role;
+      if (body.name) user.name = body.name;
+      if (body.email) user.email = body.email;
+      if (body.company) user.company = body.company;
+
+      const token = randomBytes(32).toString('hex');
+      const now = new Date();
+      db.sessions = db.sessions.filter(s => s.expiresAt > now.toISOString());
+      db.sessions.push({
+        token,
+        userId: user.id,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + config.sessionTtlMs).toISOString(),
+      });
+      return { token, user };
+    });
+
+    res.json(result);
+  });
+
+  // Returns the signed-in user with their role re-derived from current chain state.
+  router.get('/auth/session', requireRole(), async (req, res) => {
+    const { id, address } = currentUser(req);
+    const role = await resolveRole(store, address);
+
+    const user = await store.transact(db => {
+      const user = db.users.find(u => u.id === id);
+      if (!user) throw unauthorized();
+      user.role = role;
+      return user;
+    });
+
+    res.json(user);
+  });
+
+  // Ends the session server-side, so the token stops working even if it was copied.
+  router.post('/logout', requireRole(), async (req, res) => {
+    const token = bearerToken(req);
+    await store.transact(db => {
+      db.sessions = db.sessions.filter(s => s.token !== token);
+    });
+    res.status(204).end();
+  });
+
+  return router;
+};
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { provider } from '../chain.js';
+import { indexedEventNames } from '../indexer.js';
+import type { Store } from '../store.js';
+
+const eventsQuerySchema = z.object({
+  name: z.enum(indexedEventNames).optional(),
+  // Also matches splits and merges the credit is the parent of.
+  creditId: z.coerce.number().int().positive().optional(),
+  batchId: z.coerce.number().int().positive().optional(),
+  // Matches any address-valued argument (owner, producer, auditor, from, to...).
+  address: z.string().optional(),
+  fromBlock: z.coerce.number().int().nonnegative().optional(),
+  toBlock: z.coerce.number().int().nonnegative().optional(),
+});
+
+export const chainRouter = (store: Store) => {
+  const router = Router();
+
+  router.get('/chain/events', (req, res) => {
+    const query = eventsQuerySchema.parse(req.query);
+    const address = query.address?.toLowerCase();
+
+    const events = store.read(db =>
+      db.chainEvents.filter(e =>
+        (!query.name || e.name === query.name) &&
+        (query.creditId === undefined || [e.args.id, e.args.parentId].includes(String(query.creditId))) &&
+        (query.batchId === undefined || e.args.batchId === String(query.batchId)) &&
+        (!address || Object.values(e.args).some(value => value.toLowerCase() === address)) &&
+        (query.fromBlock === undefined || e.blockNumber >= query.fromBlock) &&
+        (query.toBlock === undefined || e.blockNumber <= query.toBlock)
+      )
+    );
+    res.json(events);
+  });
+
+  router.get('/chain/status', async (_req, res) => {
+    const { indexer, eventCount } = store.read(db => ({ indexer: db.indexer, eventCount: db.chainEvents.length }));
+    const headBlock = await provider.getBlockNumber().catch(() => null);
+    res.json({
+      contractAddress: indexer?.contractAddress ?? null,
+      indexedBlock: indexer?.blockNumber ?? null,
+      headBlock,
+      eventCount,
+    });
+  });
+
+  return router;
+};
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { requireRole } from '../auth.js';
+import { expiryReport } from '../expiry.js';
+import type { Store } from '../store.js';
+
+// Views over indexed on-chain credits that need more than the public ledger exposes.
+export const creditsRouter = (store: Store) => {
+  const router = Router();
+
+  router.get('/credits/expiry', requireRole('regulator', 'auditor'), (_req, res) => {
+    res.json(store.read(db => expiryReport(db)));
+  });
+
+  return router;
+};
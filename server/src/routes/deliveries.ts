@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { creditExpiresAt } from '../../../shared/expiry.js';
+import { currentUser, requireRole } from '../auth.js';
+import { deliverableCredits, deliveryStates } from '../deliveries.js';
+import { conflict, notFound } from '../errors.js';
+import { projectCredits } from '../projections.js';
+import { displayName, type Store } from '../store.js';
+import { hasLapsed, isUnpaid, paymentDueAt, releaseTrade } from '../trading.js';
+
+const listQuerySchema = z.object({
+  status: z.enum(['pending', 'delivered', 'all']).default('all'),
+});
+
+const isParty = (userId: string) => (d: { producerId: string; buyerId: string }) =>
+  [d.producerId, d.buyerId].some(id => id.toLowerCase() === userId.toLowerCase());
+
+export const deliveriesRouter = (store: Store) => {
+  const router = Router();
+
+  // Producers see what they owe and buyers what they are owed, with the producer's credits it can be settled from.
+  router.get('/deliveries', requireRole('producer', 'buyer'), (req, res) => {
+    const user = currentUser(req);
+    const query = listQuerySchema.parse(req.query);
+
+    const deliveries = store.read(db => {
+      const credits = projectCredits(db.chainEvents);
+      return deliveryStates(db, credits)
+        .filter(isParty(user.id))
+        .filter(d => query.status === 'all' || d.status === query.status)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(d => {
+          const listing = db.listings.find(l => l.offerId === d.offerId);
+          const sourceCredits = listing && d.status === 'pending'
+            ? deliverableCredits(credits, listing).map(c => ({
+              id: c.id,
+              amount: c.amount,
+              originId: c.originId,
+              expiresAt: creditExpiresAt(c.productionDate).toISOString(),
+            }))
+            : [];
+          return {
+            ...d,
+            producerName: displayName(db, d.producerId),
+            buyerName: displayName(db, d.buyerId),
+            sourceCredits,
+            // When the reservation lapses if nothing has been paid into escrow by then
+            paymentDueAt: isUnpaid(d) ? paymentDueAt(d).toISOString() : undefined,
+          };
+        });
+    });
+    res.json(deliveries);
+  });
+
+  // The producer need not wait for the payment sweep to put a lapsed trade's credits back on the offer.
+  router.post<{ deliveryId: string }>('/deliveries/:deliveryId/release', requireRole('producer'), async (req, res) => {
+    const user = currentUser(req);
+
+    await store.transact(db => {
+      const delivery = deliveryStates(db).find(d =>
+        d.deliveryId === req.params.deliveryId && d.producerId.toLowerCase() === user.id.toLowerCase()
+      );
+      if (!delivery) throw notFound(`Delivery ${req.params.deliveryId} not found`);
+      if (!isUnpaid(delivery)) throw conflict(`Delivery ${delivery.deliveryId} has been paid for`);
+      if (!hasLapsed(delivery)) {
+        throw conflict(`The buyer has until ${paymentDueAt(delivery).toISOString()} to pay for delivery ${delivery.deliveryId}`);
+      }
+      releaseTrade(db, delivery);
+    });
+
+    res.status(204).end();
+  });
+
+  return router;
+};
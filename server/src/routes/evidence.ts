@@ -0,0 +1,78 @@
+import express, { Router } from 'express';
+import { z } from 'zod';
+import { currentUser, requireRole } from '../auth.js';
+import { config } from '../config.js';
+import { SHA256_PATTERN, evidenceTypes, sniffEvidenceType, type EvidenceStore } from '../evidence.js';
+import { badRequest, forbidden, notFound, unsupportedMediaType } from '../errors.js';
+import { meterDataTypes, parseMeterData, type MeterDataType } from '../meter.js';
+import type { Store } from '../store.js';
+import type { EvidenceFile, EvidenceType } from '../types.js';
+
+const uploadQuerySchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+});
+
+// Roles that review reports and therefore need to read any producer's evidence.
+const reviewerRoles = new Set(['regulator', 'certifier', 'auditor']);
+
+export const evidenceRouter = (store: Store, evidence: EvidenceStore) => {
+  const router = Router();
+
+  // The file is the raw request body. Documents must match their declared Content-Type byte for byte;
+  // meter data (CSV/JSON) must parse, and its summary is returned with the upload.
+  router.post(
+    '/evidence',
+    requireRole('producer'),
+    express.raw({ type: () => true, limit: config.evidenceMaxBytes }),
+    async (req, res) => {
+      const { name } = uploadQuerySchema.parse(req.query);
+      const bytes = req.body;
+      if (!Buffer.isBuffer(bytes) || bytes.length === 0) throw badRequest('Upload body is empty');
+
+      const declared = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+      if (!evidenceTypes.includes(declared as EvidenceType)) {
+        throw unsupportedMediaType(`Evidence must be one of: ${evidenceTypes.join(', ')}`);
+      }
+      const isMeterData = meterDataTypes.includes(declared as MeterDataType);
+      const type = isMeterData ? (declared as MeterDataType) : sniffEvidenceType(bytes);
+      if (!type) throw unsupportedMediaType(`File content is not ${declared}`);
+      if (declared !== type) throw unsupportedMediaType(`File content is ${type}, not ${declared}`);
+      const meter = isMeterData ? parseMeterData(bytes.toString('utf8'), type as MeterDataType) : undefined;
+
+      const sha256 = await evidence.put(bytes);
+      const uploader = currentUser(req).id;
+      await store.transact(db => {
+        const record = db.evidence.find(e => e.sha256 === sha256);
+        if (!record) {
+          db.evidence.push({ sha256, type, size: bytes.length, uploadedBy: [uploader], uploadedAt: new Date().toISOString(), meter });
+        } else if (!record.uploadedBy.includes(uploader)) {
+          record.uploadedBy.push(uploader);
+        }
+      });
+
+      const file: EvidenceFile = { sha256, name: name ?? sha256.slice(0, 12), type, size: bytes.length, meter };
+      res.status(201).json(file);
+    },
+  );
+
+  router.get<{ sha256: string }>('/evidence/:sha256', requireRole(), (req, res) => {
+    const { sha256 } = req.params;
+    if (!SHA256_PATTERN.test(sha256)) throw badRequest('Evidence hash must be 64 lowercase hex characters');
+    const record = store.read(db => db.evidence.find(e => e.sha256 === sha256));
+    if (!record) throw notFound(`Evidence ${sha256} not found`);
+
+    const user = currentUser(req);
+    if (!record.uploadedBy.includes(user.id) && !reviewerRoles.has(user.role)) {
+      throw forbidden('Cannot view this evidence');
+    }
+
+    res.setHeader('Content-Type', record.type);
+    res.setHeader('Content-Disposition', 'inline');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    // Content-addressed, so the bytes behind a hash never change.
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+    res.sendFile(evidence.pathFor(sha256));
+  });
+
+  return router;
+};
@@ -0,0 +1,106 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { currentUser, requireRole } from '../auth.js';
+import { MIN_KWH_PER_KG } from '../capacity.js';
+import { forbidden, notFound } from '../errors.js';
+import { displayName, nextId, type Store } from '../store.js';
+import type { ElectrolyzerType, Facility, RenewableSource } from '../types.js';
+
+const electrolyzerTypes = ['alkaline', 'pem', 'soec', 'aem'] as const satisfies readonly ElectrolyzerType[];
+export const renewableSources = ['Solar', 'Wind', 'Hydro', 'Geothermal', 'Biomass'] as const satisfies readonly RenewableSource[];
+
+const facilitySchema = z
+  .object({
+    name: z.string().trim().min(1).max(120),
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    electrolyzerType: z.enum(electrolyzerTypes),
+    capacityMw: z.number().positive(),
+    capacityKgPerDay: z.number().positive(),
+    renewableAssets: z
+      .array(
+        z.object({
+          type: z.enum(renewableSources),
+          name: z.string().trim().min(1).max(120).optional(),
+          capacityMw: z.number().positive(),
+        }),
+      )
+      .min(1, 'List at least one connected renewable asset'),
+    commissioningDate: z.string().date(),
+  })
+  // The rated output has to be reachable from the rated input power.
+  .refine(f => (f.capacityMw * 1000 * 24) / f.capacityKgPerDay >= MIN_KWH_PER_KG, {
+    message: `capacityKgPerDay is more than capacityMw can produce at ${MIN_KWH_PER_KG} kWh/kg`,
+    path: ['capacityKgPerDay'],
+  });
+
+const listQuerySchema = z.object({
+  producerId: z.string().min(1).optional(),
+});
+
+// Reviewers see every site; producers only their own.
+const reviewerRoles = new Set(['regulator', 'certifier', 'auditor']);
+
+export const facilitiesRouter = (store: Store) => {
+  const router = Router();
+
+  router.get('/facilities', requireRole('producer', 'regulator', 'certifier', 'auditor'), (req, res) => {
+    const user = currentUser(req);
+    const query = listQuerySchema.parse(req.query);
+    const producerId = user.role === 'producer' ? user.id : query.producerId;
+    const facilities = store.read(db =>
+      db.facilities
+        .filter(f => producerId === undefined || f.producerId === producerId)
+        .map(f => ({ ...f, producerName: displayName(db, f.producerId) }))
+    );
+    res.json(facilities);
+  });
+
+  router.post('/facilities', requireRole('producer'), async (req, res) => {
+    const body = facilitySchema.parse(req.body);
+    const producerId = currentUser(req).id;
+
+    const facility = await store.transact(db => {
+      const now = new Date().toISOString();
+      const facility: Facility = {
+        facilityId: nextId(db, 'fac'),
+        producerId,
+        ...body,
+        createdAt: now,
+        updatedAt: now,
+      };
+      db.facilities.push(facility);
+      return facility;
+    });
+
+    res.status(201).json(facility);
+  });
+
+  router.get<{ facilityId: string }>('/facilities/:facilityId', requireRole(), (req, res) => {
+    const user = currentUser(req);
+    const facility = store.read(db => db.facilities.find(f => f.facilityId === req.params.facilityId));
+    if (!facility) throw notFound(`Facility ${req.params.facilityId} not found`);
+    if (facility.producerId !== user.id && !reviewerRoles.has(user.role)) {
+      throw forbidden('Cannot view another producer\'s facility');
+    }
+    res.json(facility);
+  });
+
+  // Past reports keep the capacity check they were submitted with.
+  router.put<{ facilityId: string }>('/facilities/:facilityId', requireRole('producer'), async (req, res) => {
+    const body = facilitySchema.parse(req.body);
+    const producerId = currentUser(req).id;
+
+    const facility = await store.transact(db => {
+      const facility = db.facilities.find(f => f.facilityId === req.params.facilityId);
+      if (!facility) throw notFound(`Facility ${req.params.facilityId} not found`);
+      if (facility.producerId !== producerId) throw forbidden('Cannot change another producer\'s facility');
+      Object.assign(facility, body, { updatedAt: new Date().toISOString() });
+      return facility;
+    });
+
+    res.json(facility);
+  });
+
+  return router;
+};
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { currentUser, requireRole } from '../auth.js';
+import { notFound } from '../errors.js';
+import { detectFraud } from '../fraud.js';
+import { displayName, type Store } from '../store.js';
+import type { FraudRule, FraudSeverity } from '../types.js';
+
+const rules = ['overlapping_period', 'reused_evidence', 'round_trip_transfer', 'volume_spike'] as const satisfies readonly FraudRule[];
+const severities = ['low', 'medium', 'high'] as const satisfies readonly FraudSeverity[];
+
+const flagQuerySchema = z.object({
+  // open: not yet reviewed
+  status: z.enum(['open', 'reviewed', 'all']).default('open'),
+  rule: z.enum(rules).optional(),
+  severity: z.enum(severities).optional(),
+  reportId: z.string().min(1).optional(),
+});
+
+const reviewSchema = z.object({
+  status: z.enum(['dismissed', 'confirmed']),
+  notes: z.string().trim().max(2000).default(''),
+});
+
+export const fraudRouter = (store: Store) => {
+  const router = Router();
+
+  // The regulator's review queue; auditors can follow it read-only.
+  router.get('/fraud/flags', requireRole('regulator', 'auditor'), (req, res) => {
+    const query = flagQuerySchema.parse(req.query);
+    const flags = store.read(db =>
+      detectFraud(db)
+        .filter(f =>
+          (query.status === 'all' || (query.status === 'open') === (f.review === undefined)) &&
+          (!query.rule || f.rule === query.rule) &&
+          (!query.severity || f.severity === query.severity) &&
+          (!query.reportId || f.reportIds.includes(query.reportId))
+        )
+        .map(f => ({ ...f, producerNames: f.producerIds.map(id => displayName(db, id)) }))
+    );
+    res.json(flags);
+  });
+
+  // Recording a review takes the flag out of the open queue until it involves another report; reviewing again replaces the decision.
+  router.post<{ flagId: string }>('/fraud/flags/:flagId/review', requireRole('regulator'), async (req, res) => {
+    const body = reviewSchema.parse(req.body);
+    const regulatorId = currentUser(req).id;
+
+    const flag = await store.transact(db => {
+      const flag = detectFraud(db).find(f => f.flagId === req.params.flagId);
+      if (!flag) throw notFound(`Fraud flag ${req.params.flagId} not found`);
+      const review = { flagId: flag.flagId, ...body, reportIds: flag.reportIds, regulatorId, timestamp: new Date().toISOString() };
+      db.fraudReviews = [...db.fraudReviews.filter(r => r.flagId !== flag.flagId), review];
+      return { ...flag, review };
+    });
+
+    res.json(flag);
+  });
+
+  return router;
+};
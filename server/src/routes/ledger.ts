@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { exportQuerySchema, streamExport, type ExportColumn } from '../export.js';
+import { ledgerEntries } from '../projections.js';
+import type { Store } from '../store.js';
+import type { LedgerEntry } from '../types.js';
+
+// Mirrors the filters on the public ledger page so exports match what is on screen.
+const ledgerFilterSchema = z.object({
+  type: z.enum(['issue', 'trade', 'retire']).optional(),
+  tx: z.string().optional(),
+  // Substring match on the from/to addresses.
+  address: z.string().optional(),
+  // Calendar dates (YYYY-MM-DD, UTC); both ends are inclusive.
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+});
+
+const ledgerQuerySchema = ledgerFilterSchema.extend({
+  offset: z.coerce.number().int().nonnegative().default(0),
+  limit: z.coerce.number().int().positive().max(1000).optional(),
+});
+
+const ledgerColumns: ExportColumn<LedgerEntry>[] = [
+  { key: 'txId', header: 'Transaction Hash', value: e => e.txId },
+  { key: 'type', header: 'Type', value: e => e.type },
+  { key: 'creditId', header: 'Credit ID', value: e => e.creditId },
+  { key: 'from', header: 'From', value: e => e.from },
+  { key: 'to', header: 'To', value: e => e.to },
+  { key: 'credits', header: 'Credits (1 credit = 1 kg H2)', value: e => e.credits },
+  { key: 'timestamp', header: 'Timestamp', value: e => new Date(e.timestamp).toISOString() },
+  { key: 'blockNumber', header: 'Block', value: e => e.blockNumber },
+  { key: 'verified', header: 'Verified', value: e => e.verified },
+];
+
+const ledgerExportSchema = ledgerFilterSchema.merge(exportQuerySchema(ledgerColumns));
+
+const matchesFilter = (filter: z.infer<typeof ledgerFilterSchema>) => {
+  const tx = filter.tx?.toLowerCase();
+  const address = filter.address?.toLowerCase();
+  return (entry: LedgerEntry) => {
+    const date = entry.timestamp.slice(0, 10);
+    return (
+      (!filter.type || entry.type === filter.type) &&
+      (!tx || entry.txId.toLowerCase() === tx) &&
+      (!address || entry.from.toLowerCase().includes(address) || entry.to.toLowerCase().includes(address)) &&
+      (!filter.from || date >= filter.from) &&
+      (!filter.to || date <= filter.to)
+    );
+  };
+};
+
+function* filterEntries(entries: Iterable<LedgerEntry>, predicate: (entry: LedgerEntry) => boolean) {
+  for (const entry of entries) if (predicate(entry)) yield entry;
+}
+
+// Served from indexed contract events, not from off-chain bookkeeping.
+export const ledgerRouter = (store: Store) => {
+  const router = Router();
+
+  router.get('/ledger', (req, res) => {
+    const { offset, limit, ...filter } = ledgerQuerySchema.parse(req.query);
+    const entries = store.read(db => [...filterEntries(ledgerEntries(db.chainEvents), matchesFilter(filter))]);
+    res.setHeader('X-Total-Count', String(entries.length));
+    res.json(entries.slice(offset, limit === undefined ? undefined : offset + limit));
+  });
+
+  // Streams the filtered ledger; the event snapshot stays consistent because transactions replace it.
+  router.get('/ledger/export', async (req, res) => {
+    const { format, columns, ...filter } = ledgerExportSchema.parse(req.query);
+    const events = store.read(db => db.chainEvents);
+    await streamExport(res, {
+      filename: 'ledger',
+      format,
+      columns,
+      rows: filterEntries(ledgerEntries(events), matchesFilter(filter)),
+    });
+  });
+
+  return router;
+};
@@ -0,0 +1,283 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { creditExpiresAt, isCreditExpired } from '../../../shared/expiry.js';
+import { creditsToKg, formatCredits, formatKg, kgToCredits } from '../../../shared/quantity.js';
+import { assertSelf, currentUser, requireRole } from '../auth.js';
+import { readPaymentBalance } from '../chain.js';
+import { deliveryStates, tradeStatus } from '../deliveries.js';
+import { badRequest, conflict, forbidden, notFound } from '../errors.js';
+import { matchOrders, readBidderBalances } from '../matching.js';
+import { projectCredits } from '../projections.js';
+import { displayName, nextId, type Database, type Store } from '../store.js';
+import {
+  availableKg,
+  executeTrade,
+  isListingExpired,
+  isListingTradable,
+  listingAttributes,
+  offerStatus,
+  spendableBalance,
+  unreservedKg,
+} from '../trading.js';
+import type { MarketplaceListing, OfferStatus, Transaction } from '../types.js';
+
+const offerSchema = z.object({
+  producerId: z.string().min(1),
+  // The on-chain credits being offered; they must be held by the producer, verified and unexpired.
+  creditIds: z.array(z.number().int().positive()).min(1),
+  creditsAvailable: z.number().int().positive(),
+  pricePerCredit: z.number().positive(),
+});
+
+// The backing credits are fixed; offer others by cancelling and creating a new offer.
+const offerUpdateSchema = z.object({
+  creditsAvailable: z.number().int().nonnegative(),
+  pricePerCredit: z.number().positive(),
+});
+
+const offerQuerySchema = z.object({
+  status: z.enum(['active', 'paused', 'cancelled', 'all']).default('all'),
+});
+
+const tradeSchema = z.object({
+  buyerId: z.string().min(1),
+  offerId: z.string().min(1),
+  quantity: z.number().int().positive(),
+});
+
+// Checks that every credit can be sold and returns the offer's expiry: the earliest among them.
+const backingCredits = (db: Readonly<Database>, producerId: string, creditIds: number[], creditsAvailable: number) => {
+  const credits = projectCredits(db.chainEvents);
+  let total = 0;
+  let expiresAt: Date | undefined;
+  for (const id of new Set(creditIds)) {
+    const credit = credits.get(id);
+    if (!credit) throw notFound(`Credit #${id} not found`);
+    if (credit.owner.toLowerCase() !== producerId.toLowerCase()) throw badRequest(`Credit #${id} is not held by this producer`);
+    if (credit.superseded) throw conflict(`Credit #${id} has been split or merged; offer its parts instead`);
+    if (!credit.verified || credit.retired || credit.suspended) throw conflict(`Credit #${id} is not active and verified`);
+    if (isCreditExpired(credit.productionDate)) {
+      throw conflict(`Credit #${id} expired on ${creditExpiresAt(credit.productionDate).toISOString().slice(0, 10)}`);
+    }
+    total += kgToCredits(credit.amount);
+    const expiry = creditExpiresAt(credit.productionDate);
+    if (!expiresAt || expiry < expiresAt) expiresAt = expiry;
+  }
+  if (creditsAvailable > total) {
+    throw badRequest(`The selected credits hold ${formatCredits(total)}; cannot offer ${formatCredits(creditsAvailable)}`);
+  }
+  return expiresAt?.toISOString();
+};
+
+// Offered volume is reserved against the producer's holdings of the backing credits' lineage.
+const assertReservable = (
+  db: Readonly<Database>,
+  listing: Pick<MarketplaceListing, 'producerId' | 'creditIds' | 'creditsAvailable'> & { offerId?: string },
+) => {
+  const free = unreservedKg(db, listing.producerId, listing.creditIds ?? [], listing.offerId);
+  if (creditsToKg(listing.creditsAvailable) > free) {
+    throw conflict(`You hold ${formatKg(Math.max(free, 0))} of these credits not already offered or owed to buyers`);
+  }
+};
+
+const ownOffer = (db: Database, offerId: string, producerId: string) => {
+  const listing = db.listings.find(l => l.offerId === offerId);
+  if (!listing) throw notFound(`Offer ${offerId} not found`);
+  if (listing.producerId.toLowerCase() !== producerId.toLowerCase()) throw forbidden('Cannot change another producer\'s offer');
+  return listing;
+};
+
+const setStatus = (listing: MarketplaceListing, from: OfferStatus, to: OfferStatus) => {
+  if (offerStatus(listing) !== from) throw conflict(`Offer ${listing.offerId} is ${offerStatus(listing)}`);
+  listing.status = to;
+  listing.updatedAt = new Date().toISOString();
+};
+
+export const marketplaceRouter = (store: Store) => {
+  const router = Router();
+
+  // Offers whose credits have expired, or that have no on-chain credits to settle against, can't be traded.
+  router.get('/marketplace', (_req, res) => {
+    const listings = store.read(db => {
+      const credits = projectCredits(db.chainEvents);
+      return db.listings
+        .filter(l => isListingTradable(l) && l.creditsAvailable > 0)
+        .map(l => ({ ...l, ...listingAttributes(db, l, credits) }));
+    });
+    res.json(listings);
+  });
+
+  // The producer's own offers with what each has sold so far.
+  router.get('/offers', requireRole('producer'), (req, res) => {
+    const producerId = currentUser(req).id;
+    const query = offerQuerySchema.parse(req.query);
+    const offers = store.read(db => {
+      const states = deliveryStates(db);
+      return db.listings
+        .filter(l => l.producerId.toLowerCase() === producerId.toLowerCase())
+        .filter(l => query.status === 'all' || offerStatus(l) === query.status)
+        .map(listing => {
+          const fills = states
+            .filter(d => d.offerId === listing.offerId)
+            .map(d => ({
+              txId: d.txId,
+              buyerName: displayName(db, d.buyerId),
+              credits: kgToCredits(d.kg),
+              pricePerCredit: d.pricePerCredit,
+              timestamp: d.createdAt,
+              status: d.status,
+            }))
+            .reverse();
+          return {
+            ...listing,
+            status: offerStatus(listing),
+            creditsSold: fills.reduce((sum, f) => sum + f.credits, 0),
+            fills,
+          };
+        })
+        .sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
+    });
+    res.json(offers);
+  });
+
+  // Repricing or resizing keeps the offer's place in time priority.
+  router.put<{ offerId: string }>('/offers/:offerId', requireRole('producer'), async (req, res) => {
+    const body = offerUpdateSchema.parse(req.body);
+    const producerId = currentUser(req).id;
+    const balances = await readBidderBalances(store);
+
+    const listing = await store.transact(db => {
+      const listing = ownOffer(db, req.params.offerId, producerId);
+      if (offerStatus(listing) === 'cancelled') throw conflict(`Offer ${listing.offerId} is cancelled`);
+      if (!listing.creditIds) throw conflict(`Offer ${listing.offerId} is not backed by on-chain credits`);
+      if (isListingExpired(listing)) throw conflict(`Offer ${listing.offerId} expired on ${listing.expiresAt!.slice(0, 10)}`);
+      assertReservable(db, { ...listing, ...body });
+      Object.assign(listing, body, { updatedAt: new Date().toISOString() });
+      matchOrders(db, balances);
+      return listing;
+    });
+
+    res.json(listing);
+  });
+
+  router.post<{ offerId: string }>('/offers/:offerId/pause', requireRole('producer'), async (req, res) => {
+    const producerId = currentUser(req).id;
+    const listing = await store.transact(db => {
+      const listing = ownOffer(db, req.params.offerId, producerId);
+      setStatus(listing, 'active', 'paused');
+      return listing;
+    });
+    res.json(listing);
+  });
+
+  // Holdings may have moved while the offer was paused, so the reservation is checked again.
+  router.post<{ offerId: string }>('/offers/:offerId/resume', requireRole('producer'), async (req, res) => {
+    const producerId = currentUser(req).id;
+    const balances = await readBidderBalances(store);
+    const listing = await store.transact(db => {
+      const listing = ownOffer(db, req.params.offerId, producerId);
+      if (isListingExpired(listing)) throw conflict(`Offer ${listing.offerId} expired on ${listing.expiresAt!.slice(0, 10)}`);
+      setStatus(listing, 'paused', 'active');
+      assertReservable(db, listing);
+      matchOrders(db, balances);
+      return listing;
+    });
+    res.json(listing);
+  });
+
+  // Buyers already owed credits from the offer are still owed them.
+  router.post<{ offerId: string }>('/offers/:offerId/cancel', requireRole('producer'), async (req, res) => {
+    const producerId = currentUser(req).id;
+    const listing = await store.transact(db => {
+      const listing = ownOffer(db, req.params.offerId, producerId);
+      if (offerStatus(listing) === 'cancelled') throw conflict(`Offer ${listing.offerId} is already cancelled`);
+      listing.status = 'cancelled';
+      listing.updatedAt = new Date().toISOString();
+      return listing;
+    });
+    res.json(listing);
+  });
+
+  router.post('/marketplace', requireRole('producer'), async (req, res) => {
+    const body = offerSchema.parse(req.body);
+    const producer = assertSelf(req, body.producerId);
+    const balances = await readBidderBalances(store);
+
+    const listing = await store.transact(db => {
+      const expiresAt = backingCredits(db, producer.id, body.creditIds, body.creditsAvailable);
+      assertReservable(db, { ...body, producerId: producer.id });
+      const listing: MarketplaceListing = {
+        offerId: nextId(db, 'offer'),
+        producerId: producer.id,
+        producerName: displayName(db, producer.id),
+        creditsAvailable: body.creditsAvailable,
+        pricePerCredit: body.pricePerCredit,
+        creditIds: [...new Set(body.creditIds)],
+        expiresAt,
+        createdAt: new Date().toISOString(),
+        status: 'active',
+      };
+      db.listings.push(listing);
+      // A new ask may cross resting bids straight away
+      matchOrders(db, balances);
+      return listing;
+    });
+
+    res.status(201).json(listing);
+  });
+
+  router.post('/trade', requireRole('buyer'), async (req, res) => {
+    const body = tradeSchema.parse(req.body);
+    assertSelf(req, body.buyerId);
+    const balance = await readPaymentBalance(body.buyerId);
+
+    const transaction = await store.transact((db): Transaction => {
+      const listing = db.listings.find(l => l.offerId === body.offerId);
+      if (!listing) throw notFound(`Offer ${body.offerId} not found`);
+      // Payment is settled against the offer's credits on-chain, so offers without them can't be bought.
+      if (!listing.creditIds) {
+        throw conflict(`Offer ${body.offerId} is not backed by on-chain credits`);
+      }
+      if (isListingExpired(listing)) {
+        throw conflict(`Offer ${body.offerId} expired on ${listing.expiresAt!.slice(0, 10)}`);
+      }
+      if (offerStatus(listing) !== 'active') throw conflict(`Offer ${body.offerId} is ${offerStatus(listing)}`);
+      if (body.quantity > listing.creditsAvailable) {
+        throw conflict('Requested quantity exceeds available credits');
+      }
+      const buyer = db.users.find(u => u.id === body.buyerId);
+      const producer = db.users.find(u => u.id === listing.producerId);
+      if (!buyer || !producer) throw notFound('Trade counterparty not found');
+      // Backing credits may since have been split, merged or partly delivered; what counts is what's left of their lineage.
+      const available = availableKg(db, listing);
+      if (creditsToKg(body.quantity) > available) {
+        throw conflict(`The producer holds ${formatKg(Math.max(available, 0))} of this offer's credits not yet owed to other buyers`);
+      }
+
+      // Purchases not yet paid into escrow are already spoken for.
+      const totalPrice = body.quantity * listing.pricePerCredit;
+      const spendable = spendableBalance(deliveryStates(db), buyer.id, balance);
+      if (spendable < totalPrice) {
+        throw badRequest(`Insufficient payment balance for this purchase: ${spendable.toFixed(2)} available`);
+      }
+
+      const entry = executeTrade(db, listing, producer, buyer, body.quantity, listing.pricePerCredit);
+      const delivery = deliveryStates(db).find(d => d.txId === entry.txId)!;
+
+      return {
+        txId: entry.txId,
+        type: 'trade',
+        amount: entry.credits,
+        counterparty: listing.producerName,
+        timestamp: entry.timestamp,
+        status: tradeStatus(delivery),
+        pricePerCredit: listing.pricePerCredit,
+        totalPrice,
+      };
+    });
+
+    res.status(201).json(transaction);
+  });
+
+  return router;
+};
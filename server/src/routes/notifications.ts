@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { currentUser, requireRole } from '../auth.js';
+import { notFound } from '../errors.js';
+import type { Store } from '../store.js';
+
+const listQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).optional(),
+});
+
+// Notifications are addressed to wallet addresses, which are also user ids.
+const isFor = (userId: string) => (n: { userId: string }) => n.userId.toLowerCase() === userId.toLowerCase();
+
+export const notificationsRouter = (store: Store) => {
+  const router = Router();
+
+  router.get('/notifications', requireRole(), (req, res) => {
+    const user = currentUser(req);
+    const query = listQuerySchema.parse(req.query);
+    const notifications = store.read(db =>
+      db.notifications
+        .filter(isFor(user.id))
+        .filter(n => query.unread !== 'true' || !n.read)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    );
+    res.json(notifications);
+  });
+
+  router.post<{ notificationId: string }>('/notifications/:notificationId/read', requireRole(), async (req, res) => {
+    const user = currentUser(req);
+    const notification = await store.transact(db => {
+      const notification = db.notifications.find(n => n.notificationId === req.params.notificationId);
+      if (!notification || !isFor(user.id)(notification)) {
+        throw notFound(`Notification ${req.params.notificationId} not found`);
+      }
+      notification.read = true;
+      return notification;
+    });
+    res.json(notification);
+  });
+
+  return router;
+};
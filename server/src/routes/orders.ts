@@ -0,0 +1,134 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { currentUser, requireRole } from '../auth.js';
+import { readPaymentBalance } from '../chain.js';
+import { deliveryStates } from '../deliveries.js';
+import { badRequest, conflict, notFound } from '../errors.js';
+import { matchOrders, readBidderBalances } from '../matching.js';
+import { projectCredits } from '../projections.js';
+import { nextId, type Store } from '../store.js';
+import { isListingTradable, sellableCredits, spendableBalance } from '../trading.js';
+import type { Bid } from '../types.js';
+import { renewableSources } from './facilities.js';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+const bidSchema = z.object({
+  credits: z.number().int().positive(),
+  limitPrice: z.number().positive(),
+  constraints: z.object({
+    renewableSource: z.enum(renewableSources).optional(),
+    maxCarbonIntensity: z.number().nonnegative().optional(),
+    vintageFrom: isoDate.optional(),
+    vintageTo: isoDate.optional(),
+  }).refine(c => !c.vintageFrom || !c.vintageTo || c.vintageFrom <= c.vintageTo, {
+    message: 'Vintage window ends before it starts',
+    path: ['vintageTo'],
+  }).default({}),
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(['open', 'filled', 'cancelled', 'all']).default('all'),
+});
+
+interface DepthLevel {
+  price: number;
+  credits: number;
+  orders: number;
+}
+
+// Aggregates orders into one level per price, best price first.
+const depth = (orders: { price: number; credits: number }[], best: 'highest' | 'lowest'): DepthLevel[] => {
+  const levels = new Map<number, DepthLevel>();
+  for (const { price, credits } of orders) {
+    if (credits <= 0) continue;
+    const level = levels.get(price) ?? { price, credits: 0, orders: 0 };
+    level.credits += credits;
+    level.orders += 1;
+    levels.set(price, level);
+  }
+  return [...levels.values()].sort((a, b) => best === 'highest' ? b.price - a.price : a.price - b.price);
+};
+
+const isOwn = (userId: string) => (b: Bid) => b.buyerId.toLowerCase() === userId.toLowerCase();
+
+export const ordersRouter = (store: Store) => {
+  const router = Router();
+
+  // Public depth of the book: resting bids and the credits offers can sell right now.
+  router.get('/orderbook', (_req, res) => {
+    const book = store.read(db => {
+      const credits = projectCredits(db.chainEvents);
+      return {
+        bids: depth(db.bids.filter(b => b.status === 'open').map(b => ({ price: b.limitPrice, credits: b.remaining })), 'highest'),
+        asks: depth(
+          db.listings
+            .filter(l => isListingTradable(l) && l.creditsAvailable > 0)
+            .map(l => ({ price: l.pricePerCredit, credits: sellableCredits(db, l, credits) })),
+          'lowest',
+        ),
+      };
+    });
+    res.json(book);
+  });
+
+  router.get('/bids', requireRole('buyer'), (req, res) => {
+    const user = currentUser(req);
+    const query = listQuerySchema.parse(req.query);
+    const bids = store.read(db =>
+      db.bids
+        .filter(isOwn(user.id))
+        .filter(b => query.status === 'all' || b.status === query.status)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    );
+    res.json(bids);
+  });
+
+  // A bid first fills against whatever offers it crosses; the rest rests on the book.
+  router.post('/bids', requireRole('buyer'), async (req, res) => {
+    const body = bidSchema.parse(req.body);
+    const user = currentUser(req);
+    const balance = await readPaymentBalance(user.id);
+    const balances = await readBidderBalances(store);
+
+    const bid = await store.transact(db => {
+      const buyer = db.users.find(u => u.id === user.id);
+      if (!buyer) throw notFound('Buyer not found');
+      const spendable = spendableBalance(deliveryStates(db), buyer.id, balance);
+      if (spendable < body.credits * body.limitPrice) {
+        throw badRequest(`Insufficient payment balance for this bid: ${spendable.toFixed(2)} available`);
+      }
+      const bid: Bid = {
+        bidId: nextId(db, 'bid'),
+        buyerId: buyer.id,
+        credits: body.credits,
+        remaining: body.credits,
+        limitPrice: body.limitPrice,
+        constraints: body.constraints,
+        status: 'open',
+        fills: [],
+        createdAt: new Date().toISOString(),
+      };
+      db.bids.push(bid);
+      matchOrders(db, new Map([...balances, [buyer.id, balance]]));
+      return bid;
+    });
+
+    res.status(201).json(bid);
+  });
+
+  // Cancelling keeps the fills already made.
+  router.post<{ bidId: string }>('/bids/:bidId/cancel', requireRole('buyer'), async (req, res) => {
+    const user = currentUser(req);
+    const bid = await store.transact(db => {
+      const bid = db.bids.find(b => b.bidId === req.params.bidId);
+      if (!bid || !isOwn(user.id)(bid)) throw notFound(`Bid ${req.params.bidId} not found`);
+      if (bid.status !== 'open') throw conflict(`Bid ${bid.bidId} is already ${bid.status}`);
+      bid.status = 'cancelled';
+      return bid;
+    });
+    res.json(bid);
+  });
+
+  return router;
+};
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { currentUser, requireRole } from '../auth.js';
+import { portfolioPricing } from '../portfolio.js';
+import type { Store } from '../store.js';
+
+export const portfolioRouter = (store: Store) => {
+  const router = Router();
+
+  // Holdings themselves are read from the contract; this adds what they cost and what they are worth.
+  router.get('/portfolio/pricing', requireRole('buyer'), (req, res) => {
+    const holder = currentUser(req).id;
+    res.json(store.read(db => portfolioPricing(db, holder)));
+  });
+
+  return router;
+};
@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { formatCredits } from '../../../shared/quantity.js';
+import { currentUser, requireRole } from '../auth.js';
+import { readPaymentBalance } from '../chain.js';
+import { deliveryStates, tradeStatus } from '../deliveries.js';
+import { badRequest, conflict, notFound } from '../errors.js';
+import { basketMisfit, planProcurement } from '../procurement.js';
+import type { Store } from '../store.js';
+import { executeTrade, isListingExpired, isUnpaid, offerStatus, reverseTrade, sellableCredits, spendableBalance } from '../trading.js';
+import type { Transaction } from '../types.js';
+import { renewableSources } from './facilities.js';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+const planSchema = z.object({
+  credits: z.number().int().positive(),
+  budget: z.number().positive(),
+  renewableSources: z.array(z.enum(renewableSources)).optional(),
+  maxCarbonIntensity: z.number().nonnegative().optional(),
+  vintageFrom: isoDate.optional(),
+  vintageTo: isoDate.optional(),
+  maxProducerShare: z.number().positive().max(1).optional(),
+}).refine(r => !r.vintageFrom || !r.vintageTo || r.vintageFrom <= r.vintageTo, {
+  message: 'Vintage window ends before it starts',
+  path: ['vintageTo'],
+});
+
+// The legs of a reviewed plan and the request they were planned for; prices are those the buyer agreed to.
+const executeSchema = z.object({
+  request: planSchema,
+  legs: z.array(z.object({
+    offerId: z.string().min(1),
+    credits: z.number().int().positive(),
+    pricePerCredit: z.number().positive(),
+  })).min(1),
+}).refine(b => new Set(b.legs.map(l => l.offerId)).size === b.legs.length, {
+  message: 'Each offer can appear in only one leg',
+  path: ['legs'],
+});
+
+const cancelSchema = z.object({
+  txIds: z.array(z.string().min(1)).min(1),
+});
+
+export const procurementRouter = (store: Store) => {
+  const router = Router();
+
+  router.post('/procurement/plan', requireRole('buyer'), (req, res) => {
+    const body = planSchema.parse(req.body);
+    const buyerId = currentUser(req).id;
+    res.json(store.read(db => planProcurement(db, buyerId, body)));
+  });
+
+  // All legs trade or none do: any leg that can no longer be bought as planned undoes the others. The
+  // basket is checked against the request again, so it can't exceed the budget or a producer's share.
+  router.post('/procurement/execute', requireRole('buyer'), async (req, res) => {
+    const body = executeSchema.parse(req.body);
+    const user = currentUser(req);
+    const balance = await readPaymentBalance(user.id);
+
+    const transactions = await store.transact(db => {
+      const buyer = db.users.find(u => u.id === user.id);
+      if (!buyer) throw notFound('Buyer not found');
+      const cost = body.legs.reduce((sum, l) => sum + l.credits * l.pricePerCredit, 0);
+      const spendable = spendableBalance(deliveryStates(db), buyer.id, balance);
+      if (spendable < cost) {
+        throw badRequest(`Insufficient payment balance for this basket: ${spendable.toFixed(2)} available`);
+      }
+      const misfit = basketMisfit(db, buyer.id, body.request, body.legs);
+      if (misfit) throw badRequest(misfit);
+
+      const entries = body.legs.map(leg => {
+        const listing = db.listings.find(l => l.offerId === leg.offerId);
+        if (!listing) throw notFound(`Offer ${leg.offerId} not found`);
+        if (!listing.creditIds) throw conflict(`Offer ${leg.offerId} is not backed by on-chain credits`);
+        if (isListingExpired(listing)) throw conflict(`Offer ${leg.offerId} expired on ${listing.expiresAt!.slice(0, 10)}`);
+        if (offerStatus(listing) !== 'active') throw conflict(`Offer ${leg.offerId} is ${offerStatus(listing)}`);
+        if (listing.pricePerCredit !== leg.pricePerCredit) {
+          throw conflict(`Offer ${leg.offerId} is now priced at ${listing.pricePerCredit.toFixed(2)}; plan the basket again`);
+        }
+        // Earlier legs may have drawn on the same producer's credits.
+        const sellable = sellableCredits(db, listing);
+        if (leg.credits > sellable) {
+          throw conflict(`Offer ${leg.offerId} can now sell only ${formatCredits(sellable)}; plan the basket again`);
+        }
+        const producer = db.users.find(u => u.id === listing.producerId);
+        if (!producer) throw notFound('Trade counterparty not found');
+
+        return { listing, entry: executeTrade(db, listing, producer, buyer, leg.credits, listing.pricePerCredit) };
+      });
+
+      const states = deliveryStates(db);
+      return entries.map(({ listing, entry }): Transaction => ({
+        txId: entry.txId,
+        type: 'trade',
+        amount: entry.credits,
+        counterparty: listing.producerName,
+        timestamp: entry.timestamp,
+        status: tradeStatus(states.find(d => d.txId === entry.txId)!),
+        pricePerCredit: listing.pricePerCredit,
+        totalPrice: entry.credits * listing.pricePerCredit,
+      }));
+    });
+
+    res.status(201).json(transactions);
+  });
+
+  // Releases a basket whose payment never reached the escrow, all trades or none, so the buyer isn't left
+  // holding part of it. Trades with anything escrowed or delivered, or that filled a bid, stay.
+  router.post('/procurement/cancel', requireRole('buyer'), async (req, res) => {
+    const body = cancelSchema.parse(req.body);
+    const user = currentUser(req);
+
+    await store.transact(db => {
+      const states = deliveryStates(db);
+      for (const txId of body.txIds) {
+        const delivery = states.find(d => d.txId === txId && d.buyerId.toLowerCase() === user.id.toLowerCase());
+        if (!delivery) throw notFound(`Trade ${txId} not found`);
+        if (!isUnpaid(delivery)) {
+          throw conflict(`Trade ${txId} has been paid for; refund the escrow instead`);
+        }
+        if (db.bids.some(b => b.fills.some(f => f.txId === txId))) throw conflict(`Trade ${txId} filled a bid`);
+        reverseTrade(db, delivery);
+      }
+    });
+
+    res.status(204).end();
+  });
+
+  return router;
+};
@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { getAddress, isAddress } from 'ethers';
+import { z } from 'zod';
+import { currentUser, requireRole, resolveRole } from '../auth.js';
+import { conflict, notFound } from '../errors.js';
+import type { Store } from '../store.js';
+import type { ProducerRegistration } from '../types.js';
+
+const addressSchema = z
+  .string()
+  .refine(value => isAddress(value), 'Invalid address')
+  .transform(value => getAddress(value));
+
+const registrationSchema = z.object({
+  address: addressSchema,
+  name: z.string().trim().min(1).max(120),
+});
+
+export const producersRouter = (store: Store) => {
+  const router = Router();
+
+  // Re-derives an existing user's role so a registration takes effect without signing in again.
+  const refreshRole = async (address: string) => {
+    const role = await resolveRole(store, address);
+    await store.transact(db => {
+      const user = db.users.find(u => u.address === address);
+      if (user) user.role = role;
+    });
+  };
+
+  router.get('/producers/registrations', requireRole('regulator'), (_req, res) => {
+    res.json(store.read(db => [...db.producerRegistrations].sort((a, b) => b.registeredAt.localeCompare(a.registeredAt))));
+  });
+
+  router.post('/producers/registrations', requireRole('regulator'), async (req, res) => {
+    const body = registrationSchema.parse(req.body);
+    const regulatorId = currentUser(req).id;
+
+    const registration = await store.transact(db => {
+      if (db.producerRegistrations.some(r => r.address === body.address)) {
+        throw conflict(`${body.address} is already registered as a producer`);
+      }
+      const registration: ProducerRegistration = {
+        address: body.address,
+        name: body.name,
+        registeredBy: regulatorId,
+        registeredAt: new Date().toISOString(),
+      };
+      db.producerRegistrations.push(registration);
+      return registration;
+    });
+    await refreshRole(registration.address);
+
+    res.status(201).json(registration);
+  });
+
+  // Wallets that already hold credits stay producers; the contract says so.
+  router.delete<{ address: string }>('/producers/registrations/:address', requireRole('regulator'), async (req, res) => {
+    const address = addressSchema.parse(req.params.address);
+
+    await store.transact(db => {
+      const index = db.producerRegistrations.findIndex(r => r.address === address);
+      if (index === -1) throw notFound(`${address} is not a registered producer`);
+      db.producerRegistrations.splice(index, 1);
+    });
+    await refreshRole(address);
+
+    res.status(204).end();
+  });
+
+  return router;
+};
@@ -0,0 +1,422 @@
+import { Router, type Request } from 'express';
+import { z } from 'zod';
+import { formatKg, kgToTonnes, roundTonnes, tonnesToCredits, tonnesToKg } from '../../../shared/quantity.js';
+import { assertSelf, currentUser, requireRole } from '../auth.js';
+import { checkCapacity, reportingPeriod } from '../capacity.js';
+import { readIssuedCredit, type IssuedCredit } from '../chain.js';
+import { config } from '../config.js';
+import { SHA256_PATTERN } from '../evidence.js';
+import { badRequest, conflict, forbidden, notFound } from '../errors.js';
+import { displayName, nextId, type Database, type Store } from '../store.js';
+import type { ApprovedReport, EvidenceFile, PendingReport, ProductionReport, RejectionReason } from '../types.js';
+
+// A file returned by POST /evidence, with the display name for this report.
+const evidenceRefSchema = z.object({
+  sha256: z.string().regex(SHA256_PATTERN),
+  name: z.string().trim().min(1).max(255),
+});
+
+// The smallest report, whether typed in or read from meter data: one credit's worth.
+const MIN_TONNES = 0.001;
+const minTonnesMessage = 'Must be at least 0.001 tonnes (1 kg)';
+
+// Editable fields of a report, shared by drafts, submissions and resubmissions.
+const reportFieldsShape = z.object({
+  // Tonnes of H2, kept to the kg
+  tons: z.number().min(MIN_TONNES, minTonnesMessage).optional(),
+  facilityId: z.string().min(1).optional(),
+  periodStart: z.string().date().optional(),
+  productionDate: z.string().date().optional(),
+  notes: z.string().optional(),
+  file: z.string().optional(),
+  evidence: z.array(evidenceRefSchema).max(config.evidenceMaxFiles).optional(),
+  meterData: evidenceRefSchema.optional(),
+});
+
+type ReportFields = z.infer<typeof reportFieldsShape>;
+
+// The volume comes from the meter data when it is attached, otherwise from `tons`.
+const hasVolume = (fields: ReportFields) => fields.tons !== undefined || fields.meterData !== undefined;
+const volumeRequired = { message: 'Provide tons or meter data', path: ['tons'] };
+
+// YYYY-MM-DD strings compare in date order.
+const periodInOrder = (fields: ReportFields) =>
+  !fields.periodStart || (fields.productionDate !== undefined && fields.periodStart <= fields.productionDate);
+const periodInvalid = { message: 'periodStart must be on or before productionDate', path: ['periodStart'] };
+
+const reportFieldsSchema = reportFieldsShape
+  .refine(hasVolume, volumeRequired)
+  .refine(periodInOrder, periodInvalid);
+
+const submitSchema = reportFieldsShape
+  .extend({ producerId: z.string().min(1) })
+  .refine(hasVolume, volumeRequired)
+  .refine(periodInOrder, periodInvalid);
+
+const rejectionReasons = [
+  'missing_evidence',
+  'carbon_intensity_too_high',
+  'date_mismatch',
+  'quantity_discrepancy',
+  'other',
+] as const satisfies readonly RejectionReason[];
+
+const rejectSchema = z
+  .object({
+    reason: z.enum(rejectionReasons),
+    notes: z.string().trim().default(''),
+  })
+  .refine(body => body.reason !== 'other' || body.notes.length > 0, {
+    message: 'Notes are required when the reason is "other"',
+    path: ['notes'],
+  });
+
+const approveSchema = z.object({
+  reportId: z.string().min(1),
+  regulatorId: z.string().min(1),
+});
+
+const issuanceSchema = z.object({
+  creditId: z.number().int().positive(),
+  txHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Invalid transaction hash'),
+});
+
+// What the certifier writes into a credit's metadata for the report it was issued from.
+const creditMetadataSchema = z.object({
+  reportId: z.string(),
+  evidence: z.array(z.object({ sha256: z.string() })).optional(),
+  meterData: z.object({ sha256: z.string() }).optional(),
+});
+
+// Why an on-chain credit is not the one the report should have been issued as, if it isn't.
+const issuanceMismatch = (report: ProductionReport, credit: IssuedCredit) => {
+  if (credit.producer.toLowerCase() !== report.producerId.toLowerCase()) {
+    return `was issued to ${credit.producer}, not the report's producer`;
+  }
+  const kg = tonnesToKg(report.tons);
+  if (credit.amount !== kg) return `is for ${formatKg(credit.amount)}, not the report's ${formatKg(kg)}`;
+
+  let metadata: z.infer<typeof creditMetadataSchema>;
+  try {
+    metadata = creditMetadataSchema.parse(JSON.parse(credit.metadata));
+  } catch {
+    return 'does not name its production report in its metadata';
+  }
+  if (metadata.reportId !== report.reportId) return `was issued for report ${metadata.reportId}`;
+  const anchored = new Set([...(metadata.evidence ?? []), ...(metadata.meterData ? [metadata.meterData] : [])].map(e => e.sha256));
+  const missing = [...(report.evidence ?? []), ...(report.meterData ? [report.meterData] : [])].filter(f => !anchored.has(f.sha256));
+  if (missing.length > 0) return `does not anchor the evidence hash of ${missing.map(f => f.name).join(', ')}`;
+};
+
+// Finds a report the signed-in producer owns; anyone else gets a 403.
+const findOwnReport = (db: Database, req: Request, reportId: string) => {
+  const report = db.reports.find(r => r.reportId === reportId);
+  if (!report) throw notFound(`Report ${reportId} not found`);
+  assertSelf(req, report.producerId);
+  return report;
+};
+
+// Producers can only attach files they uploaded themselves.
+const resolveEvidence = (db: Database, producerId: string, { sha256, name }: z.infer<typeof evidenceRefSchema>): EvidenceFile => {
+  const record = db.evidence.find(e => e.sha256 === sha256);
+  if (!record || !record.uploadedBy.includes(producerId)) throw badRequest(`Evidence ${sha256} has not been uploaded`);
+  return { sha256, name, type: record.type, size: record.size, meter: record.meter };
+};
+
+// Copies the editable fields onto a report, deriving `tons` from meter data when present.
+const applyFields = (db: Database, report: ProductionReport, fields: ReportFields) => {
+  const meterData = fields.meterData && resolveEvidence(db, report.producerId, fields.meterData);
+  if (meterData && !meterData.meter) throw badRequest(`Evidence ${meterData.sha256} is not meter data`);
+
+  const facility = fields.facilityId && db.facilities.find(f => f.facilityId === fields.facilityId);
+  if (fields.facilityId && (!facility || facility.producerId !== report.producerId)) {
+    throw badRequest(`Facility ${fields.facilityId} is not registered to this producer`);
+  }
+
+  const tons = roundTonnes(meterData?.meter ? kgToTonnes(meterData.meter.h2Kg) : fields.tons!);
+  if (tons < MIN_TONNES) throw badRequest(minTonnesMessage);
+
+  report.tons = tons;
+  report.facilityId = fields.facilityId;
+  report.periodStart = fields.periodStart;
+  report.productionDate = fields.productionDate;
+  report.notes = fields.notes;
+  report.file = fields.file;
+  report.evidence = fields.evidence?.map(ref => resolveEvidence(db, report.producerId, ref));
+  report.meterData = meterData;
+};
+
+/**
+ * Checks the claimed output against the facility's nameplate capacity for the
+ * reporting period. Drafts just record the result; a submission must name a
+ * facility and dates, and is refused outright if it claims more than the plant
+ * could physically have produced.
+ */
+const assessCapacity = (db: Database, report: ProductionReport, submitting: boolean) => {
+  delete report.capacityCheck;
+  const facility = db.facilities.find(f => f.facilityId === report.facilityId);
+  const period = reportingPeriod(report);
+  if (submitting && !facility) throw badRequest('Select the facility this hydrogen was produced at');
+  if (submitting && !period) throw badRequest('A production date or meter data is required to check facility capacity');
+  if (!facility || !period) return;
+
+  const check = checkCapacity(facility, period, tonnesToKg(report.tons));
+  report.capacityCheck = check;
+  if (submitting && check.exceedsCapacity) {
+    throw badRequest(
+      `Report claims ${formatKg(check.claimedKg)} but ${facility.name} can produce at most ${formatKg(check.maxKg)} ` +
+      `in the ${check.operatingHours} hours it was operating during the reporting period`,
+    );
+  }
+};
+
+const assertDraft = (report: ProductionReport) => {
+  if (report.status !== 'draft') {
+    throw conflict(`Report ${report.reportId} is ${report.status}; only drafts can be changed`);
+  }
+};
+
+const createReport = (db: Database, producerId: string, status: 'draft' | 'submitted', fields: ReportFields) => {
+  const report: ProductionReport = {
+    reportId: nextId(db, 'rep'),
+    producerId,
+    tons: 0, // set by applyFields
+    status,
+    timestamp: new Date().toISOString(),
+  };
+  applyFields(db, report, fields);
+  assessCapacity(db, report, status === 'submitted');
+  db.reports.push(report);
+  return report;
+};
+
+export const productionRouter = (store: Store) => {
+  const router = Router();
+
+  router.post('/production', requireRole('producer'), async (req, res) => {
+    const body = submitSchema.parse(req.body);
+    assertSelf(req, body.producerId);
+
+    const report = await store.transact(db => createReport(db, body.producerId, 'submitted', body));
+
+    res.status(201).json(report);
+  });
+
+  // Drafts are private to the producer until submitted; `timestamp` tracks the last save.
+  router.post('/production/drafts', requireRole('producer'), async (req, res) => {
+    const body = reportFieldsSchema.parse(req.body);
+    const producerId = currentUser(req).id;
+
+    const report = await store.transact(db => createReport(db, producerId, 'draft', body));
+
+    res.status(201).json(report);
+  });
+
+  router.put<{ reportId: string }>('/production/:reportId', requireRole('producer'), async (req, res) => {
+    const body = reportFieldsSchema.parse(req.body);
+
+    const report = await store.transact(db => {
+      const report = findOwnReport(db, req, req.params.reportId);
+      assertDraft(report);
+      applyFields(db, report, body);
+      assessCapacity(db, report, false);
+      report.timestamp = new Date().toISOString();
+      return report;
+    });
+
+    res.json(report);
+  });
+
+  router.delete<{ reportId: string }>('/production/:reportId', requireRole('producer'), async (req, res) => {
+    await store.transact(db => {
+      const report = findOwnReport(db, req, req.params.reportId);
+      assertDraft(report);
+      db.reports = db.reports.filter(r => r.reportId !== report.reportId);
+    });
+
+    res.status(204).end();
+  });
+
+  router.post<{ reportId: string }>('/production/:reportId/submit', requireRole('producer'), async (req, res) => {
+    const report = await store.transact(db => {
+      const report = findOwnReport(db, req, req.params.reportId);
+      assertDraft(report);
+      assessCapacity(db, report, true);
+      report.status = 'submitted';
+      report.timestamp = new Date().toISOString();
+      return report;
+    });
+
+    res.json(report);
+  });
+
+  // The signed-in producer's reports, newest first, including rejections and revision history.
+  router.get('/production/reports', requireRole('producer'), (req, res) => {
+    const producerId = currentUser(req).id;
+    const reports = store.read(db =>
+      db.reports
+        .filter(r => r.producerId === producerId)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    );
+    res.json(reports);
+  });
+
+  router.post<{ reportId: string }>('/production/:reportId/resubmit', requireRole('producer'), async (req, res) => {
+    const body = reportFieldsSchema.parse(req.body);
+
+    const report = await store.transact(db => {
+      const report = findOwnReport(db, req, req.params.reportId);
+      if (report.status !== 'rejected' || !report.rejection) {
+        throw conflict(`Report ${report.reportId} is ${report.status}, not rejected`);
+      }
+
+      const history = report.history ?? [];
+      history.push({
+        revision: history.length + 1,
+        tons: report.tons,
+        facilityId: report.facilityId,
+        periodStart: report.periodStart,
+        productionDate: report.productionDate,
+        notes: report.notes,
+        file: report.file,
+        evidence: report.evidence,
+        meterData: report.meterData,
+        submittedAt: report.timestamp,
+        rejection: report.rejection,
+      });
+      report.history = history;
+      applyFields(db, report, body);
+      assessCapacity(db, report, true);
+      report.status = 'submitted';
+      report.timestamp = new Date().toISOString();
+      delete report.rejection;
+      return report;
+    });
+
+    res.json(report);
+  });
+
+  router.get('/production/pending', requireRole('regulator'), (_req, res) => {
+    const pending = store.read(db =>
+      db.reports
+        .filter((r): r is PendingReport => r.status === 'submitted')
+        .map(r => ({
+          ...r,
+          producerName: displayName(db, r.producerId),
+          facility: db.facilities.find(f => f.facilityId === r.facilityId),
+        }))
+    );
+    res.json(pending);
+  });
+
+  // Approving a report issues its tonnage as credits (one per kg) to the producer.
+  router.post('/approve', requireRole('regulator'), async (req, res) => {
+    const body = approveSchema.parse(req.body);
+    assertSelf(req, body.regulatorId);
+
+    const report = await store.transact(db => {
+      const report = db.reports.find(r => r.reportId === body.reportId);
+      if (!report) throw notFound(`Report ${body.reportId} not found`);
+      if (report.status !== 'submitted') {
+        throw conflict(`Report ${body.reportId} is ${report.status}, not submitted`);
+      }
+      const intensity = report.meterData?.meter;
+      if (intensity?.exceedsThreshold) {
+        throw conflict(
+          `Report ${body.reportId} has a metered carbon intensity of ${intensity.carbonIntensity} gCO2/kWh, ` +
+          `above the ${config.maxCarbonIntensity} gCO2/kWh limit`,
+        );
+      }
+      const producer = db.users.find(u => u.id === report.producerId);
+      if (!producer) throw notFound(`Producer ${report.producerId} not found`);
+
+      const credits = tonnesToCredits(report.tons);
+      report.status = 'approved';
+      producer.credits = (producer.credits ?? 0) + credits;
+      db.ledger.push({
+        txId: nextId(db, 'tx', 1001),
+        type: 'issue',
+        from: body.regulatorId,
+        to: producer.id,
+        credits,
+        timestamp: new Date().toISOString(),
+        verified: true,
+      });
+      return report;
+    });
+
+    res.json(report);
+  });
+
+  router.post<{ reportId: string }>('/production/:reportId/reject', requireRole('regulator'), async (req, res) => {
+    const body = rejectSchema.parse(req.body);
+    const regulatorId = currentUser(req).id;
+
+    const report = await store.transact(db => {
+      const report = db.reports.find(r => r.reportId === req.params.reportId);
+      if (!report) throw notFound(`Report ${req.params.reportId} not found`);
+      if (report.status !== 'submitted') {
+        throw conflict(`Report ${report.reportId} is ${report.status}, not submitted`);
+      }
+      report.status = 'rejected';
+      report.rejection = { ...body, regulatorId, timestamp: new Date().toISOString() };
+      return report;
+    });
+
+    res.json(report);
+  });
+
+  // Approved reports for certifiers to turn into on-chain credits; the contract lets the regulator certify too.
+  router.get('/production/approved', requireRole('certifier', 'regulator'), (_req, res) => {
+    const approved = store.read(db =>
+      db.reports
+        .filter((r): r is ApprovedReport => r.status === 'approved')
+        .map(r => ({
+          ...r,
+          producerName: displayName(db, r.producerId),
+          facility: db.facilities.find(f => f.facilityId === r.facilityId),
+        }))
+    );
+    res.json(approved);
+  });
+
+  router.post<{ reportId: string }>('/production/:reportId/issuance', requireRole('certifier', 'regulator'), async (req, res) => {
+    const body = issuanceSchema.parse(req.body);
+    // The credit must really exist on-chain, and be this report's, before the report points at it.
+    const credit = await readIssuedCredit(body.creditId, body.txHash);
+    if (!credit) throw badRequest(`Transaction ${body.txHash} did not issue credit #${body.creditId}`);
+
+    const report = await store.transact(db => {
+      const report = db.reports.find(r => r.reportId === req.params.reportId);
+      if (!report) throw notFound(`Report ${req.params.reportId} not found`);
+      if (report.status !== 'approved') {
+        throw conflict(`Report ${report.reportId} is ${report.status}, not approved`);
+      }
+      if (report.creditId !== undefined) {
+        throw conflict(`Report ${report.reportId} was already issued as credit #${report.creditId}`);
+      }
+      const other = db.reports.find(r => r.creditId === body.creditId);
+      if (other) throw conflict(`Credit #${body.creditId} was already recorded for report ${other.reportId}`);
+      const mismatch = issuanceMismatch(report, credit);
+      if (mismatch) throw badRequest(`Credit #${body.creditId} ${mismatch}`);
+      report.creditId = body.creditId;
+      report.txHash = body.txHash;
+      return report;
+    });
+
+    res.json(report);
+  });
+
+  // Registered last so `/production/pending`, `/production/approved` and `/production/reports` match first.
+  router.get<{ reportId: string }>('/production/:reportId', requireRole(), (req, res) => {
+    const user = currentUser(req);
+    const report = store.read(db => db.reports.find(r => r.reportId === req.params.reportId));
+    if (!report) throw notFound(`Report ${req.params.reportId} not found`);
+    const isOwner = report.producerId === user.id;
+    const isReviewer = (user.role === 'regulator' || user.role === 'certifier') && report.status !== 'draft';
+    if (!isOwner && !isReviewer) throw forbidden('Cannot view another producer\'s report');
+    res.json(report);
+  });
+
+  return router;
+};
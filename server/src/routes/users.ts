@@ -0,0 +1,111 @@
+import { Router, type Request } from 'express';
+import { z } from 'zod';
+import { currentUser, requireRole } from '../auth.js';
+import { deliveryStates, tradeStatus, type DeliveryState } from '../deliveries.js';
+import { forbidden, notFound } from '../errors.js';
+import { exportQuerySchema, streamExport, type ExportColumn } from '../export.js';
+import { displayName, type Database, type Store } from '../store.js';
+import type { LedgerRecord, Transaction } from '../types.js';
+
+// Profiles and histories are private to their owner; the regulator can see everyone's.
+const assertCanView = (req: Request, userId: string) => {
+  const user = currentUser(req);
+  if (user.id !== userId && user.role !== 'regulator') {
+    throw forbidden('Cannot view another user');
+  }
+};
+
+// Trades with a delivery take its settlement status; older trades settled off-chain.
+const toTransaction = (db: Readonly<Database>, entry: LedgerRecord, userId: string, delivery?: DeliveryState): Transaction => {
+  const counterpartyId = entry.from === userId ? entry.to : entry.from;
+  const transaction: Transaction = {
+    txId: entry.txId,
+    type: entry.type,
+    amount: entry.credits,
+    counterparty: displayName(db, counterpartyId),
+    timestamp: entry.timestamp,
+    status: delivery ? tradeStatus(delivery) : entry.verified ? 'completed' : 'pending',
+  };
+  if (entry.pricePerCredit !== undefined) {
+    transaction.pricePerCredit = entry.pricePerCredit;
+    transaction.totalPrice = entry.pricePerCredit * entry.credits;
+  }
+  return transaction;
+};
+
+// Mirrors the transaction history filters on the buyer dashboard.
+const transactionFilterSchema = z.object({
+  status: z.enum(['pending', 'escrowed', 'completed']).optional(),
+  // Substring match on the transaction id or counterparty name.
+  search: z.string().optional(),
+  // Calendar dates (YYYY-MM-DD, UTC); both ends are inclusive.
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+});
+
+const transactionColumns: ExportColumn<Transaction>[] = [
+  { key: 'txId', header: 'Transaction ID', value: t => t.txId },
+  { key: 'type', header: 'Type', value: t => t.type },
+  { key: 'timestamp', header: 'Timestamp', value: t => new Date(t.timestamp).toISOString() },
+  { key: 'counterparty', header: 'Counterparty', value: t => t.counterparty },
+  { key: 'amount', header: 'Credits', value: t => t.amount },
+  { key: 'pricePerCredit', header: 'Price per Credit', value: t => t.pricePerCredit },
+  { key: 'totalPrice', header: 'Total Price', value: t => t.totalPrice },
+  { key: 'status', header: 'Status', value: t => t.status },
+];
+
+const transactionExportSchema = transactionFilterSchema.merge(exportQuerySchema(transactionColumns));
+
+const matchesFilter = (filter: z.infer<typeof transactionFilterSchema>) => {
+  const search = filter.search?.toLowerCase();
+  return (tx: Transaction) => {
+    const date = tx.timestamp.slice(0, 10);
+    return (
+      (!filter.status || tx.status === filter.status) &&
+      (!search || tx.txId.toLowerCase().includes(search) || (tx.counterparty ?? '').toLowerCase().includes(search)) &&
+      (!filter.from || date >= filter.from) &&
+      (!filter.to || date <= filter.to)
+    );
+  };
+};
+
+const userTransactions = (db: Readonly<Database>, userId: string) => {
+  const deliveries = new Map(deliveryStates(db).map(d => [d.txId, d]));
+  return db.ledger
+    .filter(entry => entry.from === userId || entry.to === userId)
+    .map(entry => toTransaction(db, entry, userId, deliveries.get(entry.txId)))
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+export const usersRouter = (store: Store) => {
+  const router = Router();
+
+  router.get<{ id: string }>('/users/:id', requireRole(), (req, res) => {
+    const userId = req.params.id;
+    assertCanView(req, userId);
+    const user = store.read(db => db.users.find(u => u.id === userId));
+    if (!user) throw notFound(`User ${userId} not found`);
+    res.json(user);
+  });
+
+  router.get<{ id: string }>('/transactions/:id', requireRole(), (req, res) => {
+    const userId = req.params.id;
+    assertCanView(req, userId);
+    res.json(store.read(db => userTransactions(db, userId)));
+  });
+
+  router.get<{ id: string }>('/transactions/:id/export', requireRole(), async (req, res) => {
+    const userId = req.params.id;
+    assertCanView(req, userId);
+    const { format, columns, ...filter } = transactionExportSchema.parse(req.query);
+    const transactions = store.read(db => userTransactions(db, userId));
+    await streamExport(res, {
+      filename: `transactions-${userId}`,
+      format,
+      columns,
+      rows: transactions.filter(matchesFilter(filter)),
+    });
+  });
+
+  return router;
+};
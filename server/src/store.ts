@@ -0,0 +1,115 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type {
+  Bid,
+  Challenge,
+  ChainEvent,
+  Delivery,
+  EvidenceRecord,
+  Facility,
+  FraudReview,
+  IndexerCheckpoint,
+  LedgerRecord,
+  MarketplaceListing,
+  Notification,
+  ProducerRegistration,
+  ProductionReport,
+  Session,
+  User,
+} from './types.js';
+
+export interface Database {
+  sequences: Record<string, number>;
+  users: User[];
+  sessions: Session[];
+  challenges: Challenge[];
+  producerRegistrations: ProducerRegistration[];
+  reports: ProductionReport[];
+  evidence: EvidenceRecord[];
+  facilities: Facility[];
+  fraudReviews: FraudReview[];
+  listings: MarketplaceListing[];
+  bids: Bid[];
+  deliveries: Delivery[];
+  notifications: Notification[];
+  ledger: LedgerRecord[];
+  chainEvents: ChainEvent[];
+  indexer: IndexerCheckpoint | null;
+}
+
+const emptyDatabase = (): Database => ({
+  sequences: {},
+  users: [],
+  sessions: [],
+  challenges: [],
+  producerRegistrations: [],
+  reports: [],
+  evidence: [],
+  facilities: [],
+  fraudReviews: [],
+  listings: [],
+  bids: [],
+  deliveries: [],
+  notifications: [],
+  ledger: [],
+  chainEvents: [],
+  indexer: null,
+});
+
+/**
+ * JSON-file backed store. Every mutation goes through `transact`, which runs
+ * the callbacks one at a time and writes the whole document back to disk
+ * (via a temp file + rename) before resolving.
+ */
+export class Store {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(private readonly file: string, private db: Database) {}
+
+  static async open(file: string): Promise<Store> {
+    let db = emptyDatabase();
+    try {
+      db = { ...db, ...JSON.parse(await readFile(file, 'utf8')) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    const store = new Store(file, db);
+    await store.flush();
+    return store;
+  }
+
+  read<T>(fn: (db: Readonly<Database>) => T): T {
+    return fn(this.db);
+  }
+
+  transact<T>(fn: (db: Database) => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      // Work on a copy so a throwing callback leaves the store untouched.
+      const draft = structuredClone(this.db);
+      const result = fn(draft);
+      this.db = draft;
+      await this.flush();
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async flush() {
+    await mkdir(dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    await writeFile(tmp, JSON.stringify(this.db, null, 2));
+    await rename(tmp, this.file);
+  }
+}
+
+export const nextId = (db: Database, prefix: string, start = 1) => {
+  const value = db.sequences[prefix] ?? start;
+  db.sequences[prefix] = value + 1;
+  return `${prefix}-${value}`;
+};
+
+export const displayName = (db: Readonly<Database>, userId: string) => {
+  const user = db.users.find(u => u.id === userId);
+  return user ? user.company ?? user.name : userId;
+};
@@ -0,0 +1,200 @@
+import { hasExpired } from '../../shared/expiry.js';
+import { creditsToKg, KG_PER_CREDIT } from '../../shared/quantity.js';
+import { deliverableCredits, deliveryStates, undeliveredKg, unpaidValue, type DeliveryState } from './deliveries.js';
+import { projectCredits, type CreditState } from './projections.js';
+import { config } from './config.js';
+import { nextId, type Database, type Store } from './store.js';
+import type { Delivery, LedgerRecord, ListingAttributes, MarketplaceListing, User } from './types.js';
+
+type Credits = ReadonlyMap<number, CreditState>;
+
+export const isListingExpired = (listing: MarketplaceListing, now = new Date()) =>
+  listing.expiresAt !== undefined && hasExpired(listing.expiresAt, now);
+
+export const offerStatus = (listing: MarketplaceListing) => listing.status ?? 'active';
+
+// Whether buyers and the matching engine can trade against an offer: active, credit-backed and unexpired.
+export const isListingTradable = (listing: MarketplaceListing, now = new Date()) =>
+  offerStatus(listing) === 'active' && listing.creditIds !== undefined && !isListingExpired(listing, now);
+
+/**
+ * kg the producer can still put on an offer backed by `creditIds`: what they
+ * hold of that lineage, less the volume listed on their other open offers
+ * drawing on any of it and what buyers of those offers are still owed. Paused
+ * offers stay reserved. `exceptOfferId` leaves out the listed volume of the
+ * offer being edited, though not what its buyers are owed.
+ */
+export const unreservedKg = (
+  db: Readonly<Database>,
+  producerId: string,
+  creditIds: number[],
+  exceptOfferId?: string,
+  credits: Credits = projectCredits(db.chainEvents),
+) => {
+  const held = deliverableCredits(credits, { producerId, creditIds });
+  const heldIds = new Set(held.map(c => c.id));
+  const sharing = db.listings.filter(l =>
+    l.producerId.toLowerCase() === producerId.toLowerCase() &&
+    deliverableCredits(credits, l).some(c => heldIds.has(c.id))
+  );
+  const states = deliveryStates(db, credits);
+  const listedKg = sharing
+    .filter(l => l.offerId !== exceptOfferId && offerStatus(l) !== 'cancelled' && !isListingExpired(l))
+    .reduce((sum, l) => sum + creditsToKg(l.creditsAvailable), 0);
+  const owedKg = sharing.reduce((sum, l) => sum + undeliveredKg(states, l.offerId), 0);
+  return held.reduce((sum, c) => sum + c.amount, 0) - listedKg - owedKg;
+};
+
+// kg of a credit-backed offer's lineage the producer still holds beyond what earlier buyers are owed.
+export const availableKg = (db: Readonly<Database>, listing: MarketplaceListing, credits: Credits = projectCredits(db.chainEvents)) =>
+  deliverableCredits(credits, listing).reduce((sum, c) => sum + c.amount, 0) -
+  undeliveredKg(deliveryStates(db, credits), listing.offerId);
+
+// Credits of a tradable offer that can be sold right now: what is left on the listing, limited by the credits left to deliver from in its on-chain lineage.
+export const sellableCredits = (db: Readonly<Database>, listing: MarketplaceListing, credits?: Credits) => {
+  if (!isListingTradable(listing)) return 0;
+  return Math.max(Math.min(listing.creditsAvailable, Math.floor(availableKg(db, listing, credits) / KG_PER_CREDIT)), 0);
+};
+
+export const listingAttributes = (
+  db: Readonly<Database>,
+  listing: MarketplaceListing,
+  credits: Credits = projectCredits(db.chainEvents),
+): ListingAttributes => {
+  const deliverable = deliverableCredits(credits, listing);
+  const distinct = (values: (string | undefined)[]) =>
+    [...new Set(values.filter((v): v is string => v !== undefined && v !== ''))].sort();
+  const rated = deliverable.filter((c): c is CreditState & { carbonIntensity: number } => c.carbonIntensity !== undefined);
+  const ratedKg = rated.reduce((sum, c) => sum + c.amount, 0);
+  const vintages = deliverable.map(c => c.productionDate.slice(0, 10)).sort();
+
+  return {
+    renewableSources: distinct(deliverable.map(c => c.renewableSource)),
+    locations: distinct(deliverable.map(c => c.location)),
+    carbonIntensity: rated.length === 0 ? undefined : {
+      min: Math.min(...rated.map(c => c.carbonIntensity)),
+      max: Math.max(...rated.map(c => c.carbonIntensity)),
+      average: ratedKg > 0 ? rated.reduce((sum, c) => sum + c.carbonIntensity * c.amount, 0) / ratedKg : 0,
+    },
+    vintage: vintages.length === 0 ? undefined : { from: vintages[0], to: vintages[vintages.length - 1] },
+    incomplete: deliverable.some(c => c.renewableSource === undefined || c.carbonIntensity === undefined),
+  };
+};
+
+// A buyer's payment token balance less what they still owe into escrow for earlier purchases.
+export const spendableBalance = (states: DeliveryState[], buyerId: string, balance: number) =>
+  balance - states
+    .filter(d => d.status === 'pending' && d.buyerId.toLowerCase() === buyerId.toLowerCase())
+    .reduce((sum, d) => sum + unpaidValue(d), 0);
+
+/**
+ * Sells `quantity` credits of an offer to a buyer at `pricePerCredit`: moves
+ * the off-chain display balances, records the trade on the ledger and the
+ * delivery it creates. The buyer pays for the delivery into the settlement
+ * escrow and the producer settles it there, swapping in the credits. Callers
+ * check the quantity is sellable and affordable first.
+ */
+export const executeTrade = (
+  db: Database,
+  listing: MarketplaceListing,
+  producer: User,
+  buyer: User,
+  quantity: number,
+  pricePerCredit: number,
+): LedgerRecord => {
+  listing.creditsAvailable -= quantity;
+  // The off-chain balances are only shown on dashboards; on-chain holdings decide what can be sold.
+  producer.credits = Math.max((producer.credits ?? 0) - quantity, 0);
+  buyer.credits = (buyer.credits ?? 0) + quantity;
+
+  const entry = {
+    txId: nextId(db, 'tx', 1001),
+    type: 'trade' as const,
+    from: producer.id,
+    to: buyer.id,
+    credits: quantity,
+    timestamp: new Date().toISOString(),
+    verified: true,
+    pricePerCredit,
+  };
+  db.ledger.push(entry);
+  db.deliveries.push({
+    deliveryId: nextId(db, 'dlv'),
+    txId: entry.txId,
+    offerId: listing.offerId,
+    producerId: producer.id,
+    buyerId: buyer.id,
+    kg: creditsToKg(quantity),
+    pricePerCredit,
+    createdAt: entry.timestamp,
+  });
+  return entry;
+};
+
+/**
+ * Undoes `executeTrade` for a delivery nothing has been paid into escrow for
+ * or delivered: puts the credits back on the offer, moves the display
+ * balances back and drops the ledger record and the delivery. Callers check
+ * the delivery's state first.
+ */
+export const reverseTrade = (db: Database, delivery: Delivery) => {
+  const quantity = db.ledger.find(r => r.txId === delivery.txId)?.credits ?? 0;
+  const listing = db.listings.find(l => l.offerId === delivery.offerId);
+  if (listing) listing.creditsAvailable += quantity;
+  const producer = db.users.find(u => u.id === delivery.producerId);
+  if (producer) producer.credits = (producer.credits ?? 0) + quantity;
+  const buyer = db.users.find(u => u.id === delivery.buyerId);
+  if (buyer) buyer.credits = Math.max((buyer.credits ?? 0) - quantity, 0);
+
+  db.ledger = db.ledger.filter(r => r.txId !== delivery.txId);
+  db.deliveries = db.deliveries.filter(d => d.deliveryId !== delivery.deliveryId);
+};
+
+// Nothing delivered and nothing in escrow: the trade only reserves the offer's credits.
+export const isUnpaid = (delivery: DeliveryState) =>
+  delivery.deliveredKg === 0 && delivery.escrows.every(e => e.status === 'refunded');
+
+// When an unpaid trade's reservation lapses.
+export const paymentDueAt = (delivery: Delivery) => new Date(Date.parse(delivery.createdAt) + config.paymentWindowMs);
+
+// An unpaid trade whose payment window has passed; its reservation can be released.
+export const hasLapsed = (delivery: DeliveryState, now = new Date()) =>
+  isUnpaid(delivery) && paymentDueAt(delivery) <= now;
+
+/**
+ * Releases a lapsed trade: the credits go back on the offer as `reverseTrade`
+ * does. A bid it filled loses the fill and is cancelled, since its buyer did
+ * not pay for what it matched.
+ */
+export const releaseTrade = (db: Database, delivery: Delivery) => {
+  for (const bid of db.bids) {
+    const fill = bid.fills.find(f => f.txId === delivery.txId);
+    if (!fill) continue;
+    bid.fills = bid.fills.filter(f => f !== fill);
+    bid.remaining += fill.credits;
+    bid.status = 'cancelled';
+  }
+  reverseTrade(db, delivery);
+};
+
+// Releases every lapsed trade, returning their transaction ids.
+export const sweepUnpaidTrades = (db: Database, now = new Date()) => {
+  const lapsed = deliveryStates(db).filter(d => hasLapsed(d, now));
+  for (const delivery of lapsed) releaseTrade(db, delivery);
+  return lapsed.map(d => d.txId);
+};
+
+export const startPaymentSweep = (store: Store) => {
+  const tick = async () => {
+    try {
+      const released = await store.transact(db => sweepUnpaidTrades(db));
+      if (released.length > 0) console.log(`Payment sweep: released ${released.length} unpaid trade(s)`);
+    } catch (error) {
+      console.error('Payment sweep failed:', error);
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, config.paymentSweepMs);
+  return () => clearInterval(timer);
+};
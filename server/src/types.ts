@@ -0,0 +1,511 @@
+export type Role = 'producer' | 'buyer' | 'regulator' | 'certifier' | 'auditor' | 'public';
+
+export interface User {
+  id: string;
+  address: string;
+  role: Role;
+  name: string;
+  email?: string;
+  company?: string;
+  // Off-chain balance in credits (1 credit = 1 kg H2).
+  credits?: number;
+}
+
+export interface Session {
+  token: string;
+  userId: string;
+  createdAt: string;
+  // The token stops working then; signing out deletes it sooner
+  expiresAt: string;
+}
+
+// A regulator's admission of a wallet as a producer, so it can register facilities and report
+// production before it holds any credits.
+export interface ProducerRegistration {
+  address: string;
+  name: string;
+  registeredBy: string;
+  registeredAt: string;
+}
+
+// Outstanding sign-in message for a wallet; consumed by the first valid signature.
+export interface Challenge {
+  address: string;
+  message: string;
+  expiresAt: string;
+}
+
+export type EvidenceType =
+  | 'application/pdf'
+  | 'image/png'
+  | 'image/jpeg'
+  | 'image/webp'
+  // Interval meter data
+  | 'text/csv'
+  | 'application/json';
+
+// Derived from an uploaded meter data file when it is stored.
+export interface MeterSummary {
+  intervals: number;
+  periodStart: string;
+  periodEnd: string;
+  h2Kg: number;
+  energyKwh: number;
+  renewableKwh: number;
+  gridKwh: number;
+  // Fraction (0-1) of electrolyzer energy not matched by renewable supply in the same interval.
+  gridShare: number;
+  // gCO2/kWh, rounded up to a whole number as issueCredit expects.
+  carbonIntensity: number;
+  // kWh per kg of H2.
+  specificConsumption: number;
+  exceedsThreshold: boolean;
+}
+
+// One per stored file; the bytes live in the evidence directory under their SHA-256.
+export interface EvidenceRecord {
+  sha256: string;
+  type: EvidenceType;
+  size: number;
+  // Everyone who has uploaded these bytes may attach and read them.
+  uploadedBy: string[];
+  uploadedAt: string;
+  meter?: MeterSummary;
+}
+
+// A report's reference to an uploaded file, under the name the producer gave it.
+export interface EvidenceFile {
+  sha256: string;
+  name: string;
+  type: EvidenceType;
+  size: number;
+  meter?: MeterSummary;
+}
+
+export type ElectrolyzerType = 'alkaline' | 'pem' | 'soec' | 'aem';
+
+// Matches the renewableSource values the certifier writes on-chain.
+export type RenewableSource = 'Solar' | 'Wind' | 'Hydro' | 'Geothermal' | 'Biomass';
+
+export interface RenewableAsset {
+  type: RenewableSource;
+  name?: string;
+  capacityMw: number;
+}
+
+// A production site. Every submitted report names the facility it came from.
+export interface Facility {
+  facilityId: string;
+  producerId: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  electrolyzerType: ElectrolyzerType;
+  // Nameplate electrolyzer input power and the H2 output it is rated for.
+  capacityMw: number;
+  capacityKgPerDay: number;
+  renewableAssets: RenewableAsset[];
+  // Calendar date (YYYY-MM-DD) the plant started operating.
+  commissioningDate: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How a report's claimed output compares with what its facility could produce in the period.
+export interface CapacityCheck {
+  facilityId: string;
+  periodStart: string;
+  periodEnd: string;
+  // Hours of the period during which the facility was commissioned.
+  operatingHours: number;
+  maxKg: number;
+  claimedKg: number;
+  // claimedKg / maxKg; above 1 is physically impossible. Null if the facility wasn't running.
+  utilization: number | null;
+  exceedsCapacity: boolean;
+  // Plausible but close enough to nameplate to deserve a closer look.
+  flagged: boolean;
+}
+
+export type ReportStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export type RejectionReason =
+  | 'missing_evidence'
+  | 'carbon_intensity_too_high'
+  | 'date_mismatch'
+  | 'quantity_discrepancy'
+  | 'other';
+
+export interface Rejection {
+  reason: RejectionReason;
+  notes: string;
+  regulatorId: string;
+  timestamp: string;
+}
+
+// A superseded submission, kept when a rejected report is amended and resubmitted.
+export interface ReportRevision {
+  revision: number;
+  tons: number;
+  facilityId?: string;
+  periodStart?: string;
+  productionDate?: string;
+  notes?: string;
+  file?: string;
+  evidence?: EvidenceFile[];
+  meterData?: EvidenceFile;
+  submittedAt: string;
+  rejection: Rejection;
+}
+
+export interface ProductionReport {
+  reportId: string;
+  producerId: string;
+  // Tonnes of H2; approval converts this to credits with tonnesToCredits.
+  tons: number;
+  status: ReportStatus;
+  // Submission time; for drafts, the last save.
+  timestamp: string;
+  // Required on submission; drafts may leave it out.
+  facilityId?: string;
+  // Calendar dates (YYYY-MM-DD). The reporting period runs from `periodStart` (or
+  // `productionDate` alone) to `productionDate`, inclusive; meter data overrides both.
+  periodStart?: string;
+  productionDate?: string;
+  notes?: string;
+  // File name only; reports from before evidence uploads.
+  file?: string;
+  evidence?: EvidenceFile[];
+  // Interval meter data; when present, `tons` is derived from it.
+  meterData?: EvidenceFile;
+  capacityCheck?: CapacityCheck;
+  // Set while the report is rejected; moved into `history` on resubmission.
+  rejection?: Rejection;
+  history?: ReportRevision[];
+  // Set once a certifier has minted the on-chain credit for an approved report.
+  creditId?: number;
+  txHash?: string;
+}
+
+export interface PendingReport extends ProductionReport {
+  producerName: string;
+  facility?: Facility;
+  status: 'submitted';
+}
+
+export interface ApprovedReport extends ProductionReport {
+  producerName: string;
+  facility?: Facility;
+  status: 'approved';
+}
+
+export type FraudRule = 'overlapping_period' | 'reused_evidence' | 'round_trip_transfer' | 'volume_spike';
+
+export type FraudSeverity = 'low' | 'medium' | 'high';
+
+// A regulator's decision on a fraud flag. Flags are recomputed on every request; reviews are kept by flagId.
+export interface FraudReview {
+  flagId: string;
+  status: 'dismissed' | 'confirmed';
+  notes: string;
+  // The reports the flag covered when reviewed; a flag that has since gained reports is open again.
+  reportIds: string[];
+  regulatorId: string;
+  timestamp: string;
+}
+
+export interface FraudFlag {
+  // Derived from the rule and the items involved, so it is stable across recomputation.
+  flagId: string;
+  rule: FraudRule;
+  severity: FraudSeverity;
+  summary: string;
+  producerIds: string[];
+  reportIds: string[];
+  creditIds: number[];
+  // Wallet addresses involved in transfer flags
+  addresses: string[];
+  // When the last item involved happened
+  detectedAt: string;
+  review?: FraudReview;
+}
+
+// Paused offers leave the book but keep their volume reserved; cancelling releases it for good.
+export type OfferStatus = 'active' | 'paused' | 'cancelled';
+
+export interface MarketplaceListing {
+  offerId: string;
+  producerId: string;
+  producerName: string;
+  creditsAvailable: number;
+  pricePerCredit: number;
+  // On-chain credits backing the offer; absent on offers created before offers were tied to credits.
+  creditIds?: number[];
+  // Earliest expiry among `creditIds`; the offer leaves the marketplace then.
+  expiresAt?: string;
+  // Time priority in the order book; offers from before the order book sort first.
+  createdAt?: string;
+  // Absent on offers from before they could be paused, which count as active.
+  status?: OfferStatus;
+  updatedAt?: string;
+}
+
+// What a buyer would receive from an offer, aggregated from the credits it can be delivered from.
+export interface ListingAttributes {
+  renewableSources: string[];
+  locations: string[];
+  // gCO2/kWh; the average is weighted by kg. Absent when no credit recorded it.
+  carbonIntensity?: { min: number; max: number; average: number };
+  // Production dates, YYYY-MM-DD
+  vintage?: { from: string; to: string };
+  // Some credits were indexed before their source and intensity were recorded
+  incomplete: boolean;
+}
+
+// Limits on the credits a bid accepts; every credit an offer could be delivered from must meet them.
+export interface BidConstraints {
+  renewableSource?: RenewableSource;
+  // gCO2/kWh
+  maxCarbonIntensity?: number;
+  // Production dates, YYYY-MM-DD inclusive
+  vintageFrom?: string;
+  vintageTo?: string;
+}
+
+export interface BidFill {
+  txId: string;
+  offerId: string;
+  credits: number;
+  pricePerCredit: number;
+  timestamp: string;
+}
+
+export type BidStatus = 'open' | 'filled' | 'cancelled';
+
+// A buyer's limit order; it fills against offers at or below `limitPrice`, possibly over several trades.
+export interface Bid {
+  bidId: string;
+  buyerId: string;
+  credits: number;
+  remaining: number;
+  limitPrice: number;
+  constraints: BidConstraints;
+  status: BidStatus;
+  fills: BidFill[];
+  createdAt: string;
+}
+
+// What a buyer wants to procure. Every credit behind a chosen offer must meet the constraints.
+export interface ProcurementRequest {
+  credits: number;
+  // Most the whole basket may cost
+  budget: number;
+  // Any of these; every source when absent
+  renewableSources?: RenewableSource[];
+  // gCO2/kWh
+  maxCarbonIntensity?: number;
+  // Production dates, YYYY-MM-DD inclusive
+  vintageFrom?: string;
+  vintageTo?: string;
+  // Largest fraction of the credits one producer may supply, 0–1
+  maxProducerShare?: number;
+}
+
+export interface ProcurementLeg {
+  offerId: string;
+  producerId: string;
+  producerName: string;
+  credits: number;
+  pricePerCredit: number;
+  cost: number;
+}
+
+// The cheapest basket of offers for a request. It can be bought only when it covers the credits within budget.
+export interface ProcurementPlan {
+  request: ProcurementRequest;
+  legs: ProcurementLeg[];
+  credits: number;
+  cost: number;
+  // Credits no combination of suitable offers can supply
+  shortfall: number;
+  withinBudget: boolean;
+}
+
+export interface Notification {
+  notificationId: string;
+  userId: string;
+  type: 'credit_expiring';
+  creditId: number;
+  // kg of H2
+  amount: number;
+  // The warning window crossed (30, 7 or 1 days)
+  windowDays: number;
+  expiresAt: string;
+  createdAt: string;
+  read: boolean;
+}
+
+// What a trade against a credit-backed offer owes the buyer on-chain. The producer settles it
+// with transferCredit or transferPartial from credits descended from the offer's backing credits.
+export interface Delivery {
+  deliveryId: string;
+  txId: string;
+  offerId: string;
+  producerId: string;
+  buyerId: string;
+  // kg of H2
+  kg: number;
+  // Agreed price; the buyer pays it through the settlement escrow
+  pricePerCredit: number;
+  createdAt: string;
+}
+
+// What a holder paid for a credit on the marketplace.
+export interface CreditAcquisition {
+  creditId: number;
+  pricePerCredit: number;
+  acquiredAt: string;
+  // The trade it settled; absent when the price is carried over from the credits it was split or merged from
+  txId?: string;
+}
+
+export interface PortfolioPricing {
+  acquisitions: CreditAcquisition[];
+  // VWAP of trades over the last `markWindowDays`, else the last trade's price; null before any trade
+  markPrice: number | null;
+  markWindowDays: number;
+}
+
+// Off-chain bookkeeping behind user transactions; the public ledger is built from chain events.
+export interface LedgerRecord {
+  txId: string;
+  type: 'issue' | 'trade';
+  from: string;
+  to: string;
+  credits: number;
+  timestamp: string;
+  verified: boolean;
+  pricePerCredit?: number;
+}
+
+export interface LedgerEntry {
+  txId: string;
+  type: 'issue' | 'trade' | 'retire';
+  creditId: number;
+  from: string;
+  to: string;
+  credits: number;
+  timestamp: string;
+  blockNumber: number;
+  verified: boolean;
+}
+
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+// Calendar dates (YYYY-MM-DD, UTC), both inclusive; open-ended when absent.
+export interface AnalyticsRange {
+  from?: string;
+  to?: string;
+  interval: AnalyticsInterval;
+}
+
+// Marketplace trades in one period; prices per credit.
+export interface PriceBar {
+  // YYYY-MM-DD for days and weeks (weeks start on Monday), YYYY-MM for months
+  period: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  // Volume-weighted average price
+  vwap: number;
+  credits: number;
+  trades: number;
+}
+
+export interface ProducerVolume {
+  producer: string;
+  name: string;
+  credits: number;
+}
+
+export interface MarketAnalytics {
+  range: AnalyticsRange;
+  summary: {
+    // For sale right now, whatever the range
+    creditsAvailable: number;
+    tonnesIssued: number;
+    // Producers with credits issued in the range
+    activeProducers: number;
+    // null without trades in the range
+    vwap: number | null;
+    creditsTraded: number;
+    trades: number;
+  };
+  prices: PriceBar[];
+  issuance: {
+    // Series keys, largest issuer first; smaller issuers are summed under `other`
+    producers: { key: string; name: string }[];
+    // One row per period: `period` plus credits issued under each producer key
+    series: Record<string, string | number>[];
+  };
+  // Running totals, one point per day with issuance or retirement; the first point includes everything before the range
+  supply: { date: string; issued: number; retired: number; circulating: number }[];
+  topProducers: ProducerVolume[];
+}
+
+export type ChainEventName =
+  | 'CreditIssued'
+  | 'CreditVerified'
+  | 'CreditTransferred'
+  | 'CreditRetired'
+  | 'CreditSuspended'
+  | 'CreditSplit'
+  | 'CreditMerged'
+  | 'AuditorRegistered'
+  | 'AuditorDeactivated'
+  | 'ProductionBatchCreated'
+  | 'ProductionBatchVerified'
+  // Emitted by the settlement escrow
+  | 'PaymentEscrowed'
+  | 'TradeSettled'
+  | 'TradeRefunded'
+  | 'BasketEscrowed'
+  | 'TradeAccepted';
+
+// A decoded contract log. Integer args are stored as decimal strings, arrays of them comma-separated.
+export interface ChainEvent {
+  id: string;
+  name: ChainEventName;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  timestamp: string;
+  args: Record<string, string>;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+// Where the indexer resumes; `recentBlocks` are sampled hashes used to find the fork point after a reorg.
+export interface IndexerCheckpoint {
+  contractAddress: string;
+  blockNumber: number;
+  recentBlocks: IndexedBlock[];
+}
+
+export interface Transaction {
+  txId: string;
+  type: 'issue' | 'trade';
+  amount: number;
+  counterparty?: string;
+  timestamp: string;
+  // Trades stay pending until the buyer has paid into escrow for what is still to be delivered,
+  // and escrowed until the producer settles.
+  status: 'pending' | 'escrowed' | 'completed';
+  pricePerCredit?: number;
+  totalPrice?: number;
+}
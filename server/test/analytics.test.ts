@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { marketAnalytics, periodOf, periodsBetween, priceSeries } from '../src/analytics.js';
+import type { LedgerRecord } from '../src/types.js';
+import { BUYER, database, PRODUCER } from './fixtures.js';
+
+let txCount = 0;
+
+const trade = (timestamp: string, credits: number, pricePerCredit: number): LedgerRecord => ({
+  txId: `tx-${++txCount}`,
+  type: 'trade',
+  from: PRODUCER,
+  to: BUYER,
+  credits,
+  timestamp,
+  verified: true,
+  pricePerCredit,
+});
+
+describe('periodOf', () => {
+  it('buckets by day, Monday-starting week and month', () => {
+    // 2026-03-01 is a Sunday
+    assert.equal(periodOf('2026-03-01T23:00:00.000Z', 'day'), '2026-03-01');
+    assert.equal(periodOf('2026-03-01T23:00:00.000Z', 'week'), '2026-02-23');
+    assert.equal(periodOf('2026-03-02T00:00:00.000Z', 'week'), '2026-03-02');
+    assert.equal(periodOf('2026-03-01T23:00:00.000Z', 'month'), '2026-03');
+  });
+
+  it('lists every period in between, and refuses ranges too long to chart', () => {
+    assert.deepEqual(periodsBetween('2025-11', '2026-02', 'month'), ['2025-11', '2025-12', '2026-01', '2026-02']);
+    assert.throws(() => periodsBetween('2020-01-01', '2026-01-01', 'day'), /Too many days/);
+  });
+});
+
+describe('priceSeries', () => {
+  it('weights the VWAP by credits and keeps trade order for open and close', () => {
+    const ledger = [
+      trade('2026-03-02T15:00:00.000Z', 300, 12),
+      trade('2026-03-02T09:00:00.000Z', 100, 8),
+      trade('2026-03-03T10:00:00.000Z', 50, 10),
+    ];
+
+    assert.deepEqual(priceSeries(ledger, { interval: 'day' }), [
+      { period: '2026-03-02', open: 8, high: 12, low: 8, close: 12, vwap: 11, credits: 400, trades: 2 },
+      { period: '2026-03-03', open: 10, high: 10, low: 10, close: 10, vwap: 10, credits: 50, trades: 1 },
+    ]);
+  });
+
+  it('leaves out issuances and trades outside the range', () => {
+    const ledger = [
+      trade('2026-02-28T12:00:00.000Z', 100, 5),
+      trade('2026-03-05T12:00:00.000Z', 100, 9),
+      { ...trade('2026-03-05T13:00:00.000Z', 100, 1), type: 'issue' as const },
+    ];
+
+    const bars = priceSeries(ledger, { from: '2026-03-01', to: '2026-03-31', interval: 'month' });
+    assert.deepEqual(bars.map(b => [b.period, b.vwap, b.trades]), [['2026-03', 9, 1]]);
+  });
+});
+
+describe('marketAnalytics', () => {
+  it('summarises the VWAP over the whole range, and none without trades', () => {
+    const db = database({
+      ledger: [trade('2026-03-02T09:00:00.000Z', 100, 8), trade('2026-03-20T09:00:00.000Z', 300, 12)],
+    });
+
+    const { summary } = marketAnalytics(db, { interval: 'week' });
+    assert.equal(summary.vwap, 11);
+    assert.equal(summary.creditsTraded, 400);
+    assert.equal(summary.trades, 2);
+    assert.equal(marketAnalytics(db, { from: '2026-04-01', interval: 'week' }).summary.vwap, null);
+  });
+});
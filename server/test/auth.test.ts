@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { Wallet } from 'ethers';
+import { roleFromChain } from '../src/auth.js';
+import { creditContract, provider } from '../src/chain.js';
+import { serveApi } from './fixtures.js';
+
+const none = { regulator: false, certifier: false, auditor: false, producer: false };
+
+describe('roleFromChain', () => {
+  it('takes the first matching contract role', () => {
+    assert.equal(roleFromChain({ ...none, regulator: true, certifier: true, auditor: true, producer: true }), 'regulator');
+    assert.equal(roleFromChain({ ...none, certifier: true, auditor: true }), 'certifier');
+    assert.equal(roleFromChain({ ...none, auditor: true, producer: true }), 'auditor');
+    assert.equal(roleFromChain({ ...none, producer: true }), 'producer');
+    assert.equal(roleFromChain(none), 'buyer');
+  });
+
+  it('makes a registered wallet a producer before it holds credits', () => {
+    assert.equal(roleFromChain(none, true), 'producer');
+    assert.equal(roleFromChain({ ...none, auditor: true }, true), 'auditor');
+  });
+});
+
+describe('wallet sign-in', () => {
+  const wallet = Wallet.createRandom();
+  let api: Awaited<ReturnType<typeof serveApi>>;
+
+  before(async () => {
+    api = await serveApi();
+  });
+  after(() => api.close());
+
+  // The contract knows the wallet as an auditor.
+  beforeEach(() => {
+    const results: Record<string, unknown[]> = {
+      regulator: [Wallet.createRandom().address],
+      certifier: [Wallet.createRandom().address],
+      isAuditor: [true],
+      getProducerCredits: [[]],
+    };
+    mock.method(provider, 'call', async ({ data }: { data: string }) => {
+      const call = creditContract.interface.parseTransaction({ data })!;
+      return creditContract.interface.encodeFunctionResult(call.fragment, results[call.name]);
+    });
+  });
+  afterEach(() => mock.restoreAll());
+
+  const signIn = async (signer = wallet) => {
+    const { body: challenge } = await api.request('GET', `/auth/nonce?address=${wallet.address}`);
+    const signature = await signer.signMessage(challenge.message);
+    return { signature, response: await api.request('POST', '/login', { body: { address: wallet.address, signature } }) };
+  };
+
+  it('signs in with a signed challenge and takes the role from the chain', async () => {
+    const { response } = await signIn();
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.user.address, wallet.address);
+    assert.equal(response.body.user.role, 'auditor');
+  });
+
+  it('accepts each challenge once', async () => {
+    const { signature } = await signIn();
+
+    const replay = await api.request('POST', '/login', { body: { address: wallet.address, signature } });
+    assert.equal(replay.status, 401);
+    assert.match(replay.body.error, /challenge missing or expired/);
+  });
+
+  it('rejects a signature from another wallet', async () => {
+    const { response } = await signIn(Wallet.createRandom());
+
+    assert.equal(response.status, 401);
+    assert.match(response.body.error, /does not match address/);
+  });
+
+  it('ends the session on logout and when it expires', async () => {
+    const { response } = await signIn();
+    const token = response.body.token;
+    const session = () => fetch(`${api.url}/api/auth/session`, { headers: { Authorization: `Bearer ${token}` } });
+    assert.equal((await session()).status, 200);
+
+    await api.store.transact(db => {
+      db.sessions.find(s => s.token === token)!.expiresAt = new Date(Date.now() - 1000).toISOString();
+    });
+    assert.equal((await session()).status, 401);
+
+    const { response: again } = await signIn();
+    const logout = await fetch(`${api.url}/api/logout`, { method: 'POST', headers: { Authorization: `Bearer ${again.body.token}` } });
+    assert.equal(logout.status, 204);
+    assert.equal(api.store.read(db => db.sessions.some(s => s.token === again.body.token)), false);
+  });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkCapacity, reportingPeriod } from '../src/capacity.js';
+import type { Facility, MeterSummary } from '../src/types.js';
+import { PRODUCER } from './fixtures.js';
+
+const facility: Facility = {
+  facilityId: 'fac-1',
+  producerId: PRODUCER,
+  name: 'Maasvlakte',
+  latitude: 51.95,
+  longitude: 4.03,
+  electrolyzerType: 'pem',
+  capacityMw: 10,
+  capacityKgPerDay: 4000,
+  renewableAssets: [{ type: 'Wind', capacityMw: 12 }],
+  commissioningDate: '2026-01-01',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const days = (start: string, end: string) => reportingPeriod({ periodStart: start, productionDate: end })!;
+
+describe('reportingPeriod', () => {
+  it('spans whole UTC days through the production date', () => {
+    const period = days('2026-02-01', '2026-02-03');
+    assert.equal(period.start.toISOString(), '2026-02-01T00:00:00.000Z');
+    assert.equal(period.end.toISOString(), '2026-02-04T00:00:00.000Z');
+  });
+
+  it('prefers the meter data intervals', () => {
+    const meter = { periodStart: '2026-02-01T06:00:00.000Z', periodEnd: '2026-02-01T18:00:00.000Z' } as MeterSummary;
+    const period = reportingPeriod({
+      productionDate: '2026-02-05',
+      meterData: { sha256: 'a'.repeat(64), name: 'meter.csv', type: 'text/csv', size: 1, meter },
+    });
+    assert.equal(period?.start.toISOString(), meter.periodStart);
+    assert.equal(period?.end.toISOString(), meter.periodEnd);
+  });
+
+  it('is null without dates', () => {
+    assert.equal(reportingPeriod({}), null);
+  });
+});
+
+describe('checkCapacity', () => {
+  it('allows up to nameplate output over the period', () => {
+    const check = checkCapacity(facility, days('2026-02-01', '2026-02-02'), 8000);
+    assert.equal(check.operatingHours, 48);
+    assert.equal(check.maxKg, 8000);
+    assert.equal(check.utilization, 1);
+    assert.equal(check.exceedsCapacity, false);
+  });
+
+  it('rejects claims above nameplate', () => {
+    const check = checkCapacity(facility, days('2026-02-01', '2026-02-01'), 4000.5);
+    assert.equal(check.exceedsCapacity, true);
+    assert.equal(check.flagged, false);
+  });
+
+  it('flags plausible claims at or above the review utilization', () => {
+    assert.equal(checkCapacity(facility, days('2026-02-01', '2026-02-01'), 3600).flagged, true);
+    assert.equal(checkCapacity(facility, days('2026-02-01', '2026-02-01'), 3599).flagged, false);
+  });
+
+  it('only counts the hours after commissioning', () => {
+    const check = checkCapacity(facility, days('2025-12-31', '2026-01-01'), 4000);
+    assert.equal(check.operatingHours, 24);
+    assert.equal(check.maxKg, 4000);
+    assert.equal(check.exceedsCapacity, false);
+  });
+
+  it('has no utilization before the facility was running', () => {
+    const check = checkCapacity(facility, days('2025-12-30', '2025-12-30'), 1);
+    assert.equal(check.operatingHours, 0);
+    assert.equal(check.utilization, null);
+    assert.equal(check.exceedsCapacity, true);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { summarizeClaim, type ClaimedCredit } from '../../shared/claims.js';
+
+const claimed = (creditId: number, fields: Partial<ClaimedCredit> = {}): ClaimedCredit => ({
+  creditId,
+  kg: 100,
+  producer: '0x1000000000000000000000000000000000000001',
+  producerName: 'Producer 1',
+  productionDate: '2026-01-15',
+  renewableSource: 'Solar',
+  location: 'Rotterdam',
+  carbonIntensity: 10,
+  certifier: '0x3000000000000000000000000000000000000001',
+  certificationDate: '2026-01-20',
+  metadata: '',
+  originId: creditId,
+  beneficiary: 'Acme Steel',
+  reason: 'Scope 2 2026',
+  proof: { txHash: `0x${creditId}`, blockNumber: creditId, retiredAt: '2026-03-01T00:00:00.000Z', ledgerUrl: '' },
+  ...fields,
+});
+
+// 600 kg of solar at 10 and 300 kg of wind at 40 in Rotterdam; 100 kg of wind at 20 in Hamburg.
+const credits = [
+  claimed(1, { kg: 600 }),
+  claimed(2, { kg: 300, renewableSource: 'Wind', carbonIntensity: 40 }),
+  claimed(3, { kg: 100, renewableSource: 'Wind', location: 'Hamburg', carbonIntensity: 20, beneficiary: '', reason: 'Pilot' }),
+];
+
+describe('summarizeClaim', () => {
+  it('totals the kg retired and weights carbon intensity by kg', () => {
+    assert.deepEqual(summarizeClaim(credits).totals, { credits: 3, kg: 1000, weightedCarbonIntensity: 20 });
+  });
+
+  it('breaks the claim down by source and region, largest first', () => {
+    const { bySource, byRegion } = summarizeClaim(credits);
+
+    assert.deepEqual(bySource, [
+      { key: 'Solar', kg: 600, share: 0.6, weightedCarbonIntensity: 10 },
+      { key: 'Wind', kg: 400, share: 0.4, weightedCarbonIntensity: 35 },
+    ]);
+    assert.deepEqual(byRegion, [
+      { key: 'Rotterdam', kg: 900, share: 0.9, weightedCarbonIntensity: 20 },
+      { key: 'Hamburg', kg: 100, share: 0.1, weightedCarbonIntensity: 20 },
+    ]);
+  });
+
+  it('groups retirements by beneficiary and reason', () => {
+    const { reasons } = summarizeClaim([...credits, claimed(4, { kg: 50 })]);
+
+    assert.deepEqual(reasons, [
+      { beneficiary: 'Acme Steel', reason: 'Scope 2 2026', kg: 950, creditIds: [1, 2, 4] },
+      { beneficiary: '', reason: 'Pilot', kg: 100, creditIds: [3] },
+    ]);
+  });
+
+  it('counts credits without a source or region as unrecorded', () => {
+    const { bySource, byRegion } = summarizeClaim([claimed(1, { renewableSource: '', location: '' })]);
+
+    assert.equal(bySource[0].key, 'Unrecorded');
+    assert.equal(byRegion[0].key, 'Unrecorded');
+  });
+
+  it('has no intensity when nothing was retired', () => {
+    assert.deepEqual(summarizeClaim([]), {
+      totals: { credits: 0, kg: 0, weightedCarbonIntensity: null },
+      bySource: [],
+      byRegion: [],
+      reasons: [],
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { deliveryStates, tradeStatus, unpaidValue } from '../src/deliveries.js';
+import type { Delivery } from '../src/types.js';
+import { BUYER, chainEvent, database, issuedCredit, listing, OTHER_BUYER, PRODUCER } from './fixtures.js';
+
+const delivery = (deliveryId: string, kg: number, createdAt = '2026-02-01T00:00:00.000Z'): Delivery => ({
+  deliveryId,
+  txId: `tx-${deliveryId}`,
+  offerId: 'offer-1',
+  producerId: PRODUCER,
+  buyerId: BUYER,
+  kg,
+  pricePerCredit: 10,
+  createdAt,
+});
+
+const statesAfter = (deliveries: Delivery[], ...events: ReturnType<typeof chainEvent>[]) =>
+  deliveryStates(database({
+    listings: [listing('offer-1')],
+    deliveries,
+    chainEvents: [...issuedCredit(1, { amount: 1000 }), ...events],
+  })).map(d => [d.deliveryId, d.deliveredKg, d.status]);
+
+describe('deliveryStates', () => {
+  it('settles a delivery from a part split off the offer\'s credit', () => {
+    const states = statesAfter(
+      [delivery('dlv-1', 400)],
+      chainEvent('CreditSplit', { id: 2, parentId: 1, owner: PRODUCER, amount: 400 }),
+      chainEvent('CreditSplit', { id: 3, parentId: 1, owner: PRODUCER, amount: 600 }),
+      chainEvent('CreditTransferred', { id: 2, from: PRODUCER, to: BUYER }),
+    );
+    assert.deepEqual(states, [['dlv-1', 400, 'delivered']]);
+  });
+
+  it('applies a transfer to the oldest deliveries first', () => {
+    const states = statesAfter(
+      [delivery('dlv-2', 300, '2026-02-02T00:00:00.000Z'), delivery('dlv-1', 800)],
+      chainEvent('CreditTransferred', { id: 1, from: PRODUCER, to: BUYER }),
+    );
+    assert.deepEqual(states, [['dlv-1', 800, 'delivered'], ['dlv-2', 200, 'pending']]);
+  });
+
+  it('ignores transfers to someone else or of credits outside the offer', () => {
+    const states = statesAfter(
+      [delivery('dlv-1', 100)],
+      ...issuedCredit(5, { amount: 100 }),
+      chainEvent('CreditTransferred', { id: 5, from: PRODUCER, to: BUYER }),
+      chainEvent('CreditTransferred', { id: 1, from: PRODUCER, to: OTHER_BUYER }),
+    );
+    assert.deepEqual(states, [['dlv-1', 0, 'pending']]);
+  });
+});
+
+describe('tradeStatus', () => {
+  const escrowed = chainEvent('PaymentEscrowed', {
+    tradeId: 1, buyer: BUYER, seller: PRODUCER, creditId: 1, amount: 100, payment: 1_000_000_000, ref: 'dlv-1', paymentValue: 1000,
+  });
+  const transferred = chainEvent('CreditTransferred', { id: 1, from: PRODUCER, to: BUYER });
+
+  const stateAfter = (...events: ReturnType<typeof chainEvent>[]) =>
+    deliveryStates(database({
+      listings: [listing('offer-1')],
+      deliveries: [delivery('dlv-1', 100)],
+      chainEvents: [...issuedCredit(1, { amount: 100 }), ...events],
+    }))[0];
+
+  it('is pending until the buyer pays into escrow, escrowed until settlement, then completed', () => {
+    assert.equal(tradeStatus(stateAfter()), 'pending');
+    assert.equal(tradeStatus(stateAfter(escrowed)), 'escrowed');
+    assert.equal(
+      tradeStatus(stateAfter(escrowed, transferred, chainEvent('TradeSettled', { tradeId: 1, deliveredCreditId: 1, buyer: BUYER }))),
+      'completed',
+    );
+  });
+
+  it('stays escrowed while a basket trade waits for its other sellers', () => {
+    const state = stateAfter(
+      escrowed,
+      chainEvent('BasketEscrowed', { basketId: 1, buyer: BUYER, tradeIds: '1,2', payment: 2_000_000_000 }),
+      chainEvent('TradeAccepted', { tradeId: 1, basketId: 1, seller: PRODUCER }),
+    );
+    assert.equal(state.escrows[0].status, 'accepted');
+    assert.equal(state.escrows[0].basketId, 1);
+    assert.equal(state.escrowedKg, 100);
+    assert.equal(tradeStatus(state), 'escrowed');
+  });
+
+  it('goes back to pending when the escrowed payment is refunded', () => {
+    const state = stateAfter(escrowed, chainEvent('TradeRefunded', { tradeId: 1, buyer: BUYER, payment: 1_000_000_000 }));
+    assert.equal(state.escrowedKg, 0);
+    assert.equal(tradeStatus(state), 'pending');
+  });
+
+  it('counts an underpaid escrow only for the kg its payment covers', () => {
+    const underpaid = (paymentValue: number) => stateAfter(chainEvent('PaymentEscrowed', {
+      tradeId: 1, buyer: BUYER, seller: PRODUCER, creditId: 1, amount: 100, payment: 1, ref: 'dlv-1', paymentValue,
+    }));
+
+    assert.equal(underpaid(0.000001).escrowedKg, 0);
+    assert.equal(tradeStatus(underpaid(0.000001)), 'pending');
+    assert.equal(underpaid(250).escrowedKg, 25);
+    assert.equal(unpaidValue(underpaid(250)), 750);
+  });
+});
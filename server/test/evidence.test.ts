@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { EvidenceStore, sniffEvidenceType } from '../src/evidence.js';
+import { AUDITOR, BUYER, OTHER_PRODUCER, PRODUCER, serveApi, user } from './fixtures.js';
+
+const pdf = Buffer.from('%PDF-1.7\n1 0 obj\n<<>>\nendobj\n');
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+const webp = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(4), Buffer.from('WEBPVP8 ')]);
+
+describe('sniffEvidenceType', () => {
+  it('recognizes documents and images by their signature', () => {
+    assert.equal(sniffEvidenceType(pdf), 'application/pdf');
+    assert.equal(sniffEvidenceType(png), 'image/png');
+    assert.equal(sniffEvidenceType(jpeg), 'image/jpeg');
+    assert.equal(sniffEvidenceType(webp), 'image/webp');
+  });
+
+  it('recognizes nothing else', () => {
+    assert.equal(sniffEvidenceType(Buffer.from('<html><body>%PDF-</body></html>')), null);
+    assert.equal(sniffEvidenceType(Buffer.from('RIFF\0\0\0\0WAVE')), null);
+    assert.equal(sniffEvidenceType(Buffer.alloc(0)), null);
+  });
+});
+
+describe('EvidenceStore', () => {
+  it('stores a file once under its SHA-256, sharded by the first two digits', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'h2-server-evidence-'));
+    const store = new EvidenceStore(dir);
+
+    const sha256 = await store.put(pdf);
+    assert.equal(sha256, createHash('sha256').update(pdf).digest('hex'));
+    assert.equal(store.pathFor(sha256), join(dir, sha256.slice(0, 2), sha256));
+    assert.deepEqual(await readFile(store.pathFor(sha256)), pdf);
+    assert.equal(await store.put(Buffer.from(pdf)), sha256);
+  });
+
+  it('refuses paths for anything but a hash', () => {
+    const store = new EvidenceStore(tmpdir());
+
+    assert.throws(() => store.pathFor('../db.json'), /Invalid evidence hash/);
+    assert.throws(() => store.pathFor('A'.repeat(64)), /Invalid evidence hash/);
+  });
+});
+
+describe('evidence uploads', () => {
+  let api: Awaited<ReturnType<typeof serveApi>>;
+
+  before(async () => {
+    api = await serveApi({
+      users: [user(PRODUCER, 'producer'), user(OTHER_PRODUCER, 'producer'), user(AUDITOR, 'auditor'), user(BUYER, 'buyer')],
+    });
+  });
+  after(() => api.close());
+
+  it('accepts a file whose content matches its declared type', async () => {
+    const { status, body } = await api.request('POST', '/evidence?name=permit.pdf', { as: PRODUCER, body: pdf, type: 'application/pdf' });
+
+    assert.equal(status, 201);
+    assert.equal(body.name, 'permit.pdf');
+    assert.equal(body.size, pdf.length);
+    assert.deepEqual(await readFile(api.evidence.pathFor(body.sha256)), pdf);
+  });
+
+  it('rejects a file whose content is not its declared type', async () => {
+    const renamed = await api.request('POST', '/evidence', { as: PRODUCER, body: png, type: 'application/pdf' });
+    assert.equal(renamed.status, 415);
+    assert.match(renamed.body.error, /is image\/png, not application\/pdf/);
+
+    const html = await api.request('POST', '/evidence', { as: PRODUCER, body: Buffer.from('<html>'), type: 'text/html' });
+    assert.equal(html.status, 415);
+  });
+
+  it('shows a file to the producers who uploaded it and to reviewers only', async () => {
+    const { body: file } = await api.request('POST', '/evidence', { as: PRODUCER, body: jpeg, type: 'image/jpeg' });
+
+    assert.equal((await api.request('GET', `/evidence/${file.sha256}`, { as: PRODUCER })).status, 200);
+    assert.equal((await api.request('GET', `/evidence/${file.sha256}`, { as: AUDITOR })).status, 200);
+    assert.equal((await api.request('GET', `/evidence/${file.sha256}`, { as: OTHER_PRODUCER })).status, 403);
+    assert.equal((await api.request('GET', `/evidence/${file.sha256}`, { as: BUYER })).status, 403);
+
+    // Uploading the same bytes gives the second producer access to the one stored copy.
+    await api.request('POST', '/evidence', { as: OTHER_PRODUCER, body: jpeg, type: 'image/jpeg' });
+    assert.equal((await api.request('GET', `/evidence/${file.sha256}`, { as: OTHER_PRODUCER })).status, 200);
+    assert.deepEqual(api.store.read(db => db.evidence.find(e => e.sha256 === file.sha256)?.uploadedBy), [PRODUCER, OTHER_PRODUCER]);
+  });
+});
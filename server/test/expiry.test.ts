@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { expiryReport, sweepExpiringCredits } from '../src/expiry.js';
+import { BUYER, chainEvent, database, issuedCredit, OTHER_PRODUCER, PRODUCER, REGULATOR } from './fixtures.js';
+
+const now = new Date('2026-06-01T00:00:00.000Z');
+
+// Credit 1 expires in 9 days, 2 in 3 days, 3 expired a month ago and 4 has most of its year left.
+const credits = () => [
+  ...issuedCredit(1, { productionDate: '2025-06-10' }),
+  ...issuedCredit(2, { producer: OTHER_PRODUCER, amount: 200, productionDate: '2025-06-04' }),
+  ...issuedCredit(3, { amount: 300, productionDate: '2025-05-01' }),
+  ...issuedCredit(4, { productionDate: '2026-01-01' }),
+];
+
+const notified = (db: ReturnType<typeof database>) => db.notifications.map(n => [n.creditId, n.userId, n.windowDays]);
+
+describe('sweepExpiringCredits', () => {
+  it('notifies the holder once for the tightest window a credit is in', () => {
+    const db = database({ chainEvents: credits() });
+
+    assert.equal(sweepExpiringCredits(db, now).length, 2);
+    assert.deepEqual(notified(db), [[1, PRODUCER, 30], [2, OTHER_PRODUCER, 7]]);
+    assert.deepEqual(sweepExpiringCredits(db, now), []);
+
+    // Five days on, credit 1 enters the 7-day window.
+    sweepExpiringCredits(db, new Date('2026-06-05T00:00:00.000Z'));
+    assert.deepEqual(notified(db).slice(2), [[1, PRODUCER, 7]]);
+  });
+
+  it('notifies a new owner afresh after a transfer', () => {
+    const db = database({ chainEvents: credits() });
+    sweepExpiringCredits(db, now);
+
+    db.chainEvents.push(chainEvent('CreditTransferred', { id: 1, from: PRODUCER, to: BUYER }));
+    sweepExpiringCredits(db, now);
+
+    assert.deepEqual(notified(db).slice(2), [[1, BUYER, 30]]);
+  });
+
+  it('skips retired, suspended and split credits but warns about the split parts', () => {
+    const db = database({
+      chainEvents: [
+        ...credits(),
+        chainEvent('CreditRetired', { id: 1, owner: PRODUCER, reason: 'Scope 2' }),
+        chainEvent('CreditSuspended', { id: 2, regulator: REGULATOR, reason: 'Under review' }),
+        ...issuedCredit(5, { productionDate: '2025-06-20' }),
+        chainEvent('CreditSplit', { id: 6, parentId: 5, owner: PRODUCER, amount: 400 }),
+        chainEvent('CreditSplit', { id: 7, parentId: 5, owner: PRODUCER, amount: 600 }),
+      ],
+    });
+
+    sweepExpiringCredits(db, now);
+
+    assert.deepEqual(notified(db), [[6, PRODUCER, 30], [7, PRODUCER, 30]]);
+  });
+});
+
+describe('expiryReport', () => {
+  it('totals expired volume by producer and lists what expires within the widest window', () => {
+    const db = database({
+      chainEvents: [
+        ...credits(),
+        ...issuedCredit(5, { producer: OTHER_PRODUCER, amount: 500, productionDate: '2025-04-01' }),
+        ...issuedCredit(6, { amount: 50, productionDate: '2025-03-01' }),
+        chainEvent('CreditRetired', { id: 6, owner: PRODUCER, reason: 'Scope 2' }),
+      ],
+    });
+
+    const report = expiryReport(db, now);
+
+    assert.equal(report.expired.credits, 2);
+    assert.equal(report.expired.kg, 800);
+    assert.deepEqual(report.expired.byProducer.map(p => [p.producer, p.credits, p.kg]), [[OTHER_PRODUCER, 1, 500], [PRODUCER, 1, 300]]);
+    assert.equal(report.expired.list.find(c => c.id === 3)?.expiresAt, '2026-05-01T00:00:00.000Z');
+    assert.deepEqual(report.expiringSoon.list.map(c => c.id), [1, 2]);
+    assert.equal(report.expiringSoon.kg, 1200);
+  });
+});
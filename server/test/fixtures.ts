@@ -0,0 +1,183 @@
+import type { Express } from 'express';
+import { once } from 'node:events';
+import { mkdtemp } from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createApp } from '../src/app.js';
+import { EvidenceStore } from '../src/evidence.js';
+import { Store, type Database } from '../src/store.js';
+import type { Bid, ChainEvent, ChainEventName, MarketplaceListing, Role, User } from '../src/types.js';
+
+export const PRODUCER = '0x1000000000000000000000000000000000000001';
+export const OTHER_PRODUCER = '0x1000000000000000000000000000000000000002';
+export const BUYER = '0x2000000000000000000000000000000000000001';
+export const OTHER_BUYER = '0x2000000000000000000000000000000000000002';
+export const CERTIFIER = '0x3000000000000000000000000000000000000001';
+export const REGULATOR = '0x4000000000000000000000000000000000000001';
+export const AUDITOR = '0x5000000000000000000000000000000000000001';
+
+export const database = (overrides: Partial<Database> = {}): Database => ({
+  sequences: {},
+  users: [],
+  sessions: [],
+  challenges: [],
+  producerRegistrations: [],
+  reports: [],
+  evidence: [],
+  facilities: [],
+  fraudReviews: [],
+  listings: [],
+  bids: [],
+  deliveries: [],
+  notifications: [],
+  ledger: [],
+  chainEvents: [],
+  indexer: null,
+  ...overrides,
+});
+
+// A store backed by a fresh file in the OS temp directory.
+export const openStore = async (overrides: Partial<Database> = {}) => {
+  const dir = await mkdtemp(join(tmpdir(), 'h2-server-test-'));
+  const store = await Store.open(join(dir, 'db.json'));
+  await store.transact(db => Object.assign(db, database(overrides)));
+  return store;
+};
+
+// Serves `app` on a free local port; `close` drops open connections too, so tests never wait on keep-alive.
+export const serve = async (app: Express) => {
+  const server = app.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+};
+
+/**
+ * The whole API over a fresh store. `request` signs in as `as` by giving that
+ * user a session, so tests exercise the same role guards as real clients.
+ */
+export const serveApi = async (overrides: Partial<Database> = {}) => {
+  const store = await openStore(overrides);
+  const evidence = new EvidenceStore(await mkdtemp(join(tmpdir(), 'h2-server-evidence-')));
+  const server = await serve(createApp(store, evidence));
+
+  // A Buffer body is sent as is, with `type` as its Content-Type; anything else is sent as JSON.
+  const request = async (method: string, path: string, { as, body, type }: { as?: string; body?: unknown; type?: string } = {}) => {
+    const headers: Record<string, string> = {};
+    if (as) {
+      const token = `token-${as}`;
+      await store.transact(db => {
+        if (db.sessions.some(s => s.token === token)) return;
+        const createdAt = new Date().toISOString();
+        db.sessions.push({ token, userId: as, createdAt, expiresAt: new Date(Date.now() + 3_600_000).toISOString() });
+      });
+      headers.Authorization = `Bearer ${token}`;
+    }
+    const raw = Buffer.isBuffer(body);
+    if (body !== undefined) headers['Content-Type'] = raw ? type! : 'application/json';
+    const response = await fetch(`${server.url}/api${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : raw ? body : JSON.stringify(body),
+    });
+    const text = await response.text();
+    const json = response.headers.get('content-type')?.startsWith('application/json');
+    return { status: response.status, body: json ? JSON.parse(text) : text };
+  };
+
+  return { store, evidence, url: server.url, request, close: server.close };
+};
+
+let logIndex = 0;
+
+export const chainEvent = (
+  name: ChainEventName,
+  args: Record<string, string | number>,
+  { blockNumber = 1, timestamp = '2026-01-01T00:00:00.000Z' }: { blockNumber?: number; timestamp?: string } = {},
+): ChainEvent => {
+  logIndex += 1;
+  return {
+    id: `0x${logIndex.toString(16).padStart(64, '0')}:0`,
+    name,
+    blockNumber,
+    blockHash: `0xblock${blockNumber}`,
+    txHash: `0x${logIndex.toString(16).padStart(64, '0')}`,
+    logIndex: 0,
+    timestamp,
+    args: Object.fromEntries(Object.entries(args).map(([key, value]) => [key, String(value)])),
+  };
+};
+
+// YYYY-MM-DD `days` before today; credits expire a year after production, so fixtures stay recent.
+export const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+
+// A verified credit issued to its producer, as the indexer records it.
+export const issuedCredit = (
+  id: number,
+  {
+    producer = PRODUCER,
+    amount = 1000,
+    productionDate = daysAgo(30),
+    renewableSource = 'Solar',
+    location = 'Rotterdam',
+    carbonIntensity = 10,
+    blockNumber = 1,
+  }: {
+    producer?: string;
+    amount?: number;
+    productionDate?: string;
+    renewableSource?: string;
+    location?: string;
+    carbonIntensity?: number;
+    blockNumber?: number;
+  } = {},
+) => [
+  chainEvent('CreditIssued', {
+    id,
+    owner: producer,
+    producer,
+    amount,
+    productionDate: Date.parse(productionDate) / 1000,
+    producerName: `Producer ${producer.slice(-1)}`,
+    certifier: CERTIFIER,
+    renewableSource,
+    location,
+    carbonIntensity,
+  }, { blockNumber }),
+  chainEvent('CreditVerified', { id, auditor: CERTIFIER, status: 1 }, { blockNumber }),
+];
+
+export const user = (id: string, role: Role): User => ({ id, address: id, role, name: id.slice(-4), credits: 0 });
+
+// An active offer backed by `creditIds`, listed in January 2026.
+export const listing = (offerId: string, fields: Partial<MarketplaceListing> = {}): MarketplaceListing => ({
+  offerId,
+  producerId: PRODUCER,
+  producerName: 'Producer 1',
+  creditsAvailable: 100,
+  pricePerCredit: 10,
+  creditIds: [1],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  status: 'active',
+  ...fields,
+});
+
+export const bid = (bidId: string, fields: Partial<Bid> = {}): Bid => ({
+  bidId,
+  buyerId: BUYER,
+  credits: 100,
+  remaining: fields.credits ?? 100,
+  limitPrice: 10,
+  constraints: {},
+  status: 'open',
+  fills: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...fields,
+});
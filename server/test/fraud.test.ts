@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { config } from '../src/config.js';
+import { detectFraud } from '../src/fraud.js';
+import type { EvidenceFile, ProductionReport } from '../src/types.js';
+import { BUYER, chainEvent, database, issuedCredit, OTHER_BUYER, OTHER_PRODUCER, PRODUCER } from './fixtures.js';
+
+const report = (reportId: string, fields: Partial<ProductionReport> = {}): ProductionReport => ({
+  reportId,
+  producerId: PRODUCER,
+  tons: 1,
+  status: 'submitted',
+  timestamp: '2026-02-01T00:00:00.000Z',
+  facilityId: 'fac-1',
+  ...fields,
+});
+
+const file = (sha: string, name = `${sha}.pdf`): EvidenceFile => ({
+  sha256: sha.repeat(64).slice(0, 64),
+  name,
+  type: 'application/pdf',
+  size: 1,
+});
+
+const flagsFor = (rule: string, ...args: Parameters<typeof database>) =>
+  detectFraud(database(...args)).filter(f => f.rule === rule);
+
+describe('overlapping periods', () => {
+  it('flags two claims on the same facility hours, high once both are approved', () => {
+    const reports = [
+      report('rep-1', { periodStart: '2026-01-01', productionDate: '2026-01-05' }),
+      report('rep-2', { periodStart: '2026-01-05', productionDate: '2026-01-07', status: 'approved' }),
+    ];
+    const [flag] = flagsFor('overlapping_period', { reports });
+    assert.equal(flag.severity, 'medium');
+    assert.match(flag.summary, /on 2026-01-05$/);
+
+    reports[0].status = 'approved';
+    assert.equal(flagsFor('overlapping_period', { reports })[0].severity, 'high');
+  });
+
+  it('ignores adjacent periods, other facilities, drafts and rejected reports', () => {
+    const flags = flagsFor('overlapping_period', {
+      reports: [
+        report('rep-1', { periodStart: '2026-01-01', productionDate: '2026-01-04' }),
+        report('rep-2', { periodStart: '2026-01-05', productionDate: '2026-01-07' }),
+        report('rep-3', { productionDate: '2026-01-02', facilityId: 'fac-2' }),
+        report('rep-4', { productionDate: '2026-01-02', status: 'draft' }),
+        report('rep-5', { productionDate: '2026-01-02', status: 'rejected' }),
+      ],
+    });
+    assert.deepEqual(flags, []);
+  });
+});
+
+describe('reused evidence', () => {
+  it('is medium for documents one producer reuses, high for meter data or across producers', () => {
+    const severity = (reports: ProductionReport[]) => flagsFor('reused_evidence', { reports })[0]?.severity;
+    assert.equal(severity([report('rep-1', { evidence: [file('a')] }), report('rep-2', { evidence: [file('a')] })]), 'medium');
+    assert.equal(severity([
+      report('rep-1', { evidence: [file('a')] }),
+      report('rep-2', { evidence: [file('a')], producerId: OTHER_PRODUCER }),
+    ]), 'high');
+    assert.equal(severity([report('rep-1', { meterData: file('m') }), report('rep-2', { meterData: file('m') })]), 'high');
+    assert.equal(severity([report('rep-1', { evidence: [file('a')] }), report('rep-2', { evidence: [file('b')] })]), undefined);
+  });
+
+  it('keeps its id but reopens when another report attaches a dismissed file', () => {
+    const reports = [report('rep-1', { evidence: [file('a')] }), report('rep-2', { evidence: [file('a')] })];
+    const [flag] = flagsFor('reused_evidence', { reports });
+    const fraudReviews = [{
+      flagId: flag.flagId, status: 'dismissed' as const, notes: '', reportIds: flag.reportIds, regulatorId: 'reg', timestamp: '2026-02-02T00:00:00.000Z',
+    }];
+    assert.equal(flagsFor('reused_evidence', { reports, fraudReviews })[0].review?.status, 'dismissed');
+
+    const [reused] = flagsFor('reused_evidence', {
+      reports: [...reports, report('rep-3', { evidence: [file('a')], producerId: OTHER_PRODUCER })],
+      fraudReviews,
+    });
+    assert.equal(reused.flagId, flag.flagId);
+    assert.deepEqual(reused.reportIds, ['rep-1', 'rep-2', 'rep-3']);
+    assert.equal(reused.severity, 'high');
+    assert.equal(reused.review, undefined);
+  });
+});
+
+describe('round-trip transfers', () => {
+  const transfers = (returnedAfterHours: number) => [
+    ...issuedCredit(1),
+    chainEvent('CreditTransferred', { id: 1, from: PRODUCER, to: BUYER }, { timestamp: '2026-01-01T00:00:00.000Z' }),
+    chainEvent('CreditTransferred', { id: 1, from: BUYER, to: OTHER_BUYER }, { timestamp: '2026-01-01T01:00:00.000Z' }),
+    chainEvent('CreditTransferred', { id: 1, from: OTHER_BUYER, to: BUYER }, {
+      timestamp: new Date(Date.parse('2026-01-01T01:00:00.000Z') + returnedAfterHours * 3_600_000).toISOString(),
+    }),
+  ];
+
+  it('is high when the credit comes back within the configured window, low after it', () => {
+    const severity = (hours: number) => flagsFor('round_trip_transfer', { chainEvents: transfers(hours) })[0].severity;
+    assert.equal(severity(config.fraudRoundTripHours), 'high');
+    assert.equal(severity(config.fraudRoundTripHours + 1), 'low');
+  });
+
+  it('follows a credit through a split', () => {
+    const [flag] = flagsFor('round_trip_transfer', {
+      chainEvents: [
+        ...issuedCredit(1),
+        chainEvent('CreditTransferred', { id: 1, from: PRODUCER, to: BUYER }),
+        chainEvent('CreditSplit', { id: 2, parentId: 1, owner: BUYER, amount: 500 }),
+        chainEvent('CreditTransferred', { id: 2, from: BUYER, to: PRODUCER }),
+      ],
+    });
+    assert.deepEqual(flag.creditIds, [2]);
+    assert.deepEqual(flag.addresses, [PRODUCER, BUYER]);
+  });
+});
+
+describe('volume spikes', () => {
+  // One report per day at 1 t/day, then `last` tonnes on the next day.
+  const history = (last: number, baseline = 3) => [
+    ...Array.from({ length: baseline }, (_, i) => report(`rep-${i + 1}`, { productionDate: `2026-01-0${i + 1}` })),
+    report('rep-last', { productionDate: `2026-01-0${baseline + 1}`, tons: last }),
+  ];
+
+  it('flags output at the configured multiple of the median, high at twice it', () => {
+    const factor = config.fraudVolumeSpikeFactor;
+    const severity = (tons: number) => flagsFor('volume_spike', { reports: history(tons) })[0]?.severity;
+    assert.equal(severity(factor - 0.01), undefined);
+    assert.equal(severity(factor), 'medium');
+    assert.equal(severity(2 * factor), 'high');
+  });
+
+  it('needs a baseline of earlier reports', () => {
+    assert.deepEqual(flagsFor('volume_spike', { reports: history(100, 2) }), []);
+  });
+});
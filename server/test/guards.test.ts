@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import type { Role } from '../src/types.js';
+import { serveApi, user } from './fixtures.js';
+
+const roles: Role[] = ['producer', 'buyer', 'regulator', 'certifier', 'auditor', 'public'];
+
+// Every signed-in route and the roles it admits; an empty list admits any signed-in user.
+const routes: [method: string, path: string, allowed: Role[]][] = [
+  ['GET', '/auth/session', []],
+  ['POST', '/logout', []],
+  ['GET', '/users/x', []],
+  ['GET', '/transactions/x', []],
+  ['GET', '/transactions/x/export', []],
+  ['POST', '/marketplace', ['producer']],
+  ['GET', '/offers', ['producer']],
+  ['PUT', '/offers/x', ['producer']],
+  ['POST', '/offers/x/pause', ['producer']],
+  ['POST', '/offers/x/resume', ['producer']],
+  ['POST', '/offers/x/cancel', ['producer']],
+  ['POST', '/trade', ['buyer']],
+  ['POST', '/production', ['producer']],
+  ['POST', '/production/drafts', ['producer']],
+  ['PUT', '/production/x', ['producer']],
+  ['DELETE', '/production/x', ['producer']],
+  ['POST', '/production/x/submit', ['producer']],
+  ['GET', '/production/reports', ['producer']],
+  ['POST', '/production/x/resubmit', ['producer']],
+  ['GET', '/production/pending', ['regulator']],
+  ['POST', '/approve', ['regulator']],
+  ['POST', '/production/x/reject', ['regulator']],
+  ['GET', '/production/approved', ['certifier', 'regulator']],
+  ['POST', '/production/x/issuance', ['certifier', 'regulator']],
+  ['GET', '/production/x', []],
+  ['GET', '/producers/registrations', ['regulator']],
+  ['POST', '/producers/registrations', ['regulator']],
+  ['DELETE', '/producers/registrations/x', ['regulator']],
+  ['POST', '/evidence', ['producer']],
+  ['GET', `/evidence/${'0'.repeat(64)}`, []],
+  ['GET', '/facilities', ['producer', 'regulator', 'certifier', 'auditor']],
+  ['POST', '/facilities', ['producer']],
+  ['GET', '/facilities/x', []],
+  ['PUT', '/facilities/x', ['producer']],
+  ['GET', '/fraud/flags', ['regulator', 'auditor']],
+  ['POST', '/fraud/flags/x/review', ['regulator']],
+  ['GET', '/credits/expiry', ['regulator', 'auditor']],
+  ['GET', '/notifications', []],
+  ['POST', '/notifications/x/read', []],
+  ['GET', '/bids', ['buyer']],
+  ['POST', '/bids', ['buyer']],
+  ['POST', '/bids/x/cancel', ['buyer']],
+  ['GET', '/deliveries', ['producer', 'buyer']],
+  ['POST', '/deliveries/x/release', ['producer']],
+  ['POST', '/procurement/plan', ['buyer']],
+  ['POST', '/procurement/execute', ['buyer']],
+  ['POST', '/procurement/cancel', ['buyer']],
+  ['GET', '/portfolio/pricing', ['buyer']],
+];
+
+describe('role guards', () => {
+  let api: Awaited<ReturnType<typeof serveApi>>;
+
+  before(async () => {
+    api = await serveApi({ users: roles.map(role => user(role, role)) });
+  });
+  after(() => api.close());
+
+  for (const [method, path, allowed] of routes) {
+    it(`${method} ${path} admits ${allowed.length === 0 ? 'any signed-in user' : allowed.join(' or ')}`, async () => {
+      assert.equal((await api.request(method, path)).status, 401);
+      for (const role of roles.filter(r => allowed.length > 0 && !allowed.includes(r))) {
+        const { status, body } = await api.request(method, path, { as: role });
+        assert.equal(status, 403, `${role} was not turned away`);
+        assert.equal(body.error, `Requires role: ${allowed.join(' or ')}`);
+      }
+    });
+  }
+});
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import type { Block } from 'ethers';
+import { provider } from '../src/chain.js';
+import { config } from '../src/config.js';
+import { reconcile } from '../src/indexer.js';
+import { chainEvent, openStore } from './fixtures.js';
+
+const recentBlocks = [10, 11, 12].map(number => ({ number, hash: `0xblock${number}` }));
+
+const indexedStore = () =>
+  openStore({
+    chainEvents: [10, 11, 12].map(blockNumber => chainEvent('AuditorRegistered', { auditor: '0x1', name: 'A' }, { blockNumber })),
+    indexer: { contractAddress: config.contractAddress, blockNumber: 12, recentBlocks },
+  });
+
+// The chain as the node now reports it: `hashes[n]` is block n's hash, missing blocks don't exist.
+const chainWith = (hashes: Record<number, string>) =>
+  mock.method(provider, 'getBlock', async (number: number) =>
+    hashes[number] === undefined ? null : ({ number, hash: hashes[number] } as unknown as Block));
+
+describe('indexer reorg handling', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('resumes from the checkpoint when the sampled blocks are still canonical', async () => {
+    const store = await indexedStore();
+    chainWith({ 10: '0xblock10', 11: '0xblock11', 12: '0xblock12' });
+
+    const checkpoint = await reconcile(store);
+
+    assert.equal(checkpoint?.blockNumber, 12);
+    assert.equal(store.read(db => db.chainEvents.length), 3);
+  });
+
+  it('rolls back events above the highest block that survived the reorg', async () => {
+    const store = await indexedStore();
+    chainWith({ 10: '0xblock10', 11: '0xfork11', 12: '0xfork12' });
+
+    const checkpoint = await reconcile(store);
+
+    assert.equal(checkpoint?.blockNumber, 10);
+    assert.deepEqual(checkpoint?.recentBlocks, [{ number: 10, hash: '0xblock10' }]);
+    assert.deepEqual(store.read(db => db.chainEvents.map(e => e.blockNumber)), [10]);
+    assert.equal(store.read(db => db.indexer?.blockNumber), 10);
+  });
+
+  it('starts over when no sampled block is canonical any more', async () => {
+    const store = await indexedStore();
+    chainWith({ 10: '0xfork10', 11: '0xfork11' });
+
+    assert.equal(await reconcile(store), null);
+    assert.equal(store.read(db => db.chainEvents.length), 0);
+    assert.equal(store.read(db => db.indexer), null);
+  });
+
+  it('re-indexes from scratch when the contract address changes', async () => {
+    const store = await openStore({
+      chainEvents: [chainEvent('AuditorRegistered', { auditor: '0x1', name: 'A' }, { blockNumber: 3 })],
+      indexer: { contractAddress: '0x0000000000000000000000000000000000000bad', blockNumber: 3, recentBlocks: [] },
+    });
+    const getBlock = chainWith({});
+
+    assert.equal(await reconcile(store), null);
+    assert.equal(store.read(db => db.chainEvents.length), 0);
+    assert.equal(getBlock.mock.callCount(), 0);
+  });
+});
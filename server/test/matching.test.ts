@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { matchOrders } from '../src/matching.js';
+import type { Database } from '../src/store.js';
+import {
+  bid,
+  BUYER,
+  database,
+  issuedCredit,
+  listing,
+  OTHER_BUYER,
+  OTHER_PRODUCER,
+  PRODUCER,
+  user,
+} from './fixtures.js';
+
+const market = (overrides: Partial<Database>) =>
+  database({
+    users: [user(PRODUCER, 'producer'), user(OTHER_PRODUCER, 'producer'), user(BUYER, 'buyer'), user(OTHER_BUYER, 'buyer')],
+    chainEvents: [...issuedCredit(1, { amount: 1000 }), ...issuedCredit(2, { producer: OTHER_PRODUCER, amount: 1000, renewableSource: 'Wind' })],
+    ...overrides,
+  });
+
+const rich = new Map([[BUYER, 1e6], [OTHER_BUYER, 1e6]]);
+
+describe('matchOrders', () => {
+  it('fills the highest bid first', () => {
+    const db = market({
+      listings: [listing('offer-1', { creditsAvailable: 100 })],
+      bids: [
+        bid('bid-low', { buyerId: OTHER_BUYER, limitPrice: 11, createdAt: '2026-01-02T00:00:00.000Z' }),
+        bid('bid-high', { limitPrice: 12, createdAt: '2026-01-03T00:00:00.000Z' }),
+      ],
+    });
+
+    const fills = matchOrders(db, rich);
+
+    assert.equal(fills.length, 1);
+    assert.equal(db.bids.find(b => b.bidId === 'bid-high')?.status, 'filled');
+    assert.equal(db.bids.find(b => b.bidId === 'bid-low')?.remaining, 100);
+  });
+
+  it('takes the cheapest offer first and the older of two at the same price', () => {
+    const db = market({
+      listings: [
+        listing('offer-newer', { pricePerCredit: 9, createdAt: '2026-01-02T00:00:00.000Z', producerId: OTHER_PRODUCER, creditIds: [2], creditsAvailable: 50 }),
+        listing('offer-dear', { pricePerCredit: 10, creditsAvailable: 50 }),
+        listing('offer-older', { pricePerCredit: 9, createdAt: '2026-01-01T12:00:00.000Z', creditsAvailable: 30 }),
+      ],
+      bids: [bid('bid-1', { credits: 100, remaining: 100, createdAt: '2026-01-05T00:00:00.000Z' })],
+    });
+
+    const fills = matchOrders(db, rich);
+
+    assert.deepEqual(fills.map(f => [f.offerId, f.credits]), [['offer-older', 30], ['offer-newer', 50], ['offer-dear', 20]]);
+  });
+
+  it('trades at the price of whichever order rested on the book first', () => {
+    const restingBid = market({
+      listings: [listing('offer-1', { pricePerCredit: 8, createdAt: '2026-01-02T00:00:00.000Z' })],
+      bids: [bid('bid-1', { limitPrice: 10, createdAt: '2026-01-01T00:00:00.000Z' })],
+    });
+    const restingOffer = market({
+      listings: [listing('offer-1', { pricePerCredit: 8, createdAt: '2026-01-01T00:00:00.000Z' })],
+      bids: [bid('bid-1', { limitPrice: 10, createdAt: '2026-01-02T00:00:00.000Z' })],
+    });
+
+    assert.equal(matchOrders(restingBid, rich)[0].pricePerCredit, 10);
+    assert.equal(matchOrders(restingOffer, rich)[0].pricePerCredit, 8);
+  });
+
+  it('partially fills a bid and leaves the rest on the book', () => {
+    const db = market({
+      listings: [listing('offer-1', { creditsAvailable: 60 })],
+      bids: [bid('bid-1', { credits: 100, remaining: 100, createdAt: '2026-01-02T00:00:00.000Z' })],
+    });
+
+    matchOrders(db, rich);
+
+    const [resting] = db.bids;
+    assert.equal(resting.status, 'open');
+    assert.equal(resting.remaining, 40);
+    assert.equal(db.listings[0].creditsAvailable, 0);
+    assert.equal(db.deliveries.length, 1);
+    assert.equal(db.deliveries[0].kg, 60);
+    assert.equal(db.ledger[0].credits, 60);
+  });
+
+  it('fills only what the buyer can pay for', () => {
+    const db = market({
+      listings: [listing('offer-1')],
+      bids: [bid('bid-1', { createdAt: '2026-01-02T00:00:00.000Z' })],
+    });
+
+    matchOrders(db, new Map([[BUYER, 55]]));
+
+    assert.equal(db.bids[0].remaining, 95);
+  });
+
+  it('fills only what the producer still holds of the offer lineage', () => {
+    const db = market({
+      chainEvents: issuedCredit(1, { amount: 25 }),
+      listings: [listing('offer-1', { creditsAvailable: 100 })],
+      bids: [bid('bid-1', { createdAt: '2026-01-02T00:00:00.000Z' })],
+    });
+
+    matchOrders(db, rich);
+
+    assert.equal(db.bids[0].remaining, 75);
+  });
+
+  it('skips offers above the limit or with credits that miss the constraints', () => {
+    const db = market({
+      listings: [
+        listing('offer-dear', { pricePerCredit: 11, producerId: OTHER_PRODUCER, creditIds: [2] }),
+        listing('offer-solar', { pricePerCredit: 5 }),
+      ],
+      bids: [bid('bid-wind', { limitPrice: 10, constraints: { renewableSource: 'Wind' }, createdAt: '2026-01-02T00:00:00.000Z' })],
+    });
+
+    assert.deepEqual(matchOrders(db, rich), []);
+  });
+
+  it('never matches a buyer with their own offer', () => {
+    const db = market({
+      chainEvents: issuedCredit(3, { producer: BUYER }),
+      listings: [listing('offer-own', { producerId: BUYER, creditIds: [3] })],
+      bids: [bid('bid-1', { createdAt: '2026-01-02T00:00:00.000Z' })],
+    });
+
+    assert.deepEqual(matchOrders(db, rich), []);
+  });
+});
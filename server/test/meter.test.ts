@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { config } from '../src/config.js';
+import { HttpError } from '../src/errors.js';
+import { parseMeterData } from '../src/meter.js';
+
+const csv = (...rows: string[]) =>
+  ['start,end,electrolyzer_kw,renewable_kw,h2_kg,grid_gco2_per_kwh', ...rows].join('\n');
+
+describe('parseMeterData', () => {
+  it('matches renewable supply to demand interval by interval', () => {
+    // 2 MWh of surplus in the first hour must not cover the 1 MWh grid draw in the second.
+    const summary = parseMeterData(csv(
+      '2026-01-01T00:00:00Z,2026-01-01T01:00:00Z,1000,3000,20,',
+      '2026-01-01T01:00:00Z,2026-01-01T02:00:00Z,1000,0,20,',
+    ), 'text/csv');
+
+    assert.equal(summary.energyKwh, 2000);
+    assert.equal(summary.renewableKwh, 1000);
+    assert.equal(summary.gridKwh, 1000);
+    assert.equal(summary.gridShare, 0.5);
+    assert.equal(summary.h2Kg, 40);
+    assert.equal(summary.specificConsumption, 50);
+    assert.equal(summary.carbonIntensity, config.gridEmissionFactor / 2);
+    assert.equal(summary.exceedsThreshold, true);
+  });
+
+  it('scales energy by interval length', () => {
+    const summary = parseMeterData(JSON.stringify([
+      { start: '2026-01-01T00:00:00Z', end: '2026-01-01T00:15:00Z', electrolyzerKw: 400, renewableKw: 400, h2Kg: 2 },
+    ]), 'application/json');
+
+    assert.equal(summary.energyKwh, 100);
+    assert.equal(summary.carbonIntensity, 0);
+    assert.equal(summary.periodEnd, '2026-01-01T00:15:00.000Z');
+  });
+
+  it('charges grid energy at the interval factor when one is given', () => {
+    const summary = parseMeterData(csv('2026-01-01T00:00:00Z,2026-01-01T01:00:00Z,1000,900,20,100'), 'text/csv');
+    // 100 kWh of grid at 100 g/kWh over 1000 kWh
+    assert.equal(summary.carbonIntensity, 10);
+  });
+
+  it('rounds carbon intensity up to a whole gCO2/kWh', () => {
+    // 1 kWh of grid at 400 g over 3 kWh is 133.33 g/kWh
+    const summary = parseMeterData(csv('2026-01-01T00:00:00Z,2026-01-01T01:00:00Z,3,2,0.05,400'), 'text/csv');
+    assert.equal(summary.carbonIntensity, 134);
+  });
+
+  it('does not round an exact intensity up because of floating-point noise', () => {
+    // 0.1 + 0.2 kWh style sums must not turn 10 g/kWh into 11
+    const summary = parseMeterData(csv(
+      '2026-01-01T00:00:00Z,2026-01-01T00:06:00Z,1000,900,2,100',
+      '2026-01-01T00:06:00Z,2026-01-01T00:18:00Z,1000,900,4,100',
+    ), 'text/csv');
+    assert.equal(summary.carbonIntensity, 10);
+  });
+
+  it('flags intensities above the contract limit only', () => {
+    const at = (renewableKw: number) =>
+      parseMeterData(csv(`2026-01-01T00:00:00Z,2026-01-01T01:00:00Z,1000,${renewableKw},20,400`), 'text/csv');
+    // 125 kWh of grid at 400 g over 1000 kWh is exactly 50 g/kWh
+    assert.equal(at(875).exceedsThreshold, false);
+    assert.equal(at(874).exceedsThreshold, true);
+  });
+
+  it('rejects overlapping intervals and reports the row', () => {
+    assert.throws(
+      () => parseMeterData(csv(
+        '2026-01-01T00:00:00Z,2026-01-01T01:00:00Z,1000,1000,20,',
+        '2026-01-01T00:30:00Z,2026-01-01T01:30:00Z,1000,1000,20,',
+      ), 'text/csv'),
+      (error: unknown) => error instanceof HttpError && error.status === 400 && /row 2: intervals must be in order/.test(error.message),
+    );
+  });
+
+  it('rejects unknown columns and negative readings', () => {
+    assert.throws(() => parseMeterData('start,end,voltage\n', 'text/csv'), /Unknown meter data column\(s\): voltage/);
+    assert.throws(
+      () => parseMeterData(csv('2026-01-01T00:00:00Z,2026-01-01T01:00:00Z,-5,0,1,'), 'text/csv'),
+      /electrolyzerKw must be a non-negative number/,
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { creditAcquisitions, markPrice } from '../src/portfolio.js';
+import type { Database } from '../src/store.js';
+import type { Delivery, LedgerRecord } from '../src/types.js';
+import { BUYER, chainEvent, database, issuedCredit, listing, OTHER_BUYER, OTHER_PRODUCER, PRODUCER } from './fixtures.js';
+
+// A sale from an offer agreed at `createdAt`.
+const sale = (offerId: string, pricePerCredit: number, createdAt: string, producerId = PRODUCER): Delivery => ({
+  deliveryId: `dlv-${offerId}-${createdAt}`,
+  txId: `tx-${offerId}-${createdAt}`,
+  offerId,
+  producerId,
+  buyerId: BUYER,
+  kg: 500,
+  pricePerCredit,
+  createdAt,
+});
+
+const at = (timestamp: string) => ({ timestamp });
+
+// Producer 1 offers credit 1 at 10 and producer 2 credit 2 at 14; the buyer takes half of credit 1 and all of credit 2.
+const holdings = (overrides: Partial<Database> = {}) =>
+  database({
+    chainEvents: [
+      ...issuedCredit(1, { amount: 1000 }),
+      ...issuedCredit(2, { producer: OTHER_PRODUCER, amount: 500 }),
+      chainEvent('CreditSplit', { id: 3, parentId: 1, owner: PRODUCER, amount: 500 }, at('2026-02-03T00:00:00.000Z')),
+      chainEvent('CreditSplit', { id: 4, parentId: 1, owner: PRODUCER, amount: 500 }, at('2026-02-03T00:00:00.000Z')),
+      chainEvent('CreditTransferred', { id: 4, from: PRODUCER, to: BUYER }, at('2026-02-03T00:00:00.000Z')),
+      chainEvent('CreditTransferred', { id: 2, from: OTHER_PRODUCER, to: BUYER }, at('2026-02-04T00:00:00.000Z')),
+    ],
+    listings: [
+      listing('offer-1'),
+      listing('offer-2', { producerId: OTHER_PRODUCER, creditIds: [2], pricePerCredit: 14 }),
+    ],
+    deliveries: [
+      sale('offer-1', 10, '2026-02-01T00:00:00.000Z'),
+      sale('offer-1', 12, '2026-02-05T00:00:00.000Z'),
+      sale('offer-2', 14, '2026-02-02T00:00:00.000Z', OTHER_PRODUCER),
+    ],
+    ...overrides,
+  });
+
+const prices = (db: Database) =>
+  creditAcquisitions(db, BUYER).map(a => [a.creditId, a.pricePerCredit]).sort(([a], [b]) => a - b);
+
+describe('creditAcquisitions', () => {
+  it('prices a credit at the latest sale of its lineage agreed before the transfer', () => {
+    const db = holdings();
+
+    assert.deepEqual(prices(db), [[2, 14], [4, 10]]);
+    assert.equal(creditAcquisitions(db, BUYER).find(a => a.creditId === 4)?.txId, 'tx-offer-1-2026-02-01T00:00:00.000Z');
+  });
+
+  it('leaves out credits that did not come from the seller of a sale', () => {
+    const db = holdings();
+    db.chainEvents.push(
+      ...issuedCredit(5, { amount: 100 }),
+      chainEvent('CreditTransferred', { id: 5, from: PRODUCER, to: OTHER_BUYER }, at('2026-02-06T00:00:00.000Z')),
+      chainEvent('CreditTransferred', { id: 5, from: OTHER_BUYER, to: BUYER }, at('2026-02-07T00:00:00.000Z')),
+    );
+
+    assert.deepEqual(prices(db), [[2, 14], [4, 10]]);
+  });
+
+  it('weights a merged credit by its parents and drops it when a parent was not bought', () => {
+    const merged = holdings();
+    merged.chainEvents.push(
+      chainEvent('CreditMerged', { id: 5, parentId: 4, owner: BUYER, amount: 500 }, at('2026-02-08T00:00:00.000Z')),
+      chainEvent('CreditMerged', { id: 5, parentId: 2, owner: BUYER, amount: 500 }, at('2026-02-08T00:00:00.000Z')),
+    );
+    assert.deepEqual(creditAcquisitions(merged, BUYER), [
+      { creditId: 5, pricePerCredit: 12, acquiredAt: '2026-02-04T00:00:00.000Z' },
+    ]);
+
+    const unbought = holdings({ deliveries: [sale('offer-1', 10, '2026-02-01T00:00:00.000Z')] });
+    unbought.chainEvents.push(
+      chainEvent('CreditMerged', { id: 5, parentId: 4, owner: BUYER, amount: 500 }, at('2026-02-08T00:00:00.000Z')),
+      chainEvent('CreditMerged', { id: 5, parentId: 2, owner: BUYER, amount: 500 }, at('2026-02-08T00:00:00.000Z')),
+    );
+    assert.deepEqual(creditAcquisitions(unbought, BUYER), []);
+  });
+});
+
+describe('markPrice', () => {
+  const now = new Date('2026-03-31T00:00:00.000Z');
+  const trade = (timestamp: string, credits: number, pricePerCredit: number): LedgerRecord => ({
+    txId: `tx-${timestamp}`,
+    type: 'trade',
+    from: PRODUCER,
+    to: BUYER,
+    credits,
+    timestamp,
+    verified: true,
+    pricePerCredit,
+  });
+
+  it('is the VWAP of the last 30 days', () => {
+    const ledger = [
+      trade('2026-02-01T00:00:00.000Z', 1000, 5),
+      trade('2026-03-10T00:00:00.000Z', 100, 8),
+      trade('2026-03-20T00:00:00.000Z', 300, 12),
+    ];
+
+    assert.equal(markPrice(ledger, now), 11);
+  });
+
+  it('falls back to the latest trade when the window is quiet, and to none without trades', () => {
+    const ledger = [
+      trade('2026-02-10T00:00:00.000Z', 100, 9),
+      trade('2026-01-10T00:00:00.000Z', 100, 7),
+      { ...trade('2026-03-20T00:00:00.000Z', 100, 1), type: 'issue' as const },
+    ];
+
+    assert.equal(markPrice(ledger, now), 9);
+    assert.equal(markPrice([], now), null);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { basketMisfit, planProcurement } from '../src/procurement.js';
+import type { Database } from '../src/store.js';
+import { executeTrade, reverseTrade } from '../src/trading.js';
+import type { ProcurementRequest } from '../src/types.js';
+import { BUYER, database, issuedCredit, listing, OTHER_PRODUCER, PRODUCER, user } from './fixtures.js';
+
+const THIRD_PRODUCER = '0x1000000000000000000000000000000000000003';
+
+// Three producers with 1000 kg each; the third's credits are wind, the others solar.
+const market = (overrides: Partial<Database> = {}) =>
+  database({
+    users: [user(PRODUCER, 'producer'), user(OTHER_PRODUCER, 'producer'), user(THIRD_PRODUCER, 'producer'), user(BUYER, 'buyer')],
+    chainEvents: [
+      ...issuedCredit(1),
+      ...issuedCredit(2, { producer: OTHER_PRODUCER, carbonIntensity: 30 }),
+      ...issuedCredit(3, { producer: THIRD_PRODUCER, renewableSource: 'Wind' }),
+    ],
+    listings: [
+      listing('offer-cheap', { pricePerCredit: 8, creditsAvailable: 60 }),
+      listing('offer-mid', { pricePerCredit: 9, producerId: OTHER_PRODUCER, producerName: 'Producer 2', creditIds: [2] }),
+      listing('offer-dear', { pricePerCredit: 12, producerId: THIRD_PRODUCER, producerName: 'Producer 3', creditIds: [3] }),
+    ],
+    ...overrides,
+  });
+
+const request = (fields: Partial<ProcurementRequest> = {}): ProcurementRequest => ({ credits: 100, budget: 10_000, ...fields });
+
+const legsOf = (db: Database, fields: Partial<ProcurementRequest> = {}) =>
+  planProcurement(db, BUYER, request(fields)).legs.map(l => [l.offerId, l.credits]);
+
+describe('planProcurement', () => {
+  it('fills from the cheapest suitable offers first', () => {
+    const plan = planProcurement(market(), BUYER, request());
+
+    assert.deepEqual(plan.legs.map(l => [l.offerId, l.credits]), [['offer-cheap', 60], ['offer-mid', 40]]);
+    assert.equal(plan.cost, 60 * 8 + 40 * 9);
+    assert.equal(plan.shortfall, 0);
+  });
+
+  it('skips offers with any credit outside the constraints', () => {
+    assert.deepEqual(legsOf(market(), { maxCarbonIntensity: 20 }), [['offer-cheap', 60], ['offer-dear', 40]]);
+    assert.deepEqual(legsOf(market(), { renewableSources: ['Wind'] }), [['offer-dear', 100]]);
+  });
+
+  it('caps each producer at the maximum share and moves the rest to dearer offers', () => {
+    assert.deepEqual(legsOf(market(), { maxProducerShare: 0.4 }), [['offer-cheap', 40], ['offer-mid', 40], ['offer-dear', 20]]);
+  });
+
+  it('reports a shortfall and a blown budget rather than overreaching', () => {
+    const short = planProcurement(market(), BUYER, request({ credits: 400, maxProducerShare: 0.25 }));
+    assert.equal(short.credits, 60 + 100 + 100);
+    assert.equal(short.shortfall, 140);
+
+    assert.equal(planProcurement(market(), BUYER, request({ budget: 800 })).withinBudget, false);
+  });
+});
+
+describe('basketMisfit', () => {
+  const planned = [
+    { offerId: 'offer-cheap', credits: 60, pricePerCredit: 8 },
+    { offerId: 'offer-mid', credits: 40, pricePerCredit: 9 },
+  ];
+
+  it('accepts the basket the planner chose', () => {
+    assert.equal(basketMisfit(market(), BUYER, request(), planned), undefined);
+  });
+
+  it('rejects baskets that miss the quantity or budget', () => {
+    assert.match(basketMisfit(market(), BUYER, request({ credits: 120 }), planned)!, /not the 120 credits requested/);
+    assert.match(basketMisfit(market(), BUYER, request({ budget: 800 }), planned)!, /over the budget of 800\.00/);
+  });
+
+  it('rejects legs that break the constraints or a producer share', () => {
+    assert.match(basketMisfit(market(), BUYER, request({ maxCarbonIntensity: 20 }), planned)!, /offer-mid has credits/);
+    assert.match(basketMisfit(market(), BUYER, request({ maxProducerShare: 0.5 }), planned)!, /Producer 1 would supply more than 50/);
+  });
+});
+
+describe('reverseTrade', () => {
+  it('puts the credits back on the offer and forgets the trade', () => {
+    const db = market();
+    const [offer] = db.listings;
+    const buyer = db.users.find(u => u.id === BUYER)!;
+    executeTrade(db, offer, db.users[0], buyer, 25, offer.pricePerCredit);
+
+    reverseTrade(db, db.deliveries[0]);
+
+    assert.equal(offer.creditsAvailable, 60);
+    assert.equal(buyer.credits, 0);
+    assert.deepEqual(db.ledger, []);
+    assert.deepEqual(db.deliveries, []);
+  });
+});
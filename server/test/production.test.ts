@@ -0,0 +1,187 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import type { Facility } from '../src/types.js';
+import { OTHER_PRODUCER, PRODUCER, REGULATOR, serveApi, user } from './fixtures.js';
+
+const facility: Facility = {
+  facilityId: 'fac-1',
+  producerId: PRODUCER,
+  name: 'Maasvlakte',
+  latitude: 51.95,
+  longitude: 4.03,
+  electrolyzerType: 'pem',
+  capacityMw: 10,
+  capacityKgPerDay: 4000,
+  renewableAssets: [{ type: 'Wind', capacityMw: 12 }],
+  commissioningDate: '2026-01-01',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+// One day's output at the facility, well within its capacity.
+const fields = (fields: Record<string, unknown> = {}) => ({
+  tons: 1,
+  facilityId: facility.facilityId,
+  productionDate: '2026-02-01',
+  ...fields,
+});
+
+describe('production report review', () => {
+  let api: Awaited<ReturnType<typeof serveApi>>;
+
+  before(async () => {
+    api = await serveApi({
+      users: [user(PRODUCER, 'producer'), user(OTHER_PRODUCER, 'producer'), user(REGULATOR, 'regulator')],
+      facilities: [facility],
+    });
+  });
+  after(() => api.close());
+
+  const submit = async (tons = 1) => {
+    const { status, body } = await api.request('POST', '/production', { as: PRODUCER, body: { producerId: PRODUCER, ...fields({ tons }) } });
+    assert.equal(status, 201);
+    return body.reportId as string;
+  };
+
+  it('moves a rejected report into its history when it is resubmitted', async () => {
+    const reportId = await submit(2);
+
+    const rejected = await api.request('POST', `/production/${reportId}/reject`, {
+      as: REGULATOR,
+      body: { reason: 'quantity_discrepancy', notes: 'Meter shows 1.5 t' },
+    });
+    assert.equal(rejected.status, 200);
+    assert.equal(rejected.body.status, 'rejected');
+    assert.equal(rejected.body.rejection.regulatorId, REGULATOR);
+
+    const resubmitted = await api.request('POST', `/production/${reportId}/resubmit`, { as: PRODUCER, body: fields({ tons: 1.5 }) });
+    assert.equal(resubmitted.status, 200);
+    assert.equal(resubmitted.body.status, 'submitted');
+    assert.equal(resubmitted.body.tons, 1.5);
+    assert.equal(resubmitted.body.rejection, undefined);
+    assert.deepEqual(resubmitted.body.history.map((r: { revision: number; tons: number }) => [r.revision, r.tons]), [[1, 2]]);
+    assert.equal(resubmitted.body.history[0].rejection.reason, 'quantity_discrepancy');
+
+    const pending = await api.request('GET', '/production/pending', { as: REGULATOR });
+    assert.ok(pending.body.some((r: { reportId: string }) => r.reportId === reportId));
+  });
+
+  it('only rejects submitted reports, and only resubmits rejected ones', async () => {
+    const reportId = await submit();
+
+    const early = await api.request('POST', `/production/${reportId}/resubmit`, { as: PRODUCER, body: fields() });
+    assert.equal(early.status, 409);
+
+    await api.request('POST', '/approve', { as: REGULATOR, body: { reportId, regulatorId: REGULATOR } });
+    const late = await api.request('POST', `/production/${reportId}/reject`, { as: REGULATOR, body: { reason: 'date_mismatch' } });
+    assert.equal(late.status, 409);
+  });
+
+  it('asks for notes when the reason is "other"', async () => {
+    const reportId = await submit();
+
+    const { status, body } = await api.request('POST', `/production/${reportId}/reject`, { as: REGULATOR, body: { reason: 'other' } });
+    assert.equal(status, 400);
+    assert.deepEqual(body.issues.map((i: { path: string[] }) => i.path), [['notes']]);
+  });
+
+  it('leaves rejecting to regulators and resubmitting to the report\'s producer', async () => {
+    const reportId = await submit();
+
+    const byProducer = await api.request('POST', `/production/${reportId}/reject`, { as: PRODUCER, body: { reason: 'date_mismatch' } });
+    assert.equal(byProducer.status, 403);
+
+    await api.request('POST', `/production/${reportId}/reject`, { as: REGULATOR, body: { reason: 'date_mismatch' } });
+    const byOther = await api.request('POST', `/production/${reportId}/resubmit`, { as: OTHER_PRODUCER, body: fields() });
+    assert.equal(byOther.status, 403);
+  });
+});
+
+describe('production report drafts', () => {
+  let api: Awaited<ReturnType<typeof serveApi>>;
+
+  before(async () => {
+    api = await serveApi({
+      users: [user(PRODUCER, 'producer'), user(REGULATOR, 'regulator')],
+      facilities: [facility],
+    });
+  });
+  after(() => api.close());
+
+  it('keeps a draft private until it is submitted', async () => {
+    const draft = await api.request('POST', '/production/drafts', { as: PRODUCER, body: { tons: 3 } });
+    assert.equal(draft.status, 201);
+    assert.equal(draft.body.status, 'draft');
+    const { reportId } = draft.body;
+
+    const saved = await api.request('PUT', `/production/${reportId}`, { as: PRODUCER, body: fields({ notes: 'Day shift' }) });
+    assert.equal(saved.body.tons, 1);
+    assert.equal(saved.body.notes, 'Day shift');
+    assert.equal((await api.request('GET', `/production/${reportId}`, { as: REGULATOR })).status, 403);
+    const pending = await api.request('GET', '/production/pending', { as: REGULATOR });
+    assert.deepEqual(pending.body, []);
+
+    const submitted = await api.request('POST', `/production/${reportId}/submit`, { as: PRODUCER });
+    assert.equal(submitted.body.status, 'submitted');
+    assert.equal((await api.request('GET', `/production/${reportId}`, { as: REGULATOR })).status, 200);
+  });
+
+  it('checks a draft like a submission only when it is submitted', async () => {
+    const { body: draft } = await api.request('POST', '/production/drafts', { as: PRODUCER, body: { tons: 1 } });
+
+    const submitted = await api.request('POST', `/production/${draft.reportId}/submit`, { as: PRODUCER });
+    assert.equal(submitted.status, 400);
+    assert.match(submitted.body.error, /facility/);
+  });
+
+  it('stops editing or deleting a report once it is submitted', async () => {
+    const { body: draft } = await api.request('POST', '/production/drafts', { as: PRODUCER, body: fields() });
+    await api.request('POST', `/production/${draft.reportId}/submit`, { as: PRODUCER });
+
+    assert.equal((await api.request('PUT', `/production/${draft.reportId}`, { as: PRODUCER, body: fields() })).status, 409);
+    assert.equal((await api.request('DELETE', `/production/${draft.reportId}`, { as: PRODUCER })).status, 409);
+  });
+
+  it('deletes a draft', async () => {
+    const { body: draft } = await api.request('POST', '/production/drafts', { as: PRODUCER, body: { tons: 1 } });
+
+    assert.equal((await api.request('DELETE', `/production/${draft.reportId}`, { as: PRODUCER })).status, 204);
+    assert.equal((await api.request('GET', `/production/${draft.reportId}`, { as: PRODUCER })).status, 404);
+  });
+});
+
+describe('production reports from meter data', () => {
+  let api: Awaited<ReturnType<typeof serveApi>>;
+
+  before(async () => {
+    api = await serveApi({ users: [user(PRODUCER, 'producer')], facilities: [facility] });
+  });
+  after(() => api.close());
+
+  const meterData = async (h2Kg: number) => {
+    const csv = `start,end,electrolyzer_kw,renewable_kw,h2_kg\n2026-02-01T00:00:00Z,2026-02-01T01:00:00Z,1000,1000,${h2Kg}\n`;
+    const { body } = await api.request('POST', '/evidence', { as: PRODUCER, body: Buffer.from(csv), type: 'text/csv' });
+    return { sha256: body.sha256, name: 'meter.csv' };
+  };
+
+  it('derives the volume from the meter data instead of tons', async () => {
+    const { status, body } = await api.request('POST', '/production/drafts', {
+      as: PRODUCER,
+      body: { tons: 5, meterData: await meterData(20) },
+    });
+
+    assert.equal(status, 201);
+    assert.equal(body.tons, 0.02);
+    assert.equal(body.meterData.meter.h2Kg, 20);
+  });
+
+  it('rejects meter data for less than 1 kg', async () => {
+    const { status, body } = await api.request('POST', '/production/drafts', {
+      as: PRODUCER,
+      body: { meterData: await meterData(0.4) },
+    });
+
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Must be at least 0.001 tonnes (1 kg)');
+  });
+});
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ZeroAddress } from 'ethers';
+import { buildLedger, descendants, projectCredits } from '../src/projections.js';
+import { BUYER, CERTIFIER, chainEvent, issuedCredit, OTHER_BUYER, PRODUCER } from './fixtures.js';
+
+describe('projectCredits', () => {
+  it('replays verification, transfers, retirement and suspension onto the issued credit', () => {
+    const credits = projectCredits([
+      ...issuedCredit(1, { amount: 500, productionDate: '2026-01-01' }),
+      chainEvent('CreditTransferred', { id: 1, from: PRODUCER, to: BUYER }),
+      chainEvent('CreditRetired', { id: 1, owner: BUYER, reason: 'Scope 1' }),
+      ...issuedCredit(2),
+      chainEvent('CreditSuspended', { id: 2, regulator: CERTIFIER, reason: 'Fraud' }),
+    ]);
+
+    assert.deepEqual(
+      { owner: credits.get(1)?.owner, amount: credits.get(1)?.amount, verified: credits.get(1)?.verified, retired: credits.get(1)?.retired },
+      { owner: BUYER, amount: 500, verified: true, retired: true },
+    );
+    assert.equal(credits.get(2)?.suspended, true);
+    assert.equal(credits.get(1)?.productionDate, '2026-01-01T00:00:00.000Z');
+  });
+
+  it('treats a later non-verified status as unverified', () => {
+    const credits = projectCredits([
+      ...issuedCredit(1),
+      chainEvent('CreditVerified', { id: 1, auditor: CERTIFIER, status: 2 }),
+    ]);
+    assert.equal(credits.get(1)?.verified, false);
+  });
+
+  it('gives split children the parent attributes and marks the parent superseded', () => {
+    const credits = projectCredits([
+      ...issuedCredit(1, { amount: 1000, renewableSource: 'Wind' }),
+      chainEvent('CreditSplit', { id: 2, parentId: 1, owner: PRODUCER, amount: 600 }),
+      chainEvent('CreditSplit', { id: 3, parentId: 1, owner: BUYER, amount: 400 }),
+    ]);
+
+    assert.equal(credits.get(1)?.superseded, true);
+    assert.deepEqual(credits.get(1)?.children, [2, 3]);
+    assert.deepEqual(
+      [2, 3].map(id => ({ owner: credits.get(id)?.owner, amount: credits.get(id)?.amount, originId: credits.get(id)?.originId, source: credits.get(id)?.renewableSource })),
+      [
+        { owner: PRODUCER, amount: 600, originId: 1, source: 'Wind' },
+        { owner: BUYER, amount: 400, originId: 1, source: 'Wind' },
+      ],
+    );
+    assert.equal(credits.get(3)?.verified, true);
+  });
+
+  it('sums merged parents into one child', () => {
+    const credits = projectCredits([
+      ...issuedCredit(1, { amount: 300 }),
+      ...issuedCredit(2, { amount: 200 }),
+      chainEvent('CreditMerged', { id: 3, parentId: 1, owner: PRODUCER, amount: 300 }),
+      chainEvent('CreditMerged', { id: 3, parentId: 2, owner: PRODUCER, amount: 200 }),
+    ]);
+
+    assert.equal(credits.get(3)?.amount, 500);
+    assert.deepEqual(credits.get(3)?.parents, [1, 2]);
+    assert.ok(credits.get(1)?.superseded && credits.get(2)?.superseded);
+  });
+
+  it('ignores events for credits it never saw issued', () => {
+    const credits = projectCredits([
+      chainEvent('CreditTransferred', { id: 9, from: PRODUCER, to: BUYER }),
+      chainEvent('CreditSplit', { id: 10, parentId: 9, owner: BUYER, amount: 1 }),
+    ]);
+    assert.equal(credits.size, 0);
+  });
+});
+
+describe('descendants', () => {
+  it('follows splits and merges through every generation', () => {
+    const credits = projectCredits([
+      ...issuedCredit(1, { amount: 1000 }),
+      ...issuedCredit(5, { amount: 100 }),
+      chainEvent('CreditSplit', { id: 2, parentId: 1, owner: PRODUCER, amount: 700 }),
+      chainEvent('CreditSplit', { id: 3, parentId: 1, owner: OTHER_BUYER, amount: 300 }),
+      chainEvent('CreditSplit', { id: 4, parentId: 2, owner: BUYER, amount: 700 }),
+      chainEvent('CreditMerged', { id: 6, parentId: 4, owner: BUYER, amount: 700 }),
+      chainEvent('CreditMerged', { id: 6, parentId: 5, owner: BUYER, amount: 100 }),
+    ]);
+
+    assert.deepEqual([...descendants(credits, [2])].sort(), [2, 4, 6]);
+    assert.deepEqual([...descendants(credits, [1])].sort(), [1, 2, 3, 4, 6]);
+    assert.deepEqual([...descendants(credits, [99])], []);
+  });
+});
+
+describe('buildLedger', () => {
+  it('records issues, trades and retirements in chain order', () => {
+    const ledger = buildLedger([
+      ...issuedCredit(1, { amount: 250 }),
+      chainEvent('CreditTransferred', { id: 1, from: PRODUCER, to: BUYER }),
+      chainEvent('CreditRetired', { id: 1, owner: BUYER, reason: 'Scope 1' }),
+    ]);
+
+    assert.deepEqual(ledger.map(e => [e.type, e.from, e.to, e.credits]), [
+      ['issue', CERTIFIER, PRODUCER, 250],
+      ['trade', PRODUCER, BUYER, 250],
+      ['retire', BUYER, ZeroAddress, 250],
+    ]);
+  });
+});
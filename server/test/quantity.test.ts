@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  creditsToTonnes,
+  formatCredits,
+  formatKg,
+  formatTonnes,
+  kgToCredits,
+  kgToTonnes,
+  roundTonnes,
+  tonnesToCredits,
+  tonnesToKg,
+} from '../../shared/quantity.js';
+
+describe('quantity conversions', () => {
+  it('converts without floating-point noise', () => {
+    assert.equal(tonnesToKg(0.1), 100);
+    assert.equal(tonnesToKg(1.001), 1001);
+    assert.equal(kgToTonnes(1), 0.001);
+    assert.equal(creditsToTonnes(12_345), 12.345);
+  });
+
+  it('issues one credit per kg of H2', () => {
+    assert.equal(tonnesToCredits(40), 40_000);
+    assert.equal(tonnesToCredits(0.001), 1);
+    assert.equal(kgToCredits(250), 250);
+  });
+
+  it('keeps reported tonnages to the kg', () => {
+    assert.equal(roundTonnes(1.23456), 1.235);
+    assert.equal(tonnesToCredits(roundTonnes(0.0004)), 0);
+  });
+
+  it('formats with the unit and its plural', () => {
+    assert.equal(formatTonnes(1), '1 tonne');
+    assert.equal(formatTonnes(2.5), '2.5 tonnes');
+    assert.equal(formatKg(40_000), '40,000 kg');
+    assert.equal(formatCredits(1), '1 credit');
+    assert.equal(formatCredits(1234), '1,234 credits');
+  });
+});
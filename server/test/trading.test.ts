@@ -0,0 +1,183 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Database } from '../src/store.js';
+import { availableKg, executeTrade, listingAttributes, sellableCredits, sweepUnpaidTrades, unreservedKg } from '../src/trading.js';
+import type { Delivery } from '../src/types.js';
+import { bid, BUYER, chainEvent, daysAgo, database, issuedCredit, listing, OTHER_PRODUCER, PRODUCER, user } from './fixtures.js';
+
+// An unsettled sale of `kg` from an offer.
+const owed = (offerId: string, kg: number): Delivery => ({
+  deliveryId: `dlv-${offerId}`,
+  txId: `tx-${offerId}`,
+  offerId,
+  producerId: PRODUCER,
+  buyerId: BUYER,
+  kg,
+  pricePerCredit: 10,
+  createdAt: '2026-02-01T00:00:00.000Z',
+});
+
+const holdings = (overrides: Partial<Database>) =>
+  database({
+    chainEvents: [...issuedCredit(1, { amount: 1000 }), ...issuedCredit(2, { producer: OTHER_PRODUCER, amount: 1000 })],
+    ...overrides,
+  });
+
+describe('unreservedKg', () => {
+  it('subtracts open and paused offers on the lineage and what their buyers are owed', () => {
+    const db = holdings({
+      listings: [
+        listing('offer-active', { creditsAvailable: 300 }),
+        listing('offer-paused', { creditsAvailable: 200, status: 'paused' }),
+        listing('offer-cancelled', { creditsAvailable: 100, status: 'cancelled' }),
+        listing('offer-expired', { creditsAvailable: 100, expiresAt: '2026-01-02T00:00:00.000Z' }),
+      ],
+      deliveries: [owed('offer-cancelled', 50)],
+    });
+
+    assert.equal(unreservedKg(db, PRODUCER, [1]), 450);
+  });
+
+  it('leaves out the listed volume of the offer being edited but not what its buyers are owed', () => {
+    const db = holdings({
+      listings: [listing('offer-1', { creditsAvailable: 300 }), listing('offer-2', { creditsAvailable: 200 })],
+      deliveries: [owed('offer-1', 50)],
+    });
+
+    assert.equal(unreservedKg(db, PRODUCER, [1], 'offer-1'), 750);
+  });
+
+  it('ignores offers on other lineages and other producers', () => {
+    const db = holdings({
+      listings: [listing('offer-other', { producerId: OTHER_PRODUCER, creditIds: [2], creditsAvailable: 500 })],
+    });
+
+    assert.equal(unreservedKg(db, PRODUCER, [1]), 1000);
+    assert.equal(unreservedKg(db, OTHER_PRODUCER, [2]), 500);
+  });
+});
+
+describe('availableKg', () => {
+  it('is the lineage the producer holds less what the offer still owes', () => {
+    const db = holdings({ listings: [listing('offer-1')], deliveries: [owed('offer-1', 50)] });
+
+    assert.equal(availableKg(db, db.listings[0]), 950);
+  });
+});
+
+describe('sellableCredits', () => {
+  it('is capped by the listing and by the credits left to deliver from', () => {
+    const db = holdings({
+      chainEvents: issuedCredit(1, { amount: 120 }),
+      listings: [listing('offer-small', { creditsAvailable: 100 }), listing('offer-large', { creditsAvailable: 500 })],
+    });
+
+    assert.equal(sellableCredits(db, db.listings[0]), 100);
+    assert.equal(sellableCredits(db, db.listings[1]), 120);
+  });
+
+  it('is zero for offers that cannot trade or whose lineage is all owed', () => {
+    const sellable = (fields: Parameters<typeof listing>[1], deliveries: Delivery[] = []) => {
+      const db = holdings({ listings: [listing('offer-1', fields)], deliveries });
+      return sellableCredits(db, db.listings[0]);
+    };
+
+    assert.equal(sellable({ status: 'paused' }), 0);
+    assert.equal(sellable({ expiresAt: '2026-01-02T00:00:00.000Z' }), 0);
+    assert.equal(sellable({ creditIds: undefined }), 0);
+    assert.equal(sellable({}, [owed('offer-1', 1500)]), 0);
+  });
+});
+
+describe('listingAttributes', () => {
+  const credits = [
+    ...issuedCredit(1, { amount: 1000, productionDate: daysAgo(30) }),
+    ...issuedCredit(2, { amount: 3000, productionDate: daysAgo(90), renewableSource: 'Wind', location: 'Hamburg', carbonIntensity: 40 }),
+    ...issuedCredit(3, { amount: 500, productionDate: daysAgo(10), location: 'Lisbon', carbonIntensity: 90 }),
+    chainEvent('CreditTransferred', { id: 3, from: PRODUCER, to: BUYER }),
+  ];
+
+  it('describes the credits the producer can still deliver the offer from', () => {
+    const db = database({ chainEvents: credits });
+
+    assert.deepEqual(listingAttributes(db, listing('offer-1', { creditIds: [1, 2, 3] })), {
+      renewableSources: ['Solar', 'Wind'],
+      locations: ['Hamburg', 'Rotterdam'],
+      carbonIntensity: { min: 10, max: 40, average: 32.5 },
+      vintage: { from: daysAgo(90), to: daysAgo(30) },
+      incomplete: false,
+    });
+  });
+
+  it('rates intensity over the credits that carry one and flags the offer incomplete', () => {
+    const unrated = chainEvent('CreditIssued', {
+      id: 4,
+      owner: PRODUCER,
+      producer: PRODUCER,
+      amount: 2000,
+      productionDate: Date.parse(daysAgo(5)) / 1000,
+      producerName: 'Producer 1',
+      certifier: PRODUCER,
+    });
+    const db = database({ chainEvents: [...credits, unrated, chainEvent('CreditVerified', { id: 4, auditor: PRODUCER, status: 1 })] });
+
+    const attributes = listingAttributes(db, listing('offer-1', { creditIds: [1, 4] }));
+    assert.deepEqual(attributes.renewableSources, ['Solar']);
+    assert.deepEqual(attributes.carbonIntensity, { min: 10, max: 10, average: 10 });
+    assert.equal(attributes.vintage?.to, daysAgo(5));
+    assert.equal(attributes.incomplete, true);
+  });
+
+  it('has nothing to describe once the backing credits are gone', () => {
+    const db = database({ chainEvents: credits });
+
+    assert.deepEqual(listingAttributes(db, listing('offer-1', { creditIds: [3] })), {
+      renewableSources: [],
+      locations: [],
+      carbonIntensity: undefined,
+      vintage: undefined,
+      incomplete: false,
+    });
+  });
+});
+
+describe('sweepUnpaidTrades', () => {
+  const now = new Date('2026-02-10T00:00:00.000Z');
+
+  // Three trades of 10 credits from one offer, the first two agreed two days ago.
+  const market = () => {
+    const db = holdings({
+      users: [user(PRODUCER, 'producer'), user(BUYER, 'buyer')],
+      listings: [listing('offer-1')],
+      bids: [bid('bid-1', { credits: 10, remaining: 0, status: 'filled' })],
+    });
+    const [offer] = db.listings;
+    const [producer, buyer] = db.users;
+    for (const createdAt of ['2026-02-08T00:00:00.000Z', '2026-02-08T00:00:00.000Z', '2026-02-09T12:00:00.000Z']) {
+      const entry = executeTrade(db, offer, producer, buyer, 10, 10);
+      db.deliveries.at(-1)!.createdAt = createdAt;
+      entry.timestamp = createdAt;
+    }
+    db.bids[0].fills = [{ txId: 'tx-1001', offerId: 'offer-1', credits: 10, pricePerCredit: 10, timestamp: '2026-02-08T00:00:00.000Z' }];
+    return db;
+  };
+
+  it('releases trades left unpaid past the payment window and cancels the bids they filled', () => {
+    const db = market();
+
+    assert.deepEqual(sweepUnpaidTrades(db, now), ['tx-1001', 'tx-1002']);
+    assert.equal(db.listings[0].creditsAvailable, 90);
+    assert.deepEqual(db.deliveries.map(d => d.txId), ['tx-1003']);
+    assert.deepEqual(db.ledger.map(r => r.txId), ['tx-1003']);
+    assert.deepEqual([db.bids[0].status, db.bids[0].remaining, db.bids[0].fills], ['cancelled', 10, []]);
+  });
+
+  it('keeps trades with a payment in escrow', () => {
+    const db = market();
+    db.chainEvents.push(chainEvent('PaymentEscrowed', {
+      tradeId: 1, buyer: BUYER, seller: PRODUCER, creditId: 1, amount: 10, payment: 100_000_000, ref: 'dlv-1', paymentValue: 100,
+    }));
+
+    assert.deepEqual(sweepUnpaidTrades(db, now), ['tx-1002']);
+  });
+});
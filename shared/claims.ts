@@ -0,0 +1,101 @@
+/**
+ * Totals and breakdowns of an emissions claim: the kg of H2 retired, grouped
+ * by renewable source, region and retirement reason, with kg-weighted carbon
+ * intensities. Shared so the server's test suite covers the arithmetic the
+ * frontend puts on a claim statement.
+ */
+
+export interface RetirementProof {
+  txHash: string;
+  blockNumber: number;
+  retiredAt: string;
+  ledgerUrl: string;
+}
+
+export interface ClaimedCredit {
+  creditId: number;
+  // kg of H2
+  kg: number;
+  producer: string;
+  producerName: string;
+  productionDate: string;
+  renewableSource: string;
+  location: string;
+  // gCO2/kWh
+  carbonIntensity: number;
+  certifier: string;
+  certificationDate: string;
+  metadata: string;
+  // The issued credit it was split or merged from; its own id if issued directly
+  originId: number;
+  beneficiary: string;
+  reason: string;
+  proof: RetirementProof;
+}
+
+export interface ClaimBreakdown {
+  key: string;
+  kg: number;
+  // Of the kg claimed, 0–1
+  share: number;
+  weightedCarbonIntensity: number;
+}
+
+export interface ClaimReason {
+  beneficiary: string;
+  reason: string;
+  kg: number;
+  creditIds: number[];
+}
+
+export interface ClaimSummary {
+  totals: {
+    credits: number;
+    kg: number;
+    // kg-weighted gCO2/kWh; null when nothing was retired in the period
+    weightedCarbonIntensity: number | null;
+  };
+  bySource: ClaimBreakdown[];
+  byRegion: ClaimBreakdown[];
+  reasons: ClaimReason[];
+}
+
+const weightedIntensity = (credits: ClaimedCredit[]) => {
+  const kg = credits.reduce((sum, c) => sum + c.kg, 0);
+  return kg > 0 ? credits.reduce((sum, c) => sum + c.carbonIntensity * c.kg, 0) / kg : null;
+};
+
+const breakdown = (credits: ClaimedCredit[], keyOf: (credit: ClaimedCredit) => string): ClaimBreakdown[] => {
+  const total = credits.reduce((sum, c) => sum + c.kg, 0);
+  const groups = new Map<string, ClaimedCredit[]>();
+  for (const credit of credits) groups.set(keyOf(credit), [...(groups.get(keyOf(credit)) ?? []), credit]);
+  return [...groups]
+    .map(([key, members]) => {
+      const kg = members.reduce((sum, c) => sum + c.kg, 0);
+      return { key, kg, share: total > 0 ? kg / total : 0, weightedCarbonIntensity: weightedIntensity(members) ?? 0 };
+    })
+    .sort((a, b) => b.kg - a.kg);
+};
+
+// Groups are listed largest first; credits without a source or region count as "Unrecorded".
+export const summarizeClaim = (credits: ClaimedCredit[]): ClaimSummary => {
+  const reasons = new Map<string, ClaimReason>();
+  for (const credit of credits) {
+    const key = `${credit.beneficiary}\n${credit.reason}`;
+    const entry = reasons.get(key) ?? { beneficiary: credit.beneficiary, reason: credit.reason, kg: 0, creditIds: [] };
+    entry.kg += credit.kg;
+    entry.creditIds.push(credit.creditId);
+    reasons.set(key, entry);
+  }
+
+  return {
+    totals: {
+      credits: credits.length,
+      kg: credits.reduce((sum, c) => sum + c.kg, 0),
+      weightedCarbonIntensity: weightedIntensity(credits),
+    },
+    bySource: breakdown(credits, c => c.renewableSource || 'Unrecorded'),
+    byRegion: breakdown(credits, c => c.location || 'Unrecorded'),
+    reasons: [...reasons.values()].sort((a, b) => b.kg - a.kg),
+  };
+};
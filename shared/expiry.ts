@@ -0,0 +1,51 @@
+/**
+ * Credit expiry, mirroring `CREDIT_EXPIRY_DAYS` and `isCreditExpired` in
+ * GreenHydrogenCredit.sol: a credit expires once more than 365 days have
+ * passed since its production date, after which the contract refuses to
+ * transfer or retire it.
+ *
+ * The contract measures against block time; these helpers use the clock they
+ * are given, which on a live chain is within seconds of it. Everything but
+ * `creditExpiresAt` and `isCreditExpired` takes the expiry instant, so offers
+ * (which only carry `expiresAt`) and credits share the same helpers.
+ */
+
+export const CREDIT_EXPIRY_DAYS = 365;
+
+// Owners are told when a credit they hold comes within this many days of expiry.
+export const EXPIRY_WARNING_DAYS = [30, 7, 1] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DateInput = Date | string | number;
+
+const time = (date: DateInput) => new Date(date).getTime();
+
+export const creditExpiresAt = (productionDate: DateInput) =>
+  new Date(time(productionDate) + CREDIT_EXPIRY_DAYS * DAY_MS);
+
+export const hasExpired = (expiresAt: DateInput, now: DateInput = Date.now()) => time(now) > time(expiresAt);
+
+export const isCreditExpired = (productionDate: DateInput, now: DateInput = Date.now()) =>
+  hasExpired(creditExpiresAt(productionDate), now);
+
+// Whole days left, rounded up, so a credit expiring later today has 1 day left; zero or negative once expired.
+export const daysUntilExpiry = (expiresAt: DateInput, now: DateInput = Date.now()) =>
+  Math.ceil((time(expiresAt) - time(now)) / DAY_MS);
+
+// The tightest warning window the expiry falls in, e.g. 7 when 5 days remain; null outside all of them or once expired.
+export const expiryWarningWindow = (expiresAt: DateInput, now: DateInput = Date.now()) => {
+  if (hasExpired(expiresAt, now)) return null;
+  const days = daysUntilExpiry(expiresAt, now);
+  return [...EXPIRY_WARNING_DAYS].sort((a, b) => a - b).find(window => days <= window) ?? null;
+};
+
+/** "Expires in 12 days", "Expires within a day", "Expired 3 days ago". */
+export const describeExpiry = (expiresAt: DateInput, now: DateInput = Date.now()) => {
+  const days = daysUntilExpiry(expiresAt, now);
+  if (hasExpired(expiresAt, now)) {
+    const ago = -days;
+    return ago === 0 ? 'Expired today' : `Expired ${ago} day${ago === 1 ? '' : 's'} ago`;
+  }
+  return days <= 1 ? 'Expires within a day' : `Expires in ${days} days`;
+};
@@ -0,0 +1,70 @@
+/**
+ * Hydrogen quantities and the units they are recorded in.
+ *
+ * - `t`: tonnes of H2, as producers report them (`ProductionReport.tons`).
+ * - `kg`: kilograms of H2, as the contract stores them (`Credit.amount`).
+ * - `credit`: the tradable unit. One credit certifies one kg of H2, so an
+ *   approved report issues `tons * 1000` credits and an on-chain credit of
+ *   `amount` kg is worth `amount` credits.
+ *
+ * Raw numbers cross the API as before; this module is the only place that
+ * converts between them, so a tonne is never mistaken for a credit.
+ */
+
+export type Unit = 't' | 'kg' | 'credit';
+
+export interface Quantity<U extends Unit = Unit> {
+  value: number;
+  unit: U;
+}
+
+export const KG_PER_TONNE = 1000;
+export const KG_PER_CREDIT = 1;
+
+const kgPer: Record<Unit, number> = {
+  t: KG_PER_TONNE,
+  kg: 1,
+  credit: KG_PER_CREDIT,
+};
+
+export const quantity = <U extends Unit>(value: number, unit: U): Quantity<U> => ({ value, unit });
+
+// Rounds away floating-point noise (0.1 t * 1000 = 100.00000000000001 kg).
+const clean = (value: number) => Number(value.toFixed(6));
+
+export const convert = <U extends Unit>(from: Quantity, unit: U): Quantity<U> =>
+  quantity(clean((from.value * kgPer[from.unit]) / kgPer[unit]), unit);
+
+export const tonnesToKg = (tonnes: number) => convert(quantity(tonnes, 't'), 'kg').value;
+export const kgToTonnes = (kg: number) => convert(quantity(kg, 'kg'), 't').value;
+
+// Credits are whole units; reports are kept to the kg, so nothing is lost by rounding.
+export const tonnesToCredits = (tonnes: number) => Math.round(convert(quantity(tonnes, 't'), 'credit').value);
+export const kgToCredits = (kg: number) => Math.round(convert(quantity(kg, 'kg'), 'credit').value);
+export const creditsToTonnes = (credits: number) => convert(quantity(credits, 'credit'), 't').value;
+export const creditsToKg = (credits: number) => convert(quantity(credits, 'credit'), 'kg').value;
+
+// Reported tonnages are accurate to the kg.
+export const TONNE_DECIMALS = 3;
+export const roundTonnes = (tonnes: number) => Number(tonnes.toFixed(TONNE_DECIMALS));
+
+const unitLabels: Record<Unit, { one: string; other: string; short: string }> = {
+  t: { one: 'tonne', other: 'tonnes', short: 't' },
+  kg: { one: 'kg', other: 'kg', short: 'kg' },
+  credit: { one: 'credit', other: 'credits', short: 'credits' },
+};
+
+export const unitLabel = (unit: Unit, value = 2) => unitLabels[unit][value === 1 ? 'one' : 'other'];
+
+const maximumFractionDigits: Record<Unit, number> = { t: TONNE_DECIMALS, kg: 1, credit: 0 };
+
+export const formatAmount = (value: number, unit: Unit) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: maximumFractionDigits[unit] });
+
+/** "40 tonnes", "40,000 kg", "1 credit"; `short` gives "40 t". */
+export const formatQuantity = ({ value, unit }: Quantity, { short = false } = {}) =>
+  `${formatAmount(value, unit)} ${short ? unitLabels[unit].short : unitLabel(unit, value)}`;
+
+export const formatTonnes = (tonnes: number) => formatQuantity(quantity(tonnes, 't'));
+export const formatKg = (kg: number) => formatQuantity(quantity(kg, 'kg'));
+export const formatCredits = (credits: number) => formatQuantity(quantity(credits, 'credit'));
@@ -0,0 +1,279 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+
+describe("Credit Escrow (delivery versus payment)", function () {
+    let greenHydrogenCredit;
+    let stablecoin;
+    let escrow;
+    let escrowAddress;
+    let owner;
+    let auditor1;
+    let producer1;
+    let buyer1;
+    let buyer2;
+    let producer2;
+
+    const usd = (value) => ethers.parseUnits(String(value), 6);
+
+    beforeEach(async function () {
+        [owner, auditor1, producer1, buyer1, buyer2, producer2] = await ethers.getSigners();
+
+        greenHydrogenCredit = await (await ethers.getContractFactory("GreenHydrogenCredit")).deploy();
+        stablecoin = await (await ethers.getContractFactory("MockStablecoin")).deploy();
+        escrow = await (await ethers.getContractFactory("CreditEscrow")).deploy(
+            await greenHydrogenCredit.getAddress(),
+            await stablecoin.getAddress()
+        );
+        escrowAddress = await escrow.getAddress();
+
+        await greenHydrogenCredit.issueCredit(
+            producer1.address,
+            producer1.address,
+            "Test Producer",
+            1000,
+            await time.latest(),
+            "Solar PV",
+            "Test Location",
+            25,
+            "Test metadata"
+        );
+        await greenHydrogenCredit.registerAuditor(auditor1.address, "Test Auditor", "ISO 14064-1:2018");
+        await greenHydrogenCredit.connect(auditor1).verifyCredit(1, 1, "Verified");
+
+        await stablecoin.mint(buyer1.address, usd(10000));
+        await greenHydrogenCredit.connect(producer1).setOperator(escrowAddress, true);
+    });
+
+    const escrowPayment = async (amount, payment, buyer = buyer1) => {
+        await stablecoin.connect(buyer).approve(escrowAddress, payment);
+        await escrow.connect(buyer).escrow(producer1.address, 1, amount, payment, "dlv-1");
+    };
+
+    it("Should hold the buyer's payment in escrow", async function () {
+        await stablecoin.connect(buyer1).approve(escrowAddress, usd(400));
+
+        await expect(escrow.connect(buyer1).escrow(producer1.address, 1, 200, usd(400), "dlv-1"))
+            .to.emit(escrow, "PaymentEscrowed")
+            .withArgs(1, buyer1.address, producer1.address, 1, 200, usd(400), "dlv-1");
+
+        expect(await stablecoin.balanceOf(escrowAddress)).to.equal(usd(400));
+        expect(await stablecoin.balanceOf(buyer1.address)).to.equal(usd(9600));
+        const trade = await escrow.getTrade(1);
+        expect(trade.status).to.equal(0); // Escrowed
+        expect(trade.ref).to.equal("dlv-1");
+    });
+
+    it("Should swap a partial credit for the payment on settlement", async function () {
+        await escrowPayment(200, usd(400));
+
+        await expect(escrow.connect(producer1).settle(1))
+            .to.emit(escrow, "TradeSettled")
+            .withArgs(1, 2, buyer1.address);
+
+        const delivered = await greenHydrogenCredit.getCredit(2);
+        expect(delivered.owner).to.equal(buyer1.address);
+        expect(delivered.amount).to.equal(200);
+        expect((await greenHydrogenCredit.getCredit(3)).owner).to.equal(producer1.address);
+        expect(await stablecoin.balanceOf(producer1.address)).to.equal(usd(400));
+        expect(await stablecoin.balanceOf(escrowAddress)).to.equal(0);
+        expect((await escrow.getTrade(1)).deliveredCreditId).to.equal(2);
+    });
+
+    it("Should transfer the whole credit when the trade covers it", async function () {
+        await escrowPayment(1000, usd(2000));
+
+        await escrow.connect(producer1).settle(1);
+
+        expect((await greenHydrogenCredit.getCredit(1)).owner).to.equal(buyer1.address);
+        expect(await stablecoin.balanceOf(producer1.address)).to.equal(usd(2000));
+    });
+
+    it("Should leave payment and credit untouched when delivery fails", async function () {
+        await escrowPayment(200, usd(400));
+        await greenHydrogenCredit.connect(producer1).setOperator(escrowAddress, false);
+
+        await expect(escrow.connect(producer1).settle(1)).to.be.revertedWith("Not credit owner");
+
+        expect((await greenHydrogenCredit.getCredit(1)).owner).to.equal(producer1.address);
+        expect(await stablecoin.balanceOf(escrowAddress)).to.equal(usd(400));
+        expect(await stablecoin.balanceOf(producer1.address)).to.equal(0);
+        expect((await escrow.getTrade(1)).status).to.equal(0); // Still escrowed
+    });
+
+    it("Should settle from what the seller kept after another trade split the credit", async function () {
+        await stablecoin.mint(buyer2.address, usd(10000));
+        await escrowPayment(200, usd(400));
+        await escrowPayment(300, usd(600), buyer2);
+
+        await escrow.connect(producer1).settle(1);
+        // Credit 1 is now superseded by 2 (buyer1) and the remainder 3 (producer1)
+        await expect(escrow.connect(producer1).settle(2))
+            .to.emit(escrow, "TradeSettled")
+            .withArgs(2, 4, buyer2.address);
+
+        const trade = await escrow.getTrade(2);
+        expect(trade.creditId).to.equal(3);
+        expect((await greenHydrogenCredit.getCredit(4)).owner).to.equal(buyer2.address);
+        expect((await greenHydrogenCredit.getCredit(4)).amount).to.equal(300);
+        expect((await greenHydrogenCredit.getCredit(5)).amount).to.equal(500);
+        expect(await stablecoin.balanceOf(producer1.address)).to.equal(usd(1000));
+    });
+
+    it("Should escrow against the live remainder of a split credit", async function () {
+        await escrowPayment(200, usd(400));
+        await escrow.connect(producer1).settle(1);
+
+        await stablecoin.connect(buyer1).approve(escrowAddress, usd(2000));
+        await expect(escrow.connect(buyer1).escrow(producer1.address, 1, 900, usd(1800), "dlv-2"))
+            .to.be.revertedWith("Seller holds too little of the credit");
+        await expect(escrow.connect(buyer1).escrow(producer1.address, 1, 800, usd(1600), "dlv-2"))
+            .to.emit(escrow, "PaymentEscrowed")
+            .withArgs(2, buyer1.address, producer1.address, 3, 800, usd(1600), "dlv-2");
+    });
+
+    it("Should refuse to settle once the seller no longer holds the credit", async function () {
+        await escrowPayment(200, usd(400));
+        await greenHydrogenCredit.connect(producer1).transferCredit(1, buyer2.address);
+        await greenHydrogenCredit.connect(buyer2).setOperator(escrowAddress, true);
+
+        await expect(escrow.connect(producer1).settle(1)).to.be.revertedWith("Seller no longer holds the credit");
+        expect((await greenHydrogenCredit.getCredit(1)).owner).to.equal(buyer2.address);
+    });
+
+    it("Should refund an unsettled payment and not settle afterwards", async function () {
+        await escrowPayment(200, usd(400));
+
+        await expect(escrow.connect(buyer1).refund(1))
+            .to.emit(escrow, "TradeRefunded")
+            .withArgs(1, buyer1.address, usd(400));
+
+        expect(await stablecoin.balanceOf(buyer1.address)).to.equal(usd(10000));
+        await expect(escrow.connect(producer1).settle(1)).to.be.revertedWith("Trade is not escrowed");
+    });
+
+    it("Should only let the seller settle and the trade's parties refund", async function () {
+        await escrowPayment(200, usd(400));
+
+        await expect(escrow.connect(buyer1).settle(1)).to.be.revertedWith("Only the seller can settle");
+        await expect(escrow.connect(buyer2).settle(1)).to.be.revertedWith("Only the seller can settle");
+        await expect(escrow.connect(buyer2).refund(1)).to.be.revertedWith("Not a party to the trade");
+
+        await escrow.connect(producer1).refund(1);
+        expect(await stablecoin.balanceOf(buyer1.address)).to.equal(usd(10000));
+    });
+
+    it("Should reject escrow without enough allowance or against a credit the seller doesn't hold", async function () {
+        await stablecoin.connect(buyer1).approve(escrowAddress, usd(100));
+        await expect(
+            escrow.connect(buyer1).escrow(producer1.address, 1, 200, usd(400), "dlv-1")
+        ).to.be.revertedWith("Insufficient allowance");
+
+        await expect(
+            escrow.connect(buyer1).escrow(buyer2.address, 1, 200, 0, "dlv-1")
+        ).to.be.revertedWith("Seller does not hold the credit");
+
+        await expect(
+            escrow.connect(buyer1).escrow(producer1.address, 1, 1001, 0, "dlv-1")
+        ).to.be.revertedWith("Amount exceeds the credit");
+    });
+
+    describe("Baskets", function () {
+        const leg = (seller, creditId, amount, payment, ref) => ({ seller, creditId, amount, payment, ref });
+
+        beforeEach(async function () {
+            await greenHydrogenCredit.issueCredit(
+                producer2.address,
+                producer2.address,
+                "Second Producer",
+                500,
+                await time.latest(),
+                "Wind",
+                "Test Location",
+                20,
+                "Test metadata"
+            );
+            await greenHydrogenCredit.connect(auditor1).verifyCredit(2, 1, "Verified");
+            await greenHydrogenCredit.connect(producer2).setOperator(escrowAddress, true);
+        });
+
+        const escrowBasket = async () => {
+            await stablecoin.connect(buyer1).approve(escrowAddress, usd(1000));
+            await escrow.connect(buyer1).escrowBasket([
+                leg(producer1.address, 1, 200, usd(400), "dlv-1"),
+                leg(producer2.address, 2, 300, usd(600), "dlv-2"),
+            ]);
+        };
+
+        it("Should pull the basket's total payment once", async function () {
+            await stablecoin.connect(buyer1).approve(escrowAddress, usd(1000));
+
+            await expect(escrow.connect(buyer1).escrowBasket([
+                leg(producer1.address, 1, 200, usd(400), "dlv-1"),
+                leg(producer2.address, 2, 300, usd(600), "dlv-2"),
+            ]))
+                .to.emit(escrow, "BasketEscrowed")
+                .withArgs(1, buyer1.address, [1, 2], usd(1000));
+
+            expect(await stablecoin.balanceOf(escrowAddress)).to.equal(usd(1000));
+            expect(await escrow.basketOf(2)).to.equal(1);
+            expect((await escrow.getBasket(1)).tradeIds).to.deep.equal([1n, 2n]);
+        });
+
+        it("Should escrow nothing if any leg is invalid", async function () {
+            await stablecoin.connect(buyer1).approve(escrowAddress, usd(1000));
+
+            await expect(escrow.connect(buyer1).escrowBasket([
+                leg(producer1.address, 1, 200, usd(400), "dlv-1"),
+                leg(producer2.address, 2, 501, usd(600), "dlv-2"),
+            ])).to.be.revertedWith("Amount exceeds the credit");
+
+            expect(await stablecoin.balanceOf(escrowAddress)).to.equal(0);
+            expect(await escrow.nextTradeId()).to.equal(1);
+        });
+
+        it("Should deliver every leg only once all sellers have accepted", async function () {
+            await escrowBasket();
+
+            await expect(escrow.connect(producer1).settle(1))
+                .to.emit(escrow, "TradeAccepted")
+                .withArgs(1, 1, producer1.address);
+            expect((await escrow.getTrade(1)).status).to.equal(0); // Still escrowed
+            expect(await stablecoin.balanceOf(producer1.address)).to.equal(0);
+            await expect(escrow.connect(producer1).settle(1)).to.be.revertedWith("Trade already accepted");
+
+            await expect(escrow.connect(producer2).settle(2))
+                .to.emit(escrow, "TradeSettled").withArgs(1, 3, buyer1.address)
+                .and.to.emit(escrow, "TradeSettled").withArgs(2, 5, buyer1.address);
+
+            expect((await greenHydrogenCredit.getCredit(3)).owner).to.equal(buyer1.address);
+            expect((await greenHydrogenCredit.getCredit(5)).owner).to.equal(buyer1.address);
+            expect(await stablecoin.balanceOf(producer1.address)).to.equal(usd(400));
+            expect(await stablecoin.balanceOf(producer2.address)).to.equal(usd(600));
+        });
+
+        it("Should deliver no leg if one can no longer be delivered", async function () {
+            await escrowBasket();
+            await escrow.connect(producer1).settle(1);
+            await greenHydrogenCredit.connect(producer1).setOperator(escrowAddress, false);
+
+            await expect(escrow.connect(producer2).settle(2)).to.be.revertedWith("Not credit owner");
+
+            expect((await greenHydrogenCredit.getCredit(2)).owner).to.equal(producer2.address);
+            expect(await stablecoin.balanceOf(escrowAddress)).to.equal(usd(1000));
+            expect(await escrow.accepted(2)).to.equal(false);
+        });
+
+        it("Should refund the whole basket when any leg is declined", async function () {
+            await escrowBasket();
+            await escrow.connect(producer1).settle(1);
+
+            await expect(escrow.connect(producer2).refund(2))
+                .to.emit(escrow, "TradeRefunded").withArgs(1, buyer1.address, usd(400))
+                .and.to.emit(escrow, "TradeRefunded").withArgs(2, buyer1.address, usd(600));
+
+            expect(await stablecoin.balanceOf(buyer1.address)).to.equal(usd(10000));
+            await expect(escrow.connect(producer1).settle(1)).to.be.revertedWith("Trade is not escrowed");
+        });
+    });
+});
@@ -1,5 +1,6 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
+const { takeSnapshot, time } = require("@nomicfoundation/hardhat-network-helpers");
 
 describe("Green Hydrogen Credit System", function () {
     let GreenHydrogenCredit;
@@ -345,6 +346,45 @@ describe("Green Hydrogen Credit System", function () {
             ).to.be.revertedWith("Not credit owner");
         });
 
+        it("Should let approved operators transfer but not retire on the owner's behalf", async function () {
+            await expect(greenHydrogenCredit.connect(producer1).setOperator(user1.address, true))
+                .to.emit(greenHydrogenCredit, "OperatorSet")
+                .withArgs(producer1.address, user1.address, true);
+
+            await greenHydrogenCredit.connect(user1).transferPartial(1, user2.address, 300);
+            expect((await greenHydrogenCredit.getCredit(2)).owner).to.equal(user2.address);
+            expect((await greenHydrogenCredit.getCredit(3)).owner).to.equal(producer1.address);
+
+            await expect(
+                greenHydrogenCredit.connect(user1).retireCredit(3, "Not theirs")
+            ).to.be.revertedWith("Not credit owner");
+
+            await greenHydrogenCredit.connect(producer1).setOperator(user1.address, false);
+            await expect(
+                greenHydrogenCredit.connect(user1).transferCredit(3, user2.address)
+            ).to.be.revertedWith("Not credit owner");
+        });
+
+        it("Should let approved operators transfer part of a credit but not split or merge it", async function () {
+            await greenHydrogenCredit.connect(producer1).setOperator(user1.address, true);
+
+            await expect(
+                greenHydrogenCredit.connect(user1).splitCredit(1, [600, 400])
+            ).to.be.revertedWith("Not credit owner");
+
+            await expect(greenHydrogenCredit.connect(user1).transferPartial(1, user2.address, 400))
+                .to.emit(greenHydrogenCredit, "CreditSplit").withArgs(2, 1, producer1.address, 400)
+                .and.to.emit(greenHydrogenCredit, "CreditTransferred").withArgs(2, producer1.address, user2.address);
+            const remainder = await greenHydrogenCredit.getCredit(3);
+            expect(remainder.owner).to.equal(producer1.address);
+            expect(remainder.amount).to.equal(600);
+
+            await greenHydrogenCredit.connect(user1).transferPartial(3, producer1.address, 100);
+            await expect(
+                greenHydrogenCredit.connect(user1).mergeCredits([4, 5])
+            ).to.be.revertedWith("Not credit owner");
+        });
+
         it("Should prevent transfer of unverified credits", async function () {
             // Issue another unverified credit
             await greenHydrogenCredit.issueCredit(
@@ -391,6 +431,203 @@ describe("Green Hydrogen Credit System", function () {
         });
     });
 
+    describe("Credit Expiry", function () {
+        const EXPIRY = 365 * 24 * 60 * 60;
+        let snapshot;
+
+        beforeEach(async function () {
+            // Later tests date their credits with the wall clock, so the time travel here must be undone
+            snapshot = await takeSnapshot();
+
+            await greenHydrogenCredit.issueCredit(
+                producer1.address,
+                producer1.address,
+                "Test Producer",
+                1000,
+                await time.latest(),
+                "Solar PV",
+                "Test Location",
+                25,
+                "Test metadata"
+            );
+
+            await greenHydrogenCredit.registerAuditor(
+                auditor1.address,
+                "Test Auditor",
+                "ISO 14064-1:2018"
+            );
+
+            await greenHydrogenCredit.connect(auditor1).verifyCredit(1, 1, "Verified");
+        });
+
+        afterEach(async function () {
+            await snapshot.restore();
+        });
+
+        it("Should not expire a credit until CREDIT_EXPIRY_DAYS have passed", async function () {
+            const credit = await greenHydrogenCredit.getCredit(1);
+            await time.setNextBlockTimestamp(credit.productionDate + BigInt(EXPIRY));
+
+            await greenHydrogenCredit.connect(producer1).transferCredit(1, user1.address);
+            expect(await greenHydrogenCredit.isCreditExpired(1)).to.be.false;
+            expect((await greenHydrogenCredit.getCredit(1)).owner).to.equal(user1.address);
+        });
+
+        it("Should expire a credit after CREDIT_EXPIRY_DAYS", async function () {
+            await time.increase(EXPIRY + 1);
+
+            expect(await greenHydrogenCredit.isCreditExpired(1)).to.be.true;
+        });
+
+        it("Should prevent transfer of expired credits", async function () {
+            await time.increase(EXPIRY + 1);
+
+            await expect(
+                greenHydrogenCredit.connect(producer1).transferCredit(1, user1.address)
+            ).to.be.revertedWith("Credit has expired");
+        });
+
+        it("Should prevent retirement of expired credits", async function () {
+            await time.increase(EXPIRY + 1);
+
+            await expect(
+                greenHydrogenCredit.connect(producer1).retireCredit(1, "Late retirement")
+            ).to.be.revertedWith("Credit has expired");
+        });
+    });
+
+    describe("Splitting and Merging", function () {
+        beforeEach(async function () {
+            await greenHydrogenCredit.issueCredit(
+                producer1.address,
+                producer1.address,
+                "Test Producer",
+                1000,
+                Math.floor(Date.now() / 1000),
+                "Solar PV",
+                "Test Location",
+                25,
+                "Test metadata"
+            );
+
+            await greenHydrogenCredit.registerAuditor(
+                auditor1.address,
+                "Test Auditor",
+                "ISO 14064-1:2018"
+            );
+
+            await greenHydrogenCredit.connect(auditor1).verifyCredit(1, 1, "Verified");
+        });
+
+        it("Should split a credit into children that inherit its provenance", async function () {
+            await expect(greenHydrogenCredit.connect(producer1).splitCredit(1, [600, 400]))
+                .to.emit(greenHydrogenCredit, "CreditSplit").withArgs(2, 1, producer1.address, 600)
+                .and.to.emit(greenHydrogenCredit, "CreditSplit").withArgs(3, 1, producer1.address, 400);
+
+            const parent = await greenHydrogenCredit.getCredit(1);
+            const child = await greenHydrogenCredit.getCredit(2);
+            expect(parent.status).to.equal(3); // Superseded
+            expect(child.amount).to.equal(600);
+            expect(child.producerName).to.equal(parent.producerName);
+            expect(child.productionDate).to.equal(parent.productionDate);
+            expect(child.renewableSource).to.equal(parent.renewableSource);
+            expect(child.verificationStatus).to.equal(1);
+            expect(child.status).to.equal(0);
+
+            expect(await greenHydrogenCredit.getCreditChildren(1)).to.deep.equal([2n, 3n]);
+            expect(await greenHydrogenCredit.getCreditParents(3)).to.deep.equal([1n]);
+            expect(await greenHydrogenCredit.creditOrigin(3)).to.equal(1);
+            expect([...await greenHydrogenCredit.getOwnerCredits(producer1.address)]).to.have.members([2n, 3n]);
+            expect(await greenHydrogenCredit.getTotalCreditsByProducer(producer1.address)).to.equal(1000);
+        });
+
+        it("Should require split amounts to add up to the credit", async function () {
+            await expect(
+                greenHydrogenCredit.connect(producer1).splitCredit(1, [600, 300])
+            ).to.be.revertedWith("Amounts must add up to the credit amount");
+
+            await expect(
+                greenHydrogenCredit.connect(producer1).splitCredit(1, [1000, 0])
+            ).to.be.revertedWith("Amount must be greater than 0");
+        });
+
+        it("Should transfer part of a credit and keep the remainder", async function () {
+            await greenHydrogenCredit.connect(producer1).transferPartial(1, user1.address, 250);
+
+            const sold = await greenHydrogenCredit.getCredit(2);
+            const remainder = await greenHydrogenCredit.getCredit(3);
+            expect(sold.owner).to.equal(user1.address);
+            expect(sold.amount).to.equal(250);
+            expect(remainder.owner).to.equal(producer1.address);
+            expect(remainder.amount).to.equal(750);
+            expect(await greenHydrogenCredit.getOwnerCredits(user1.address)).to.deep.equal([2n]);
+            expect(await greenHydrogenCredit.getOwnerCredits(producer1.address)).to.deep.equal([3n]);
+        });
+
+        it("Should reject partial transfers of the whole credit", async function () {
+            await expect(
+                greenHydrogenCredit.connect(producer1).transferPartial(1, user1.address, 1000)
+            ).to.be.revertedWith("Partial amount must be between 0 and the credit amount");
+        });
+
+        it("Should prevent using a superseded credit", async function () {
+            await greenHydrogenCredit.connect(producer1).splitCredit(1, [500, 500]);
+
+            await expect(
+                greenHydrogenCredit.connect(producer1).transferCredit(1, user1.address)
+            ).to.be.revertedWith("Credit is not active");
+            await expect(
+                greenHydrogenCredit.connect(producer1).retireCredit(1, "Double claim")
+            ).to.be.revertedWith("Credit is not active");
+            await expect(
+                greenHydrogenCredit.suspendCredit(1, "Too late")
+            ).to.be.revertedWith("Credit has been split or merged");
+        });
+
+        it("Should merge credits of the same origin", async function () {
+            await greenHydrogenCredit.connect(producer1).transferPartial(1, user1.address, 200);
+            await greenHydrogenCredit.connect(producer1).transferPartial(3, user1.address, 300);
+
+            await expect(greenHydrogenCredit.connect(user1).mergeCredits([2, 4]))
+                .to.emit(greenHydrogenCredit, "CreditMerged").withArgs(6, 2, user1.address, 200)
+                .and.to.emit(greenHydrogenCredit, "CreditMerged").withArgs(6, 4, user1.address, 300);
+
+            const merged = await greenHydrogenCredit.getCredit(6);
+            expect(merged.owner).to.equal(user1.address);
+            expect(merged.amount).to.equal(500);
+            expect(await greenHydrogenCredit.getCreditParents(6)).to.deep.equal([2n, 4n]);
+            expect(await greenHydrogenCredit.creditOrigin(6)).to.equal(1);
+            expect(await greenHydrogenCredit.getOwnerCredits(user1.address)).to.deep.equal([6n]);
+        });
+
+        it("Should refuse to merge credits of different origins", async function () {
+            await greenHydrogenCredit.issueCredit(
+                producer1.address,
+                producer1.address,
+                "Test Producer",
+                500,
+                Math.floor(Date.now() / 1000),
+                "Wind",
+                "Other Location",
+                10,
+                "Other metadata"
+            );
+            await greenHydrogenCredit.connect(auditor1).verifyCredit(2, 1, "Verified");
+
+            await expect(
+                greenHydrogenCredit.connect(producer1).mergeCredits([1, 2])
+            ).to.be.revertedWith("Credits must share the same origin");
+        });
+
+        it("Should refuse to merge credits held by someone else", async function () {
+            await greenHydrogenCredit.connect(producer1).transferPartial(1, user1.address, 200);
+
+            await expect(
+                greenHydrogenCredit.connect(producer1).mergeCredits([2, 3])
+            ).to.be.revertedWith("Not credit owner");
+        });
+    });
+
     describe("View Functions", function () {
         beforeEach(async function () {
             // Issue multiple credits